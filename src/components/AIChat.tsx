@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -6,14 +6,28 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { Loader2, Send, Sparkles } from "lucide-react";
-
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
-  provider?: string;
-  model?: string;
-}
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Download, Loader2, Send, Sparkles, Square } from "lucide-react";
+import { format } from "date-fns";
+import { saveAs } from "file-saver";
+import { ChatThreadList } from "./ChatThreadList";
+import type { DocumentType } from "@/utils/documentTypes";
+import {
+  createChatThread,
+  deleteChatThread,
+  loadChatMessages,
+  loadChatThreads,
+  renameChatThread,
+  saveChatMessage,
+  threadTitleFor,
+  type ChatMessage as Message,
+  type ChatThread,
+  type ContextPage,
+} from "@/utils/chatThreads";
+import { chatTranscriptDocx, chatTranscriptPdf } from "@/utils/chatTranscript";
+import { streamChat } from "@/utils/chatStream";
+import { CITATION_INSTRUCTIONS, extractCitations, nextSourceIndex, sourceTag, threadSources, type Citation } from "@/utils/chatCitations";
+import { CitedAnswer } from "./CitedAnswer";
 
 interface DiagnosisContext {
   diagnosis: string;
@@ -22,11 +36,16 @@ interface DiagnosisContext {
 
 interface AIChatProps {
   diagnosesContext?: { context: DiagnosisContext[]; fileIds: string[] } | null;
+  workspaceId?: string;
+  workspaceName?: string;
   workspaceFiles?: Array<{ id: string; file_name: string; page_count: number | null }>;
   externalInput?: string;
   onExternalInputProcessed?: () => void;
   onResponseGenerated?: (label: string, content: string) => void;
   externalLabel?: string;
+  // Restricts document search for the external input, e.g. imaging reports for the Imaging section
+  externalDocumentTypes?: DocumentType[];
+  onOpenCitation?: (citation: Citation) => void;
 }
 
 const AI_PROVIDERS = [
@@ -86,63 +105,197 @@ const AI_PROVIDERS = [
   },
 ];
 
-export const AIChat = ({ diagnosesContext, workspaceFiles, externalInput, onExternalInputProcessed, onResponseGenerated, externalLabel }: AIChatProps) => {
+// Earlier user messages are resent with the context retrieved for them, so follow-up questions
+// (and resumed threads) still see the pages under discussion; only the most recent turns keep it
+// to stay within the providers' context limits
+const HISTORY_CONTEXT_TURNS = 3;
+
+export const AIChat = ({ diagnosesContext, workspaceId, workspaceName, workspaceFiles, externalInput, onExternalInputProcessed, onResponseGenerated, externalLabel, externalDocumentTypes, onOpenCitation }: AIChatProps) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [provider, setProvider] = useState('claude');
   const [model, setModel] = useState('');
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  // The thread on screen, read when a reply arrives in case the user has moved to another one
+  const activeThreadRef = useRef<string | null>(null);
+  // The reply as it streams in, shown until it is complete
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const currentProvider = AI_PROVIDERS.find(p => p.value === provider);
   const availableModels = currentProvider?.models || [];
 
+  const showThread = (threadId: string | null, threadMessages: Message[] = []) => {
+    activeThreadRef.current = threadId;
+    setActiveThreadId(threadId);
+    setMessages(threadMessages);
+  };
+
+  // Threads belong to a workspace, so switching workspaces starts from a fresh chat
+  useEffect(() => {
+    showThread(null);
+    setThreads([]);
+    if (!workspaceId) return;
+
+    loadChatThreads(workspaceId).then(loaded => {
+      if (loaded) setThreads(loaded);
+      else toast.error('Failed to load chat history');
+    });
+  }, [workspaceId]);
+
+  // Resuming a thread picks up the provider and model that last answered in it
+  const handleSelectThread = async (threadId: string) => {
+    if (threadId === activeThreadId || loading) return;
+    const loaded = await loadChatMessages(threadId);
+    if (!loaded) {
+      toast.error('Failed to load chat');
+      return;
+    }
+    showThread(threadId, loaded);
+
+    const lastReply = [...loaded].reverse().find(m => m.role === 'assistant' && m.provider);
+    if (lastReply?.provider && AI_PROVIDERS.some(p => p.value === lastReply.provider)) {
+      setProvider(lastReply.provider);
+      setModel(lastReply.model || '');
+    }
+  };
+
+  const handleRenameThread = async (threadId: string, title: string) => {
+    if (!await renameChatThread(threadId, title)) {
+      toast.error('Failed to rename chat');
+      return;
+    }
+    setThreads(prev => prev.map(t => t.id === threadId ? { ...t, title } : t));
+  };
+
+  const handleDeleteThread = async (threadId: string) => {
+    const thread = threads.find(t => t.id === threadId);
+    if (!confirm(`Delete the chat "${thread?.title || 'Untitled'}"?`)) return;
+    if (!await deleteChatThread(threadId)) {
+      toast.error('Failed to delete chat');
+      return;
+    }
+    setThreads(prev => prev.filter(t => t.id !== threadId));
+    if (threadId === activeThreadRef.current) showThread(null);
+  };
+
+  const handleExport = async (kind: 'docx' | 'pdf') => {
+    if (messages.length === 0) return;
+    const title = threads.find(t => t.id === activeThreadId)?.title || threadTitleFor(messages[0].content);
+    const info = { title, workspaceName };
+    const fileName = `${title.replace(/[^a-z0-9]+/gi, '_').replace(/^_|_$/g, '') || 'Chat'}_transcript.${kind}`;
+    try {
+      const blob = kind === 'docx' ? await chatTranscriptDocx(info, messages) : chatTranscriptPdf(info, messages);
+      saveAs(blob, fileName);
+    } catch (error) {
+      console.error('Error exporting chat transcript:', error);
+      toast.error('Failed to export transcript');
+    }
+  };
+
+  // An answer can cite the sources of its question and of the earlier questions resent with it
+  const sourcesFor = (index: number) => threadSources(messages.slice(0, index));
+
+  // Saves to the thread the message was sent in; without a workspace the chat is not kept
+  const persistMessage = async (threadId: string | null, message: Message) => {
+    if (!threadId) return;
+    const id = await saveChatMessage(threadId, message);
+    if (!id) {
+      toast.error('Failed to save chat message');
+      return;
+    }
+    setThreads(prev => {
+      const thread = prev.find(t => t.id === threadId);
+      return thread
+        ? [{ ...thread, updatedAt: message.createdAt }, ...prev.filter(t => t.id !== threadId)]
+        : prev;
+    });
+  };
+
   // Handle external input (e.g., from Chart Review)
   useEffect(() => {
     if (externalInput && !loading) {
       setInput(externalInput);
       // Trigger send after a short delay to allow state to update
       setTimeout(() => {
-        handleSend(externalInput, externalLabel);
+        handleSend(externalInput, externalLabel, externalDocumentTypes);
         onExternalInputProcessed?.();
       }, 100);
     }
   }, [externalInput]);
 
-  const handleSend = async (overrideInput?: string, label?: string) => {
+  const handleSend = async (overrideInput?: string, label?: string, documentTypes?: DocumentType[]) => {
     const messageContent = overrideInput || input;
     if (!messageContent.trim() || loading) return;
 
-    const userMessage: Message = { role: 'user', content: messageContent };
-    setMessages(prev => [...prev, userMessage]);
+    const selectedModel = model || availableModels[0]?.value;
+    // Shown straight away, then replaced by the full message once its context has been retrieved
+    const pendingMessage: Message = { role: 'user', content: messageContent, createdAt: new Date().toISOString() };
+    setMessages(prev => [...prev, pendingMessage]);
     setInput('');
     setLoading(true);
 
+    let threadId = activeThreadRef.current;
     try {
-      // Perform RAG search on all workspace files if available
+      if (workspaceId && !threadId) {
+        const thread = await createChatThread(workspaceId, threadTitleFor(messageContent));
+        if (thread) {
+          threadId = thread.id;
+          activeThreadRef.current = thread.id;
+          setActiveThreadId(thread.id);
+          setThreads(prev => [thread, ...prev]);
+        } else {
+          toast.error('Failed to save chat');
+        }
+      }
+
+      // Retrieve relevant pages from all workspace files if available
       let ragContext = '';
-      if (workspaceFiles && workspaceFiles.length > 0) {
+      const contextPages: ContextPage[] = [];
+      const firstSource = nextSourceIndex(messages);
+      if (workspaceId && workspaceFiles && workspaceFiles.length > 0) {
         try {
-          // Use all workspace file IDs for RAG search
-          const fileIds = workspaceFiles.map(f => f.id);
-
-          // Perform RAG search
-          const { data: searchResults, error: searchError } = await supabase.functions.invoke('rag-search', {
+          // Hybrid search fuses vector similarity with keyword ranking, so exact terms are not missed.
+          // Every file in the workspace is searched, so no file filter is sent - the search is
+          // already scoped to the workspace.
+          const searchPages = (types?: DocumentType[]) => supabase.functions.invoke('hybrid-search', {
             body: {
-              query: input,
-              fileIds: fileIds,
+              query: messageContent.slice(0, 500),
+              workspaceId,
               limit: 10,
+              documentTypes: types,
             },
           });
 
-          if (!searchError && searchResults?.matches && searchResults.matches.length > 0) {
-            ragContext = '\n\n--- Relevant Document Context (via RAG Vector Search) ---\n';
-            searchResults.matches.forEach((match: any, idx: number) => {
-              ragContext += `\n${idx + 1}. [File: ${match.file_name}, Page ${match.page_number}, Chunk ${match.chunk_index}] (Relevance: ${(match.similarity * 100).toFixed(1)}%)\n${match.content}\n`;
+          let { data: searchResults, error: searchError } = await searchPages(documentTypes);
+          // Files that were never classified have no typed pages, so fall back to searching everything
+          if (documentTypes && !searchError && !searchResults?.hits?.length) {
+            ({ data: searchResults, error: searchError } = await searchPages());
+          }
+
+          if (!searchError && searchResults?.hits && searchResults.hits.length > 0) {
+            ragContext = '\n\n--- Relevant Document Context (via Hybrid Search) ---\n';
+            searchResults.hits.forEach((hit: any) => {
+              const matchedBy = [
+                hit.similarity !== null && `semantic ${(hit.similarity * 100).toFixed(1)}%`,
+                hit.keyword_rank !== null && `keyword rank ${hit.keyword_rank}`,
+              ].filter(Boolean).join(', ');
+              const ref = sourceTag(firstSource + contextPages.length);
+              ragContext += `\n[${ref}] [File: ${hit.file_name}, Page ${hit.page_number}] (${matchedBy})\n${hit.content}\n`;
+              contextPages.push({
+                fileId: hit.file_id,
+                fileName: hit.file_name,
+                pageNum: hit.page_number,
+                ref,
+                excerpt: hit.content,
+              });
             });
             ragContext += '--- End RAG Context ---\n\n';
           }
         } catch (ragError) {
-          console.error('RAG search error:', ragError);
+          console.error('Hybrid search error:', ragError);
         }
       }
 
@@ -153,8 +306,10 @@ export const AIChat = ({ diagnosesContext, workspaceFiles, externalInput, onExte
         diagnosisContext += 'These documents have been explicitly selected for detailed analysis:\n\n';
         diagnosesContext.context.forEach(({ diagnosis, files }) => {
           diagnosisContext += `\nDiagnosis: ${diagnosis}\nAssociated Pages:\n`;
-          files.forEach(({ fileName, pageNum, text }) => {
-            diagnosisContext += `  - ${fileName}, Page ${pageNum}\n`;
+          files.forEach(({ fileName, pageNum, text, fileId }) => {
+            const ref = sourceTag(firstSource + contextPages.length);
+            diagnosisContext += `  - [${ref}] ${fileName}, Page ${pageNum}\n`;
+            contextPages.push({ fileId: fileId || null, fileName, pageNum, ref });
             if (text) {
               diagnosisContext += `    Full Text: ${text}\n`;
             }
@@ -163,7 +318,8 @@ export const AIChat = ({ diagnosesContext, workspaceFiles, externalInput, onExte
         diagnosisContext += '--- End Direct Context ---\n\n';
       }
 
-      const fullContext = ragContext + diagnosisContext;
+      let fullContext = ragContext + diagnosisContext;
+      if (contextPages.length > 0) fullContext += CITATION_INSTRUCTIONS;
       
       if (fullContext) {
         console.log('Sending document context to AI:', {
@@ -174,201 +330,293 @@ export const AIChat = ({ diagnosesContext, workspaceFiles, externalInput, onExte
         });
       }
       
-      const messagesToSend = fullContext
-        ? [
-            ...messages.map(m => ({ role: m.role, content: m.content })),
-            { role: 'user' as const, content: fullContext + userMessage.content }
-          ]
-        : [...messages, userMessage].map(m => ({ role: m.role, content: m.content }));
-
-      const { data, error } = await supabase.functions.invoke('multi-provider-chat', {
-        body: {
-          provider,
-          model: model || availableModels[0]?.value,
-          messages: messagesToSend,
-          workspaceFiles: workspaceFiles || [],
+      const userMessage: Message = {
+        role: 'user',
+        content: messageContent,
+        provider,
+        model: selectedModel,
+        ragContext: fullContext || null,
+        contextPages,
+        createdAt: pendingMessage.createdAt,
+      };
+      setMessages(prev => prev.map(m => m === pendingMessage ? userMessage : m));
+      await persistMessage(threadId, userMessage);
+
+      const userTurns = messages.filter(m => m.role === 'user');
+      const keepContextFrom = userTurns[Math.max(0, userTurns.length - HISTORY_CONTEXT_TURNS)];
+      let keepContext = false;
+      const messagesToSend = [
+        ...messages.map(m => {
+          if (m === keepContextFrom) keepContext = true;
+          return { role: m.role, content: keepContext && m.ragContext ? m.ragContext + m.content : m.content };
+        }),
+        { role: 'user' as const, content: fullContext + userMessage.content },
+      ];
+
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setStreamingText('');
+      const reply = await streamChat({
+        provider,
+        model: selectedModel,
+        messages: messagesToSend,
+        workspaceFiles: workspaceFiles || [],
+      }, {
+        signal: controller.signal,
+        onText: (text) => {
+          if (activeThreadRef.current === threadId) setStreamingText(text);
         },
       });
 
-      if (error) throw error;
+      if (reply.stopped && !reply.content) {
+        toast.info('Response stopped');
+        return;
+      }
 
       const assistantMessage: Message = {
         role: 'assistant',
-        content: data.content,
-        provider: data.provider,
-        model: data.model,
+        content: reply.stopped ? `${reply.content}\n\n[Response stopped]` : reply.content,
+        provider: reply.provider,
+        model: reply.model,
+        citations: extractCitations(reply.content, threadSources([...messages, userMessage])),
+        createdAt: new Date().toISOString(),
       };
-      setMessages(prev => [...prev, assistantMessage]);
+      if (activeThreadRef.current === threadId) setMessages(prev => [...prev, assistantMessage]);
+      await persistMessage(threadId, assistantMessage);
       
       // If this was triggered by Chart Review, notify with the response
-      if (label && onResponseGenerated) {
-        onResponseGenerated(label, data.content);
+      if (label && onResponseGenerated && !reply.stopped) {
+        onResponseGenerated(label, reply.content);
       }
     } catch (error: any) {
       console.error('Chat error:', error);
       toast.error(error.message || 'Failed to get response');
     } finally {
+      abortRef.current = null;
+      setStreamingText(null);
       setLoading(false);
     }
   };
 
   return (
-    <Card className="flex flex-col h-[600px] max-w-4xl mx-auto">
-      <div className="border-b p-4 space-y-3">
-        <div className="flex items-center gap-2">
-          <Sparkles className="w-5 h-5 text-primary" />
-          <h2 className="text-lg font-semibold">Multi-Provider AI Chat</h2>
-        </div>
-        
-        <div className="flex gap-3">
-          <div className="flex-1">
-            <Select value={provider} onValueChange={(v) => { setProvider(v); setModel(''); }}>
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                {AI_PROVIDERS.map(p => (
-                  <SelectItem key={p.value} value={p.value}>
-                    {p.label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+    <Card className="flex h-[600px] max-w-5xl mx-auto overflow-hidden">
+      {workspaceId && (
+        <ChatThreadList
+          threads={threads}
+          activeThreadId={activeThreadId}
+          onSelect={handleSelectThread}
+          onNew={() => !loading && showThread(null)}
+          onRename={handleRenameThread}
+          onDelete={handleDeleteThread}
+        />
+      )}
+      <div className="flex flex-col flex-1 min-w-0">
+        <div className="border-b p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <Sparkles className="w-5 h-5 text-primary" />
+            <h2 className="text-lg font-semibold">Multi-Provider AI Chat</h2>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="gap-2 ml-auto" disabled={messages.length === 0}>
+                  <Download className="w-4 h-4" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport('docx')}>Transcript as DOCX</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('pdf')}>Transcript as PDF</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
+        
+          <div className="flex gap-3">
+            <div className="flex-1">
+              <Select value={provider} onValueChange={(v) => { setProvider(v); setModel(''); }}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AI_PROVIDERS.map(p => (
+                    <SelectItem key={p.value} value={p.value}>
+                      {p.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           
-          <div className="flex-1">
-            <Select value={model} onValueChange={setModel}>
-              <SelectTrigger>
-                <SelectValue placeholder="Model (default)" />
-              </SelectTrigger>
-              <SelectContent>
-                {availableModels.map(m => (
-                  <SelectItem key={m.value} value={m.value}>
-                    {m.label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+            <div className="flex-1">
+              <Select value={model} onValueChange={setModel}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Model (default)" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableModels.map(m => (
+                    <SelectItem key={m.value} value={m.value}>
+                      {m.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         </div>
-      </div>
 
-      <ScrollArea className="flex-1 p-4">
-        {workspaceFiles && workspaceFiles.length > 0 && (
-          <div className="mb-4 p-3 bg-secondary/10 border border-secondary/20 rounded-lg">
-            <p className="text-xs font-medium text-secondary mb-1 flex items-center gap-1">
-              <Sparkles className="w-3 h-3" />
-              Workspace Files Available ({workspaceFiles.length})
-            </p>
-            <div className="text-xs text-muted-foreground space-y-1">
-              <p>AI has access to all files in this workspace:</p>
-              <div className="ml-2 max-h-20 overflow-y-auto">
-                {workspaceFiles.map((file, idx) => (
-                  <div key={idx}>
-                    • {file.file_name}{file.page_count ? ` (${file.page_count} pages)` : ''}
+        <ScrollArea className="flex-1 p-4">
+          {workspaceFiles && workspaceFiles.length > 0 && (
+            <div className="mb-4 p-3 bg-secondary/10 border border-secondary/20 rounded-lg">
+              <p className="text-xs font-medium text-secondary mb-1 flex items-center gap-1">
+                <Sparkles className="w-3 h-3" />
+                Workspace Files Available ({workspaceFiles.length})
+              </p>
+              <div className="text-xs text-muted-foreground space-y-1">
+                <p>AI has access to all files in this workspace:</p>
+                <div className="ml-2 max-h-20 overflow-y-auto">
+                  {workspaceFiles.map((file, idx) => (
+                    <div key={idx}>
+                      • {file.file_name}{file.page_count ? ` (${file.page_count} pages)` : ''}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        
+          {diagnosesContext && diagnosesContext.context.length > 0 && (
+            <div className="mb-4 p-3 bg-primary/10 border border-primary/20 rounded-lg">
+              <p className="text-xs font-medium text-primary mb-1 flex items-center gap-1">
+                <Sparkles className="w-3 h-3" />
+                Direct Context Active - "Add to Chat" Selected
+              </p>
+              <div className="text-xs text-muted-foreground space-y-1">
+                <p className="font-medium">Full document content attached:</p>
+                {diagnosesContext.context.map((ctx, idx) => (
+                  <div key={idx} className="ml-2">
+                    • {ctx.diagnosis}: {ctx.files.length} page{ctx.files.length !== 1 ? 's' : ''}
                   </div>
                 ))}
+                <p className="mt-2 text-xs italic">
+                  ✓ Complete page content included in conversation
+                </p>
               </div>
             </div>
-          </div>
-        )}
+          )}
         
-        {diagnosesContext && diagnosesContext.context.length > 0 && (
-          <div className="mb-4 p-3 bg-primary/10 border border-primary/20 rounded-lg">
-            <p className="text-xs font-medium text-primary mb-1 flex items-center gap-1">
-              <Sparkles className="w-3 h-3" />
-              Direct Context Active - "Add to Chat" Selected
-            </p>
-            <div className="text-xs text-muted-foreground space-y-1">
-              <p className="font-medium">Full document content attached:</p>
-              {diagnosesContext.context.map((ctx, idx) => (
-                <div key={idx} className="ml-2">
-                  • {ctx.diagnosis}: {ctx.files.length} page{ctx.files.length !== 1 ? 's' : ''}
-                </div>
-              ))}
-              <p className="mt-2 text-xs italic">
-                ✓ Complete page content included in conversation
+          {(!diagnosesContext || diagnosesContext.context.length === 0) && workspaceFiles && workspaceFiles.length > 0 && (
+            <div className="mb-4 p-3 bg-muted/50 border border-border rounded-lg">
+              <p className="text-xs font-medium mb-1">📋 RAG Search Active</p>
+              <p className="text-xs text-muted-foreground">
+                AI will search across all {workspaceFiles.length} workspace files to find relevant information. 
+                Use "Add to Chat" in diagnosis tracker to attach full document content.
               </p>
             </div>
-          </div>
-        )}
+          )}
         
-        {(!diagnosesContext || diagnosesContext.context.length === 0) && workspaceFiles && workspaceFiles.length > 0 && (
-          <div className="mb-4 p-3 bg-muted/50 border border-border rounded-lg">
-            <p className="text-xs font-medium mb-1">📋 RAG Search Active</p>
-            <p className="text-xs text-muted-foreground">
-              AI will search across all {workspaceFiles.length} workspace files to find relevant information. 
-              Use "Add to Chat" in diagnosis tracker to attach full document content.
-            </p>
-          </div>
-        )}
-        
-        {messages.length === 0 ? (
-          <div className="flex flex-col items-center justify-center h-full text-center text-muted-foreground">
-            <Sparkles className="w-12 h-12 mb-4 text-muted-foreground/50" />
-            <p className="text-lg font-medium mb-2">Medical AI Assistant</p>
-            <p className="text-sm max-w-md mb-4">
-              {workspaceFiles && workspaceFiles.length > 0
-                ? `AI has access to all ${workspaceFiles.length} files in this workspace`
-                : diagnosesContext && diagnosesContext.context.length > 0 
-                  ? 'AI can now see your selected medical documents and diagnoses'
-                  : 'Select diagnoses in the tracker above (check "Add to Chat") to give AI additional context'}
-            </p>
-            {(diagnosesContext && diagnosesContext.context.length > 0) || (workspaceFiles && workspaceFiles.length > 0) ? (
-              <div className="text-xs text-muted-foreground/70 max-w-md">
-                <p className="mb-2">Try asking:</p>
-                <ul className="list-disc text-left pl-4 space-y-1">
-                  <li>"What files are in this workspace?"</li>
-                  <li>"What diagnoses are documented in these files?"</li>
-                  <li>"Summarize the medical findings"</li>
-                  <li>"What treatments are mentioned?"</li>
-                </ul>
-              </div>
-            ) : null}
-          </div>
-        ) : (
-          <div className="space-y-4">
-            {messages.map((msg, idx) => (
-              <div
-                key={idx}
-                className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
-              >
+          {messages.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-full text-center text-muted-foreground">
+              <Sparkles className="w-12 h-12 mb-4 text-muted-foreground/50" />
+              <p className="text-lg font-medium mb-2">Medical AI Assistant</p>
+              <p className="text-sm max-w-md mb-4">
+                {workspaceFiles && workspaceFiles.length > 0
+                  ? `AI has access to all ${workspaceFiles.length} files in this workspace`
+                  : diagnosesContext && diagnosesContext.context.length > 0 
+                    ? 'AI can now see your selected medical documents and diagnoses'
+                    : 'Select diagnoses in the tracker above (check "Add to Chat") to give AI additional context'}
+              </p>
+              {(diagnosesContext && diagnosesContext.context.length > 0) || (workspaceFiles && workspaceFiles.length > 0) ? (
+                <div className="text-xs text-muted-foreground/70 max-w-md">
+                  <p className="mb-2">Try asking:</p>
+                  <ul className="list-disc text-left pl-4 space-y-1">
+                    <li>"What files are in this workspace?"</li>
+                    <li>"What diagnoses are documented in these files?"</li>
+                    <li>"Summarize the medical findings"</li>
+                    <li>"What treatments are mentioned?"</li>
+                  </ul>
+                </div>
+              ) : null}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {messages.map((msg, idx) => (
                 <div
-                  className={`max-w-[80%] rounded-lg p-3 ${
-                    msg.role === 'user'
-                      ? 'bg-primary text-primary-foreground'
-                      : 'bg-muted'
-                  }`}
+                  key={idx}
+                  className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
                 >
-                  {msg.role === 'assistant' && msg.provider && (
-                    <div className="text-xs text-muted-foreground mb-1">
-                      {msg.provider} • {msg.model}
+                  <div
+                    className={`max-w-[80%] rounded-lg p-3 ${
+                      msg.role === 'user'
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-muted'
+                    }`}
+                  >
+                    <div className={`text-xs mb-1 ${msg.role === 'user' ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
+                      {msg.role === 'assistant' && msg.provider && `${msg.provider} • ${msg.model} • `}
+                      {format(new Date(msg.createdAt), 'd MMM HH:mm')}
                     </div>
-                  )}
-                  <p className="whitespace-pre-wrap">{msg.content}</p>
+                    {msg.role === 'assistant' ? (
+                      <CitedAnswer
+                        content={msg.content}
+                        sources={sourcesFor(idx)}
+                        onOpenCitation={onOpenCitation}
+                      />
+                    ) : (
+                      <p className="whitespace-pre-wrap">{msg.content}</p>
+                    )}
+                    {msg.contextPages && msg.contextPages.length > 0 && (
+                      <details className="mt-2 text-xs text-primary-foreground/80">
+                        <summary className="cursor-pointer">Context: {msg.contextPages.length} page{msg.contextPages.length !== 1 ? 's' : ''}</summary>
+                        <ul className="mt-1 space-y-0.5">
+                          {msg.contextPages.map((page, i) => (
+                            <li key={i}>{page.fileName}, page {page.pageNum}</li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
+                  </div>
                 </div>
-              </div>
-            ))}
-          </div>
-        )}
-      </ScrollArea>
-
-      <div className="border-t p-4">
-        <div className="flex gap-2">
-          <Input
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={(e) => e.key === 'Enter' && !e.shiftKey && handleSend()}
-            placeholder="Type your message..."
-            disabled={loading}
-          />
-          <Button onClick={() => handleSend()} disabled={loading || !input.trim()}>
+              ))}
+              {loading && (
+                <div className="flex justify-start">
+                  <div className="max-w-[80%] rounded-lg p-3 bg-muted">
+                    {streamingText ? (
+                      <p className="whitespace-pre-wrap">{streamingText}<span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-foreground/60 animate-pulse" /></p>
+                    ) : (
+                      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        {streamingText === null ? 'Searching documents...' : 'Waiting for the model...'}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </ScrollArea>
+
+        <div className="border-t p-4">
+          <div className="flex gap-2">
+            <Input
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && !e.shiftKey && handleSend()}
+              placeholder="Type your message..."
+              disabled={loading}
+            />
             {loading ? (
-              <Loader2 className="w-4 h-4 animate-spin" />
+              <Button
+                variant="destructive"
+                onClick={() => abortRef.current?.abort()}
+                disabled={!abortRef.current}
+                title="Stop the response"
+              >
+                <Square className="w-4 h-4" />
+              </Button>
             ) : (
-              <Send className="w-4 h-4" />
+              <Button onClick={() => handleSend()} disabled={!input.trim()}>
+                <Send className="w-4 h-4" />
+              </Button>
             )}
-          </Button>
+          </div>
         </div>
       </div>
     </Card>
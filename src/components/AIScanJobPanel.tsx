@@ -0,0 +1,180 @@
+import { useMemo } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2, Pause, Play, RotateCw, X, Sparkles, AlertCircle } from "lucide-react";
+import { PAGE_DELAY_MS, type ScanJob, type ScanJobPage } from "@/hooks/use-ai-scan-queue";
+
+interface AIScanJobPanelProps {
+  job: ScanJob;
+  pages: ScanJobPage[];
+  isRunning: boolean;
+  fileNames: Record<string, string>;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onRetryPage: (pageId: string) => void;
+  onRetryFailed: () => void;
+  onDismiss: () => void;
+}
+
+const STATUS_LABELS: Record<ScanJob["status"], string> = {
+  queued: "Queued",
+  running: "Running",
+  paused: "Paused",
+  failed: "Finished with errors",
+  done: "Done",
+};
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+};
+
+export const AIScanJobPanel = ({
+  job,
+  pages,
+  isRunning,
+  fileNames,
+  onPause,
+  onResume,
+  onCancel,
+  onRetryPage,
+  onRetryFailed,
+  onDismiss,
+}: AIScanJobPanelProps) => {
+  const stats = useMemo(() => {
+    const finished = pages.filter(p => p.status === 'done' || p.status === 'failed');
+    const failed = pages.filter(p => p.status === 'failed');
+    const remaining = pages.filter(p => p.status === 'queued' || p.status === 'paused' || p.status === 'running').length;
+
+    // Estimate from the average time of pages completed so far
+    const timed = finished.filter(p => p.started_at && p.finished_at);
+    const averageMs = timed.length > 0
+      ? timed.reduce((sum, p) => sum + (new Date(p.finished_at!).getTime() - new Date(p.started_at!).getTime()), 0) / timed.length + PAGE_DELAY_MS
+      : null;
+
+    const byFile = new Map<string, { total: number; finished: number; failed: number }>();
+    pages.forEach(p => {
+      const entry = byFile.get(p.file_id) || { total: 0, finished: 0, failed: 0 };
+      entry.total++;
+      if (p.status === 'done' || p.status === 'failed') entry.finished++;
+      if (p.status === 'failed') entry.failed++;
+      byFile.set(p.file_id, entry);
+    });
+
+    return {
+      finished: finished.length,
+      failed,
+      remaining,
+      etaMs: averageMs !== null && remaining > 0 ? averageMs * remaining : null,
+      byFile,
+    };
+  }, [pages]);
+
+  const percent = pages.length > 0 ? (stats.finished / pages.length) * 100 : 0;
+
+  return (
+    <Card className="p-4 shadow-medium mb-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          {isRunning ? (
+            <Loader2 className="w-4 h-4 animate-spin text-primary" />
+          ) : (
+            <Sparkles className="w-4 h-4 text-primary" />
+          )}
+          <h3 className="text-sm font-semibold">AI Auto-scan</h3>
+          <Badge variant={job.status === 'failed' ? 'destructive' : 'secondary'}>{STATUS_LABELS[job.status]}</Badge>
+          <span className="text-xs text-muted-foreground">{job.model}</span>
+        </div>
+        <div className="flex gap-2">
+          {job.status === 'running' && (
+            <Button variant="outline" size="sm" className="gap-1" onClick={onPause}>
+              <Pause className="w-3 h-3" />
+              Pause
+            </Button>
+          )}
+          {(job.status === 'paused' || job.status === 'queued') && (
+            <Button variant="outline" size="sm" className="gap-1" onClick={onResume}>
+              <Play className="w-3 h-3" />
+              Resume
+            </Button>
+          )}
+          {stats.failed.length > 0 && (
+            <Button variant="outline" size="sm" className="gap-1" onClick={onRetryFailed}>
+              <RotateCw className="w-3 h-3" />
+              Retry failed ({stats.failed.length})
+            </Button>
+          )}
+          {job.status === 'done' ? (
+            <Button variant="ghost" size="sm" className="gap-1" onClick={onDismiss}>
+              <X className="w-3 h-3" />
+              Dismiss
+            </Button>
+          ) : (
+            <Button variant="ghost" size="sm" className="gap-1 text-destructive" onClick={onCancel}>
+              <X className="w-3 h-3" />
+              Cancel
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-1 mb-3">
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>{stats.finished}/{pages.length} pages</span>
+          {stats.etaMs !== null && job.status === 'running' && (
+            <span>About {formatDuration(stats.etaMs)} left</span>
+          )}
+        </div>
+        <Progress value={percent} className="h-2" />
+      </div>
+
+      <div className="space-y-2">
+        {Array.from(stats.byFile.entries()).map(([fileId, entry]) => (
+          <div key={fileId} className="space-y-1">
+            <div className="flex justify-between text-xs">
+              <span className="truncate">{fileNames[fileId] || 'Unknown file'}</span>
+              <span className="text-muted-foreground flex-shrink-0 ml-2">
+                {entry.finished}/{entry.total}
+                {entry.failed > 0 && <span className="text-destructive"> · {entry.failed} failed</span>}
+              </span>
+            </div>
+            <Progress value={(entry.finished / entry.total) * 100} className="h-1" />
+          </div>
+        ))}
+      </div>
+
+      {stats.failed.length > 0 && (
+        <div className="mt-3">
+          <p className="text-xs font-medium mb-1 flex items-center gap-1 text-destructive">
+            <AlertCircle className="w-3 h-3" />
+            Failed pages
+          </p>
+          <ScrollArea className="max-h-32">
+            <div className="space-y-1">
+              {stats.failed.map(page => (
+                <div key={page.id} className="flex items-center gap-2 text-xs">
+                  <span className="truncate flex-1">
+                    {fileNames[page.file_id] || 'Unknown file'} - Page {page.page_number}
+                    {page.error && <span className="text-muted-foreground"> ({page.error})</span>}
+                  </span>
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onRetryPage(page.id)}>
+                    <RotateCw className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,401 @@
+import { useEffect, useRef, useState, type PointerEvent as ReactPointerEvent } from "react";
+import { formatDistanceToNow } from "date-fns";
+import * as pdfjsLib from "pdfjs-dist";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverAnchor, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { StickyNote, Trash2 } from "lucide-react";
+import { useWorkspace } from "@/contexts/WorkspaceContext";
+import { makePageKey } from "@/utils/pageKeys";
+import {
+  ANNOTATION_KIND_LABELS,
+  NOTE_SIZE,
+  annotationColor,
+  clampRect,
+  cssColor,
+  diagnosisColor,
+  fromDisplayRect,
+  mergeLineRects,
+  toDisplayRect,
+  type AnnotationKind,
+  type AnnotationRect,
+  type PageAnnotation,
+} from "@/utils/annotations";
+
+const NO_DIAGNOSIS = "__none__";
+// Drags smaller than this (as a fraction of the page) are treated as stray clicks
+const MIN_DRAG = 0.005;
+
+interface AnnotationLayerProps {
+  pdf: pdfjsLib.PDFDocumentProxy | null;
+  fileId: string;
+  pageNum: number;
+  rotation: number;
+  tool: AnnotationKind | null;
+  diagnosis: string | null;
+  diagnoses: string[];
+  visible: boolean;
+}
+
+const percentStyle = (rect: AnnotationRect) => ({
+  left: `${rect.x * 100}%`,
+  top: `${rect.y * 100}%`,
+  width: `${rect.width * 100}%`,
+  height: `${rect.height * 100}%`,
+});
+
+// The pdf.js text layer is laid out on the unrotated page, so it is turned clockwise about its
+// top left corner and moved back into the rotated frame
+const textLayerTransform = (rotation: number, width: number, height: number) => {
+  switch (rotation) {
+    case 90: return `translateX(${width}px) rotate(90deg)`;
+    case 180: return `translate(${width}px, ${height}px) rotate(180deg)`;
+    case 270: return `translateY(${height}px) rotate(270deg)`;
+    default: return undefined;
+  }
+};
+
+const AnnotationDetails = ({ annotation, diagnoses }: { annotation: PageAnnotation; diagnoses: string[] }) => {
+  const { setAnnotationDiagnosis, removeAnnotation, addAnnotationComment } = useWorkspace();
+  const [comment, setComment] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const options = annotation.diagnosis && !diagnoses.includes(annotation.diagnosis)
+    ? [annotation.diagnosis, ...diagnoses]
+    : diagnoses;
+
+  const handleComment = async () => {
+    setSaving(true);
+    if (await addAnnotationComment(annotation, comment)) setComment("");
+    setSaving(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: cssColor(annotationColor(annotation)) }} />
+          {ANNOTATION_KIND_LABELS[annotation.kind]}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-destructive"
+          onClick={() => removeAnnotation(annotation)}
+          title="Delete annotation"
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+      {annotation.quotedText && (
+        <blockquote className="border-l-2 pl-2 text-xs italic text-muted-foreground line-clamp-4">
+          {annotation.quotedText}
+        </blockquote>
+      )}
+      {annotation.kind !== 'redaction' && (
+        <Select
+          value={annotation.diagnosis || NO_DIAGNOSIS}
+          onValueChange={(value) => setAnnotationDiagnosis(annotation, value === NO_DIAGNOSIS ? null : value)}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_DIAGNOSIS}>No diagnosis</SelectItem>
+            {options.map(name => (
+              <SelectItem key={name} value={name}>
+                <span className="flex items-center gap-2">
+                  <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: cssColor(diagnosisColor(name)) }} />
+                  {name}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {annotation.comments.length > 0 && (
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {annotation.comments.map(c => (
+            <div key={c.id} className="text-xs">
+              <div className="text-muted-foreground">
+                <span className="font-medium text-foreground">{c.authorName || 'Unknown'}</span>
+                {c.createdAt && ` · ${formatDistanceToNow(new Date(c.createdAt), { addSuffix: true })}`}
+              </div>
+              <p className="whitespace-pre-wrap">{c.body}</p>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="space-y-2">
+        <Textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="Add a comment..."
+          className="min-h-[60px] text-xs"
+        />
+        <Button size="sm" className="w-full" onClick={handleComment} disabled={saving || !comment.trim()}>
+          Comment
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// Saved annotations of one page drawn over the page canvas, plus drawing of new ones with the
+// active tool. Rects are placed in percentages of the canvas, so CSS scaling of the canvas
+// needs no extra handling.
+export const AnnotationLayer = ({ pdf, fileId, pageNum, rotation, tool, diagnosis, diagnoses, visible }: AnnotationLayerProps) => {
+  const { pageAnnotations, addAnnotation, addAnnotationComment } = useWorkspace();
+  const rootRef = useRef<HTMLDivElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [pageWidth, setPageWidth] = useState(0);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<AnnotationRect | null>(null);
+  const [pendingNote, setPendingNote] = useState<AnnotationRect | null>(null);
+  const [noteText, setNoteText] = useState("");
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const annotations = pageAnnotations[makePageKey(fileId, pageNum)] || [];
+
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(root);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    setDraft(null);
+    setDragStart(null);
+    setPendingNote(null);
+    setOpenId(null);
+  }, [fileId, pageNum, tool]);
+
+  // The text layer only exists while the text tool is active, as it would otherwise swallow the
+  // clicks that open the enlarged page
+  useEffect(() => {
+    const container = textLayerRef.current;
+    if (tool !== 'text_highlight' || !pdf || !container) return;
+
+    let textLayer: pdfjsLib.TextLayer | null = null;
+    let cancelled = false;
+
+    const renderTextLayer = async () => {
+      try {
+        const page = await pdf.getPage(pageNum);
+        if (cancelled) return;
+        const viewport = page.getViewport({ scale: 1, rotation: 0 });
+        setPageWidth(viewport.width);
+        container.replaceChildren();
+        textLayer = new pdfjsLib.TextLayer({
+          textContentSource: page.streamTextContent(),
+          container,
+          viewport,
+        });
+        await textLayer.render();
+      } catch (error) {
+        if (!cancelled) console.error("Error rendering text layer:", error);
+      }
+    };
+    renderTextLayer();
+
+    return () => {
+      cancelled = true;
+      textLayer?.cancel();
+      container.replaceChildren();
+    };
+  }, [tool, pdf, pageNum]);
+
+  const pointAt = (e: { clientX: number; clientY: number }) => {
+    const bounds = rootRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - bounds.left) / bounds.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - bounds.top) / bounds.height)),
+    };
+  };
+
+  const rectBetween = (a: { x: number; y: number }, b: { x: number; y: number }): AnnotationRect => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  });
+
+  // Pointer events from popovers bubble through the portal into this layer, so only those that
+  // happened on the page itself count
+  const onPage = (e: ReactPointerEvent<HTMLDivElement>) => !!rootRef.current?.contains(e.target as Node);
+
+  const handlePointerDown = (e: ReactPointerEvent<HTMLDivElement>) => {
+    if ((tool !== 'highlight' && tool !== 'redaction') || !onPage(e)) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(pointAt(e));
+  };
+
+  const handlePointerMove = (e: ReactPointerEvent<HTMLDivElement>) => {
+    if (dragStart) setDraft(rectBetween(dragStart, pointAt(e)));
+  };
+
+  const handlePointerUp = async (e: ReactPointerEvent<HTMLDivElement>) => {
+    if (tool === 'note' && onPage(e)) {
+      const { x, y } = pointAt(e);
+      setNoteText("");
+      setPendingNote({ x: Math.min(x, 1 - NOTE_SIZE), y: Math.min(y, 1 - NOTE_SIZE), width: NOTE_SIZE, height: NOTE_SIZE });
+      return;
+    }
+    if (!dragStart || !tool) return;
+
+    const rect = rectBetween(dragStart, pointAt(e));
+    setDragStart(null);
+    setDraft(null);
+    if (rect.width < MIN_DRAG || rect.height < MIN_DRAG) return;
+
+    await addAnnotation({
+      fileId,
+      pageNum,
+      kind: tool,
+      rects: [clampRect(fromDisplayRect(rect, rotation))],
+      diagnosis: tool === 'redaction' ? null : diagnosis,
+    });
+  };
+
+  const handleTextSelected = async () => {
+    const selection = window.getSelection();
+    const root = rootRef.current;
+    if (!selection || selection.isCollapsed || !root) return;
+
+    const quotedText = selection.toString().replace(/\s+/g, ' ').trim();
+    const bounds = root.getBoundingClientRect();
+    const rects = mergeLineRects(
+      Array.from(selection.getRangeAt(0).getClientRects()).map(r => clampRect(fromDisplayRect({
+        x: (r.left - bounds.left) / bounds.width,
+        y: (r.top - bounds.top) / bounds.height,
+        width: r.width / bounds.width,
+        height: r.height / bounds.height,
+      }, rotation)))
+    );
+    selection.removeAllRanges();
+    if (!quotedText || rects.length === 0) return;
+
+    await addAnnotation({ fileId, pageNum, kind: 'text_highlight', rects, quotedText, diagnosis });
+  };
+
+  const handleSaveNote = async () => {
+    if (!pendingNote || !noteText.trim()) return;
+    const note = await addAnnotation({
+      fileId,
+      pageNum,
+      kind: 'note',
+      rects: [clampRect(fromDisplayRect(pendingNote, rotation))],
+      diagnosis,
+    });
+    if (note) await addAnnotationComment(note, noteText);
+    setPendingNote(null);
+  };
+
+  const drawing = tool === 'highlight' || tool === 'redaction' || tool === 'note';
+  // Zooming in the viewer changes the canvas size, so the text layer is scaled to what is shown
+  const unrotatedWidth = rotation === 90 || rotation === 270 ? size.height : size.width;
+
+  return (
+    <div
+      ref={rootRef}
+      className={`absolute inset-0 ${drawing ? 'cursor-crosshair' : 'pointer-events-none'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      {visible && annotations.map(annotation => {
+        const color = annotationColor(annotation);
+        const rects = annotation.rects.map(rect => toDisplayRect(rect, rotation));
+        const interactive = tool ? 'pointer-events-none' : 'pointer-events-auto cursor-pointer';
+
+        return (
+          <Popover
+            key={annotation.id}
+            open={openId === annotation.id}
+            onOpenChange={(open) => setOpenId(open ? annotation.id : null)}
+          >
+            {rects.map((rect, i) => {
+              const mark = annotation.kind === 'note' ? (
+                <div
+                  className={`absolute flex items-center justify-center ${interactive}`}
+                  style={percentStyle(rect)}
+                  title={annotation.comments[0]?.body}
+                >
+                  <StickyNote className="w-5 h-5 drop-shadow" style={{ color: cssColor(color), fill: cssColor(color, 0.3) }} />
+                </div>
+              ) : (
+                <div
+                  className={`absolute ${annotation.kind === 'redaction' ? '' : 'mix-blend-multiply'} ${interactive}`}
+                  style={{
+                    ...percentStyle(rect),
+                    backgroundColor: cssColor(color, annotation.kind === 'redaction' ? 0.85 : 0.35),
+                  }}
+                  onClick={i > 0 ? () => setOpenId(annotation.id) : undefined}
+                />
+              );
+              return i === 0
+                ? <PopoverTrigger key={i} asChild>{mark}</PopoverTrigger>
+                : <div key={i} className="contents">{mark}</div>;
+            })}
+            <PopoverContent className="w-80">
+              <AnnotationDetails annotation={annotation} diagnoses={diagnoses} />
+            </PopoverContent>
+          </Popover>
+        );
+      })}
+
+      {draft && (
+        <div
+          className={`absolute border-2 border-dashed ${tool === 'redaction' ? 'border-foreground bg-black/50' : 'border-primary'}`}
+          style={{
+            ...percentStyle(draft),
+            ...(tool === 'highlight' ? { backgroundColor: cssColor(diagnosisColor(diagnosis), 0.35) } : {}),
+          }}
+        />
+      )}
+
+      {pendingNote && (
+        <Popover open onOpenChange={(open) => !open && setPendingNote(null)}>
+          <PopoverAnchor asChild>
+            <div className="absolute flex items-center justify-center" style={percentStyle(pendingNote)}>
+              <StickyNote className="w-5 h-5" style={{ color: cssColor(diagnosisColor(diagnosis)) }} />
+            </div>
+          </PopoverAnchor>
+          <PopoverContent className="w-72 space-y-2">
+            <Textarea
+              autoFocus
+              value={noteText}
+              onChange={(e) => setNoteText(e.target.value)}
+              placeholder="Write a note..."
+              className="min-h-[80px] text-xs"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setPendingNote(null)}>Cancel</Button>
+              <Button size="sm" onClick={handleSaveNote} disabled={!noteText.trim()}>Save note</Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+      )}
+
+      {tool === 'text_highlight' && (
+        <div
+          ref={textLayerRef}
+          className="absolute left-0 top-0 overflow-hidden leading-none pointer-events-auto origin-top-left selection:bg-blue-500/30 [&_span]:absolute [&_span]:whitespace-pre [&_span]:text-transparent [&_span]:cursor-text [&_span]:origin-top-left [&_br]:select-none"
+          style={{
+            transform: textLayerTransform(rotation, size.width, size.height),
+            ['--total-scale-factor' as string]: pageWidth ? unrotatedWidth / pageWidth : 1,
+            ['--scale-round-x' as string]: '1px',
+            ['--scale-round-y' as string]: '1px',
+          }}
+          onMouseUp={handleTextSelected}
+        />
+      )}
+    </div>
+  );
+};
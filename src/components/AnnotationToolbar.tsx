@@ -0,0 +1,91 @@
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Eye, EyeOff, Highlighter, SquareDashed, StickyNote, TextSelect } from "lucide-react";
+import {
+  ANNOTATION_KIND_LABELS,
+  cssColor,
+  diagnosisColor,
+  type AnnotationKind,
+} from "@/utils/annotations";
+
+const TOOL_ICONS: Record<AnnotationKind, typeof Highlighter> = {
+  highlight: Highlighter,
+  text_highlight: TextSelect,
+  note: StickyNote,
+  redaction: SquareDashed,
+};
+
+const NO_DIAGNOSIS = "__none__";
+
+interface AnnotationToolbarProps {
+  tool: AnnotationKind | null;
+  onToolChange: (tool: AnnotationKind | null) => void;
+  // Diagnosis new annotations are filed under, which sets their colour
+  diagnosis: string | null;
+  onDiagnosisChange: (diagnosis: string | null) => void;
+  diagnoses: string[];
+  visible: boolean;
+  onVisibleChange: (visible: boolean) => void;
+  count: number;
+}
+
+export const AnnotationToolbar = ({
+  tool,
+  onToolChange,
+  diagnosis,
+  onDiagnosisChange,
+  diagnoses,
+  visible,
+  onVisibleChange,
+  count,
+}: AnnotationToolbarProps) => (
+  <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b bg-toolbar-background">
+    <span className="text-sm font-medium">Annotate:</span>
+    <ToggleGroup
+      type="single"
+      size="sm"
+      value={tool || ""}
+      onValueChange={(value) => onToolChange((value as AnnotationKind) || null)}
+    >
+      {(Object.keys(TOOL_ICONS) as AnnotationKind[]).map(kind => {
+        const Icon = TOOL_ICONS[kind];
+        return (
+          <ToggleGroupItem key={kind} value={kind} className="gap-1.5 text-xs" title={ANNOTATION_KIND_LABELS[kind]}>
+            <Icon className="w-4 h-4" />
+            {ANNOTATION_KIND_LABELS[kind]}
+          </ToggleGroupItem>
+        );
+      })}
+    </ToggleGroup>
+    <Select
+      value={diagnosis || NO_DIAGNOSIS}
+      onValueChange={(value) => onDiagnosisChange(value === NO_DIAGNOSIS ? null : value)}
+    >
+      <SelectTrigger className="w-48 h-8 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_DIAGNOSIS}>No diagnosis</SelectItem>
+        {diagnoses.map(name => (
+          <SelectItem key={name} value={name}>
+            <span className="flex items-center gap-2">
+              <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: cssColor(diagnosisColor(name)) }} />
+              {name}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    <Button
+      variant="ghost"
+      size="sm"
+      className="gap-1 h-8 ml-auto text-xs"
+      onClick={() => onVisibleChange(!visible)}
+      title={visible ? "Hide annotations" : "Show annotations"}
+    >
+      {visible ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+      {count} on this page
+    </Button>
+  </div>
+);
@@ -0,0 +1,88 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Stamp } from "lucide-react";
+import { formatBatesNumber, STAMP_POSITIONS, type StampPosition } from "@/utils/evidenceBundle";
+import type { BatesStampSettings as Settings } from "@/hooks/use-bates-stamp-settings";
+
+const POSITION_LABELS: Record<StampPosition, string> = {
+  'bottom-right': 'Bottom right',
+  'bottom-center': 'Bottom centre',
+  'bottom-left': 'Bottom left',
+  'top-right': 'Top right',
+  'top-left': 'Top left',
+};
+
+interface BatesStampSettingsProps {
+  settings: Settings;
+  onChange: (changes: Partial<Settings>) => void;
+}
+
+export const BatesStampSettings = ({ settings, onChange }: BatesStampSettingsProps) => {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant={settings.enabled ? "secondary" : "outline"} size="sm" className="gap-2">
+          <Stamp className="w-4 h-4" />
+          {settings.enabled ? `Stamping from ${formatBatesNumber(settings.prefix, settings.startNumber)}` : "Page Stamps"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4" align="end">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="bates-enabled" className="font-medium">Stamp exported pages</Label>
+          <Switch
+            id="bates-enabled"
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => onChange({ enabled })}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Every page of a diagnosis export gets a sequential reference, and a CSV index mapping each reference to its source file, page and diagnoses is downloaded with it.
+        </p>
+        <div className="space-y-2">
+          <Label htmlFor="bates-prefix">Prefix</Label>
+          <Input
+            id="bates-prefix"
+            value={settings.prefix}
+            maxLength={20}
+            onChange={(e) => onChange({ prefix: e.target.value.toUpperCase() })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="bates-start">Next number</Label>
+          <Input
+            id="bates-start"
+            type="number"
+            min={1}
+            value={settings.startNumber}
+            onChange={(e) => {
+              const value = parseInt(e.target.value, 10);
+              if (Number.isInteger(value) && value > 0) onChange({ startNumber: value });
+            }}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Position</Label>
+          <Select value={settings.position} onValueChange={(position) => onChange({ position: position as StampPosition })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STAMP_POSITIONS.map(position => (
+                <SelectItem key={position} value={position}>
+                  {POSITION_LABELS[position]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Next page: <span className="font-mono">{formatBatesNumber(settings.prefix, settings.startNumber)}</span>. The number advances after each stamped export.
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+};
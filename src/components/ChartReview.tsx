@@ -10,9 +10,10 @@ import { Document, Paragraph, TextRun, HeadingLevel, AlignmentType, Packer } fro
 import { saveAs } from "file-saver";
 import { uploadPdfToStorage } from "@/utils/supabaseStorage";
 import { supabase } from "@/integrations/supabase/client";
+import type { DocumentType } from "@/utils/documentTypes";
 
 interface ChartReviewProps {
-  onSendInstruction: (instruction: string, label: string) => void;
+  onSendInstruction: (instruction: string, label: string, documentTypes?: DocumentType[]) => void;
   aiResponse?: { label: string; content: string } | null;
   onResponseProcessed?: () => void;
   isProcessing?: boolean;
@@ -26,6 +27,8 @@ interface ChartSection {
   id: string;
   label: string;
   instruction: string;
+  // Document search is limited to pages of these types when any are classified
+  documentTypes?: DocumentType[];
   response?: string;
   isGenerating?: boolean;
 }
@@ -33,7 +36,7 @@ interface ChartSection {
 const DEFAULT_SECTIONS: ChartSection[] = [
   { id: "intro", label: "Intro", instruction: "Generate a comprehensive introduction for this patient's chart review, including patient demographics and overview." },
   { id: "risk-factors", label: "Risk Factor Analysis", instruction: "Analyze and summarize all risk factors identified in the medical records." },
-  { id: "imaging", label: "Imaging", instruction: "Summarize all imaging studies, findings, and their clinical significance." },
+  { id: "imaging", label: "Imaging", instruction: "Summarize all imaging studies, findings, and their clinical significance.", documentTypes: ["imaging_report"] },
   { id: "surgeries", label: "Surgeries", instruction: "List and describe all surgical procedures, including dates and outcomes." },
   { id: "conditions", label: "Conditions", instruction: "Catalog all diagnosed medical conditions with relevant details." },
   { id: "condition-summary", label: "Condition Summary", instruction: "Provide a comprehensive summary of all conditions and their interrelationships." },
@@ -208,7 +211,7 @@ export const ChartReview = ({ onSendInstruction, aiResponse, onResponseProcessed
         : s
     ));
     setActiveSection(section.id);
-    onSendInstruction(section.instruction, section.label);
+    onSendInstruction(section.instruction, section.label, section.documentTypes);
     toast.info(`Generating ${section.label}...`);
   };
 
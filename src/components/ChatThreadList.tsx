@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { MessageSquare, Pencil, Plus, Trash2 } from "lucide-react";
+import type { ChatThread } from "@/utils/chatThreads";
+
+interface ChatThreadListProps {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  onSelect: (threadId: string) => void;
+  onNew: () => void;
+  onRename: (threadId: string, title: string) => void;
+  onDelete: (threadId: string) => void;
+}
+
+export const ChatThreadList = ({ threads, activeThreadId, onSelect, onNew, onRename, onDelete }: ChatThreadListProps) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState("");
+
+  const startRename = (thread: ChatThread) => {
+    setRenamingId(thread.id);
+    setRenameText(thread.title);
+  };
+
+  const finishRename = () => {
+    if (renamingId && renameText.trim()) onRename(renamingId, renameText.trim());
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="w-56 border-r flex flex-col min-h-0">
+      <div className="p-2 border-b">
+        <Button variant="outline" size="sm" className="w-full gap-2" onClick={onNew}>
+          <Plus className="w-4 h-4" />
+          New chat
+        </Button>
+      </div>
+      <ScrollArea className="flex-1">
+        {threads.length === 0 ? (
+          <p className="p-3 text-xs text-muted-foreground">No saved chats in this workspace yet.</p>
+        ) : (
+          <div className="p-1 space-y-0.5">
+            {threads.map(thread => (
+              <div
+                key={thread.id}
+                className={`group flex items-start gap-2 rounded-md px-2 py-1.5 cursor-pointer ${
+                  thread.id === activeThreadId ? 'bg-accent' : 'hover:bg-muted'
+                }`}
+                onClick={() => renamingId !== thread.id && onSelect(thread.id)}
+              >
+                <MessageSquare className="w-3.5 h-3.5 mt-0.5 shrink-0 text-muted-foreground" />
+                {renamingId === thread.id ? (
+                  <Input
+                    autoFocus
+                    value={renameText}
+                    onChange={(e) => setRenameText(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') finishRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    onBlur={finishRename}
+                    className="h-6 text-xs px-1"
+                  />
+                ) : (
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-medium truncate">{thread.title}</p>
+                    {thread.updatedAt && (
+                      <p className="text-[10px] text-muted-foreground">
+                        {formatDistanceToNow(new Date(thread.updatedAt), { addSuffix: true })}
+                      </p>
+                    )}
+                  </div>
+                )}
+                {renamingId !== thread.id && (
+                  <div className="hidden group-hover:flex items-center">
+                    <button
+                      className="p-0.5 text-muted-foreground hover:text-foreground"
+                      onClick={(e) => { e.stopPropagation(); startRename(thread); }}
+                      title="Rename"
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                    <button
+                      className="p-0.5 text-muted-foreground hover:text-destructive"
+                      onClick={(e) => { e.stopPropagation(); onDelete(thread.id); }}
+                      title="Delete"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import { useMemo } from "react";
+import { AlertTriangle, FileText } from "lucide-react";
+import { citationLabel, splitCitations, type Citation } from "@/utils/chatCitations";
+import type { ContextPage } from "@/utils/chatThreads";
+
+interface CitedAnswerProps {
+  content: string;
+  // Sources that were sent with the question this answers
+  sources: ContextPage[];
+  onOpenCitation?: (citation: Citation) => void;
+}
+
+const CitationChip = ({ citation, onOpen }: { citation: Citation; onOpen?: (citation: Citation) => void }) => {
+  if (!citation.resolved) {
+    return (
+      <span
+        className="inline-flex items-center gap-1 mx-0.5 px-1.5 py-0.5 rounded border border-destructive/50 bg-destructive/10 text-destructive text-[11px] align-baseline"
+        title={`[${citation.ref}] does not match any document retrieved for this question - verify it before relying on it`}
+      >
+        <AlertTriangle className="w-3 h-3" />
+        {citationLabel(citation)}
+      </span>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      className="inline-flex items-center gap-1 mx-0.5 px-1.5 py-0.5 rounded border bg-background text-[11px] align-baseline hover:bg-accent disabled:cursor-default"
+      title={citation.excerpt ? citation.excerpt.slice(0, 200) : `Open ${citationLabel(citation)}`}
+      onClick={() => onOpen?.(citation)}
+      disabled={!onOpen}
+    >
+      <FileText className="w-3 h-3 text-muted-foreground" />
+      {citationLabel(citation)}
+    </button>
+  );
+};
+
+// Renders an assistant answer with its [S#] source markers replaced by chips that open the cited page
+export const CitedAnswer = ({ content, sources, onOpenCitation }: CitedAnswerProps) => {
+  const segments = useMemo(() => splitCitations(content, sources), [content, sources]);
+
+  return (
+    <p className="whitespace-pre-wrap">
+      {segments.map((segment, i) =>
+        segment.type === 'text'
+          ? segment.text
+          : segment.citations.map((citation, j) => (
+            <CitationChip key={`${i}-${j}`} citation={citation} onOpen={onOpenCitation} />
+          ))
+      )}
+    </p>
+  );
+};
@@ -0,0 +1,279 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock, Copy, FileOutput, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { useWorkspace } from "@/contexts/WorkspaceContext";
+import { useDIA } from "@/contexts/DIAContext";
+import { loadPageTexts } from "@/utils/filePages";
+import {
+  EVENT_TYPES,
+  EVENT_TYPE_LABELS,
+  eventMatchesDiagnosis,
+  extractPageEvents,
+  fitDiaTimeline,
+  formatDiaTimeline,
+  formatEventDate,
+  loadClinicalEvents,
+  replaceClinicalEvents,
+  sortEvents,
+  type ClinicalEvent,
+  type EventType,
+} from "@/utils/clinicalChronology";
+
+const TYPE_COLORS: Record<EventType, string> = {
+  presentation: 'bg-blue-500',
+  imaging: 'bg-purple-500',
+  surgery: 'bg-red-500',
+  diagnosis: 'bg-green-500',
+};
+
+const ALL = '__all__';
+
+interface ClinicalChronologyProps {
+  pageDiagnoses: Record<string, string[]>;
+  onOpenPage: (fileId: string, pageNum: number) => void;
+}
+
+export const ClinicalChronology = ({ pageDiagnoses, onOpenPage }: ClinicalChronologyProps) => {
+  const { selectedWorkspace, workspaceFiles } = useWorkspace();
+  const { setTimelineSection } = useDIA();
+  const [events, setEvents] = useState<ClinicalEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [diagnosisFilter, setDiagnosisFilter] = useState(ALL);
+  const [regionFilter, setRegionFilter] = useState(ALL);
+  const [typeFilter, setTypeFilter] = useState<EventType[]>([...EVENT_TYPES]);
+
+  const workspaceId = selectedWorkspace?.id;
+
+  useEffect(() => {
+    setEvents([]);
+    setDiagnosisFilter(ALL);
+    setRegionFilter(ALL);
+    if (!workspaceId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    loadClinicalEvents(workspaceId).then(loaded => {
+      if (cancelled) return;
+      if (loaded) setEvents(loaded);
+      else toast.error("Failed to load the clinical chronology");
+      setIsLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [workspaceId]);
+
+  const handleBuild = useCallback(async () => {
+    if (!workspaceId) return;
+    if (workspaceFiles.length === 0) {
+      toast.error("This workspace has no files");
+      return;
+    }
+
+    setIsBuilding(true);
+    try {
+      const pageTexts = await loadPageTexts(workspaceFiles.map(f => f.id));
+      const extracted = sortEvents(Array.from(pageTexts, ([fileId, pages]) =>
+        pages.flatMap(page => extractPageEvents(page.text, fileId, page.pageNum))
+      ).flat());
+
+      if (!await replaceClinicalEvents(workspaceId, extracted)) {
+        toast.error("Failed to save the clinical chronology");
+        return;
+      }
+      const saved = await loadClinicalEvents(workspaceId);
+      setEvents(saved || extracted);
+
+      const missing = workspaceFiles.filter(f => !pageTexts.has(f.id)).length;
+      toast.success(`Found ${extracted.length} dated events`, {
+        description: missing > 0 ? `${missing} file(s) have no extracted text yet and were skipped` : undefined,
+      });
+    } catch (error) {
+      console.error('Error building clinical chronology:', error);
+      toast.error("Failed to build the clinical chronology");
+    } finally {
+      setIsBuilding(false);
+    }
+  }, [workspaceId, workspaceFiles]);
+
+  const diagnoses = useMemo(
+    () => [...new Set(Object.values(pageDiagnoses).flat())].sort(),
+    [pageDiagnoses]
+  );
+
+  const regions = useMemo(
+    () => [...new Set(events.map(e => e.bodyRegion).filter((r): r is string => !!r))].sort(),
+    [events]
+  );
+
+  const visibleEvents = useMemo(() => {
+    const taggedPages = new Set(
+      Object.entries(pageDiagnoses)
+        .filter(([, names]) => names.includes(diagnosisFilter))
+        .map(([key]) => key)
+    );
+    return sortEvents(events).filter(event =>
+      typeFilter.includes(event.type) &&
+      (regionFilter === ALL || event.bodyRegion === regionFilter) &&
+      (diagnosisFilter === ALL || eventMatchesDiagnosis(event, diagnosisFilter, taggedPages))
+    );
+  }, [events, typeFilter, regionFilter, diagnosisFilter, pageDiagnoses]);
+
+  const eventsByYear = useMemo(() => {
+    const years = new Map<string, ClinicalEvent[]>();
+    visibleEvents.forEach(event => {
+      const year = event.date.slice(0, 4);
+      years.set(year, [...(years.get(year) || []), event]);
+    });
+    return Array.from(years);
+  }, [visibleEvents]);
+
+  const fileNames = useMemo(
+    () => new Map(workspaceFiles.map(f => [f.id, f.file_name])),
+    [workspaceFiles]
+  );
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatDiaTimeline(visibleEvents));
+      toast.success(`Copied ${visibleEvents.length} events as a DIA timeline`);
+    } catch (error) {
+      console.error('Error copying timeline:', error);
+      toast.error("Failed to copy the timeline");
+    }
+  };
+
+  const handleUseInDia = () => {
+    if (!selectedWorkspace) return;
+    const { text, included } = fitDiaTimeline(visibleEvents);
+    setTimelineSection(selectedWorkspace.id, text);
+    if (included < visibleEvents.length) {
+      toast.warning(`The timeline is too long to send in full, so the next Diagnostic Assessment will use the oldest ${included} of ${visibleEvents.length} events`);
+    } else {
+      toast.success(`The next Diagnostic Assessment will use these ${visibleEvents.length} events for its Timeline`);
+    }
+  };
+
+  if (!selectedWorkspace) return null;
+
+  return (
+    <Card className="p-4 mb-4">
+      <div className="flex items-center gap-2 mb-4">
+        <CalendarClock className="w-5 h-5 text-primary" />
+        <h2 className="text-lg font-semibold">Clinical Chronology</h2>
+        {events.length > 0 && <Badge variant="secondary">{events.length} events</Badge>}
+        <div className="ml-auto flex gap-2">
+          <Button variant="outline" size="sm" className="gap-2" onClick={handleBuild} disabled={isBuilding}>
+            {isBuilding ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            {events.length > 0 ? 'Rebuild' : 'Build'}
+          </Button>
+          <Button variant="outline" size="sm" className="gap-2" onClick={handleCopy} disabled={visibleEvents.length === 0}>
+            <Copy className="w-4 h-4" />
+            Copy DIA Timeline
+          </Button>
+          <Button
+            size="sm"
+            className="gap-2"
+            onClick={handleUseInDia}
+            disabled={visibleEvents.length === 0}
+            title="Send the events shown below to the Timeline section of the next Diagnostic Assessment"
+          >
+            <FileOutput className="w-4 h-4" />
+            Use in DIA
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <Select value={diagnosisFilter} onValueChange={setDiagnosisFilter}>
+          <SelectTrigger className="w-56 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All diagnoses</SelectItem>
+            {diagnoses.map(name => (
+              <SelectItem key={name} value={name}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={regionFilter} onValueChange={setRegionFilter}>
+          <SelectTrigger className="w-44 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All body regions</SelectItem>
+            {regions.map(region => (
+              <SelectItem key={region} value={region}>{region}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <ToggleGroup
+          type="multiple"
+          size="sm"
+          value={typeFilter}
+          onValueChange={(value) => setTypeFilter(value as EventType[])}
+        >
+          {EVENT_TYPES.map(type => (
+            <ToggleGroupItem key={type} value={type} className="gap-1.5 text-xs">
+              <span className={`w-2 h-2 rounded-full ${TYPE_COLORS[type]}`} />
+              {EVENT_TYPE_LABELS[type]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-6">
+          Build the chronology to list every dated presentation, imaging study, operation and diagnosis found in this workspace's pages.
+        </p>
+      ) : visibleEvents.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-6">No events match these filters</p>
+      ) : (
+        <ScrollArea className="h-[420px] pr-3">
+          {eventsByYear.map(([year, yearEvents]) => (
+            <div key={year} className="mb-4">
+              <h3 className="text-sm font-semibold text-muted-foreground mb-2">{year}</h3>
+              <div className="border-l-2 border-border ml-1.5 space-y-3">
+                {yearEvents.map((event, index) => (
+                  <div key={event.id || `${event.fileId}-${event.pageNum}-${index}`} className="relative pl-5">
+                    <span className={`absolute -left-[7px] top-1.5 w-3 h-3 rounded-full ${TYPE_COLORS[event.type]}`} />
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="font-medium">{formatEventDate(event)}</span>
+                      {event.ambiguous && (
+                        <span
+                          className="text-xs text-muted-foreground"
+                          title={`Written "${event.dateText}", which could also be read as month/day`}
+                        >
+                          (DD/MM assumed)
+                        </span>
+                      )}
+                      <Badge variant="outline" className="text-[10px]">{EVENT_TYPE_LABELS[event.type]}</Badge>
+                      {event.bodyRegion && <Badge variant="secondary" className="text-[10px]">{event.bodyRegion}</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground mt-1 italic">{event.snippet}</p>
+                    <button
+                      type="button"
+                      className="text-xs text-primary hover:underline mt-1"
+                      onClick={() => onOpenPage(event.fileId, event.pageNum)}
+                    >
+                      {fileNames.get(event.fileId) || 'Unknown file'} · Page {event.pageNum}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </ScrollArea>
+      )}
+    </Card>
+  );
+};
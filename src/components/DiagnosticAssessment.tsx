@@ -9,9 +9,13 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Loader2, FileText, Sparkles, Upload, Download, X, Copy } from "lucide-react";
 import { toast } from "sonner";
 import { useDIA } from "@/contexts/DIAContext";
+import { useWorkspace } from "@/contexts/WorkspaceContext";
 import { DIASettings } from "./DIASettings";
 import { PDFDocument, rgb, StandardFonts } from "pdf-lib";
 import * as pdfjsLib from "pdfjs-dist";
+import { parsePageKey } from "@/utils/pageKeys";
+import { pickSopsForDiagnosis, sopTitle, withFactors, type SopInstrument } from "@/utils/sopLibrary";
+import { SopPicker } from "./SopPicker";
 
 const FUNCTIONS_BASE = (import.meta.env.VITE_SUPABASE_URL as string | undefined) ||
   "https://hpclzzykgxolszduecqa.supabase.co";
@@ -24,18 +28,22 @@ interface PDFContent {
 
 interface DiagnosticAssessmentProps {
   pdfContent: PDFContent[];
-  selectedPages: Set<string>; // Format: "fileIndex-pageNum"
+  selectedPages: Set<string>; // Format: "fileId-pageNum"
   pdfFiles: File[]; // Add PDF files to capture screenshots
+  fileIds: string[]; // workspace_files id of each entry in pdfFiles
   selectedModel: "gemini" | "claude";
 }
 
-export const DiagnosticAssessment = ({ pdfContent, selectedPages, pdfFiles, selectedModel }: DiagnosticAssessmentProps) => {
-  const { diaInstructions } = useDIA();
+export const DiagnosticAssessment = ({ pdfContent, selectedPages, pdfFiles, fileIds, selectedModel }: DiagnosticAssessmentProps) => {
+  const { diaInstructions, timelineFor } = useDIA();
+  const { selectedWorkspace } = useWorkspace();
+  const timelineSection = timelineFor(selectedWorkspace?.id);
   const [localInstructions, setLocalInstructions] = useState(diaInstructions);
   const [isGenerating, setIsGenerating] = useState(false);
   const [assessment, setAssessment] = useState<string>("");
   const [editableAssessment, setEditableAssessment] = useState<string>("");
   const [capturedPages, setCapturedPages] = useState<any[]>([]);
+  const [selectedSops, setSelectedSops] = useState<SopInstrument[]>([]);
 
   // Update local instructions when global instructions change
   useEffect(() => {
@@ -46,22 +54,22 @@ export const DiagnosticAssessment = ({ pdfContent, selectedPages, pdfFiles, sele
   useEffect(() => {
     const handleGenerate = (event: any) => {
       const sopFilesFromEvent = event.detail?.sopFiles || [];
-      if (selectedPages.size > 0 && localInstructions.trim()) {
-        handleGenerateAssessment(sopFilesFromEvent);
-      }
+      // A caller starting the assessment for a diagnosis sends that diagnosis's pages
+      const pages: Set<string> = event.detail?.pageKeys ? new Set(event.detail.pageKeys) : selectedPages;
+      handleGenerateAssessment(sopFilesFromEvent, event.detail?.diagnosis, pages);
     };
 
     window.addEventListener('generate-assessment', handleGenerate);
     return () => window.removeEventListener('generate-assessment', handleGenerate);
-  }, [selectedPages, localInstructions]);
+  }, [selectedPages, localInstructions, timelineSection, selectedSops, pdfContent, pdfFiles, fileIds, selectedModel]);
 
-  const handleGenerateAssessment = async (sopFilesFromEvent: File[] = []) => {
+  const handleGenerateAssessment = async (sopFilesFromEvent: File[] = [], diagnosis?: string, pages = selectedPages) => {
     if (!localInstructions.trim()) {
       toast.error("Please enter DIA instructions");
       return;
     }
 
-    if (selectedPages.size === 0) {
+    if (pages.size === 0) {
       toast.error("Please select at least one page to assess");
       return;
     }
@@ -92,13 +100,25 @@ export const DiagnosticAssessment = ({ pdfContent, selectedPages, pdfFiles, sele
         }
       }
 
+      // Instruments chosen in the picker win; otherwise the library picks them for the diagnosis
+      let instruments = selectedSops;
+      if (instruments.length === 0 && diagnosis) {
+        instruments = (await pickSopsForDiagnosis(diagnosis)) || [];
+        if (instruments.length > 0) {
+          toast(`Using ${instruments.map(sopTitle).join(' and ')}`);
+        } else if (sopFilesFromEvent.length === 0) {
+          toast.warning(`No SOP in the library matches "${diagnosis}"`);
+        }
+      }
+      const sops = await withFactors(instruments);
+      if (!sops) throw new Error("Failed to load SOP factors");
+
       // Extract content and capture HIGH QUALITY screenshots for selected pages
       toast("Capturing high-resolution page screenshots...");
       const selectedContent = await Promise.all(
-        Array.from(selectedPages).map(async (key) => {
-          const [fileIndexStr, pageNumStr] = key.split('-');
-          const fileIndex = parseInt(fileIndexStr);
-          const pageNum = parseInt(pageNumStr);
+        Array.from(pages).map(async (key) => {
+          const { fileId, pageNum } = parsePageKey(key);
+          const fileIndex = fileIds.indexOf(fileId);
           
           const pdfDoc = pdfContent.find(p => p.fileIndex === fileIndex);
           const page = pdfDoc?.pages.find(p => p.pageNum === pageNum);
@@ -137,9 +157,9 @@ export const DiagnosticAssessment = ({ pdfContent, selectedPages, pdfFiles, sele
           }
           
           return {
-            fileName: pdfDoc?.fileName || `Document ${fileIndex + 1}`,
-            fileIndex,
-            pageNum,
+            fileId,
+            fileName: pdfDoc?.fileName || pdfFiles[fileIndex]?.name || "Unknown document",
+            pageNumber: pageNum,
             text: page?.text || "",
             image
           };
@@ -158,6 +178,10 @@ export const DiagnosticAssessment = ({ pdfContent, selectedPages, pdfFiles, sele
           instructions: localInstructions,
           selectedContent,
           sopContent,
+          sops: sops.map(({ condition, standard, instrumentNumber, effectiveFrom, icdCodes, factors }) => ({
+            condition, standard, instrumentNumber, effectiveFrom, icdCodes, factors,
+          })),
+          timeline: timelineSection || undefined,
           model: selectedModel
         }),
       });
@@ -177,7 +201,12 @@ export const DiagnosticAssessment = ({ pdfContent, selectedPages, pdfFiles, sele
       
       // Dispatch event for DiagnosticAssessmentResults component
       const event = new CustomEvent('assessment-generated', {
-        detail: { assessment: assessmentText, capturedPages: selectedContent }
+        detail: {
+          assessment: assessmentText,
+          capturedPages: selectedContent,
+          // Factor text counts as a source when checking the report's quotes
+          sopContent: [sopContent, ...sops.flatMap(sop => sop.factors.map(f => f.text))].join('\n'),
+        }
       });
       window.dispatchEvent(event);
       
@@ -286,7 +315,7 @@ export const DiagnosticAssessment = ({ pdfContent, selectedPages, pdfFiles, sele
             const screenshotPage = pdfDoc.addPage([595, 842]);
             
             // Add header with page info
-            screenshotPage.drawText(`${content.fileName} - Page ${content.pageNum}`, {
+            screenshotPage.drawText(`${content.fileName} - Page ${content.pageNumber}`, {
               x: margin,
               y: 792,
               size: 10,
@@ -335,7 +364,7 @@ export const DiagnosticAssessment = ({ pdfContent, selectedPages, pdfFiles, sele
               height: scaledHeight,
             });
           } catch (error) {
-            console.error(`Failed to add screenshot for page ${content.pageNum}:`, error);
+            console.error(`Failed to add screenshot for page ${content.pageNumber}:`, error);
           }
         }
       }
@@ -357,6 +386,7 @@ export const DiagnosticAssessment = ({ pdfContent, selectedPages, pdfFiles, sele
 
   return (
     <div className="h-full flex flex-col gap-4 p-4">
+      <SopPicker selected={selectedSops} onChange={setSelectedSops} />
       {isGenerating && (
         <div className="text-center space-y-2 py-4">
           <Loader2 className="w-6 h-6 animate-spin mx-auto text-primary" />
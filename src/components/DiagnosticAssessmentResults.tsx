@@ -1,13 +1,23 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useCallback } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { Download, Copy, FileText, Edit3, Eye } from "lucide-react";
+import { Download, Copy, FileText, Edit3, Eye, ShieldCheck, CheckCircle2, AlertTriangle, XCircle, HelpCircle, Loader2 } from "lucide-react";
 import { toast } from "sonner";
 import { PDFDocument, rgb, StandardFonts } from "pdf-lib";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
+import { loadPageTexts } from "@/utils/filePages";
+import {
+  describeVerification,
+  verifyReport,
+  VERIFICATION_STATUS_LABELS,
+  type SourcePage,
+  type VerificationItem,
+  type VerificationResult,
+  type VerificationStatus,
+} from "@/utils/diaVerification";
 
 interface PDFContent {
   fileName: string;
@@ -19,27 +29,112 @@ interface DiagnosticAssessmentResultsProps {
   pdfContent: PDFContent[];
   selectedPages: Set<string>;
   pdfFiles: File[];
+  // workspace_files id of each entry in pdfFiles, used to check citations against stored page text
+  fileIds?: string[];
 }
 
-export const DiagnosticAssessmentResults = ({ pdfContent, selectedPages, pdfFiles }: DiagnosticAssessmentResultsProps) => {
+const STATUS_STYLES: Record<VerificationStatus, { icon: typeof CheckCircle2; className: string }> = {
+  verified: { icon: CheckCircle2, className: 'text-green-700 bg-green-100 border-green-300' },
+  unverified: { icon: HelpCircle, className: 'text-slate-700 bg-slate-100 border-slate-300' },
+  misattributed: { icon: AlertTriangle, className: 'text-amber-700 bg-amber-100 border-amber-300' },
+  not_found: { icon: XCircle, className: 'text-red-700 bg-red-100 border-red-300' },
+};
+
+const NO_FILE_IDS: string[] = [];
+
+// Results are shown inline as links to this anchor, which the markdown renderer turns into badges
+const CHECK_ANCHOR = '#dia-check-';
+
+const VerificationBadge = ({ item }: { item: VerificationItem }) => {
+  const { icon: Icon, className } = STATUS_STYLES[item.status];
+  return (
+    <span
+      className={`inline-flex items-center gap-0.5 ml-1 px-1 rounded border text-[10px] font-medium not-italic align-middle ${className}`}
+      title={describeVerification(item)}
+    >
+      <Icon className="w-3 h-3" />
+      {VERIFICATION_STATUS_LABELS[item.status]}
+    </span>
+  );
+};
+
+// Inserts a marker after every checked quote and reference so the result shows where it appears
+const withVerificationMarkers = (report: string, items: VerificationItem[]) =>
+  items.reduceRight(
+    (text, item, index) => `${text.slice(0, item.end)} [${item.status}](${CHECK_ANCHOR}${index})${text.slice(item.end)}`,
+    report
+  );
+
+export const DiagnosticAssessmentResults = ({ pdfContent, selectedPages, pdfFiles, fileIds = NO_FILE_IDS }: DiagnosticAssessmentResultsProps) => {
   const [assessment, setAssessment] = useState<string>("");
   const [editableAssessment, setEditableAssessment] = useState<string>("");
   const [capturedPages, setCapturedPages] = useState<any[]>([]);
   const [showResults, setShowResults] = useState(false);
   const [isEditMode, setIsEditMode] = useState(false);
+  const [sopContent, setSopContent] = useState("");
+  const [verification, setVerification] = useState<{ report: string; result: VerificationResult } | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  // Stored OCR text where there is any, otherwise the text extracted in the browser
+  const loadSourcePages = useCallback(async (): Promise<SourcePage[]> => {
+    const stored = await loadPageTexts(fileIds.filter(Boolean));
+    return pdfFiles.flatMap((file, fileIndex) => {
+      const fileId = fileIds[fileIndex] || null;
+      const extracted = pdfContent.find(p => p.fileIndex === fileIndex);
+      const fileName = extracted?.fileName || file.name;
+      const storedPages = (fileId && stored.get(fileId)) || [];
+      const pageNums = new Set([...storedPages, ...(extracted?.pages || [])].map(p => p.pageNum));
+      return Array.from(pageNums).map(pageNum => ({
+        fileId,
+        fileName,
+        pageNum,
+        text: [
+          storedPages.find(p => p.pageNum === pageNum)?.text,
+          extracted?.pages.find(p => p.pageNum === pageNum)?.text,
+        ].filter(Boolean).join('\n'),
+      }));
+    });
+  }, [pdfContent, pdfFiles, fileIds]);
+
+  const runVerification = useCallback(async (report: string, sop: string) => {
+    setIsVerifying(true);
+    try {
+      const result = verifyReport(report, await loadSourcePages(), sop);
+      setVerification({ report, result });
+      return result;
+    } catch (error) {
+      console.error("Error verifying citations:", error);
+      toast.error("Failed to verify citations");
+      return null;
+    } finally {
+      setIsVerifying(false);
+    }
+  }, [loadSourcePages]);
 
   useEffect(() => {
     const handleAssessmentGenerated = (event: any) => {
-      const { assessment: generatedAssessment, capturedPages: pages } = event.detail;
+      const { assessment: generatedAssessment, capturedPages: pages, sopContent: sop = "" } = event.detail;
       setAssessment(generatedAssessment);
       setEditableAssessment(generatedAssessment);
       setCapturedPages(pages);
+      setSopContent(sop);
+      setVerification(null);
       setShowResults(true);
+      runVerification(generatedAssessment, sop);
     };
 
     window.addEventListener('assessment-generated', handleAssessmentGenerated);
     return () => window.removeEventListener('assessment-generated', handleAssessmentGenerated);
-  }, []);
+  }, [runVerification]);
+
+  // Edits move quotes around, so results only apply to the text they were computed for
+  const currentVerification = verification?.report === editableAssessment ? verification.result : null;
+  const flaggedItems = currentVerification?.items.filter(item => item.status !== 'verified') || [];
+
+  const displayedAssessment = useMemo(
+    () => (currentVerification ? withVerificationMarkers(editableAssessment, currentVerification.items) : editableAssessment),
+    [editableAssessment, currentVerification]
+  );
 
   const handleCopy = () => {
     navigator.clipboard.writeText(editableAssessment);
@@ -47,6 +142,12 @@ export const DiagnosticAssessmentResults = ({ pdfContent, selectedPages, pdfFile
   };
 
   const handleDownloadCombinedPDF = async () => {
+    const result = currentVerification || await runVerification(editableAssessment, sopContent);
+    const flagged = result ? result.counts.unverified + result.counts.misattributed + result.counts.not_found : 0;
+    if (flagged > 0 && !confirm(`${flagged} quote${flagged !== 1 ? 's or references' : ' or reference'} could not be verified against the records. Export anyway?`)) {
+      return;
+    }
+
     try {
       toast("Creating combined PDF with assessment and page screenshots...");
       
@@ -137,7 +238,7 @@ export const DiagnosticAssessmentResults = ({ pdfContent, selectedPages, pdfFile
             const screenshotPage = pdfDoc.addPage([595, 842]);
             
             // Add header with page info
-            screenshotPage.drawText(`${content.fileName} - Page ${content.pageNum}`, {
+            screenshotPage.drawText(`${content.fileName} - Page ${content.pageNumber}`, {
               x: margin,
               y: 792,
               size: 10,
@@ -186,7 +287,7 @@ export const DiagnosticAssessmentResults = ({ pdfContent, selectedPages, pdfFile
               height: scaledHeight,
             });
           } catch (error) {
-            console.error(`Failed to add screenshot for page ${content.pageNum}:`, error);
+            console.error(`Failed to add screenshot for page ${content.pageNumber}:`, error);
           }
         }
       }
@@ -219,6 +320,16 @@ export const DiagnosticAssessmentResults = ({ pdfContent, selectedPages, pdfFile
             Generated Assessment
           </Label>
           <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => runVerification(editableAssessment, sopContent)}
+              disabled={isVerifying}
+              className="gap-2"
+            >
+              {isVerifying ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldCheck className="w-4 h-4" />}
+              {currentVerification ? 'Re-verify' : 'Verify Citations'}
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -258,12 +369,56 @@ export const DiagnosticAssessmentResults = ({ pdfContent, selectedPages, pdfFile
           />
         ) : (
           <div className="w-full min-h-[400px] prose prose-sm max-w-none p-4 border rounded-md bg-background">
-            <ReactMarkdown remarkPlugins={[remarkGfm]}>
-              {editableAssessment}
+            <ReactMarkdown
+              remarkPlugins={[remarkGfm]}
+              components={{
+                a: ({ href, children }) => {
+                  if (currentVerification && href?.startsWith(CHECK_ANCHOR)) {
+                    const item = currentVerification.items[Number(href.slice(CHECK_ANCHOR.length))];
+                    return item ? <VerificationBadge item={item} /> : null;
+                  }
+                  return <a href={href}>{children}</a>;
+                },
+              }}
+            >
+              {displayedAssessment}
             </ReactMarkdown>
           </div>
         )}
 
+        {currentVerification ? (
+          <div className="rounded-md border p-3 space-y-2">
+            <div className="flex items-center gap-3 text-sm">
+              <span className="font-medium flex items-center gap-1">
+                <ShieldCheck className="w-4 h-4" />
+                Citation check
+              </span>
+              {(Object.keys(STATUS_STYLES) as VerificationStatus[]).map(status => (
+                <span key={status} className={`px-1.5 rounded border text-xs ${STATUS_STYLES[status].className}`}>
+                  {currentVerification.counts[status]} {VERIFICATION_STATUS_LABELS[status].toLowerCase()}
+                </span>
+              ))}
+            </div>
+            {currentVerification.items.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No quoted snippets or bracketed page references found in the report.</p>
+            ) : flaggedItems.length > 0 && (
+              <ul className="space-y-1 text-xs max-h-48 overflow-auto">
+                {flaggedItems.map((item, i) => (
+                  <li key={i} className="flex items-start gap-2">
+                    <VerificationBadge item={item} />
+                    <span>
+                      <span className="italic">{item.kind === 'quote' ? `"${item.text}"` : item.text}</span>
+                      <span className="text-muted-foreground"> - {describeVerification(item)}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ) : verification && !isVerifying && (
+          <p className="text-xs text-muted-foreground">The report was edited after the citation check - re-verify before exporting.</p>
+        )}
+
         <Button
           onClick={handleDownloadCombinedPDF}
           className="w-full gap-2"
@@ -4,6 +4,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { LogOut, User, BookOpen } from "lucide-react";
 import dvaLogo from "@/assets/dva-logo.png";
 import { ReferenceDocuments } from "@/components/ReferenceDocuments";
+import { SopLibrary } from "@/components/SopLibrary";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 
@@ -54,7 +56,18 @@ export const Header = () => {
                   <DialogHeader>
                     <DialogTitle>Global Reference Documents</DialogTitle>
                   </DialogHeader>
-                  <ReferenceDocuments />
+                  <Tabs defaultValue="documents">
+                    <TabsList>
+                      <TabsTrigger value="documents">Documents</TabsTrigger>
+                      <TabsTrigger value="sops">SOP Library</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="documents">
+                      <ReferenceDocuments />
+                    </TabsContent>
+                    <TabsContent value="sops">
+                      <SopLibrary />
+                    </TabsContent>
+                  </Tabs>
                 </DialogContent>
               </Dialog>
             )}
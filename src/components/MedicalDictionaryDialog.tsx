@@ -0,0 +1,199 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BookOpen, Check, Pencil, Plus, RotateCcw, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { CURATED_SYNONYMS, SYNONYM_KINDS, type SynonymEntry, type SynonymKind } from "@/utils/medicalSynonyms";
+import type { useMedicalDictionary } from "@/hooks/use-medical-dictionary";
+
+const KIND_LABELS: Record<SynonymKind, string> = {
+  abbreviation: 'Abbreviation',
+  condition: 'Condition',
+  region: 'Body region',
+  laterality: 'Side',
+};
+
+const splitTerms = (value: string) => [...new Set(value.split(',').map(t => t.trim()).filter(Boolean))];
+
+interface MedicalDictionaryDialogProps {
+  dictionary: ReturnType<typeof useMedicalDictionary>;
+}
+
+export const MedicalDictionaryDialog = ({ dictionary }: MedicalDictionaryDialogProps) => {
+  const { custom, disabled, saveEntry, removeEntry, setEntryEnabled, resetDictionary } = dictionary;
+  const [filter, setFilter] = useState("");
+  const [newKind, setNewKind] = useState<SynonymKind>('abbreviation');
+  const [newTerms, setNewTerms] = useState("");
+  const [editing, setEditing] = useState<{ id: string; terms: string } | null>(null);
+
+  // Curated entries (or their edited copies) first, then the user's own
+  const rows = useMemo(() => {
+    const curatedIds = new Set(CURATED_SYNONYMS.map(e => e.id));
+    const all = [
+      ...CURATED_SYNONYMS.map(e => custom.find(c => c.id === e.id) || e),
+      ...custom.filter(e => !curatedIds.has(e.id)),
+    ];
+    const query = filter.trim().toLowerCase();
+    return all
+      .filter(e => !query || e.terms.some(t => t.toLowerCase().includes(query)))
+      .map(e => ({
+        entry: e,
+        curated: curatedIds.has(e.id),
+        edited: curatedIds.has(e.id) && custom.some(c => c.id === e.id),
+        enabled: !disabled.includes(e.id),
+      }));
+  }, [custom, disabled, filter]);
+
+  const handleAdd = () => {
+    const terms = splitTerms(newTerms);
+    if (terms.length < 2) {
+      toast.error("Enter a term and at least one synonym, separated by commas");
+      return;
+    }
+    saveEntry({ id: `custom-${crypto.randomUUID()}`, kind: newKind, terms });
+    setNewTerms("");
+    toast.success(`Added "${terms[0]}"`);
+  };
+
+  const handleSaveEdit = (entry: SynonymEntry) => {
+    if (!editing) return;
+    const terms = splitTerms(editing.terms);
+    if (terms.length < 2) {
+      toast.error("An entry needs at least two terms");
+      return;
+    }
+    saveEntry({ ...entry, terms });
+    setEditing(null);
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => !open && setEditing(null)}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <BookOpen className="w-4 h-4" />
+          Abbreviations
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Abbreviations & Synonyms</DialogTitle>
+          <DialogDescription>
+            Keyword and category searches also look for every other term in the same entry. Sides (right, R, Rt) are combined with the rest of a term, so "R knee" also finds "right knee". Changes are saved in this browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Select value={newKind} onValueChange={(kind) => setNewKind(kind as SynonymKind)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SYNONYM_KINDS.map(kind => (
+                <SelectItem key={kind} value={kind}>{KIND_LABELS[kind]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="e.g. rotator cuff tear, RC tear, cuff tear"
+            value={newTerms}
+            onChange={(e) => setNewTerms(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            className="flex-1"
+          />
+          <Button size="sm" onClick={handleAdd} className="gap-2">
+            <Plus className="w-4 h-4" />
+            Add
+          </Button>
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="Filter entries..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="flex-1"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="gap-2"
+            onClick={() => {
+              if (!confirm("Discard all added and edited entries and re-enable the curated list?")) return;
+              resetDictionary();
+              setEditing(null);
+            }}
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reset
+          </Button>
+        </div>
+
+        <ScrollArea className="flex-1 min-h-0 pr-3">
+          <div className="space-y-1">
+            {rows.map(({ entry, curated, edited, enabled }) => (
+              <div key={entry.id} className={`flex items-center gap-2 p-2 rounded hover:bg-muted/50 ${enabled ? '' : 'opacity-50'}`}>
+                <Badge variant="outline" className="text-[10px] w-24 justify-center flex-shrink-0">
+                  {KIND_LABELS[entry.kind]}
+                </Badge>
+                {editing?.id === entry.id ? (
+                  <>
+                    <Input
+                      value={editing.terms}
+                      onChange={(e) => setEditing({ id: entry.id, terms: e.target.value })}
+                      onKeyDown={(e) => e.key === 'Enter' && handleSaveEdit(entry)}
+                      className="h-8 flex-1"
+                      autoFocus
+                    />
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleSaveEdit(entry)}>
+                      <Check className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditing(null)}>
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex-1 text-sm">
+                      <span className="font-medium">{entry.terms[0]}</span>
+                      <span className="text-muted-foreground"> · {entry.terms.slice(1).join(', ')}</span>
+                      {edited && <Badge variant="secondary" className="ml-2 text-[10px]">Edited</Badge>}
+                      {!curated && <Badge variant="secondary" className="ml-2 text-[10px]">Custom</Badge>}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setEditing({ id: entry.id, terms: entry.terms.join(', ') })}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    {(edited || !curated) && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title={edited ? "Revert to the curated entry" : "Delete entry"}
+                        onClick={() => removeEntry(entry.id)}
+                      >
+                        {edited ? <RotateCcw className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+                      </Button>
+                    )}
+                    <Switch checked={enabled} onCheckedChange={(checked) => setEntryEnabled(entry.id, checked)} />
+                  </>
+                )}
+              </div>
+            ))}
+            {rows.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">No entries match "{filter}"</p>
+            )}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -9,6 +9,7 @@ import pdfjsWorker from "pdfjs-dist/build/pdf.worker.min.mjs?worker";
 // @ts-ignore - assign worker instance to workerPort
 pdfjsLib.GlobalWorkerOptions.workerPort = new pdfjsWorker();
 import { Loader2 } from "lucide-react";
+import { findExcerptItems } from "@/utils/chatCitations";
 
 interface PDFPageDialogProps {
   open: boolean;
@@ -17,11 +18,43 @@ interface PDFPageDialogProps {
   file?: File;
   pageNumber: number;
   title?: string;
+  // Passage to highlight, e.g. the chunk an AI answer cited
+  highlight?: string;
 }
 
-export const PDFPageDialog = ({ open, onOpenChange, pdfDocument, file, pageNumber, title }: PDFPageDialogProps) => {
+// Paints translucent boxes over the text items holding the passage; false when it isn't in the text layer
+const highlightPassage = async (
+  page: pdfjsLib.PDFPageProxy,
+  viewport: pdfjsLib.PageViewport,
+  context: CanvasRenderingContext2D,
+  passage: string
+) => {
+  const textContent = await page.getTextContent();
+  const items = textContent.items.flatMap(item => ('str' in item ? [item] : []));
+  const matched = findExcerptItems(items.map(item => item.str), passage);
+  if (!matched || matched.length === 0) return false;
+
+  context.save();
+  context.globalCompositeOperation = 'multiply';
+  context.fillStyle = 'rgba(250, 204, 21, 0.45)';
+  matched.forEach(index => {
+    const item = items[index];
+    const tx = pdfjsLib.Util.transform(viewport.transform, item.transform);
+    const height = Math.hypot(tx[2], tx[3]);
+    context.save();
+    context.translate(tx[4], tx[5]);
+    context.rotate(Math.atan2(tx[1], tx[0]));
+    context.fillRect(0, -height, item.width * viewport.scale, height * 1.2);
+    context.restore();
+  });
+  context.restore();
+  return true;
+};
+
+export const PDFPageDialog = ({ open, onOpenChange, pdfDocument, file, pageNumber, title, highlight }: PDFPageDialogProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [loading, setLoading] = useState(true);
+  const [highlightFound, setHighlightFound] = useState<boolean | null>(null);
   const [loadedPdf, setLoadedPdf] = useState<pdfjsLib.PDFDocumentProxy | null>(null);
 
   // Load PDF from file if pdfDocument is not provided
@@ -83,6 +116,7 @@ export const PDFPageDialog = ({ open, onOpenChange, pdfDocument, file, pageNumbe
           canvas: canvas,
         }).promise;
 
+        setHighlightFound(highlight ? await highlightPassage(page, viewport, context, highlight) : null);
         setLoading(false);
       } catch (error) {
         console.error("Error rendering PDF page:", error);
@@ -96,7 +130,7 @@ export const PDFPageDialog = ({ open, onOpenChange, pdfDocument, file, pageNumbe
     }, 100);
     
     return () => clearTimeout(timer);
-  }, [open, pdfDocument, loadedPdf, pageNumber]);
+  }, [open, pdfDocument, loadedPdf, pageNumber, highlight]);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -108,15 +142,25 @@ export const PDFPageDialog = ({ open, onOpenChange, pdfDocument, file, pageNumbe
           </DialogDescription>
         </DialogHeader>
         <div className="flex items-center justify-center min-h-[400px]">
-          {loading ? (
+          {loading && (
             <div className="flex flex-col items-center gap-2">
               <Loader2 className="w-8 h-8 animate-spin text-primary" />
               <p className="text-sm text-muted-foreground">Loading page...</p>
             </div>
-          ) : (
-            <canvas ref={canvasRef} className="max-w-full h-auto border shadow-lg" />
           )}
+          {/* Kept mounted while loading so the page can render into it */}
+          <canvas ref={canvasRef} className={`max-w-full h-auto border shadow-lg ${loading ? 'hidden' : ''}`} />
         </div>
+        {highlight && !loading && (
+          <div className="rounded-md border bg-muted/50 p-3 text-sm">
+            <p className="text-xs font-medium text-muted-foreground mb-1">
+              {highlightFound
+                ? 'Cited passage (highlighted above)'
+                : "Cited passage - couldn't be located in this page's text layer, e.g. because the page is a scan"}
+            </p>
+            <p className="whitespace-pre-wrap">{highlight}</p>
+          </div>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -1,12 +1,22 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ZoomIn, ZoomOut, RotateCw, ChevronLeft, ChevronRight, Trash2, Save, Sparkles, RefreshCw, Square } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { ZoomIn, ZoomOut, RotateCw, ChevronLeft, ChevronRight, Trash2, Save, Sparkles, RefreshCw, X } from "lucide-react";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import * as pdfjsLib from "pdfjs-dist";
 import { createWorker } from "tesseract.js";
+import { useWorkspace } from "@/contexts/WorkspaceContext";
 import { PDFPageDialog } from "./PDFPageDialog";
+import { PageReviewBar } from "./PageReviewBar";
+import { AnnotationToolbar } from "./AnnotationToolbar";
+import { AnnotationLayer } from "./AnnotationLayer";
+import { splitDiagnoses, splitStampedDiagnoses, sameDiagnoses } from "@/utils/diagnoses";
+import { isLocalFileId, makePageKey } from "@/utils/pageKeys";
+import type { AnnotationKind } from "@/utils/annotations";
+import { findMentions, prepareText, summarizeMentions, type MentionContext } from "@/utils/clinicalMentions";
+import type { ExpandedTerm } from "@/utils/medicalSynonyms";
 import { format, formatDistanceToNow } from "date-fns";
 // Use Vite worker for pdf.js to avoid CORS/version issues
 // eslint-disable-next-line @typescript-eslint/ban-ts-comment
@@ -16,47 +26,15 @@ import pdfjsWorker from "pdfjs-dist/build/pdf.worker.min.mjs?worker";
 // @ts-ignore - assign worker instance to workerPort
 pdfjsLib.GlobalWorkerOptions.workerPort = new pdfjsWorker();
 
-// Levenshtein distance for fuzzy matching
-const levenshteinDistance = (str1: string, str2: string): number => {
-  const len1 = str1.length;
-  const len2 = str2.length;
-  const matrix: number[][] = [];
-
-  for (let i = 0; i <= len1; i++) {
-    matrix[i] = [i];
-  }
-  for (let j = 0; j <= len2; j++) {
-    matrix[0][j] = j;
-  }
-
-  for (let i = 1; i <= len1; i++) {
-    for (let j = 1; j <= len2; j++) {
-      const cost = str1[i - 1] === str2[j - 1] ? 0 : 1;
-      matrix[i][j] = Math.min(
-        matrix[i - 1][j] + 1,      // deletion
-        matrix[i][j - 1] + 1,      // insertion
-        matrix[i - 1][j - 1] + cost // substitution
-      );
-    }
-  }
-
-  return matrix[len1][len2];
-};
-
-// Calculate similarity score (0 to 1, where 1 is exact match)
-const similarityScore = (str1: string, str2: string): number => {
-  const maxLen = Math.max(str1.length, str2.length);
-  if (maxLen === 0) return 1.0;
-  const distance = levenshteinDistance(str1.toLowerCase(), str2.toLowerCase());
-  return 1 - distance / maxLen;
-};
-
 interface KeywordMatch {
   page: number;
   keyword: string;
   count: number;
   fileName: string;
   fileIndex: number;
+  context?: MentionContext;
+  cue?: string;
+  variant?: string; // Dictionary form that matched, when it differs from the keyword
 }
 
 interface PDFContent {
@@ -65,9 +43,13 @@ interface PDFContent {
   pages: Array<{ pageNum: number; text: string }>;
 }
 
+// Stable fallback so pages without diagnoses don't retrigger the input sync effect
+const NO_DIAGNOSES: string[] = [];
+
 interface PDFViewerProps {
   files: File[];
   currentFileIndex: number;
+  currentFileId: string;
   keywords: string;
   dateSearch: string;
   referenceSearch: string;
@@ -81,16 +63,20 @@ interface PDFViewerProps {
   triggerScan?: (fileIndex: number) => void;
   onTogglePageSelection?: (fileIndex: number, pageNum: number) => void;
   selectedPagesForExtraction?: Set<string>;
-  pageDiagnoses?: Record<string, string>;
-  onDiagnosisChange?: (fileIndex: number, pageNum: number, diagnosis: string) => void;
+  pageDiagnoses?: Record<string, string[]>;
+  onDiagnosisChange?: (fileId: string, pageNum: number, diagnoses: string[]) => void;
   onDeletePage?: (fileIndex: number, pageNum: number) => void;
   pdfContent?: PDFContent[];
   refreshDiagnoses?: () => Promise<void>;
+  onQueueAutoScan?: (fileIndex: number, startPage: number, endPage: number, model: string) => Promise<void>;
+  isAutoScanActive?: boolean;
+  expandTerm?: (term: string) => ExpandedTerm;
 }
 
 export const PDFViewer = ({
   files,
   currentFileIndex,
+  currentFileId,
   keywords,
   dateSearch,
   referenceSearch,
@@ -109,6 +95,9 @@ export const PDFViewer = ({
   onDeletePage,
   pdfContent = [],
   refreshDiagnoses,
+  onQueueAutoScan,
+  isAutoScanActive = false,
+  expandTerm,
 }: PDFViewerProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -121,8 +110,11 @@ export const PDFViewer = ({
   // Click to enlarge page dialog state
   const [showEnlargedPage, setShowEnlargedPage] = useState(false);
   // Track last modified time for each file
-  const [fileLastModified, setFileLastModified] = useState<Record<number, Date>>({});
+  const [fileLastModified, setFileLastModified] = useState<Record<string, Date>>({});
   const [, setTick] = useState(0); // Force re-render for relative time updates
+  const [annotationTool, setAnnotationTool] = useState<AnnotationKind | null>(null);
+  const [annotationDiagnosis, setAnnotationDiagnosis] = useState<string | null>(null);
+  const [showAnnotations, setShowAnnotations] = useState(true);
 
   const currentFile = files[currentFileIndex] || null;
 
@@ -351,41 +343,43 @@ export const PDFViewer = ({
               .map((item: any) => item.str)
               .join(' ');
 
-            // Extract words from page text
-            const pageWords = pageText.toLowerCase().split(/\s+/).filter(w => w.length > 0);
+            const prepared = prepareText(pageText);
 
             for (const term of searchTerms) {
-              const searchTerm = term.toLowerCase();
-              let matchCount = 0;
-              
               // For date or reference searches, use exact matching
               if (dateSearch.trim() || referenceSearch.trim()) {
                 const regex = new RegExp(`\\b${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi');
-                matchCount = (pageText.match(regex) || []).length;
-              } else {
-                // For keyword searches, use fuzzy matching
-                // Threshold: 0.85 similarity (allows 1-2 character differences)
-                const SIMILARITY_THRESHOLD = 0.85;
-                
-                for (const word of pageWords) {
-                  // Clean word of punctuation
-                  const cleanWord = word.replace(/[^\w]/g, '');
-                  if (cleanWord.length === 0) continue;
-                  
-                  const similarity = similarityScore(searchTerm, cleanWord);
-                  if (similarity >= SIMILARITY_THRESHOLD) {
-                    matchCount++;
-                  }
+                const matchCount = (pageText.match(regex) || []).length;
+                if (matchCount > 0) {
+                  matches.push({ 
+                    page: pageNum, 
+                    keyword: term, 
+                    count: matchCount,
+                    fileName: file.name,
+                    fileIndex 
+                  });
                 }
+                continue;
               }
-              
-              if (matchCount > 0) {
-                matches.push({ 
-                  page: pageNum, 
-                  keyword: term, 
-                  count: matchCount,
-                  fileName: file.name,
-                  fileIndex 
+
+              // Keyword searches match every dictionary variant fuzzily and report affirmed,
+              // negated and uncertain mentions separately
+              const variants = expandTerm ? expandTerm(term).variants : [term];
+              const seen = new Set<number>();
+              for (const variant of variants) {
+                const mentions = findMentions(prepared, variant, { fuzzy: true }).filter(m => !seen.has(m.start));
+                mentions.forEach(m => seen.add(m.start));
+                summarizeMentions(mentions).forEach(({ context, count, cue }) => {
+                  matches.push({
+                    page: pageNum,
+                    keyword: term,
+                    count,
+                    fileName: file.name,
+                    fileIndex,
+                    context,
+                    cue,
+                    variant: variant === term ? undefined : variant
+                  });
                 });
               }
             }
@@ -399,7 +393,7 @@ export const PDFViewer = ({
     };
 
     searchKeywords();
-  }, [files, keywords, dateSearch, referenceSearch, isSearching, onKeywordMatchesDetected]);
+  }, [files, keywords, dateSearch, referenceSearch, isSearching, onKeywordMatchesDetected, expandTerm]);
 
   // Function to extract and format dates from text using regex
   const extractDatesFromText = (text: string): string[] => {
@@ -504,8 +498,8 @@ export const PDFViewer = ({
       }
 
       // Draw diagnosis text if available
-      const pageKey = `${currentFileIndex}-${currentPage}`;
-      const diagnosisText = pageDiagnoses?.[pageKey];
+      const pageKey = makePageKey(currentFileId, currentPage);
+      const diagnosisText = pageDiagnoses?.[pageKey]?.join('; ');
       
       if (diagnosisText) {
         context.save();
@@ -534,7 +528,7 @@ export const PDFViewer = ({
     } catch (error) {
       console.error("Error rendering page:", error);
     }
-  }, [pdf, currentPage, scale, rotation, matchingPages, currentFileIndex, pageDiagnoses]);
+  }, [pdf, currentPage, scale, rotation, matchingPages, currentFileId, pageDiagnoses]);
 
   const handleCanvasClick = () => {
     setShowEnlargedPage(true);
@@ -571,7 +565,7 @@ export const PDFViewer = ({
   const handleAddCurrentPage = () => {
     if (onTogglePageSelection) {
       onTogglePageSelection(currentFileIndex, currentPage);
-      const isSelected = selectedPagesForExtraction?.has(`${currentFileIndex}-${currentPage}`);
+      const isSelected = selectedPagesForExtraction?.has(makePageKey(currentFileId, currentPage));
       toast.success(isSelected ? "Page removed from selection" : "Page added to selection");
     }
   };
@@ -583,13 +577,27 @@ export const PDFViewer = ({
     }
   };
 
-  const isCurrentPageSelected = selectedPagesForExtraction?.has(`${currentFileIndex}-${currentPage}`) || false;
-  const pageKey = `${currentFileIndex}-${currentPage}`;
-  const currentDiagnosis = pageDiagnoses[pageKey] || "";
-  const [diagnosisInput, setDiagnosisInput] = useState(currentDiagnosis);
+  const pageKey = makePageKey(currentFileId, currentPage);
+  const isCurrentPageSelected = selectedPagesForExtraction?.has(pageKey) || false;
+  const currentDiagnoses = pageDiagnoses[pageKey] || NO_DIAGNOSES;
+  const { pageAnnotations, workspaceDiagnoses } = useWorkspace();
+  // Names a stamp read back from a PDF is matched against, so commas inside them aren't split
+  const knownDiagnoses = useMemo(
+    () => [...workspaceDiagnoses.map(d => d.diagnosis_name), ...Object.values(pageDiagnoses).flat()],
+    [workspaceDiagnoses, pageDiagnoses]
+  );
+  // Annotations are stored against workspace files, so pages of local files can't be annotated
+  const canAnnotate = !!currentFileId && !isLocalFileId(currentFileId);
+
+  // Diagnoses annotations can be filed under: this page's first, then every other tagged diagnosis
+  const annotationDiagnoses = useMemo(
+    () => Array.from(new Set([...currentDiagnoses, ...Object.values(pageDiagnoses).flat()])),
+    [currentDiagnoses, pageDiagnoses]
+  );
+  const [diagnosisTags, setDiagnosisTags] = useState<string[]>(currentDiagnoses);
+  const [newDiagnosis, setNewDiagnosis] = useState("");
   const [isAISuggesting, setIsAISuggesting] = useState(false);
-  const [isAutoScanning, setIsAutoScanning] = useState(false);
-  const shouldStopScanRef = useRef(false);
+  const [isQueueingScan, setIsQueueingScan] = useState(false);
   const isManualUpdateRef = useRef(false);
   const [startPage, setStartPage] = useState(1);
   const [endPage, setEndPage] = useState(numPages);
@@ -598,12 +606,13 @@ export const PDFViewer = ({
   // Sync input when diagnosis for current page changes (but not during manual updates)
   useEffect(() => {
     if (!isManualUpdateRef.current) {
-      console.log(`Syncing diagnosis for page ${currentPage}: "${currentDiagnosis}"`);
-      setDiagnosisInput(currentDiagnosis);
+      console.log(`Syncing diagnoses for page ${currentPage}: "${currentDiagnoses.join('; ')}"`);
+      setDiagnosisTags(currentDiagnoses);
+      setNewDiagnosis("");
     } else {
       isManualUpdateRef.current = false;
     }
-  }, [currentDiagnosis, currentPage, currentFileIndex]);
+  }, [currentDiagnoses, currentPage, currentFileId]);
 
   // Update endPage when numPages changes (switching files)
   useEffect(() => {
@@ -611,17 +620,38 @@ export const PDFViewer = ({
   }, [numPages]);
 
   // Wrap onDiagnosisChange to track file updates
-  const handleSaveToDatabase = useCallback(async (fileIndex: number, pageNum: number, diagnosis: string) => {
+  const handleSaveToDatabase = useCallback(async (fileId: string, pageNum: number, diagnoses: string[]) => {
     if (onDiagnosisChange) {
-      await onDiagnosisChange(fileIndex, pageNum, diagnosis);
+      await onDiagnosisChange(fileId, pageNum, diagnoses);
       // Update the last modified time for this file
       setFileLastModified(prev => ({
         ...prev,
-        [fileIndex]: new Date()
+        [fileId]: new Date()
       }));
     }
   }, [onDiagnosisChange]);
 
+  // Text still in the input counts as tags, so Save doesn't drop a diagnosis that wasn't confirmed with Enter
+  const pendingDiagnoses = newDiagnosis.trim()
+    ? Array.from(new Set([...diagnosisTags, ...splitDiagnoses(newDiagnosis)]))
+    : diagnosisTags;
+
+  const handleAddDiagnosisTag = () => {
+    if (!newDiagnosis.trim()) return;
+    setDiagnosisTags(pendingDiagnoses);
+    setNewDiagnosis("");
+  };
+
+  const handleRemoveDiagnosisTag = (diagnosis: string) => {
+    setDiagnosisTags(prev => prev.filter(d => d !== diagnosis));
+  };
+
+  const handleSaveDiagnoses = async () => {
+    setDiagnosisTags(pendingDiagnoses);
+    setNewDiagnosis("");
+    await handleSaveToDatabase(currentFileId, currentPage, pendingDiagnoses);
+  };
+
   // Extract top-of-page text from rendered PDF (best-effort)
   const extractDiagnosisFromPdf = useCallback(async (pageNum: number): Promise<string | null> => {
     try {
@@ -705,10 +735,11 @@ export const PDFViewer = ({
         return;
       }
 
-      if (data?.diagnosis) {
-        setDiagnosisInput(data.diagnosis);
+      const suggested: string[] = Array.isArray(data?.diagnoses) ? data.diagnoses : [];
+      if (suggested.length > 0) {
+        setDiagnosisTags(suggested);
         // Immediately save to database for persistence
-        await handleSaveToDatabase(currentFileIndex, currentPage, data.diagnosis);
+        await handleSaveToDatabase(currentFileId, currentPage, suggested);
         
         // Refresh diagnoses from database to ensure they're loaded
         if (refreshDiagnoses) {
@@ -728,7 +759,7 @@ export const PDFViewer = ({
   };
 
   const handleAutoScanAll = async () => {
-    if (!pdf || !currentFile || !onDiagnosisChange) {
+    if (!pdf || !currentFile || !onQueueAutoScan) {
       toast.error("Unable to scan pages");
       return;
     }
@@ -742,150 +773,12 @@ export const PDFViewer = ({
       return;
     }
 
-    setIsAutoScanning(true);
-    shouldStopScanRef.current = false;
-    const totalPages = end - start + 1;
-    let successCount = 0;
-    const diagnosesToSave: { pageNum: number; diagnosis: string }[] = [];
-    
+    // Pages are processed by the background job queue; progress is shown in the job panel
+    setIsQueueingScan(true);
     try {
-      toast(`Starting AI scan from page ${start} to ${end} (${totalPages} pages)...`);
-
-      for (let pageNum = start; pageNum <= end; pageNum++) {
-        // Check if scan should stop before starting new page
-        if (shouldStopScanRef.current) {
-          toast.info(`Scan stopped after page ${pageNum - 1}. ${successCount} pages diagnosed.`);
-          break;
-        }
-
-        try {
-          // Show progress only if not stopping
-          if (!shouldStopScanRef.current) {
-            toast.info(`Scanning page ${pageNum}/${end}...`, { duration: 1000 });
-          }
-          
-          // Render the page to canvas to get image
-          const page = await pdf.getPage(pageNum);
-          
-          // Check again after async operation
-          if (shouldStopScanRef.current) {
-            toast.info(`Scan stopped after page ${pageNum - 1}. ${successCount} pages diagnosed.`);
-            break;
-          }
-          
-          const viewport = page.getViewport({ scale: 1.2 });
-          
-          // Create temporary canvas for this page
-          const tempCanvas = document.createElement('canvas');
-          tempCanvas.width = viewport.width;
-          tempCanvas.height = viewport.height;
-          const context = tempCanvas.getContext('2d');
-          
-          if (!context) continue;
-
-          await page.render({
-            canvasContext: context,
-            viewport: viewport,
-            canvas: tempCanvas,
-          }).promise;
-
-          // Check again after render
-          if (shouldStopScanRef.current) {
-            toast.info(`Scan stopped after page ${pageNum - 1}. ${successCount} pages diagnosed.`);
-            break;
-          }
-
-          const pageImage = tempCanvas.toDataURL('image/jpeg', 0.85);
-          
-          // Get extracted text for this page if available
-          const fileContent = pdfContent.find(p => p.fileIndex === currentFileIndex);
-          const pageText = fileContent?.pages.find(p => p.pageNum === pageNum)?.text || "";
-
-          // Call edge function with timeout protection
-          const { data, error } = await Promise.race([
-            supabase.functions.invoke('suggest-diagnosis', {
-              body: {
-                pageImage,
-                pageText,
-                fileName: currentFile.name,
-                pageNum: pageNum,
-                model: selectedModel
-              }
-            }),
-            new Promise<{ data: null, error: Error }>((_, reject) => 
-              setTimeout(() => reject(new Error('Request timeout')), 30000)
-            )
-          ]).catch(err => ({ data: null, error: err }));
-
-          // Check after edge function call
-          if (shouldStopScanRef.current) {
-            toast.info(`Scan stopped after page ${pageNum}. ${successCount} pages diagnosed.`);
-            break;
-          }
-
-          if (error) {
-            console.error(`AI suggestion error for page ${pageNum}:`, error);
-            if (!shouldStopScanRef.current) {
-              toast.error(`Page ${pageNum} failed`, { duration: 2000 });
-            }
-            continue;
-          }
-
-          if (data?.diagnosis) {
-            // Save to database immediately
-            await handleSaveToDatabase(currentFileIndex, pageNum, data.diagnosis);
-            successCount++;
-            
-            // Navigate to this page to show it on canvas
-            setCurrentPage(pageNum);
-            onPageChange(pageNum);
-            
-            // Update diagnosis input to show it in the textarea
-            isManualUpdateRef.current = true;
-            setDiagnosisInput(data.diagnosis);
-            
-            // Show success only if not stopping
-            if (!shouldStopScanRef.current) {
-              toast.success(`Page ${pageNum}: "${data.diagnosis}"`, { duration: 1500 });
-            }
-            
-            // Wait a bit to show the update before moving to next page
-            await new Promise(resolve => setTimeout(resolve, 600));
-          }
-
-          // Small delay to avoid rate limiting
-          await new Promise(resolve => setTimeout(resolve, 500));
-
-        } catch (pageError) {
-          console.error(`Error processing page ${pageNum}:`, pageError);
-          if (!shouldStopScanRef.current) {
-            toast.error(`Error on page ${pageNum}`, { duration: 2000 });
-          }
-          // Continue with next page instead of failing entire scan
-        }
-      }
-
-      // Refresh diagnoses from database to ensure they're all loaded
-      if (refreshDiagnoses && successCount > 0 && !shouldStopScanRef.current) {
-        try {
-          await refreshDiagnoses();
-        } catch (refreshError) {
-          console.error('Failed to refresh diagnoses:', refreshError);
-        }
-      }
-
-      if (!shouldStopScanRef.current) {
-        toast.success(`Auto-scan complete! ${successCount}/${totalPages} pages diagnosed and saved to database.`);
-      }
-    } catch (error) {
-      console.error("Fatal error in auto-scan:", error);
-      if (!shouldStopScanRef.current) {
-        toast.error("Auto-scan failed - please try again");
-      }
+      await onQueueAutoScan(currentFileIndex, start, end, selectedModel);
     } finally {
-      // Always clean up state, even if there was an error
-      setIsAutoScanning(false);
-      shouldStopScanRef.current = false;
+      setIsQueueingScan(false);
     }
   };
 
@@ -963,6 +856,29 @@ export const PDFViewer = ({
         </div>
       </div>
 
+      <PageReviewBar
+        fileId={currentFileId}
+        currentPage={currentPage}
+        numPages={numPages}
+        onNavigate={(page) => {
+          setCurrentPage(page);
+          onPageChange(page);
+        }}
+      />
+
+      {canAnnotate && (
+        <AnnotationToolbar
+          tool={annotationTool}
+          onToolChange={setAnnotationTool}
+          diagnosis={annotationDiagnosis}
+          onDiagnosisChange={setAnnotationDiagnosis}
+          diagnoses={annotationDiagnoses}
+          visible={showAnnotations}
+          onVisibleChange={setShowAnnotations}
+          count={pageAnnotations[pageKey]?.length || 0}
+        />
+      )}
+
       {/* Diagnosis Input - Above PDF */}
       {onDiagnosisChange && (
         <div className="border-b bg-toolbar-background p-4">
@@ -989,20 +905,20 @@ export const PDFViewer = ({
             </div>
             <Button
               onClick={async () => {
-                const pageKey = `${currentFileIndex}-${currentPage}`;
-                const stateDiagnosis = pageDiagnoses[pageKey] || "";
-                if (stateDiagnosis) {
+                const stateDiagnoses = pageDiagnoses[pageKey] || [];
+                if (stateDiagnoses.length > 0) {
                   isManualUpdateRef.current = true;
-                  setDiagnosisInput(stateDiagnosis);
+                  setDiagnosisTags(stateDiagnoses);
                   toast.success(`Loaded diagnosis from state`);
                   return;
                 }
                 const extracted = await extractDiagnosisFromPdf(currentPage);
                 if (extracted) {
+                  const extractedDiagnoses = splitStampedDiagnoses(extracted, knownDiagnoses);
                   isManualUpdateRef.current = true;
-                  setDiagnosisInput(extracted);
+                  setDiagnosisTags(extractedDiagnoses);
                   // Also propagate so tracker sees it
-                  await handleSaveToDatabase(currentFileIndex, currentPage, extracted);
+                  await handleSaveToDatabase(currentFileId, currentPage, extractedDiagnoses);
                   toast.success("Loaded diagnosis from PDF");
                 } else {
                   toast.info("No diagnosis found on this page");
@@ -1017,17 +933,39 @@ export const PDFViewer = ({
             </Button>
           </div>
           <div className="flex gap-2 mb-2">
-            <textarea
-              id="diagnosis-input"
-              value={diagnosisInput}
-              onChange={(e) => setDiagnosisInput(e.target.value)}
-              placeholder="Enter diagnosis..."
-              rows={3}
-              className="flex-1 px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary bg-background resize-y"
-            />
+            <div className="flex-1 flex flex-wrap items-center gap-1 px-3 py-2 border rounded-md focus-within:ring-2 focus-within:ring-primary bg-background">
+              {diagnosisTags.map(diagnosis => (
+                <Badge key={diagnosis} variant="secondary" className="gap-1">
+                  {diagnosis}
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveDiagnosisTag(diagnosis)}
+                    className="rounded-full hover:text-destructive"
+                    aria-label={`Remove ${diagnosis}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              ))}
+              <input
+                id="diagnosis-input"
+                value={newDiagnosis}
+                onChange={(e) => setNewDiagnosis(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ';') {
+                    e.preventDefault();
+                    handleAddDiagnosisTag();
+                  } else if (e.key === 'Backspace' && !newDiagnosis && diagnosisTags.length > 0) {
+                    handleRemoveDiagnosisTag(diagnosisTags[diagnosisTags.length - 1]);
+                  }
+                }}
+                placeholder={diagnosisTags.length > 0 ? "Add another diagnosis..." : "Enter diagnosis and press Enter..."}
+                className="flex-1 min-w-[160px] bg-transparent text-sm focus:outline-none"
+              />
+            </div>
             <Button
               onClick={handleAISuggest}
-              disabled={isAISuggesting || isAutoScanning}
+              disabled={isAISuggesting || isAutoScanActive}
               size="default"
               variant="secondary"
               className="gap-2"
@@ -1045,8 +983,8 @@ export const PDFViewer = ({
               )}
             </Button>
             <Button
-              onClick={() => handleSaveToDatabase(currentFileIndex, currentPage, diagnosisInput)}
-              disabled={diagnosisInput === currentDiagnosis}
+              onClick={handleSaveDiagnoses}
+              disabled={sameDiagnoses(pendingDiagnoses, currentDiagnoses)}
               size="default"
               className="gap-2"
             >
@@ -1056,18 +994,22 @@ export const PDFViewer = ({
           </div>
           
           {/* Display current diagnosis from database */}
-          {currentDiagnosis && (
+          {currentDiagnoses.length > 0 && (
             <div className="mb-2 p-3 bg-muted/50 rounded-md border">
               <p className="text-xs font-medium text-muted-foreground mb-1">
-                Saved Diagnosis for Page {currentPage}:
+                Saved Diagnoses for Page {currentPage}:
               </p>
-              <p className="text-sm">{currentDiagnosis}</p>
+              <div className="flex flex-wrap gap-1">
+                {currentDiagnoses.map(diagnosis => (
+                  <Badge key={diagnosis} variant="outline">{diagnosis}</Badge>
+                ))}
+              </div>
             </div>
           )}
           <div className="mt-2">
             <Button
-              onClick={() => handleSaveToDatabase(currentFileIndex, currentPage, diagnosisInput)}
-              disabled={diagnosisInput === currentDiagnosis}
+              onClick={handleSaveDiagnoses}
+              disabled={sameDiagnoses(pendingDiagnoses, currentDiagnoses)}
               size="sm"
               className="gap-2 w-full"
             >
@@ -1078,26 +1020,14 @@ export const PDFViewer = ({
           <div className="space-y-2">
             <div className="grid grid-cols-2 gap-2">
               <Button
-                onClick={isAutoScanning ? () => {
-                  shouldStopScanRef.current = true;
-                  toast.info("Stopping scan after current page finishes...");
-                } : handleAutoScanAll}
-                disabled={isAISuggesting}
+                onClick={handleAutoScanAll}
+                disabled={isAISuggesting || isQueueingScan || isAutoScanActive}
                 size="sm"
-                variant={isAutoScanning ? "destructive" : "outline"}
+                variant="outline"
                 className="gap-2 w-full"
               >
-                {isAutoScanning ? (
-                  <>
-                    <Square className="w-4 h-4" />
-                    Stop Scan
-                  </>
-                ) : (
-                  <>
-                    <Sparkles className="w-4 h-4" />
-                    AI Auto-Scan
-                  </>
-                )}
+                <Sparkles className="w-4 h-4" />
+                {isAutoScanActive ? "AI Scan Queued" : "AI Auto-Scan"}
               </Button>
               
               <Button
@@ -1109,8 +1039,9 @@ export const PDFViewer = ({
                   for (let page = 1; page <= numPages; page++) {
                     const extracted = await extractDiagnosisFromPdf(page);
                     if (extracted) {
+                      const extractedDiagnoses = splitStampedDiagnoses(extracted, knownDiagnoses);
                       // Save to database first
-                      await handleSaveToDatabase(currentFileIndex, page, extracted);
+                      await handleSaveToDatabase(currentFileId, page, extractedDiagnoses);
                       
                       // Navigate to this page to show it on canvas
                       setCurrentPage(page);
@@ -1118,7 +1049,7 @@ export const PDFViewer = ({
                       
                       // Update diagnosis input for this page
                       isManualUpdateRef.current = true;
-                      setDiagnosisInput(extracted);
+                      setDiagnosisTags(extractedDiagnoses);
                       
                       // Show progress toast
                       toast.success(`Page ${page}: "${extracted}"`, { duration: 1500 });
@@ -1160,7 +1091,7 @@ export const PDFViewer = ({
                   max={numPages}
                   value={startPage}
                   onChange={(e) => setStartPage(Math.max(1, parseInt(e.target.value) || 1))}
-                  disabled={isAutoScanning}
+                  disabled={isAutoScanActive}
                   className="w-full px-2 py-1 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-primary bg-background"
                 />
               </div>
@@ -1172,7 +1103,7 @@ export const PDFViewer = ({
                   max={numPages}
                   value={endPage}
                   onChange={(e) => setEndPage(Math.max(1, parseInt(e.target.value) || numPages))}
-                  disabled={isAutoScanning}
+                  disabled={isAutoScanActive}
                   className="w-full px-2 py-1 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-primary bg-background"
                 />
               </div>
@@ -1187,11 +1118,11 @@ export const PDFViewer = ({
                 <span className="font-medium">Current file:</span>{" "}
                 <span className="break-all">
                   {currentFile.name}
-                  {fileLastModified[currentFileIndex] && (
+                  {fileLastModified[currentFileId] && (
                     <>
                       {" "}
                       <span className="text-muted-foreground/70">
-                        ({format(fileLastModified[currentFileIndex], 'yyyy-MM-dd HH:mm:ss')})
+                        ({format(fileLastModified[currentFileId], 'yyyy-MM-dd HH:mm:ss')})
                       </span>
                     </>
                   )}
@@ -1201,9 +1132,9 @@ export const PDFViewer = ({
                 <span className="font-medium">Last modified:</span>{" "}
                 {new Date(currentFile.lastModified).toLocaleString()}
               </div>
-              {fileLastModified[currentFileIndex] && (
+              {fileLastModified[currentFileId] && (
                 <div className="text-xs text-green-600 font-medium">
-                  Last updated {formatDistanceToNow(fileLastModified[currentFileIndex], { addSuffix: true })}
+                  Last updated {formatDistanceToNow(fileLastModified[currentFileId], { addSuffix: true })}
                 </div>
               )}
             </div>
@@ -1236,15 +1167,29 @@ export const PDFViewer = ({
               <ChevronLeft className="w-6 h-6" />
             </Button>
             
-            <canvas
-              ref={canvasRef}
-              className="shadow-medium border cursor-pointer hover:shadow-lg transition-shadow"
-              style={{
-                maxWidth: "100%",
-                height: "auto",
-              }}
-              onClick={handleCanvasClick}
-            />
+            <div className="relative self-start max-w-full">
+              <canvas
+                ref={canvasRef}
+                className="block shadow-medium border cursor-pointer hover:shadow-lg transition-shadow"
+                style={{
+                  maxWidth: "100%",
+                  height: "auto",
+                }}
+                onClick={handleCanvasClick}
+              />
+              {canAnnotate && (
+                <AnnotationLayer
+                  pdf={pdf}
+                  fileId={currentFileId}
+                  pageNum={currentPage}
+                  rotation={rotation}
+                  tool={annotationTool}
+                  diagnosis={annotationDiagnosis}
+                  diagnoses={annotationDiagnoses}
+                  visible={showAnnotations}
+                />
+              )}
+            </div>
             
             {/* Right Navigation Arrow */}
             <Button
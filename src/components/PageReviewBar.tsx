@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { SkipForward } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { useWorkspace } from "@/contexts/WorkspaceContext";
+import { isLocalFileId, makePageKey } from "@/utils/pageKeys";
+import {
+  REVIEW_STATUSES,
+  REVIEW_STATUS_COLORS,
+  REVIEW_STATUS_LABELS,
+  findNextUnreviewed,
+  type ReviewStatus,
+} from "@/utils/pageReview";
+
+interface PageReviewBarProps {
+  fileId: string;
+  currentPage: number;
+  numPages: number;
+  onNavigate: (pageNum: number) => void;
+}
+
+// Review status of the page in the viewer, with a range action for marking many pages at once
+export const PageReviewBar = ({ fileId, currentPage, numPages, onNavigate }: PageReviewBarProps) => {
+  const { user } = useAuth();
+  const { pageReviews, setPageReviewStatus } = useWorkspace();
+  const [rangeFrom, setRangeFrom] = useState(1);
+  const [rangeTo, setRangeTo] = useState(1);
+  const [rangeStatus, setRangeStatus] = useState<ReviewStatus>('irrelevant');
+
+  // The range covers the whole file until changed
+  useEffect(() => {
+    setRangeFrom(1);
+    setRangeTo(numPages || 1);
+  }, [fileId, numPages]);
+
+  // Review state lives in file_pages, so pages of files that aren't saved to a workspace can't be reviewed
+  if (!fileId || isLocalFileId(fileId)) return null;
+
+  const review = pageReviews[makePageKey(fileId, currentPage)];
+  const status = review?.status || 'unreviewed';
+
+  const handleStatusChange = async (value: string) => {
+    if (!value) return;
+    await setPageReviewStatus([{ fileId, pageNum: currentPage }], value as ReviewStatus);
+  };
+
+  const handleMarkRange = async () => {
+    const from = Math.max(1, Math.min(rangeFrom, numPages));
+    const to = Math.max(from, Math.min(rangeTo, numPages));
+    const pages = Array.from({ length: to - from + 1 }, (_, i) => ({ fileId, pageNum: from + i }));
+    if (await setPageReviewStatus(pages, rangeStatus)) {
+      toast.success(`Marked pages ${from}-${to} as ${REVIEW_STATUS_LABELS[rangeStatus].toLowerCase()}`);
+    }
+  };
+
+  const handleNextUnreviewed = () => {
+    const next = findNextUnreviewed(
+      [{ id: fileId, page_count: numPages }],
+      pageReviews,
+      { fileId, pageNum: currentPage }
+    );
+    if (next) onNavigate(next.pageNum);
+    else toast.success("Every page of this file has been reviewed");
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b bg-toolbar-background">
+      <span className="text-sm font-medium">Review:</span>
+      <ToggleGroup type="single" size="sm" value={status} onValueChange={handleStatusChange}>
+        {REVIEW_STATUSES.map(value => (
+          <ToggleGroupItem key={value} value={value} className="gap-1.5 text-xs">
+            <span className={`w-2 h-2 rounded-full ${REVIEW_STATUS_COLORS[value]}`} />
+            {REVIEW_STATUS_LABELS[value]}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      {review?.reviewedAt && (
+        <span className="text-xs text-muted-foreground">
+          {review.reviewedBy === user?.id ? 'by you' : 'by another reviewer'} {formatDistanceToNow(new Date(review.reviewedAt), { addSuffix: true })}
+        </span>
+      )}
+      <Button variant="outline" size="sm" className="gap-1 h-8 ml-auto" onClick={handleNextUnreviewed}>
+        <SkipForward className="w-4 h-4" />
+        Next unreviewed
+      </Button>
+      <div className="flex items-center gap-1 text-xs">
+        <span className="text-muted-foreground">Pages</span>
+        <input
+          type="number"
+          min={1}
+          max={numPages}
+          value={rangeFrom}
+          onChange={(e) => setRangeFrom(Math.max(1, parseInt(e.target.value) || 1))}
+          className="w-14 px-1 py-1 border rounded-md bg-background"
+        />
+        <span className="text-muted-foreground">to</span>
+        <input
+          type="number"
+          min={1}
+          max={numPages}
+          value={rangeTo}
+          onChange={(e) => setRangeTo(Math.max(1, parseInt(e.target.value) || 1))}
+          className="w-14 px-1 py-1 border rounded-md bg-background"
+        />
+        <Select value={rangeStatus} onValueChange={(value) => setRangeStatus(value as ReviewStatus)}>
+          <SelectTrigger className="w-36 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REVIEW_STATUSES.map(value => (
+              <SelectItem key={value} value={value}>{REVIEW_STATUS_LABELS[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="secondary" size="sm" className="h-8" onClick={handleMarkRange}>
+          Mark
+        </Button>
+      </div>
+    </div>
+  );
+};
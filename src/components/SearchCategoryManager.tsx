@@ -0,0 +1,454 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Download, Pencil, Plus, Settings2, Trash2, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  MATCH_MODES,
+  deleteSearchCategory,
+  describeTerms,
+  exportCategories,
+  groupCategories,
+  parseCategoryImport,
+  regexError,
+  saveCategoryOrder,
+  saveSearchCategory,
+  type MatchMode,
+  type SearchCategory,
+} from "@/utils/searchCategories";
+
+const MODE_LABELS: Record<MatchMode, string> = {
+  exact: 'Exact',
+  fuzzy: 'Fuzzy',
+  regex: 'Regex',
+};
+
+// Synonyms and exclusions are edited as comma-separated text
+interface TermDraft {
+  term: string;
+  mode: MatchMode;
+  synonyms: string;
+}
+
+interface CategoryDraft {
+  id?: number;
+  label: string;
+  group: string;
+  shared: boolean;
+  terms: TermDraft[];
+  exclusions: string;
+}
+
+const splitList = (value: string) => value.split(',').map(s => s.trim()).filter(Boolean);
+
+const toDraft = (category: SearchCategory): CategoryDraft => ({
+  id: category.id,
+  label: category.label,
+  group: category.group,
+  shared: category.ownerId === null,
+  terms: category.terms.map(t => ({ term: t.term, mode: t.mode, synonyms: t.synonyms.join(', ') })),
+  exclusions: category.exclusions.join(', '),
+});
+
+const nextSortOrder = (categories: SearchCategory[], group: string) =>
+  Math.max(0, ...categories.filter(c => c.group === group).map(c => c.sortOrder)) + 1;
+
+interface SearchCategoryManagerProps {
+  categories: SearchCategory[];
+  onChanged: () => void;
+}
+
+export const SearchCategoryManager = ({ categories, onChanged }: SearchCategoryManagerProps) => {
+  const { user } = useAuth();
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [draft, setDraft] = useState<CategoryDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [shareImports, setShareImports] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const checkAdminRole = async () => {
+      if (!user) {
+        setIsAdmin(false);
+        return;
+      }
+
+      const { data, error } = await supabase.rpc('has_role', {
+        _user_id: user.id,
+        _role: 'admin'
+      });
+
+      if (!error) {
+        setIsAdmin(data === true);
+      }
+    };
+
+    checkAdminRole();
+  }, [user]);
+
+  const canEdit = (category: SearchCategory) =>
+    !!user && (category.ownerId === user.id || (category.ownerId === null && isAdmin));
+
+  const groups = groupCategories(categories);
+  const groupNames = groups.map(g => g.group);
+
+  const startNew = () => {
+    setDraft({
+      label: '',
+      group: groupNames[0] || 'Body Regions',
+      shared: false,
+      terms: [{ term: '', mode: 'exact', synonyms: '' }],
+      exclusions: '',
+    });
+  };
+
+  const updateTerm = (index: number, changes: Partial<TermDraft>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      terms: prev.terms.map((t, i) => i === index ? { ...t, ...changes } : t),
+    });
+  };
+
+  const draftErrors = draft?.terms.map(t => t.mode === 'regex' && t.term.trim() ? regexError(t.term.trim()) : null) || [];
+
+  const handleSave = async () => {
+    if (!draft || !user) return;
+    if (!draft.label.trim()) {
+      toast.error("Category name is required");
+      return;
+    }
+    if (draftErrors.some(Boolean)) {
+      toast.error("Fix the invalid regular expressions first");
+      return;
+    }
+
+    const group = draft.group.trim() || 'Other';
+    const existing = categories.find(c => c.id === draft.id);
+    setIsSaving(true);
+    const saved = await saveSearchCategory({
+      id: draft.id,
+      label: draft.label.trim(),
+      group,
+      sortOrder: existing && existing.group === group ? existing.sortOrder : nextSortOrder(categories, group),
+      terms: draft.terms
+        .filter(t => t.term.trim())
+        .map(t => ({ term: t.term.trim(), mode: t.mode, synonyms: t.mode === 'regex' ? [] : splitList(t.synonyms) })),
+      exclusions: splitList(draft.exclusions),
+      ownerId: draft.shared && isAdmin ? null : user.id,
+    });
+    setIsSaving(false);
+
+    if (!saved) {
+      toast.error("Failed to save category");
+      return;
+    }
+    toast.success(`Saved "${saved.label}"`);
+    setDraft(null);
+    onChanged();
+  };
+
+  const handleDelete = async (category: SearchCategory) => {
+    if (!confirm(`Delete the "${category.label}" category?`)) return;
+    if (!(await deleteSearchCategory(category.id))) {
+      toast.error("Failed to delete category");
+      return;
+    }
+    if (draft?.id === category.id) setDraft(null);
+    toast.success(`Deleted "${category.label}"`);
+    onChanged();
+  };
+
+  // Swaps positions with the neighbouring category in the same group
+  const handleMove = async (items: SearchCategory[], index: number, offset: -1 | 1) => {
+    const current = items[index];
+    const neighbour = items[index + offset];
+    if (!neighbour) return;
+
+    const currentOrder = neighbour.sortOrder === current.sortOrder ? current.sortOrder + offset : neighbour.sortOrder;
+    const saved = await saveCategoryOrder([
+      { id: current.id, sortOrder: currentOrder },
+      { id: neighbour.id, sortOrder: current.sortOrder },
+    ]);
+    if (!saved) {
+      toast.error("Failed to reorder categories");
+      return;
+    }
+    onChanged();
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportCategories(categories)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `search-categories-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Imported categories update an editable one with the same name, group and visibility,
+  // otherwise they are added at the end of their group
+  const handleImport = async (file: File) => {
+    if (!user) return;
+    let imported;
+    try {
+      imported = parseCategoryImport(await file.text());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to read category file");
+      return;
+    }
+
+    const ownerId = shareImports && isAdmin ? null : user.id;
+    const known = [...categories];
+    let saved = 0;
+    for (const category of imported) {
+      const existing = known.find(c =>
+        c.ownerId === ownerId &&
+        c.group.toLowerCase() === category.group.toLowerCase() &&
+        c.label.toLowerCase() === category.label.toLowerCase()
+      );
+      const result = await saveSearchCategory({
+        id: existing?.id,
+        label: category.label,
+        group: existing?.group || category.group,
+        sortOrder: existing?.sortOrder ?? nextSortOrder(known, category.group),
+        terms: category.terms,
+        exclusions: category.exclusions,
+        ownerId,
+      });
+      if (result) {
+        saved++;
+        if (!existing) known.push(result);
+      }
+    }
+
+    if (saved < imported.length) {
+      toast.error(`Imported ${saved} of ${imported.length} categories`);
+    } else {
+      toast.success(`Imported ${saved} categor${saved === 1 ? 'y' : 'ies'}`);
+    }
+    onChanged();
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => !open && setDraft(null)}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Settings2 className="w-4 h-4" />
+          Manage Categories
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Search Categories</DialogTitle>
+          <DialogDescription>
+            Shared categories are visible to everyone and managed by admins. Your private categories are only visible to you.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" onClick={startNew} disabled={!user} className="gap-2">
+            <Plus className="w-4 h-4" />
+            New Category
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => importInputRef.current?.click()} disabled={!user} className="gap-2">
+            <Upload className="w-4 h-4" />
+            Import JSON
+          </Button>
+          <Button size="sm" variant="outline" onClick={handleExport} disabled={categories.length === 0} className="gap-2">
+            <Download className="w-4 h-4" />
+            Export JSON
+          </Button>
+          {isAdmin && (
+            <div className="flex items-center gap-2 ml-auto">
+              <Switch id="share-imports" checked={shareImports} onCheckedChange={setShareImports} />
+              <Label htmlFor="share-imports" className="text-sm">Import as shared</Label>
+            </div>
+          )}
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleImport(file);
+            }}
+          />
+        </div>
+        {!user && (
+          <p className="text-sm text-muted-foreground">Sign in to create or edit categories.</p>
+        )}
+
+        {draft && (
+          <div className="border rounded-lg p-4 space-y-3 bg-muted/30">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="category-label">Name</Label>
+                <Input
+                  id="category-label"
+                  value={draft.label}
+                  maxLength={200}
+                  onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="category-group">Group</Label>
+                <Input
+                  id="category-group"
+                  list="category-groups"
+                  value={draft.group}
+                  maxLength={100}
+                  onChange={(e) => setDraft({ ...draft, group: e.target.value })}
+                />
+                <datalist id="category-groups">
+                  {groupNames.map(group => <option key={group} value={group} />)}
+                </datalist>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Terms</Label>
+              {draft.terms.map((term, index) => (
+                <div key={index} className="space-y-1">
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder={term.mode === 'regex' ? "Pattern, e.g. L[1-5]-S1" : "Term or phrase"}
+                      value={term.term}
+                      onChange={(e) => updateTerm(index, { term: e.target.value })}
+                      className="flex-1"
+                    />
+                    <Select value={term.mode} onValueChange={(mode) => updateTerm(index, { mode: mode as MatchMode })}>
+                      <SelectTrigger className="w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {MATCH_MODES.map(mode => (
+                          <SelectItem key={mode} value={mode}>{MODE_LABELS[mode]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      placeholder="Synonyms, comma separated"
+                      value={term.synonyms}
+                      disabled={term.mode === 'regex'}
+                      onChange={(e) => updateTerm(index, { synonyms: e.target.value })}
+                      className="flex-1"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDraft({ ...draft, terms: draft.terms.filter((_, i) => i !== index) })}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  {draftErrors[index] && (
+                    <p className="text-xs text-destructive">{draftErrors[index]}</p>
+                  )}
+                </div>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setDraft({ ...draft, terms: [...draft.terms, { term: '', mode: 'exact', synonyms: '' }] })}
+                className="gap-2"
+              >
+                <Plus className="w-4 h-4" />
+                Add Term
+              </Button>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="category-exclusions">Exclude pages containing</Label>
+              <Input
+                id="category-exclusions"
+                placeholder="e.g. no fracture, family history"
+                value={draft.exclusions}
+                onChange={(e) => setDraft({ ...draft, exclusions: e.target.value })}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              {isAdmin ? (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="category-shared"
+                    checked={draft.shared}
+                    onCheckedChange={(shared) => setDraft({ ...draft, shared })}
+                  />
+                  <Label htmlFor="category-shared" className="text-sm">Shared with everyone</Label>
+                </div>
+              ) : <span />}
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setDraft(null)}>Cancel</Button>
+                <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                  {isSaving ? "Saving..." : "Save Category"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <ScrollArea className="flex-1 min-h-0 pr-3">
+          <div className="space-y-4">
+            {groups.map(({ group, categories: items }) => (
+              <div key={group} className="space-y-1">
+                <h4 className="text-sm font-semibold">{group}</h4>
+                {items.map((category, index) => {
+                  const editable = canEdit(category);
+                  return (
+                    <div key={category.id} className="flex items-center gap-2 p-2 rounded hover:bg-muted/50">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium truncate">{category.label}</span>
+                          <Badge variant={category.ownerId === null ? "secondary" : "outline"} className="text-[10px]">
+                            {category.ownerId === null ? "Shared" : "Private"}
+                          </Badge>
+                        </div>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {describeTerms(category) || "No terms"}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={!editable || !items[index - 1] || !canEdit(items[index - 1])}
+                        onClick={() => handleMove(items, index, -1)}
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={!editable || !items[index + 1] || !canEdit(items[index + 1])}
+                        onClick={() => handleMove(items, index, 1)}
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" disabled={!editable} onClick={() => setDraft(toDraft(category))}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" disabled={!editable} onClick={() => handleDelete(category)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,308 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { ChevronDown, ChevronRight, Loader2, Save, Scale, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import {
+  deleteSopInstrument,
+  extractPdfText,
+  loadSopFactors,
+  parseSopText,
+  saveSopInstrument,
+  searchSopInstruments,
+  SOP_STANDARDS,
+  SOP_STANDARD_LABELS,
+  type ParsedSop,
+  type SopFactor,
+  type SopInstrument,
+  type SopStandard,
+} from "@/utils/sopLibrary";
+
+const SEARCH_DELAY_MS = 300;
+
+const FactorList = ({ factors }: { factors: SopFactor[] }) => (
+  <ol className="space-y-1 text-xs">
+    {factors.map(factor => (
+      <li key={factor.number} className="flex gap-2">
+        <span className="font-mono shrink-0 w-12">{factor.number}</span>
+        <span className="flex-1">{factor.text}</span>
+        {factor.kind === 'worsening' && <Badge variant="outline" className="text-[10px] h-5 shrink-0">worsening</Badge>}
+      </li>
+    ))}
+  </ol>
+);
+
+export const SopLibrary = () => {
+  const [parsing, setParsing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [draft, setDraft] = useState<ParsedSop | null>(null);
+  const [sourceFileName, setSourceFileName] = useState("");
+  const [icdText, setIcdText] = useState("");
+
+  const [query, setQuery] = useState("");
+  const [includeSuperseded, setIncludeSuperseded] = useState(false);
+  const [instruments, setInstruments] = useState<SopInstrument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [factors, setFactors] = useState<Record<string, SopFactor[]>>({});
+
+  const fetchInstruments = useCallback(async () => {
+    const results = await searchSopInstruments(query.trim(), { includeSuperseded, matchCount: 200 });
+    if (results) {
+      setInstruments(results);
+    } else {
+      toast.error("Failed to load the SOP library");
+    }
+    setLoading(false);
+  }, [query, includeSuperseded]);
+
+  useEffect(() => {
+    const timer = setTimeout(fetchInstruments, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [fetchInstruments]);
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (file.type !== "application/pdf") {
+      toast.error("Only PDF files are supported");
+      return;
+    }
+
+    setParsing(true);
+    try {
+      const parsed = parseSopText(await extractPdfText(file));
+      setDraft(parsed);
+      setIcdText(parsed.icdCodes.join(", "));
+      setSourceFileName(file.name);
+      if (parsed.factors.length === 0) {
+        toast.warning("No numbered factors were found - check this is an RMA Statement of Principles");
+      }
+    } catch (error) {
+      console.error("Error reading SOP:", error);
+      toast.error("Failed to read the SOP PDF");
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    const icdCodes = icdText.split(/[,;\s]+/).map(code => code.trim().toUpperCase()).filter(Boolean);
+    const id = await saveSopInstrument({ ...draft, icdCodes }, sourceFileName);
+    setSaving(false);
+    if (!id) {
+      toast.error("Failed to save SOP - an instrument with this number may already be in the library");
+      return;
+    }
+    toast.success(`Added ${draft.condition} (${draft.instrumentNumber}) to the SOP library`);
+    setDraft(null);
+    fetchInstruments();
+  };
+
+  const handleToggle = async (instrument: SopInstrument) => {
+    if (expandedId === instrument.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(instrument.id);
+    if (factors[instrument.id]) return;
+    const loaded = await loadSopFactors([instrument.id]);
+    if (!loaded) {
+      toast.error("Failed to load factors");
+      return;
+    }
+    setFactors(prev => ({ ...prev, [instrument.id]: loaded.get(instrument.id) || [] }));
+  };
+
+  const handleDelete = async (instrument: SopInstrument) => {
+    if (!confirm(`Delete ${instrument.condition} (${instrument.instrumentNumber}) from the SOP library?`)) return;
+    if (await deleteSopInstrument(instrument.id)) {
+      toast.success("SOP deleted");
+      fetchInstruments();
+    } else {
+      toast.error("Failed to delete SOP");
+    }
+  };
+
+  const canSave = !!draft && !!draft.condition.trim() && !!draft.instrumentNumber.trim() && !!draft.effectiveFrom;
+
+  return (
+    <div className="space-y-6 p-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Import Statement of Principles</CardTitle>
+          <CardDescription>
+            Upload an RMA SOP PDF. Its condition, ICD codes, instrument number, commencement date and numbered
+            factors are read from the text for you to check before saving.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <Label htmlFor="sop-file">SOP PDF</Label>
+            <Input id="sop-file" type="file" accept="application/pdf" onChange={handleFileSelect} disabled={parsing || saving} />
+            {parsing && (
+              <p className="text-sm text-muted-foreground mt-1 flex items-center gap-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Reading SOP...
+              </p>
+            )}
+          </div>
+
+          {draft && (
+            <div className="space-y-3 rounded-md border p-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="sop-condition">Condition</Label>
+                  <Input
+                    id="sop-condition"
+                    value={draft.condition}
+                    onChange={(e) => setDraft({ ...draft, condition: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Standard of proof</Label>
+                  <Select value={draft.standard} onValueChange={(value) => setDraft({ ...draft, standard: value as SopStandard })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SOP_STANDARDS.map(standard => (
+                        <SelectItem key={standard} value={standard}>{SOP_STANDARD_LABELS[standard]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="sop-instrument">Instrument number</Label>
+                  <Input
+                    id="sop-instrument"
+                    value={draft.instrumentNumber}
+                    placeholder="No. 62 of 2014"
+                    onChange={(e) => setDraft({ ...draft, instrumentNumber: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="sop-effective">Effective from</Label>
+                  <Input
+                    id="sop-effective"
+                    type="date"
+                    value={draft.effectiveFrom}
+                    onChange={(e) => setDraft({ ...draft, effectiveFrom: e.target.value })}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <Label htmlFor="sop-icd">ICD-10-AM codes</Label>
+                  <Input id="sop-icd" value={icdText} placeholder="M17, M47.1" onChange={(e) => setIcdText(e.target.value)} />
+                </div>
+              </div>
+              <div>
+                <Label>{draft.factors.length} factor{draft.factors.length !== 1 ? "s" : ""}</Label>
+                <div className="max-h-60 overflow-auto rounded-md border p-2 mt-1">
+                  {draft.factors.length > 0 ? (
+                    <FactorList factors={draft.factors} />
+                  ) : (
+                    <p className="text-xs text-muted-foreground">No factors found in this document.</p>
+                  )}
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setDraft(null)} disabled={saving}>Cancel</Button>
+                <Button onClick={handleSave} disabled={!canSave || saving}>
+                  {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                  Save to Library
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>SOP Library</CardTitle>
+          <CardDescription>
+            {instruments.length} instrument{instruments.length !== 1 ? "s" : ""}
+            {includeSuperseded ? " including superseded versions" : " currently in effect"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex items-center gap-3">
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search conditions or ICD codes..."
+              className="flex-1"
+            />
+            <div className="flex items-center gap-2 text-sm">
+              <Switch id="sop-superseded" checked={includeSuperseded} onCheckedChange={setIncludeSuperseded} />
+              <Label htmlFor="sop-superseded">Show superseded</Label>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="w-8 h-8 animate-spin" />
+            </div>
+          ) : instruments.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              {query.trim() ? "No SOPs match this search" : "No SOPs imported yet"}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {instruments.map(instrument => (
+                <div key={instrument.id} className="border rounded-lg">
+                  <div className="flex items-start gap-3 p-3 cursor-pointer" onClick={() => handleToggle(instrument)}>
+                    {expandedId === instrument.id
+                      ? <ChevronDown className="w-4 h-4 mt-1 shrink-0" />
+                      : <ChevronRight className="w-4 h-4 mt-1 shrink-0" />}
+                    <Scale className="w-5 h-5 mt-0.5 text-primary shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium capitalize">{instrument.condition}</p>
+                      <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-xs text-muted-foreground">
+                        <span>{SOP_STANDARD_LABELS[instrument.standard]}</span>
+                        <span>{instrument.instrumentNumber}</span>
+                        <span>From {format(parseISO(instrument.effectiveFrom), "d MMM yyyy")}</span>
+                        {instrument.icdCodes.length > 0 && <span>ICD {instrument.icdCodes.join(", ")}</span>}
+                        <span>{instrument.factorCount} factors</span>
+                      </div>
+                    </div>
+                    {!instrument.isCurrent && <Badge variant="secondary">Superseded</Badge>}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(instrument);
+                      }}
+                      className="text-destructive hover:text-destructive shrink-0"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  {expandedId === instrument.id && (
+                    <div className="border-t p-3 max-h-72 overflow-auto">
+                      {factors[instrument.id] ? (
+                        <FactorList factors={factors[instrument.id]} />
+                      ) : (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
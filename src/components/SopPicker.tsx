@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Scale, X } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { SOP_STANDARDS, SOP_STANDARD_LABELS, searchSopInstruments, type SopInstrument } from "@/utils/sopLibrary";
+
+interface SopPickerProps {
+  selected: SopInstrument[];
+  onChange: (instruments: SopInstrument[]) => void;
+}
+
+const SEARCH_DELAY_MS = 300;
+
+// Instruments in effect for each matching condition, one per standard of proof
+const groupByCondition = (instruments: SopInstrument[]) => {
+  const groups = new Map<string, SopInstrument[]>();
+  instruments.forEach(instrument => {
+    const key = instrument.condition.toLowerCase();
+    groups.set(key, [...(groups.get(key) || []), instrument]);
+  });
+  return Array.from(groups.values()).map(group =>
+    SOP_STANDARDS.flatMap(standard => group.filter(i => i.standard === standard).slice(0, 1))
+  );
+};
+
+export const SopPicker = ({ selected, onChange }: SopPickerProps) => {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SopInstrument[][]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      const matches = await searchSopInstruments(query.trim());
+      if (cancelled) return;
+      setResults(groupByCondition(matches || []));
+      setSearching(false);
+    }, SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium flex items-center gap-2">
+        <Scale className="w-4 h-4" />
+        Statement of Principles
+      </Label>
+      {selected.length > 0 ? (
+        <div className="space-y-1">
+          {selected.map(instrument => (
+            <div key={instrument.id} className="flex items-center gap-2 text-xs rounded-md border px-2 py-1">
+              <span className="flex-1 min-w-0 truncate">
+                <span className="font-medium capitalize">{instrument.condition}</span>
+                {' '}({SOP_STANDARD_LABELS[instrument.standard]}) ({instrument.instrumentNumber})
+              </span>
+              <span className="text-muted-foreground shrink-0">from {format(parseISO(instrument.effectiveFrom), 'd MMM yyyy')}</span>
+            </div>
+          ))}
+          <button
+            className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-1"
+            onClick={() => onChange([])}
+          >
+            <X className="w-3 h-3" />
+            Clear - pick automatically from the diagnosis
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          None chosen - the instruments in effect for the diagnosis are picked automatically.
+        </p>
+      )}
+      <div className="relative">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search conditions or ICD codes..."
+          className="h-8 text-sm"
+        />
+        {searching && <Loader2 className="w-4 h-4 animate-spin absolute right-2 top-2 text-muted-foreground" />}
+      </div>
+      {query.trim() && !searching && results.length === 0 && (
+        <p className="text-xs text-muted-foreground">No SOPs in the library match "{query.trim()}".</p>
+      )}
+      {results.length > 0 && (
+        <div className="max-h-48 overflow-auto rounded-md border divide-y">
+          {results.map(group => (
+            <button
+              key={group[0].id}
+              className="w-full text-left px-2 py-1.5 hover:bg-muted"
+              onClick={() => {
+                onChange(group);
+                setQuery("");
+              }}
+            >
+              <p className="text-sm font-medium capitalize">{group[0].condition}</p>
+              <div className="flex flex-wrap gap-1 mt-0.5">
+                {group.map(instrument => (
+                  <Badge key={instrument.id} variant="secondary" className="text-[10px]">
+                    {instrument.standard.toUpperCase()} {instrument.instrumentNumber} - {instrument.factorCount} factors
+                  </Badge>
+                ))}
+                {group[0].icdCodes.length > 0 && (
+                  <Badge variant="outline" className="text-[10px]">ICD {group[0].icdCodes.join(', ')}</Badge>
+                )}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
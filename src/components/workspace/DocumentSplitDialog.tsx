@@ -0,0 +1,332 @@
+import { useEffect, useRef, useState } from "react";
+import { PDFDocument } from "pdf-lib";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useWorkspace } from "@/contexts/WorkspaceContext";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Merge, Save, Scissors, Sparkles, Wand2 } from "lucide-react";
+import { toast } from "sonner";
+import { loadPageTexts, savePageTexts, type PageText } from "@/utils/filePages";
+import { downloadPdfFromStorage, uploadPdfToStorage } from "@/utils/supabaseStorage";
+import {
+  DOCUMENT_TYPES,
+  DOCUMENT_TYPE_LABELS,
+  classifyPages,
+  classifyPagesWithAi,
+  fromSubDocuments,
+  pageRangeLabel,
+  savePageClassifications,
+  subDocumentFileName,
+  subDocuments,
+  type DocumentType,
+  type SubDocument,
+} from "@/utils/documentTypes";
+
+interface DocumentSplitDialogProps {
+  file: { id: string; file_name: string; file_path: string; workspace_id: string } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SOURCE_LABELS = { heuristic: 'Detected', ai: 'AI', manual: 'Edited' } as const;
+
+// The documents inside one combined PDF: review their types and boundaries, then save them
+// as virtual sub-documents or split the file into separate workspace files
+export const DocumentSplitDialog = ({ file, open, onOpenChange }: DocumentSplitDialogProps) => {
+  const { user } = useAuth();
+  const { pageClassifications, refreshPageClassifications, refreshFiles } = useWorkspace();
+  const [pageTexts, setPageTexts] = useState<PageText[]>([]);
+  const [documents, setDocuments] = useState<SubDocument[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [aiProgress, setAiProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [splitProgress, setSplitProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const fileId = file?.id;
+
+  // Read once per opening, so a background file refresh doesn't discard unsaved edits
+  const pageClassificationsRef = useRef(pageClassifications);
+  useEffect(() => {
+    pageClassificationsRef.current = pageClassifications;
+  }, [pageClassifications]);
+
+  useEffect(() => {
+    if (!open || !fileId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setDocuments([]);
+    loadPageTexts([fileId]).then(texts => {
+      if (cancelled) return;
+      const pages = texts.get(fileId) || [];
+      const stored = pageClassificationsRef.current[fileId];
+      setPageTexts(pages);
+      // Unclassified files get a heuristic pass straight away, left unsaved for review
+      setDocuments(subDocuments(stored && stored.length > 0 ? stored : classifyPages(pages)));
+      setIsDirty(!stored || stored.length === 0);
+      setIsLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [open, fileId]);
+
+  const updateDocuments = (next: SubDocument[]) => {
+    setDocuments(next);
+    setIsDirty(true);
+  };
+
+  const setDocumentType = (index: number, type: DocumentType) => {
+    updateDocuments(documents.map((doc, i) => i === index ? { ...doc, type, source: 'manual' } : doc));
+  };
+
+  // Starts a new document at the given page, which takes the type of the one it was split from
+  const splitAt = (index: number, pageNum: number) => {
+    const doc = documents[index];
+    const at = doc.pages.indexOf(pageNum);
+    if (at <= 0) return;
+    updateDocuments([
+      ...documents.slice(0, index),
+      { ...doc, pages: doc.pages.slice(0, at), source: 'manual' },
+      { ...doc, pages: doc.pages.slice(at), source: 'manual' },
+      ...documents.slice(index + 1),
+    ]);
+  };
+
+  const mergeWithPrevious = (index: number) => {
+    const previous = documents[index - 1];
+    updateDocuments([
+      ...documents.slice(0, index - 1),
+      { ...previous, pages: [...previous.pages, ...documents[index].pages], source: 'manual' },
+      ...documents.slice(index + 1),
+    ]);
+  };
+
+  const handleDetect = () => {
+    updateDocuments(subDocuments(classifyPages(pageTexts)));
+  };
+
+  const handleAiPass = async () => {
+    if (!file) return;
+    setAiProgress({ done: 0, total: pageTexts.length });
+    try {
+      const classified = await classifyPagesWithAi(file.file_name, pageTexts, (done, total) => setAiProgress({ done, total }));
+      updateDocuments(subDocuments(classified));
+      toast.success("AI classification complete");
+    } catch (error) {
+      console.error('Error classifying pages with AI:', error);
+      toast.error("AI classification failed", { description: "The detected document types were kept" });
+    } finally {
+      setAiProgress(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!fileId) return;
+    setIsSaving(true);
+    try {
+      if (!await savePageClassifications(fileId, fromSubDocuments(documents))) {
+        toast.error("Failed to save document types");
+        return;
+      }
+      await refreshPageClassifications();
+      setIsDirty(false);
+      toast.success(`Saved ${documents.length} document(s)`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Each sub-document becomes its own workspace file; the original file is kept
+  const handleSplit = async () => {
+    if (!file || !user) return;
+    if (!confirm(`Split "${file.file_name}" into ${documents.length} separate files? The original file is kept.`)) return;
+
+    setSplitProgress({ done: 0, total: documents.length });
+    try {
+      const blob = await downloadPdfFromStorage(file.file_path);
+      if (!blob) return;
+      const source = await PDFDocument.load(await blob.arrayBuffer(), { ignoreEncryption: true });
+      const textsByPage = new Map(pageTexts.map(p => [p.pageNum, p.text]));
+
+      let created = 0;
+      for (const doc of documents) {
+        const output = await PDFDocument.create();
+        const copied = await output.copyPages(source, doc.pages.map(pageNum => pageNum - 1));
+        copied.forEach(page => output.addPage(page));
+        const bytes = await output.save();
+
+        const fileName = subDocumentFileName(file.file_name, doc);
+        const filePath = await uploadPdfToStorage(new Blob([bytes], { type: 'application/pdf' }), fileName, file.workspace_id, user.id);
+        if (!filePath) continue;
+
+        const { data: newFile, error } = await supabase
+          .from('workspace_files')
+          .select('id')
+          .eq('file_path', filePath)
+          .single();
+        if (error || !newFile) {
+          console.error('Error finding split file:', error);
+          continue;
+        }
+
+        // Carry over the text and classification so the new file is searchable before ingestion finishes
+        const renumbered = doc.pages.map((pageNum, index) => ({ pageNum: index + 1, text: textsByPage.get(pageNum) || '' }));
+        if (renumbered.some(p => p.text)) await savePageTexts(newFile.id, renumbered);
+        await savePageClassifications(newFile.id, renumbered.map(({ pageNum }) => ({
+          pageNum,
+          type: doc.type,
+          source: doc.source,
+          startsDocument: pageNum === 1,
+        })));
+
+        created++;
+        setSplitProgress({ done: created, total: documents.length });
+      }
+
+      await refreshFiles();
+      if (created === documents.length) {
+        toast.success(`Split into ${created} files`);
+        onOpenChange(false);
+      } else {
+        toast.error(`Created ${created} of ${documents.length} files`);
+      }
+    } catch (error) {
+      console.error('Error splitting PDF:', error);
+      toast.error("Failed to split the file");
+    } finally {
+      setSplitProgress(null);
+    }
+  };
+
+  const excerpt = (pageNum: number) =>
+    pageTexts.find(p => p.pageNum === pageNum)?.text.replace(/\s+/g, ' ').trim().slice(0, 120) || '(no text)';
+
+  const isBusy = !!aiProgress || isSaving || !!splitProgress;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Documents in {file?.file_name}</DialogTitle>
+          <DialogDescription>
+            Check the type and page range of each document. Click a page to start a new document there.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" className="gap-2" onClick={handleDetect} disabled={isLoading || isBusy || pageTexts.length === 0}>
+            <Wand2 className="w-4 h-4" />
+            Detect
+          </Button>
+          <Button variant="outline" size="sm" className="gap-2" onClick={handleAiPass} disabled={isLoading || isBusy || pageTexts.length === 0}>
+            {aiProgress ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+            AI pass
+          </Button>
+          <span className="ml-auto text-xs text-muted-foreground">
+            {documents.length} document(s) · {pageTexts.length} pages
+          </span>
+        </div>
+
+        {(aiProgress || splitProgress) && (
+          <div className="space-y-1">
+            <Progress
+              value={aiProgress ? (aiProgress.done / aiProgress.total) * 100 : (splitProgress!.done / splitProgress!.total) * 100}
+              className="h-1"
+            />
+            <p className="text-xs text-muted-foreground">
+              {aiProgress
+                ? `Classified ${aiProgress.done}/${aiProgress.total} pages`
+                : `Created ${splitProgress!.done}/${splitProgress!.total} files`}
+            </p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : pageTexts.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            This file has no extracted text yet. Wait for text extraction to finish, then try again.
+          </p>
+        ) : (
+          <ScrollArea className="h-[420px] pr-3">
+            <div className="space-y-2">
+              {documents.map((doc, index) => (
+                <div key={`${doc.pages[0]}-${doc.pages.length}`} className="rounded border p-2">
+                  <div className="flex items-center gap-2">
+                    <Select value={doc.type} onValueChange={(value) => setDocumentType(index, value as DocumentType)}>
+                      <SelectTrigger className="w-44 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DOCUMENT_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>{DOCUMENT_TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <span className="text-sm font-medium">{pageRangeLabel(doc.pages)}</span>
+                    <Badge variant="outline" className="text-[10px]">{SOURCE_LABELS[doc.source]}</Badge>
+                    {index > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="ml-auto h-7 gap-1 text-xs"
+                        onClick={() => mergeWithPrevious(index)}
+                        disabled={isBusy}
+                        title="Join these pages onto the document above"
+                      >
+                        <Merge className="w-3 h-3" />
+                        Merge up
+                      </Button>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground italic mt-1 truncate">{excerpt(doc.pages[0])}</p>
+                  {doc.pages.length > 1 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {doc.pages.map((pageNum, pageIndex) => (
+                        <button
+                          key={pageNum}
+                          type="button"
+                          className="text-[10px] px-1.5 py-0.5 rounded border hover:bg-accent disabled:opacity-50"
+                          disabled={pageIndex === 0 || isBusy}
+                          title={pageIndex === 0 ? excerpt(pageNum) : `Start a new document at page ${pageNum}: ${excerpt(pageNum)}`}
+                          onClick={() => splitAt(index, pageNum)}
+                        >
+                          {pageNum}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" className="gap-2" onClick={handleSave} disabled={!isDirty || isBusy || documents.length === 0}>
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save document types
+          </Button>
+          <Button className="gap-2" onClick={handleSplit} disabled={isBusy || documents.length < 2}>
+            {splitProgress ? <Loader2 className="w-4 h-4 animate-spin" /> : <Scissors className="w-4 h-4" />}
+            Split into {documents.length} files
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
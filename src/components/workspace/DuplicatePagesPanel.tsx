@@ -0,0 +1,152 @@
+import { useMemo, useState } from "react";
+import { useWorkspace } from "@/contexts/WorkspaceContext";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, ChevronRight, Copy, Loader2, Star } from "lucide-react";
+import { toast } from "sonner";
+import { makePageKey } from "@/utils/pageKeys";
+import {
+  findDuplicateGroups,
+  fingerprintWorkspaceFiles,
+  replaceDuplicateGroups,
+  type DetectionProgress,
+  type DuplicateMatch,
+} from "@/utils/duplicatePages";
+
+const MATCH_LABELS: Record<DuplicateMatch, string> = {
+  exact: 'Identical text',
+  text: 'Near-identical text',
+  image: 'Same page image',
+};
+
+// Duplicate and near-duplicate pages in the selected workspace, shown under its files
+export const DuplicatePagesPanel = () => {
+  const {
+    selectedWorkspace,
+    workspaceFiles,
+    duplicateGroups,
+    refreshDuplicateGroups,
+    chooseCanonicalPage,
+    skipDuplicates,
+    setSkipDuplicates,
+  } = useWorkspace();
+  const [progress, setProgress] = useState<DetectionProgress | null>(null);
+  const [expanded, setExpanded] = useState(false);
+
+  const fileNames = useMemo(
+    () => new Map(workspaceFiles.map(f => [f.id, f.file_name])),
+    [workspaceFiles]
+  );
+
+  const duplicatePageCount = duplicateGroups.reduce((sum, group) => sum + group.pages.length - 1, 0);
+
+  const handleFindDuplicates = async () => {
+    if (!selectedWorkspace || workspaceFiles.length === 0) return;
+
+    setProgress({ fileName: '', current: 0, total: workspaceFiles.length });
+    try {
+      // Oldest upload first, so the original copy of a page is the default canonical one
+      const files = [...workspaceFiles].sort((a, b) => a.created_at.localeCompare(b.created_at));
+      const fingerprints = await fingerprintWorkspaceFiles(files, setProgress);
+
+      const chosen = new Set(duplicateGroups.flatMap(group =>
+        group.pages.filter(p => p.canonical).map(p => makePageKey(p.fileId, p.pageNum))
+      ));
+      const groups = findDuplicateGroups(fingerprints, chosen);
+
+      if (!await replaceDuplicateGroups(selectedWorkspace.id, groups)) {
+        toast.error("Failed to save duplicate pages");
+        return;
+      }
+      await refreshDuplicateGroups();
+      setExpanded(groups.length > 0);
+      toast.success(groups.length > 0
+        ? `Found ${groups.length} group(s) of repeated pages`
+        : "No duplicate pages found");
+    } catch (error) {
+      console.error('Error finding duplicate pages:', error);
+      toast.error("Failed to check for duplicate pages");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  if (!selectedWorkspace || workspaceFiles.length === 0) return null;
+
+  return (
+    <div>
+      <Collapsible open={expanded} onOpenChange={setExpanded}>
+        <div className="flex items-center justify-between px-2 mb-2">
+          <CollapsibleTrigger asChild>
+            <button type="button" className="flex items-center gap-1 text-xs font-semibold text-muted-foreground">
+              {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+              Duplicates
+              {duplicateGroups.length > 0 && (
+                <span className="font-normal">({duplicatePageCount} repeated)</span>
+              )}
+            </button>
+          </CollapsibleTrigger>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={handleFindDuplicates}
+            disabled={!!progress}
+            title="Compare every page in this workspace"
+          >
+            {progress ? <Loader2 className="h-3 w-3 animate-spin" /> : <Copy className="h-3 w-3 mr-1" />}
+            {progress ? '' : duplicateGroups.length > 0 ? 'Recheck' : 'Find'}
+          </Button>
+        </div>
+
+        {progress && (
+          <div className="px-2 pb-2 space-y-1">
+            <Progress value={(progress.current / progress.total) * 100} className="h-1" />
+            <p className="text-[10px] text-muted-foreground truncate">
+              {progress.fileName ? `Comparing ${progress.fileName}` : 'Grouping pages...'}
+            </p>
+          </div>
+        )}
+
+        <label className="flex items-center justify-between gap-2 px-2 pb-2 text-[11px] text-muted-foreground">
+          Skip duplicates in exports and AI scans
+          <Switch checked={skipDuplicates} onCheckedChange={setSkipDuplicates} className="scale-75" />
+        </label>
+
+        <CollapsibleContent>
+          <div className="space-y-2 px-2">
+            {duplicateGroups.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No duplicate pages found yet</p>
+            ) : duplicateGroups.map((group, index) => (
+              <div key={group.id || index} className="rounded border p-1.5">
+                <p className="text-[10px] text-muted-foreground mb-1">
+                  {MATCH_LABELS[group.match]} · {Math.round(group.similarity * 100)}%
+                </p>
+                {group.pages.map(page => (
+                  <div key={makePageKey(page.fileId, page.pageNum)} className="flex items-center gap-1 text-[11px]">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-5 w-5 flex-shrink-0"
+                      title={page.canonical ? "Canonical page" : "Use this page as the canonical copy"}
+                      disabled={page.canonical || !group.id}
+                      onClick={() => group.id && chooseCanonicalPage(group.id, page.fileId, page.pageNum)}
+                    >
+                      <Star className={`h-3 w-3 ${page.canonical ? 'fill-yellow-400 text-yellow-500' : 'text-muted-foreground'}`} />
+                    </Button>
+                    <span className={`truncate flex-1 ${page.canonical ? 'font-medium' : 'text-muted-foreground'}`}>
+                      {fileNames.get(page.fileId) || 'Unknown file'}
+                    </span>
+                    <span className="text-muted-foreground flex-shrink-0">p.{page.pageNum}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import { useMemo, useState } from "react";
+import { useWorkspace } from "@/contexts/WorkspaceContext";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { SkipForward } from "lucide-react";
+import { toast } from "sonner";
+import {
+  REVIEW_STATUSES,
+  REVIEW_STATUS_COLORS,
+  REVIEW_STATUS_LABELS,
+  combineReviewProgress,
+  fileReviewProgress,
+  findNextUnreviewed,
+  type PageRef,
+} from "@/utils/pageReview";
+
+interface ReviewProgressPanelProps {
+  onOpenPage?: (fileId: string, filePath: string, fileName: string, pageNum: number) => void;
+}
+
+// Review progress across the selected workspace, shown under its files
+export const ReviewProgressPanel = ({ onOpenPage }: ReviewProgressPanelProps) => {
+  const { selectedWorkspace, workspaceFiles, pageReviews } = useWorkspace();
+  // Where the last "next unreviewed" jump landed, so skipping a page moves on instead of returning to it
+  const [lastVisited, setLastVisited] = useState<PageRef | undefined>();
+
+  const orderedFiles = useMemo(
+    () => [...workspaceFiles].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    [workspaceFiles]
+  );
+
+  const progress = useMemo(
+    () => combineReviewProgress(orderedFiles.map(file => fileReviewProgress(file, pageReviews))),
+    [orderedFiles, pageReviews]
+  );
+
+  const handleNextUnreviewed = () => {
+    const next = findNextUnreviewed(orderedFiles, pageReviews, lastVisited);
+    if (!next) {
+      toast.success("Every page in this workspace has been reviewed");
+      return;
+    }
+    const file = orderedFiles.find(f => f.id === next.fileId);
+    if (!file) return;
+    setLastVisited(next);
+    onOpenPage?.(file.id, file.file_path, file.file_name, next.pageNum);
+  };
+
+  if (!selectedWorkspace || progress.total === 0) return null;
+
+  return (
+    <div className="px-2 space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold text-muted-foreground">
+          Review <span className="font-normal">{progress.reviewed}/{progress.total} pages</span>
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={handleNextUnreviewed}
+          disabled={!onOpenPage}
+          title="Open the next page nobody has reviewed"
+        >
+          <SkipForward className="h-3 w-3 mr-1" />
+          Next
+        </Button>
+      </div>
+      <Progress value={(progress.reviewed / progress.total) * 100} className="h-1.5" />
+      <div className="flex flex-wrap gap-x-2 gap-y-0.5">
+        {REVIEW_STATUSES.filter(status => status !== 'unreviewed' && progress.counts[status] > 0).map(status => (
+          <span key={status} className="flex items-center gap-1 text-[10px] text-muted-foreground">
+            <span className={`w-1.5 h-1.5 rounded-full ${REVIEW_STATUS_COLORS[status]}`} />
+            {REVIEW_STATUS_LABELS[status]} {progress.counts[status]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
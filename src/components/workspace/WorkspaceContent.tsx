@@ -10,11 +10,11 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { deletePdfFromStorage } from "@/utils/supabaseStorage";
 
-export const WorkspaceContent = ({ selectedFileFromSidebar }: { selectedFileFromSidebar: { id: string; path: string; name: string } | null }) => {
+export const WorkspaceContent = ({ selectedFileFromSidebar }: { selectedFileFromSidebar: { id: string; path: string; name: string; pageNum?: number } | null }) => {
   const { selectedWorkspace, workspaceFiles, refreshFiles } = useWorkspace();
   const { user } = useAuth();
   const [showPdfTools, setShowPdfTools] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<{ id: string; path: string; name: string } | null>(null);
+  const [selectedFile, setSelectedFile] = useState<{ id: string; path: string; name: string; pageNum?: number } | null>(null);
 
   useEffect(() => {
     if (selectedFileFromSidebar) {
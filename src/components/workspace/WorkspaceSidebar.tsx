@@ -1,4 +1,4 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useMemo } from "react";
 import { useWorkspace } from "@/contexts/WorkspaceContext";
 import { useAuth } from "@/contexts/AuthContext";
 import {
@@ -30,9 +30,14 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { FolderOpen, Plus, LogOut, User, Trash2, FileText, ChevronRight, ChevronDown, Upload, Sparkles, CheckCircle2, X } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { FolderOpen, Plus, LogOut, User, Trash2, FileText, ChevronRight, ChevronDown, Upload, Sparkles, CheckCircle2, X, AlertCircle, RotateCw, Layers } from "lucide-react";
 import dvaLogo from "@/assets/dva-logo.png";
 import { uploadPdfToStorage, deletePdfFromStorage } from "@/utils/supabaseStorage";
+import { DuplicatePagesPanel } from "./DuplicatePagesPanel";
+import { DocumentSplitDialog } from "./DocumentSplitDialog";
+import { ReviewProgressPanel } from "./ReviewProgressPanel";
+import { fileReviewProgress } from "@/utils/pageReview";
 import { toast } from "sonner";
 import jsPDF from "jspdf";
 import html2canvas from "html2canvas";
@@ -40,11 +45,11 @@ import mammoth from "mammoth";
 import DOMPurify from "dompurify";
 
 interface WorkspaceSidebarProps {
-  onFileSelect?: (fileId: string, filePath: string, fileName: string) => void;
+  onFileSelect?: (fileId: string, filePath: string, fileName: string, pageNum?: number) => void;
 }
 
 export const WorkspaceSidebar = ({ onFileSelect }: WorkspaceSidebarProps) => {
-  const { workspaces, selectedWorkspace, allWorkspaceFiles, selectWorkspace, createWorkspace, deleteWorkspace, refreshFiles } =
+  const { workspaces, selectedWorkspace, allWorkspaceFiles, selectWorkspace, createWorkspace, deleteWorkspace, refreshFiles, ingestionJobs, startIngestion, workspaceFiles, pageReviews } =
     useWorkspace();
   const { user, signOut } = useAuth();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
@@ -55,6 +60,13 @@ export const WorkspaceSidebar = ({ onFileSelect }: WorkspaceSidebarProps) => {
   const [expandedWorkspaces, setExpandedWorkspaces] = useState<Set<string>>(new Set([selectedWorkspace?.id || ""]));
   const [uploadingForWorkspace, setUploadingForWorkspace] = useState<string | null>(null);
   const fileInputRefs = useRef<{ [key: string]: HTMLInputElement | null }>({});
+  const [documentsFile, setDocumentsFile] = useState<{ id: string; file_name: string; file_path: string; workspace_id: string } | null>(null);
+
+  // Review state is only loaded for the selected workspace
+  const reviewProgressByFile = useMemo(
+    () => new Map(workspaceFiles.map(file => [file.id, fileReviewProgress(file, pageReviews)])),
+    [workspaceFiles, pageReviews]
+  );
 
   const handleCreateWorkspace = async () => {
     if (!newName.trim()) return;
@@ -389,8 +401,13 @@ export const WorkspaceSidebar = ({ onFileSelect }: WorkspaceSidebarProps) => {
                                 </div>
                               ) : (
                                 <div className="space-y-1">
-                                   {filesForWorkspace.map((file) => (
-                                    <div key={file.id} className="flex items-center gap-1 group">
+                                   {filesForWorkspace.map((file) => {
+                                    const job = ingestionJobs[file.id];
+                                    const isIngesting = job && (job.status === 'queued' || job.status === 'running');
+                                    const review = isSelected ? reviewProgressByFile.get(file.id) : undefined;
+                                    return (
+                                    <div key={file.id}>
+                                    <div className="flex items-center gap-1 group">
                                       <Button
                                         variant="ghost"
                                         size="sm"
@@ -403,6 +420,20 @@ export const WorkspaceSidebar = ({ onFileSelect }: WorkspaceSidebarProps) => {
                                           <CheckCircle2 className="h-3 w-3 ml-1 text-green-500 flex-shrink-0" />
                                         )}
                                       </Button>
+                                      {isSelected && file.ocr_completed && (
+                                        <Button
+                                          variant="ghost"
+                                          size="icon"
+                                          className="h-6 w-6 opacity-0 group-hover:opacity-100 flex-shrink-0"
+                                          title="Document types and splitting"
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            setDocumentsFile(file);
+                                          }}
+                                        >
+                                          <Layers className="h-3 w-3" />
+                                        </Button>
+                                      )}
                                       <Button
                                         variant="ghost"
                                         size="icon"
@@ -412,10 +443,55 @@ export const WorkspaceSidebar = ({ onFileSelect }: WorkspaceSidebarProps) => {
                                         <X className="h-3 w-3 text-destructive" />
                                       </Button>
                                     </div>
-                                  ))}
+                                    {isIngesting && (
+                                      <div className="px-2 pb-1 space-y-1">
+                                        <Progress
+                                          value={job.total_pages ? (job.processed_pages / job.total_pages) * 100 : 0}
+                                          className="h-1"
+                                        />
+                                        <p className="text-[10px] text-muted-foreground">
+                                          {job.total_pages
+                                            ? `Extracting text ${job.processed_pages}/${job.total_pages} pages`
+                                            : 'Queued for text extraction'}
+                                        </p>
+                                      </div>
+                                    )}
+                                    {!isIngesting && review && review.total > 0 && (
+                                      <div
+                                        className="px-2 pb-1 flex items-center gap-2"
+                                        title={`${review.reviewed} of ${review.total} pages reviewed`}
+                                      >
+                                        <Progress value={(review.reviewed / review.total) * 100} className="h-1 flex-1" />
+                                        <span className="text-[10px] text-muted-foreground">{review.reviewed}/{review.total}</span>
+                                      </div>
+                                    )}
+                                    {job?.status === 'failed' && (
+                                      <div className="px-2 pb-1 flex items-center gap-1 text-[10px] text-destructive">
+                                        <AlertCircle className="h-3 w-3 flex-shrink-0" />
+                                        <span className="truncate flex-1" title={job.error || undefined}>
+                                          Extraction stopped at page {job.next_page}
+                                        </span>
+                                        <Button
+                                          variant="ghost"
+                                          size="icon"
+                                          className="h-5 w-5"
+                                          title="Resume extraction"
+                                          onClick={() => startIngestion(file.id)}
+                                        >
+                                          <RotateCw className="h-3 w-3" />
+                                        </Button>
+                                      </div>
+                                    )}
+                                    </div>
+                                    );
+                                  })}
                                 </div>
                               )}
                             </div>
+
+                            {isSelected && <ReviewProgressPanel onOpenPage={onFileSelect} />}
+
+                            {isSelected && <DuplicatePagesPanel />}
                           </div>
                         </CollapsibleContent>
                       </SidebarMenuItem>
@@ -439,6 +515,12 @@ export const WorkspaceSidebar = ({ onFileSelect }: WorkspaceSidebarProps) => {
           </Button>
         </div>
       </SidebarFooter>
+
+      <DocumentSplitDialog
+        file={documentsFile}
+        open={!!documentsFile}
+        onOpenChange={(open) => !open && setDocumentsFile(null)}
+      />
     </Sidebar>
   );
 };
@@ -151,6 +151,10 @@ interface DIAContextType {
   diaInstructions: string;
   setDiaInstructions: (instructions: string) => void;
   resetToDefault: () => void;
+  // Pre-built bullet list for a workspace's Timeline heading, e.g. from the clinical chronology.
+  // Kept per workspace so switching workspaces never sends another patient's chronology.
+  timelineFor: (workspaceId: string | undefined) => string;
+  setTimelineSection: (workspaceId: string, timeline: string) => void;
 }
 
 const DIAContext = createContext<DIAContextType | undefined>(undefined);
@@ -161,6 +165,13 @@ export const DIAProvider = ({ children }: { children: ReactNode }) => {
     const saved = localStorage.getItem('dia_instructions');
     return saved || DEFAULT_INSTRUCTIONS;
   });
+  const [timelines, setTimelines] = useState<Record<string, string>>({});
+
+  const timelineFor = (workspaceId: string | undefined) => (workspaceId && timelines[workspaceId]) || "";
+
+  const setTimelineSection = (workspaceId: string, timeline: string) => {
+    setTimelines(prev => ({ ...prev, [workspaceId]: timeline }));
+  };
 
   const updateInstructions = (instructions: string) => {
     setDiaInstructions(instructions);
@@ -176,7 +187,9 @@ export const DIAProvider = ({ children }: { children: ReactNode }) => {
     <DIAContext.Provider value={{ 
       diaInstructions, 
       setDiaInstructions: updateInstructions,
-      resetToDefault 
+      resetToDefault,
+      timelineFor,
+      setTimelineSection
     }}>
       {children}
     </DIAContext.Provider>
@@ -1,7 +1,20 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import { createContext, useContext, useState, useEffect, useRef, ReactNode } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "./AuthContext";
 import { toast } from "sonner";
+import { loadDuplicateGroups, saveCanonicalPage, type DuplicateGroup } from "@/utils/duplicatePages";
+import { loadPageClassifications, type PageClassification } from "@/utils/documentTypes";
+import { loadPageReviews, savePageReviews, type PageRef, type PageReview, type ReviewStatus } from "@/utils/pageReview";
+import {
+  createAnnotation,
+  createAnnotationComment,
+  deleteAnnotation,
+  loadPageAnnotations,
+  updateAnnotationDiagnosis,
+  type AnnotationDraft,
+  type PageAnnotation,
+} from "@/utils/annotations";
+import { makePageKey } from "@/utils/pageKeys";
 
 interface Workspace {
   id: string;
@@ -27,10 +40,24 @@ interface WorkspaceDiagnosis {
   workspace_id: string;
   diagnosis_name: string;
   page_count: number;
+  // Derived from file_page_diagnoses by the database; fileId is the workspace_files id
   pages: Array<{ fileId: string; fileName: string; pageNum: number; key: string }>;
   created_at: string;
 }
 
+interface IngestionJob {
+  id: string;
+  file_id: string;
+  workspace_id: string;
+  status: string;
+  total_pages: number | null;
+  next_page: number;
+  processed_pages: number;
+  ocr_pages: number;
+  error: string | null;
+  updated_at: string | null;
+}
+
 interface WorkspaceContextType {
   workspaces: Workspace[];
   selectedWorkspace: Workspace | null;
@@ -44,8 +71,31 @@ interface WorkspaceContextType {
   refreshWorkspaces: () => Promise<void>;
   refreshFiles: () => Promise<void>;
   refreshDiagnoses: () => Promise<void>;
-  saveDiagnosis: (diagnosis: string, pages: Array<{ fileId: string; fileName: string; pageNum: number; key: string }>) => Promise<void>;
+  savePageDiagnoses: (fileId: string, pageNum: number, diagnoses: string[]) => Promise<boolean>;
+  renameDiagnosis: (diagnosisId: string, newName: string) => Promise<boolean>;
+  mergeDiagnoses: (sourceId: string, targetId: string) => Promise<boolean>;
   deleteDiagnosis: (diagnosisId: string) => Promise<void>;
+  ingestionJobs: Record<string, IngestionJob>;
+  refreshIngestionJobs: () => Promise<void>;
+  startIngestion: (fileId: string) => Promise<boolean>;
+  duplicateGroups: DuplicateGroup[];
+  refreshDuplicateGroups: () => Promise<void>;
+  chooseCanonicalPage: (groupId: string, fileId: string, pageNum: number) => Promise<boolean>;
+  // Whether exports and AI scans keep only one page of each duplicate group
+  skipDuplicates: boolean;
+  setSkipDuplicates: (skip: boolean) => void;
+  // Stored document types and boundaries of each file's pages, keyed by file id
+  pageClassifications: Record<string, PageClassification[]>;
+  refreshPageClassifications: () => Promise<void>;
+  // Reviewed pages keyed by page key; pages missing from it are unreviewed
+  pageReviews: Record<string, PageReview>;
+  setPageReviewStatus: (pages: PageRef[], status: ReviewStatus) => Promise<boolean>;
+  // Highlights, notes and redactions keyed by page key
+  pageAnnotations: Record<string, PageAnnotation[]>;
+  addAnnotation: (draft: AnnotationDraft) => Promise<PageAnnotation | null>;
+  setAnnotationDiagnosis: (annotation: PageAnnotation, diagnosis: string | null) => Promise<boolean>;
+  removeAnnotation: (annotation: PageAnnotation) => Promise<boolean>;
+  addAnnotationComment: (annotation: PageAnnotation, body: string) => Promise<boolean>;
   loading: boolean;
 }
 
@@ -58,8 +108,15 @@ export const WorkspaceProvider = ({ children }: { children: ReactNode }) => {
   const [workspaceDiagnoses, setWorkspaceDiagnoses] = useState<WorkspaceDiagnosis[]>([]);
   const [allWorkspaceFiles, setAllWorkspaceFiles] = useState<Record<string, WorkspaceFile[]>>({});
   const [allWorkspaceDiagnoses, setAllWorkspaceDiagnoses] = useState<Record<string, WorkspaceDiagnosis[]>>({});
+  const [ingestionJobs, setIngestionJobs] = useState<Record<string, IngestionJob>>({});
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[]>([]);
+  const [pageClassifications, setPageClassifications] = useState<Record<string, PageClassification[]>>({});
+  const [pageReviews, setPageReviews] = useState<Record<string, PageReview>>({});
+  const [pageAnnotations, setPageAnnotations] = useState<Record<string, PageAnnotation[]>>({});
+  const [skipDuplicates, setSkipDuplicatesState] = useState(() => localStorage.getItem('skip_duplicate_pages') === 'true');
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
+  const ingestionJobsRef = useRef<Record<string, IngestionJob>>({});
 
   const refreshWorkspaces = async () => {
     if (!user) {
@@ -196,11 +253,9 @@ export const WorkspaceProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
-  const saveDiagnosis = async (
-    diagnosis: string,
-    pages: Array<{ fileId: string; fileName: string; pageNum: number; key: string }>
-  ) => {
-    if (!selectedWorkspace || !user) return;
+  // Replace the diagnoses tagged on one page; workspace_diagnoses.pages is rebuilt from the links by the database
+  const savePageDiagnoses = async (fileId: string, pageNum: number, diagnoses: string[]) => {
+    if (!selectedWorkspace || !user) return false;
 
     // Check if session is still valid
     const { data: { session }, error: sessionError } = await supabase.auth.getSession();
@@ -208,71 +263,233 @@ export const WorkspaceProvider = ({ children }: { children: ReactNode }) => {
     if (sessionError || !session) {
       toast.error("Your session has expired. Please refresh the page and log in again.");
       console.error("Session error:", sessionError);
-      return;
+      return false;
     }
 
-    // Check if diagnosis already exists for current user
-    const { data: existing } = await supabase
-      .from("workspace_diagnoses")
-      .select("*")
-      .eq("workspace_id", selectedWorkspace.id)
-      .eq("diagnosis_name", diagnosis)
-      .eq("created_by", user.id)
-      .maybeSingle();
+    const { error } = await supabase.rpc("set_page_diagnoses", {
+      _file_id: fileId,
+      _page_number: pageNum,
+      _diagnoses: diagnoses,
+    });
 
-    if (existing) {
-      // Merge existing pages with new pages (by unique key) to avoid overwriting
-      const existingPages = (existing.pages as any[] | null) ?? [];
-      const byKey = new Map<string, { fileId: string; fileName: string; pageNum: number; key: string }>();
-      for (const p of existingPages) {
-        if (p && typeof p.key === 'string') byKey.set(p.key, p);
-      }
-      for (const p of pages) {
-        if (p && typeof p.key === 'string') byKey.set(p.key, p);
+    if (error) {
+      console.error("Error saving page diagnoses:", error);
+      if (error.code === '42501') {
+        toast.error("Session expired - please refresh the page and log in again");
+      } else {
+        toast.error("Failed to save diagnosis");
       }
-      const mergedPages = Array.from(byKey.values());
+      return false;
+    }
 
-      const { error } = await supabase
-        .from("workspace_diagnoses")
-        .update({
-          pages: mergedPages,
-          page_count: mergedPages.length,
-        })
-        .eq("id", existing.id);
+    await refreshDiagnoses();
+    return true;
+  };
 
-      if (error) {
-        console.error("Error updating diagnosis:", error);
-        if (error.code === '42501') {
-          toast.error("Session expired - please refresh the page and log in again");
-        } else {
-          toast.error("Failed to update diagnosis");
-        }
-        return;
-      }
-    } else {
-      // Create new diagnosis
-      const { error } = await supabase
-        .from("workspace_diagnoses")
-        .insert({
-          workspace_id: selectedWorkspace.id,
-          diagnosis_name: diagnosis,
-          pages: pages,
-          page_count: pages.length,
-          created_by: user.id,
-        });
+  const mergeDiagnoses = async (sourceId: string, targetId: string) => {
+    const { error } = await supabase.rpc("merge_workspace_diagnoses", {
+      _source_id: sourceId,
+      _target_id: targetId,
+    });
 
-      if (error) {
-        console.error("Error saving diagnosis:", error);
-        if (error.code === '42501') {
-          toast.error("Session expired - please refresh the page and log in again");
-        } else {
-          toast.error("Failed to save diagnosis");
-        }
-        return;
-      }
+    if (error) {
+      console.error("Error merging diagnoses:", error);
+      toast.error("Failed to merge diagnoses");
+      return false;
+    }
+
+    await refreshDiagnoses();
+    return true;
+  };
+
+  // Renaming onto an existing diagnosis name merges the two
+  const renameDiagnosis = async (diagnosisId: string, newName: string) => {
+    const existing = workspaceDiagnoses.find(d => d.diagnosis_name === newName && d.id !== diagnosisId);
+    if (existing) {
+      return mergeDiagnoses(diagnosisId, existing.id);
+    }
+
+    const { error } = await supabase
+      .from("workspace_diagnoses")
+      .update({ diagnosis_name: newName })
+      .eq("id", diagnosisId);
+
+    if (error) {
+      console.error("Error renaming diagnosis:", error);
+      toast.error("Failed to rename diagnosis");
+      return false;
     }
 
     await refreshDiagnoses();
+    return true;
+  };
+
+  const refreshIngestionJobs = async () => {
+    if (!selectedWorkspace) return;
+
+    const { data, error } = await supabase
+      .from("ingestion_jobs")
+      .select("id, file_id, workspace_id, status, total_pages, next_page, processed_pages, ocr_pages, error, updated_at")
+      .eq("workspace_id", selectedWorkspace.id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching ingestion jobs:", error);
+      return;
+    }
+
+    // Keep the latest job per file
+    const jobsByFile: Record<string, IngestionJob> = {};
+    (data || []).forEach(job => {
+      jobsByFile[job.file_id] = job;
+    });
+
+    // Reload files once a job finishes so OCR status and page text are picked up
+    const finished = Object.values(jobsByFile).some(job =>
+      job.status === "completed" && ingestionJobsRef.current[job.file_id]?.status !== "completed"
+    );
+
+    ingestionJobsRef.current = jobsByFile;
+    setIngestionJobs(jobsByFile);
+
+    if (finished) {
+      await refreshFiles();
+    }
+  };
+
+  const startIngestion = async (fileId: string) => {
+    const { data, error } = await supabase.functions.invoke("ingest-file", {
+      body: { fileId },
+    });
+
+    if (error || data?.error) {
+      console.error("Error starting ingestion:", error || data?.error);
+      toast.error("Failed to start server-side scan");
+      return false;
+    }
+
+    await refreshIngestionJobs();
+    return true;
+  };
+
+  const refreshDuplicateGroups = async () => {
+    if (!selectedWorkspace) return;
+
+    const groups = await loadDuplicateGroups(selectedWorkspace.id);
+    if (groups) setDuplicateGroups(groups);
+  };
+
+  const chooseCanonicalPage = async (groupId: string, fileId: string, pageNum: number) => {
+    if (!await saveCanonicalPage(groupId, fileId, pageNum)) {
+      toast.error("Failed to change the canonical page");
+      return false;
+    }
+
+    setDuplicateGroups(prev => prev.map(group => group.id !== groupId ? group : {
+      ...group,
+      pages: group.pages.map(p => ({ ...p, canonical: p.fileId === fileId && p.pageNum === pageNum })),
+    }));
+    return true;
+  };
+
+  const refreshPageClassifications = async () => {
+    const classifications = await loadPageClassifications(workspaceFiles.map(f => f.id));
+    setPageClassifications(Object.fromEntries(classifications));
+  };
+
+  const refreshPageReviews = async () => {
+    const reviews = await loadPageReviews(workspaceFiles.map(f => f.id));
+    if (reviews) setPageReviews(reviews);
+  };
+
+  const setPageReviewStatus = async (pages: PageRef[], status: ReviewStatus) => {
+    if (!user || pages.length === 0) return false;
+
+    const review = await savePageReviews(pages, status, user.id);
+    if (!review) {
+      toast.error("Failed to save review status");
+      return false;
+    }
+
+    setPageReviews(prev => {
+      const next = { ...prev };
+      pages.forEach(({ fileId, pageNum }) => {
+        const key = makePageKey(fileId, pageNum);
+        if (status === 'unreviewed') delete next[key];
+        else next[key] = review;
+      });
+      return next;
+    });
+    return true;
+  };
+
+  const refreshPageAnnotations = async () => {
+    const annotations = await loadPageAnnotations(workspaceFiles.map(f => f.id));
+    if (annotations) setPageAnnotations(annotations);
+  };
+
+  // Applies a change to one annotation in local state
+  const updateLocalAnnotation = (annotation: PageAnnotation, update: (current: PageAnnotation) => PageAnnotation | null) => {
+    const key = makePageKey(annotation.fileId, annotation.pageNum);
+    setPageAnnotations(prev => {
+      const updated = (prev[key] || []).flatMap(current => {
+        if (current.id !== annotation.id) return [current];
+        const next = update(current);
+        return next ? [next] : [];
+      });
+      return { ...prev, [key]: updated };
+    });
+  };
+
+  const addAnnotation = async (draft: AnnotationDraft) => {
+    if (!selectedWorkspace) return null;
+
+    const annotation = await createAnnotation(selectedWorkspace.id, draft);
+    if (!annotation) {
+      toast.error("Failed to save annotation");
+      return null;
+    }
+
+    const key = makePageKey(annotation.fileId, annotation.pageNum);
+    setPageAnnotations(prev => ({ ...prev, [key]: [...(prev[key] || []), annotation] }));
+    return annotation;
+  };
+
+  const setAnnotationDiagnosis = async (annotation: PageAnnotation, diagnosis: string | null) => {
+    if (!await updateAnnotationDiagnosis(annotation.id, diagnosis)) {
+      toast.error("Failed to update annotation");
+      return false;
+    }
+    updateLocalAnnotation(annotation, current => ({ ...current, diagnosis }));
+    return true;
+  };
+
+  const removeAnnotation = async (annotation: PageAnnotation) => {
+    if (!await deleteAnnotation(annotation.id)) {
+      toast.error("Failed to delete annotation");
+      return false;
+    }
+    updateLocalAnnotation(annotation, () => null);
+    return true;
+  };
+
+  const addAnnotationComment = async (annotation: PageAnnotation, body: string) => {
+    const text = body.trim();
+    if (!user || !text) return false;
+
+    const authorName = (user.user_metadata?.full_name as string | undefined) || user.email || null;
+    const comment = await createAnnotationComment(annotation.id, text, authorName);
+    if (!comment) {
+      toast.error("Failed to add comment");
+      return false;
+    }
+    updateLocalAnnotation(annotation, current => ({ ...current, comments: [...current.comments, comment] }));
+    return true;
+  };
+
+  const setSkipDuplicates = (skip: boolean) => {
+    setSkipDuplicatesState(skip);
+    localStorage.setItem('skip_duplicate_pages', String(skip));
   };
 
   const deleteDiagnosis = async (diagnosisId: string) => {
@@ -309,11 +526,40 @@ export const WorkspaceProvider = ({ children }: { children: ReactNode }) => {
   useEffect(() => {
     if (selectedWorkspace) {
       console.log(`Selected workspace changed: ${selectedWorkspace.name}`);
+      ingestionJobsRef.current = {};
+      setDuplicateGroups([]);
+      setPageReviews({});
+      setPageAnnotations({});
       refreshFiles();
       refreshDiagnoses();
     }
   }, [selectedWorkspace]);
 
+  // New uploads queue an ingestion job, so pick up job state whenever the file list changes.
+  // Deleting a file also removes its pages from duplicate groups.
+  useEffect(() => {
+    refreshIngestionJobs();
+    refreshDuplicateGroups();
+    refreshPageClassifications();
+    refreshPageReviews();
+    refreshPageAnnotations();
+  }, [workspaceFiles]);
+
+  // Poll ingestion progress while any job in the workspace is still queued or running
+  const hasActiveIngestion = Object.values(ingestionJobs).some(job =>
+    job.status === "queued" || job.status === "running"
+  );
+
+  useEffect(() => {
+    if (!selectedWorkspace || !hasActiveIngestion) return;
+
+    const interval = setInterval(() => {
+      refreshIngestionJobs();
+    }, 5000);
+
+    return () => clearInterval(interval);
+  }, [selectedWorkspace, hasActiveIngestion]);
+
   const selectWorkspace = (workspaceId: string) => {
     const workspace = workspaces.find((w) => w.id === workspaceId);
     if (workspace) {
@@ -432,8 +678,27 @@ export const WorkspaceProvider = ({ children }: { children: ReactNode }) => {
         refreshWorkspaces,
         refreshFiles,
         refreshDiagnoses,
-        saveDiagnosis,
+        savePageDiagnoses,
+        renameDiagnosis,
+        mergeDiagnoses,
         deleteDiagnosis,
+        ingestionJobs,
+        refreshIngestionJobs,
+        startIngestion,
+        duplicateGroups,
+        refreshDuplicateGroups,
+        chooseCanonicalPage,
+        skipDuplicates,
+        setSkipDuplicates,
+        pageClassifications,
+        refreshPageClassifications,
+        pageReviews,
+        setPageReviewStatus,
+        pageAnnotations,
+        addAnnotation,
+        setAnnotationDiagnosis,
+        removeAnnotation,
+        addAnnotationComment,
         loading,
       }}
     >
@@ -0,0 +1,482 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import * as pdfjsLib from "pdfjs-dist";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+export type ScanStatus = "queued" | "running" | "paused" | "failed" | "done";
+
+export interface ScanJob {
+  id: string;
+  workspace_id: string;
+  model: string;
+  status: ScanStatus;
+  created_at: string | null;
+}
+
+export interface ScanJobPage {
+  id: string;
+  job_id: string;
+  file_id: string;
+  page_number: number;
+  status: ScanStatus;
+  diagnosis: string | null;
+  error: string | null;
+  attempts: number;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+export interface ScanQueueFile {
+  id: string;
+  fileIndex: number;
+  file: File;
+}
+
+interface UseAIScanQueueOptions {
+  workspaceId: string | null;
+  files: ScanQueueFile[];
+  getPageText: (fileIndex: number, pageNum: number) => string;
+  onPageDiagnosed: (fileId: string, pageNum: number, diagnoses: string[]) => Promise<void>;
+}
+
+// Delay between pages to stay under provider rate limits
+export const PAGE_DELAY_MS = 1500;
+const REQUEST_TIMEOUT_MS = 30000;
+const PAGE_FETCH_SIZE = 1000;
+const PAGE_INSERT_BATCH = 500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function useAIScanQueue({ workspaceId, files, getPageText, onPageDiagnosed }: UseAIScanQueueOptions) {
+  const [job, setJob] = useState<ScanJob | null>(null);
+  const [pages, setPages] = useState<ScanJobPage[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const filesRef = useRef(files);
+  const getPageTextRef = useRef(getPageText);
+  const onPageDiagnosedRef = useRef(onPageDiagnosed);
+  const stopRef = useRef(false);
+  // Each runner loop owns a token and exits as soon as it is no longer the current one, so a loop
+  // still awaiting a page when the workspace changes or the job is stopped can't carry on
+  const runTokenRef = useRef(0);
+  const runningJobIdRef = useRef<string | null>(null);
+  // Only one runner loop is ever alive. A run asked for while a superseded loop is still
+  // finishing its page waits here and starts when that loop exits.
+  const workerActiveRef = useRef(false);
+  const pendingRunRef = useRef<ScanJob | null>(null);
+  // Pages are scanned file by file, so only the document being scanned is kept open
+  const pdfCacheRef = useRef<{ file: File; pdf: Promise<pdfjsLib.PDFDocumentProxy> } | null>(null);
+
+  useEffect(() => {
+    filesRef.current = files;
+    getPageTextRef.current = getPageText;
+    onPageDiagnosedRef.current = onPageDiagnosed;
+  }, [files, getPageText, onPageDiagnosed]);
+
+  // Ends the current run straight away; a page it is waiting on stays running and is requeued on the next load
+  const stopRunner = () => {
+    runTokenRef.current++;
+    runningJobIdRef.current = null;
+    pendingRunRef.current = null;
+    stopRef.current = true;
+    setIsRunning(false);
+  };
+
+  const updatePage = (pageId: string, changes: Partial<ScanJobPage>) => {
+    setPages(prev => prev.map(p => p.id === pageId ? { ...p, ...changes } : p));
+  };
+
+  const setJobStatus = async (jobId: string, status: ScanStatus) => {
+    const { error } = await supabase
+      .from('ai_scan_jobs')
+      .update({ status })
+      .eq('id', jobId);
+
+    if (error) {
+      console.error('Error updating scan job:', error);
+      return false;
+    }
+
+    setJob(prev => prev && prev.id === jobId ? { ...prev, status } : prev);
+    return true;
+  };
+
+  const setPagesStatus = async (jobId: string, from: ScanStatus, to: ScanStatus) => {
+    const { error } = await supabase
+      .from('ai_scan_job_pages')
+      .update({ status: to })
+      .eq('job_id', jobId)
+      .eq('status', from);
+
+    if (error) {
+      console.error('Error updating scan pages:', error);
+      return;
+    }
+
+    setPages(prev => prev.map(p => p.status === from ? { ...p, status: to } : p));
+  };
+
+  const loadJobPages = async (jobId: string) => {
+    const allPages: ScanJobPage[] = [];
+    for (let from = 0; ; from += PAGE_FETCH_SIZE) {
+      const { data, error } = await supabase
+        .from('ai_scan_job_pages')
+        .select('*')
+        .eq('job_id', jobId)
+        .order('file_id', { ascending: true })
+        .order('page_number', { ascending: true })
+        .range(from, from + PAGE_FETCH_SIZE - 1);
+
+      if (error) throw error;
+      allPages.push(...((data || []) as ScanJobPage[]));
+      if (!data || data.length < PAGE_FETCH_SIZE) break;
+    }
+    return allPages;
+  };
+
+  // Restore the latest unfinished job for this workspace after a reload
+  useEffect(() => {
+    stopRunner();
+    setJob(null);
+    setPages([]);
+    if (!workspaceId) return;
+
+    const loadLatestJob = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('ai_scan_jobs')
+          .select('*')
+          .eq('workspace_id', workspaceId)
+          .neq('status', 'done')
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!data) return;
+
+        let jobPages = await loadJobPages(data.id);
+
+        // A page left running means the tab closed mid-request; queue it again
+        const interrupted = jobPages.filter(p => p.status === 'running');
+        if (interrupted.length > 0) {
+          await supabase
+            .from('ai_scan_job_pages')
+            .update({ status: 'queued' })
+            .eq('job_id', data.id)
+            .eq('status', 'running');
+          jobPages = jobPages.map(p => p.status === 'running' ? { ...p, status: 'queued' as ScanStatus } : p);
+        }
+
+        if (cancelled) return;
+        setPages(jobPages);
+        setJob(data as ScanJob);
+        stopRef.current = false;
+      } catch (error) {
+        console.error('Error loading AI scan job:', error);
+      }
+    };
+
+    let cancelled = false;
+    loadLatestJob();
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId]);
+
+  const releasePdf = useCallback(() => {
+    const cached = pdfCacheRef.current;
+    pdfCacheRef.current = null;
+    cached?.pdf.then(pdf => pdf.destroy()).catch(() => {});
+  }, []);
+
+  const renderPageImage = useCallback(async (file: File, pageNum: number) => {
+    if (pdfCacheRef.current?.file !== file) {
+      releasePdf();
+      pdfCacheRef.current = {
+        file,
+        pdf: file.arrayBuffer().then(buffer => pdfjsLib.getDocument({ data: new Uint8Array(buffer) }).promise),
+      };
+    }
+    const pdf = await pdfCacheRef.current.pdf;
+    const page = await pdf.getPage(pageNum);
+    const viewport = page.getViewport({ scale: 1.2 });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas not available');
+
+    await page.render({ canvasContext: context, viewport, canvas }).promise;
+    const image = canvas.toDataURL('image/jpeg', 0.85);
+    canvas.width = 0;
+    canvas.height = 0;
+    return image;
+  }, [releasePdf]);
+
+  // Asks for the page's diagnoses; tagging them on the page is left to the runner, which
+  // only does so while its run is still current
+  const processPage = useCallback(async (currentJob: ScanJob, page: ScanJobPage) => {
+    const target = filesRef.current.find(f => f.id === page.file_id);
+    if (!target) throw new Error('File is not loaded in this workspace');
+
+    const pageImage = await renderPageImage(target.file, page.page_number);
+    const pageText = getPageTextRef.current(target.fileIndex, page.page_number);
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const { data, error } = await Promise.race([
+      supabase.functions.invoke('suggest-diagnosis', {
+        body: {
+          pageImage,
+          pageText,
+          fileName: target.file.name,
+          pageNum: page.page_number,
+          model: currentJob.model
+        }
+      }),
+      new Promise<{ data: null; error: Error }>((_, reject) => {
+        timeoutId = setTimeout(() => reject(new Error('Request timeout')), REQUEST_TIMEOUT_MS);
+      })
+    ])
+      .catch(err => ({ data: null, error: err }))
+      .finally(() => clearTimeout(timeoutId));
+
+    if (error) {
+      if (error.message?.includes('429')) throw new Error('Rate limit exceeded');
+      if (error.message?.includes('402')) throw new Error('AI credits exhausted');
+      throw error;
+    }
+
+    return {
+      fileId: target.id,
+      diagnoses: Array.isArray(data?.diagnoses) ? data.diagnoses as string[] : [],
+      diagnosis: (data?.diagnosis as string | undefined) || null
+    };
+  }, [renderPageImage]);
+
+  const runJob = useCallback(async (currentJob: ScanJob) => {
+    if (runningJobIdRef.current === currentJob.id) return;
+    if (workerActiveRef.current) {
+      pendingRunRef.current = currentJob;
+      return;
+    }
+    workerActiveRef.current = true;
+    const token = ++runTokenRef.current;
+    const isCurrent = () => runTokenRef.current === token;
+    runningJobIdRef.current = currentJob.id;
+    stopRef.current = false;
+    setIsRunning(true);
+
+    try {
+      while (isCurrent() && !stopRef.current) {
+        const { data: next, error: nextError } = await supabase
+          .from('ai_scan_job_pages')
+          .select('*')
+          .eq('job_id', currentJob.id)
+          .eq('status', 'queued')
+          .order('file_id', { ascending: true })
+          .order('page_number', { ascending: true })
+          .limit(1)
+          .maybeSingle();
+
+        if (nextError) throw nextError;
+        if (!isCurrent()) break;
+
+        if (!next) {
+          const { count } = await supabase
+            .from('ai_scan_job_pages')
+            .select('id', { count: 'exact', head: true })
+            .eq('job_id', currentJob.id)
+            .eq('status', 'failed');
+          const finalStatus: ScanStatus = count && count > 0 ? 'failed' : 'done';
+          await setJobStatus(currentJob.id, finalStatus);
+          if (finalStatus === 'done') {
+            toast.success('AI auto-scan complete');
+          } else {
+            toast.error(`AI auto-scan finished with ${count} failed page(s)`);
+          }
+          break;
+        }
+
+        // Claim the page only if it is still queued, so a second tab can't process it too
+        const startedAt = new Date().toISOString();
+        const { data: claimed } = await supabase
+          .from('ai_scan_job_pages')
+          .update({ status: 'running', started_at: startedAt, finished_at: null, error: null, attempts: next.attempts + 1 })
+          .eq('id', next.id)
+          .eq('status', 'queued')
+          .select()
+          .maybeSingle();
+
+        if (!claimed) continue;
+        if (!isCurrent()) {
+          // Superseded between the query and the claim; hand the page back
+          await supabase.from('ai_scan_job_pages').update({ status: 'queued' }).eq('id', claimed.id);
+          break;
+        }
+        updatePage(claimed.id, claimed as ScanJobPage);
+
+        let changes: Partial<ScanJobPage>;
+        try {
+          const result = await processPage(currentJob, claimed as ScanJobPage);
+          // A page left running is queued again when its job is next loaded
+          if (!isCurrent()) break;
+          if (result.diagnoses.length > 0) {
+            await onPageDiagnosedRef.current(result.fileId, claimed.page_number, result.diagnoses);
+          }
+          changes = { status: 'done', diagnosis: result.diagnosis, error: null, finished_at: new Date().toISOString() };
+        } catch (pageError) {
+          if (!isCurrent()) break;
+          console.error(`AI scan failed for page ${claimed.page_number}:`, pageError);
+          changes = {
+            status: 'failed',
+            error: pageError instanceof Error ? pageError.message : 'Unknown error',
+            finished_at: new Date().toISOString()
+          };
+        }
+
+        const { error: saveError } = await supabase
+          .from('ai_scan_job_pages')
+          .update(changes)
+          .eq('id', claimed.id);
+        if (saveError) console.error('Error saving scan page result:', saveError);
+        updatePage(claimed.id, changes);
+
+        await sleep(PAGE_DELAY_MS);
+      }
+    } catch (error) {
+      if (isCurrent()) {
+        console.error('Error running AI scan job:', error);
+        toast.error('AI auto-scan stopped unexpectedly - resume it from the job panel');
+        await setJobStatus(currentJob.id, 'paused');
+        await setPagesStatus(currentJob.id, 'queued', 'paused');
+      }
+    } finally {
+      // A newer run may already own the runner
+      if (isCurrent()) {
+        runningJobIdRef.current = null;
+        setIsRunning(false);
+      }
+      workerActiveRef.current = false;
+      releasePdf();
+
+      const pending = pendingRunRef.current;
+      pendingRunRef.current = null;
+      if (pending && !stopRef.current) runJob(pending);
+    }
+  }, [processPage, releasePdf]);
+
+  // Start (or resume) the runner whenever the active job is running and its files are loaded
+  useEffect(() => {
+    if (job?.status === 'running' && files.length > 0 && runningJobIdRef.current !== job.id && !stopRef.current) {
+      runJob(job);
+    }
+  }, [job, files, runJob]);
+
+  const enqueue = async (model: string, targets: Array<{ fileId: string; pageNumbers: number[] }>) => {
+    if (!workspaceId) return;
+    if (job && (job.status === 'running' || job.status === 'paused' || job.status === 'queued')) {
+      toast.error('Finish or cancel the current AI scan job first');
+      return;
+    }
+
+    try {
+      const { data: created, error } = await supabase
+        .from('ai_scan_jobs')
+        .insert({ workspace_id: workspaceId, model, status: 'queued' })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const rows = targets.flatMap(t => t.pageNumbers.map(pageNum => ({
+        job_id: created.id,
+        file_id: t.fileId,
+        page_number: pageNum
+      })));
+
+      for (let i = 0; i < rows.length; i += PAGE_INSERT_BATCH) {
+        const { error: pagesError } = await supabase
+          .from('ai_scan_job_pages')
+          .insert(rows.slice(i, i + PAGE_INSERT_BATCH));
+        if (pagesError) throw pagesError;
+      }
+
+      setPages(await loadJobPages(created.id));
+      stopRef.current = false;
+      setJob(created as ScanJob);
+      await setJobStatus(created.id, 'running');
+      toast.success(`Queued ${rows.length} page(s) for AI auto-scan`);
+    } catch (error) {
+      console.error('Error queueing AI scan:', error);
+      toast.error('Failed to queue AI auto-scan');
+    }
+  };
+
+  const pause = async () => {
+    if (!job) return;
+    stopRef.current = true;
+    await setJobStatus(job.id, 'paused');
+    await setPagesStatus(job.id, 'queued', 'paused');
+  };
+
+  const resume = async () => {
+    if (!job) return;
+    await setPagesStatus(job.id, 'paused', 'queued');
+    stopRef.current = false;
+    await setJobStatus(job.id, 'running');
+  };
+
+  const retryPages = async (pageIds: string[]) => {
+    if (!job || pageIds.length === 0) return;
+
+    const { error } = await supabase
+      .from('ai_scan_job_pages')
+      .update({ status: 'queued', error: null })
+      .in('id', pageIds);
+
+    if (error) {
+      console.error('Error retrying pages:', error);
+      toast.error('Failed to retry pages');
+      return;
+    }
+
+    setPages(prev => prev.map(p => pageIds.includes(p.id) ? { ...p, status: 'queued', error: null } : p));
+    if (job.status !== 'running' && job.status !== 'paused') {
+      stopRef.current = false;
+      await setJobStatus(job.id, 'running');
+    }
+  };
+
+  const retryFailed = () => retryPages(pages.filter(p => p.status === 'failed').map(p => p.id));
+
+  const cancel = async () => {
+    if (!job) return;
+    stopRunner();
+
+    const { error } = await supabase
+      .from('ai_scan_jobs')
+      .delete()
+      .eq('id', job.id);
+
+    if (error) {
+      console.error('Error cancelling scan job:', error);
+      toast.error('Failed to cancel AI scan job');
+      return;
+    }
+
+    setJob(null);
+    setPages([]);
+    toast.info('AI scan job cancelled');
+  };
+
+  // Hide a finished job from the panel; it stays in the database as history
+  const dismiss = () => {
+    if (job?.status !== 'done') return;
+    setJob(null);
+    setPages([]);
+  };
+
+  return { job, pages, isRunning, enqueue, pause, resume, retryPages, retryFailed, cancel, dismiss };
+}
@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { STAMP_POSITIONS, type StampPosition } from "@/utils/evidenceBundle";
+
+export interface BatesStampSettings {
+  enabled: boolean;
+  prefix: string;
+  startNumber: number;
+  position: StampPosition;
+}
+
+const storageKey = (workspaceId: string | undefined) => `bates_stamp_settings:${workspaceId || 'local'}`;
+
+// Default prefix from the first word of the workspace name, e.g. "John Smith" -> "JOHN-"
+const defaultSettings = (workspaceName: string | undefined): BatesStampSettings => {
+  const word = (workspaceName || '').trim().split(/\s+/)[0]?.replace(/[^a-z0-9]/gi, '').toUpperCase();
+  return { enabled: false, prefix: word ? `${word}-` : 'DOC-', startNumber: 1, position: 'bottom-right' };
+};
+
+const loadSettings = (workspaceId: string | undefined, workspaceName: string | undefined): BatesStampSettings => {
+  const defaults = defaultSettings(workspaceName);
+  try {
+    const saved = localStorage.getItem(storageKey(workspaceId));
+    if (!saved) return defaults;
+    const parsed = JSON.parse(saved);
+    return {
+      enabled: typeof parsed.enabled === 'boolean' ? parsed.enabled : defaults.enabled,
+      prefix: typeof parsed.prefix === 'string' ? parsed.prefix : defaults.prefix,
+      startNumber: Number.isInteger(parsed.startNumber) && parsed.startNumber > 0 ? parsed.startNumber : defaults.startNumber,
+      position: STAMP_POSITIONS.includes(parsed.position) ? parsed.position : defaults.position,
+    };
+  } catch (error) {
+    console.error('Error loading stamp settings:', error);
+    return defaults;
+  }
+};
+
+// The counter row is created on first use; a workspace stamped before numbering moved to the
+// database carries on from the number this browser last saved
+const loadNextNumber = async (workspaceId: string, savedNumber: number) => {
+  const { data, error } = await supabase
+    .from('bates_counters')
+    .select('next_number')
+    .eq('workspace_id', workspaceId)
+    .maybeSingle();
+  if (error) throw error;
+  if (data) return data.next_number;
+  if (savedNumber === 1) return 1;
+
+  const { error: seedError } = await supabase
+    .from('bates_counters')
+    .upsert({ workspace_id: workspaceId, next_number: savedNumber }, { onConflict: 'workspace_id', ignoreDuplicates: true });
+  if (seedError) throw seedError;
+  return loadNextNumber(workspaceId, 1);
+};
+
+// Prefix, position and the on/off switch are kept per workspace in this browser. In a workspace
+// the sequence lives in the database and exports reserve their numbers with takeNumbers, so
+// every export stamps unique references wherever it runs.
+export function useBatesStampSettings(workspaceId: string | undefined, workspaceName: string | undefined) {
+  const [settings, setSettings] = useState<BatesStampSettings>(() => loadSettings(workspaceId, workspaceName));
+
+  useEffect(() => {
+    const loaded = loadSettings(workspaceId, workspaceName);
+    setSettings(loaded);
+    if (!workspaceId) return;
+
+    let cancelled = false;
+    loadNextNumber(workspaceId, loaded.startNumber)
+      .then(startNumber => {
+        if (!cancelled) setSettings(prev => ({ ...prev, startNumber }));
+      })
+      .catch(error => console.error('Error loading Bates counter:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, workspaceName]);
+
+  const updateSettings = useCallback((changes: Partial<BatesStampSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes };
+      localStorage.setItem(storageKey(workspaceId), JSON.stringify(next));
+      return next;
+    });
+
+    if (workspaceId && changes.startNumber !== undefined) {
+      supabase
+        .from('bates_counters')
+        .upsert({ workspace_id: workspaceId, next_number: changes.startNumber })
+        .then(({ error }) => {
+          if (error) console.error('Error saving Bates counter:', error);
+        });
+    }
+  }, [workspaceId]);
+
+  // Reserve count consecutive numbers and return the first, or null when they could not be
+  // reserved
+  const takeNumbers = useCallback(async (count: number): Promise<number | null> => {
+    if (!workspaceId) {
+      const first = settings.startNumber;
+      updateSettings({ startNumber: first + count });
+      return first;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('take_bates_numbers', { _workspace_id: workspaceId, _count: count });
+      if (error) throw error;
+      const [range] = data;
+      setSettings(prev => ({ ...prev, startNumber: range.last_number + 1 }));
+      return range.first_number;
+    } catch (error) {
+      console.error('Error reserving Bates numbers:', error);
+      return null;
+    }
+  }, [workspaceId, settings.startNumber, updateSettings]);
+
+  return { settings, updateSettings, takeNumbers };
+}
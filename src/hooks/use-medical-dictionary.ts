@@ -0,0 +1,91 @@
+import { useCallback, useMemo, useState } from "react";
+import { CURATED_SYNONYMS, SYNONYM_KINDS, createExpander, type SynonymEntry } from "@/utils/medicalSynonyms";
+
+// Custom entries include edited copies of curated ones, which keep the curated id
+interface StoredDictionary {
+  custom: SynonymEntry[];
+  disabled: string[];
+}
+
+const STORAGE_KEY = 'medical_dictionary';
+
+const isEntry = (value: unknown): value is SynonymEntry => {
+  const entry = value as SynonymEntry;
+  return !!entry && typeof entry.id === 'string' &&
+    SYNONYM_KINDS.includes(entry.kind) &&
+    Array.isArray(entry.terms) && entry.terms.every(t => typeof t === 'string');
+};
+
+const loadDictionary = (): StoredDictionary => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return { custom: [], disabled: [] };
+    const parsed = JSON.parse(saved);
+    return {
+      custom: Array.isArray(parsed.custom) ? parsed.custom.filter(isEntry) : [],
+      disabled: Array.isArray(parsed.disabled) ? parsed.disabled.filter((id: unknown) => typeof id === 'string') : [],
+    };
+  } catch (error) {
+    console.error('Error loading medical dictionary:', error);
+    return { custom: [], disabled: [] };
+  }
+};
+
+// The curated abbreviation and synonym list plus this browser's additions and edits
+export function useMedicalDictionary() {
+  const [stored, setStored] = useState<StoredDictionary>(loadDictionary);
+
+  const update = useCallback((change: (prev: StoredDictionary) => StoredDictionary) => {
+    setStored(prev => {
+      const next = change(prev);
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const entries = useMemo(() => {
+    const overridden = new Set(stored.custom.map(e => e.id));
+    return [
+      ...CURATED_SYNONYMS.filter(e => !overridden.has(e.id)),
+      ...stored.custom,
+    ].filter(e => !stored.disabled.includes(e.id));
+  }, [stored]);
+
+  const expand = useMemo(() => createExpander(entries), [entries]);
+
+  const saveEntry = useCallback((entry: SynonymEntry) => {
+    update(prev => ({
+      ...prev,
+      custom: prev.custom.some(e => e.id === entry.id)
+        ? prev.custom.map(e => e.id === entry.id ? entry : e)
+        : [...prev.custom, entry],
+    }));
+  }, [update]);
+
+  // Removing an edited curated entry brings back the original
+  const removeEntry = useCallback((id: string) => {
+    update(prev => ({ ...prev, custom: prev.custom.filter(e => e.id !== id) }));
+  }, [update]);
+
+  const setEntryEnabled = useCallback((id: string, enabled: boolean) => {
+    update(prev => ({
+      ...prev,
+      disabled: enabled ? prev.disabled.filter(d => d !== id) : [...new Set([...prev.disabled, id])],
+    }));
+  }, [update]);
+
+  const resetDictionary = useCallback(() => {
+    update(() => ({ custom: [], disabled: [] }));
+  }, [update]);
+
+  return {
+    custom: stored.custom,
+    disabled: stored.disabled,
+    entries,
+    expand,
+    saveEntry,
+    removeEntry,
+    setEntryEnabled,
+    resetDictionary,
+  };
+}
@@ -14,6 +14,162 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_scan_job_pages: {
+        Row: {
+          attempts: number
+          diagnosis: string | null
+          error: string | null
+          file_id: string
+          finished_at: string | null
+          id: string
+          job_id: string
+          page_number: number
+          started_at: string | null
+          status: string
+        }
+        Insert: {
+          attempts?: number
+          diagnosis?: string | null
+          error?: string | null
+          file_id: string
+          finished_at?: string | null
+          id?: string
+          job_id: string
+          page_number: number
+          started_at?: string | null
+          status?: string
+        }
+        Update: {
+          attempts?: number
+          diagnosis?: string | null
+          error?: string | null
+          file_id?: string
+          finished_at?: string | null
+          id?: string
+          job_id?: string
+          page_number?: number
+          started_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_scan_job_pages_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "workspace_files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_scan_job_pages_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "ai_scan_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_scan_jobs: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          model: string
+          status: string
+          updated_at: string | null
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          model: string
+          status?: string
+          updated_at?: string | null
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          model?: string
+          status?: string
+          updated_at?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_scan_jobs_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "patient_workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      annotation_comments: {
+        Row: {
+          annotation_id: string
+          author_name: string | null
+          body: string
+          created_at: string | null
+          created_by: string | null
+          id: string
+        }
+        Insert: {
+          annotation_id: string
+          author_name?: string | null
+          body: string
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+        }
+        Update: {
+          annotation_id?: string
+          author_name?: string | null
+          body?: string
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "annotation_comments_annotation_id_fkey"
+            columns: ["annotation_id"]
+            isOneToOne: false
+            referencedRelation: "page_annotations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bates_counters: {
+        Row: {
+          created_at: string | null
+          next_number: number
+          updated_at: string | null
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          next_number?: number
+          updated_at?: string | null
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string | null
+          next_number?: number
+          updated_at?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bates_counters_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: true
+            referencedRelation: "patient_workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chart_review_sections: {
         Row: {
           created_at: string
@@ -41,6 +197,151 @@ export type Database = {
         }
         Relationships: []
       }
+      chat_messages: {
+        Row: {
+          citations: Json
+          content: string
+          context_pages: Json
+          created_at: string | null
+          id: string
+          model: string | null
+          provider: string | null
+          rag_context: string | null
+          role: string
+          thread_id: string
+        }
+        Insert: {
+          citations?: Json
+          content: string
+          context_pages?: Json
+          created_at?: string | null
+          id?: string
+          model?: string | null
+          provider?: string | null
+          rag_context?: string | null
+          role: string
+          thread_id: string
+        }
+        Update: {
+          citations?: Json
+          content?: string
+          context_pages?: Json
+          created_at?: string | null
+          id?: string
+          model?: string | null
+          provider?: string | null
+          rag_context?: string | null
+          role?: string
+          thread_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "chat_threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_threads: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          title: string
+          updated_at: string | null
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          title: string
+          updated_at?: string | null
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          title?: string
+          updated_at?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_threads_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "patient_workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clinical_events: {
+        Row: {
+          body_region: string | null
+          created_at: string | null
+          created_by: string | null
+          date_ambiguous: boolean
+          date_precision: string
+          date_text: string
+          event_date: string
+          event_type: string
+          file_id: string
+          id: string
+          page_number: number
+          snippet: string
+          workspace_id: string
+        }
+        Insert: {
+          body_region?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          date_ambiguous?: boolean
+          date_precision?: string
+          date_text: string
+          event_date: string
+          event_type: string
+          file_id: string
+          id?: string
+          page_number: number
+          snippet: string
+          workspace_id: string
+        }
+        Update: {
+          body_region?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          date_ambiguous?: boolean
+          date_precision?: string
+          date_text?: string
+          event_date?: string
+          event_type?: string
+          file_id?: string
+          id?: string
+          page_number?: number
+          snippet?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clinical_events_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "workspace_files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "clinical_events_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "patient_workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       diagnosis_form_instructions: {
         Row: {
           created_at: string
@@ -70,30 +371,42 @@ export type Database = {
       }
       document_embeddings: {
         Row: {
+          char_end: number | null
+          char_start: number | null
           chunk_index: number
           content: string
           created_at: string | null
           embedding: string | null
+          embedding_dimension: number | null
+          embedding_model: string | null
           file_id: string
           id: string
           is_reference: boolean | null
           page_number: number
         }
         Insert: {
+          char_end?: number | null
+          char_start?: number | null
           chunk_index: number
           content: string
           created_at?: string | null
           embedding?: string | null
+          embedding_dimension?: number | null
+          embedding_model?: string | null
           file_id: string
           id?: string
           is_reference?: boolean | null
           page_number: number
         }
         Update: {
+          char_end?: number | null
+          char_start?: number | null
           chunk_index?: number
           content?: string
           created_at?: string | null
           embedding?: string | null
+          embedding_dimension?: number | null
+          embedding_model?: string | null
           file_id?: string
           id?: string
           is_reference?: boolean | null
@@ -109,30 +422,167 @@ export type Database = {
           },
         ]
       }
+      duplicate_group_pages: {
+        Row: {
+          file_id: string
+          group_id: string
+          id: string
+          is_canonical: boolean
+          page_number: number
+        }
+        Insert: {
+          file_id: string
+          group_id: string
+          id?: string
+          is_canonical?: boolean
+          page_number: number
+        }
+        Update: {
+          file_id?: string
+          group_id?: string
+          id?: string
+          is_canonical?: boolean
+          page_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "duplicate_group_pages_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "workspace_files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "duplicate_group_pages_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "duplicate_page_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      duplicate_page_groups: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          match_type: string
+          similarity: number
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          match_type: string
+          similarity: number
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          match_type?: string
+          similarity?: number
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "duplicate_page_groups_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "patient_workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      file_page_diagnoses: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          diagnosis_id: string
+          id: string
+          page_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          diagnosis_id: string
+          id?: string
+          page_id: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          diagnosis_id?: string
+          id?: string
+          page_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "file_page_diagnoses_diagnosis_id_fkey"
+            columns: ["diagnosis_id"]
+            isOneToOne: false
+            referencedRelation: "workspace_diagnoses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "file_page_diagnoses_page_id_fkey"
+            columns: ["page_id"]
+            isOneToOne: false
+            referencedRelation: "file_pages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       file_pages: {
         Row: {
           created_at: string | null
+          document_type: string | null
+          document_type_source: string | null
           extracted_text: string | null
           file_id: string
           id: string
           ocr_completed: boolean | null
           page_number: number
+          review_status: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          search_vector: unknown | null
+          starts_document: boolean
+          text_source: string | null
         }
         Insert: {
           created_at?: string | null
+          document_type?: string | null
+          document_type_source?: string | null
           extracted_text?: string | null
           file_id: string
           id?: string
           ocr_completed?: boolean | null
           page_number: number
+          review_status?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          search_vector?: unknown | null
+          starts_document?: boolean
+          text_source?: string | null
         }
         Update: {
           created_at?: string | null
+          document_type?: string | null
+          document_type_source?: string | null
           extracted_text?: string | null
           file_id?: string
           id?: string
           ocr_completed?: boolean | null
           page_number?: number
+          review_status?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          search_vector?: unknown | null
+          starts_document?: boolean
+          text_source?: string | null
         }
         Relationships: [
           {
@@ -144,6 +594,72 @@ export type Database = {
           },
         ]
       }
+      ingestion_jobs: {
+        Row: {
+          completed_at: string | null
+          created_at: string | null
+          created_by: string | null
+          error: string | null
+          file_id: string
+          id: string
+          next_page: number
+          ocr_engine: string | null
+          ocr_pages: number
+          processed_pages: number
+          status: string
+          total_pages: number | null
+          updated_at: string | null
+          workspace_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          error?: string | null
+          file_id: string
+          id?: string
+          next_page?: number
+          ocr_engine?: string | null
+          ocr_pages?: number
+          processed_pages?: number
+          status?: string
+          total_pages?: number | null
+          updated_at?: string | null
+          workspace_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          error?: string | null
+          file_id?: string
+          id?: string
+          next_page?: number
+          ocr_engine?: string | null
+          ocr_pages?: number
+          processed_pages?: number
+          status?: string
+          total_pages?: number | null
+          updated_at?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingestion_jobs_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "workspace_files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ingestion_jobs_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "patient_workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       keyword_matches: {
         Row: {
           created_at: string | null
@@ -176,6 +692,63 @@ export type Database = {
           },
         ]
       }
+      page_annotations: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          diagnosis: string | null
+          file_id: string
+          id: string
+          kind: string
+          page_number: number
+          quoted_text: string | null
+          rects: Json
+          updated_at: string | null
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          diagnosis?: string | null
+          file_id: string
+          id?: string
+          kind: string
+          page_number: number
+          quoted_text?: string | null
+          rects?: Json
+          updated_at?: string | null
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          diagnosis?: string | null
+          file_id?: string
+          id?: string
+          kind?: string
+          page_number?: number
+          quoted_text?: string | null
+          rects?: Json
+          updated_at?: string | null
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "page_annotations_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "workspace_files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "page_annotations_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "patient_workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       page_diagnoses: {
         Row: {
           created_at: string | null
@@ -307,23 +880,109 @@ export type Database = {
       search_categories: {
         Row: {
           created_at: string | null
+          exclusions: string[]
+          group_name: string
           id: number
           label: string
-          terms: string
+          owner_id: string | null
+          sort_order: number
+          terms: Json
           updated_at: string | null
         }
         Insert: {
           created_at?: string | null
-          id: number
+          exclusions?: string[]
+          group_name?: string
+          id?: number
           label: string
-          terms?: string
+          owner_id?: string | null
+          sort_order?: number
+          terms?: Json
           updated_at?: string | null
         }
         Update: {
           created_at?: string | null
+          exclusions?: string[]
+          group_name?: string
           id?: number
           label?: string
-          terms?: string
+          owner_id?: string | null
+          sort_order?: number
+          terms?: Json
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      sop_factors: {
+        Row: {
+          factor_number: string
+          id: string
+          instrument_id: string
+          kind: string
+          position: number
+          text: string
+        }
+        Insert: {
+          factor_number: string
+          id?: string
+          instrument_id: string
+          kind: string
+          position: number
+          text: string
+        }
+        Update: {
+          factor_number?: string
+          id?: string
+          instrument_id?: string
+          kind?: string
+          position?: number
+          text?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sop_factors_instrument_id_fkey"
+            columns: ["instrument_id"]
+            isOneToOne: false
+            referencedRelation: "sop_instruments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sop_instruments: {
+        Row: {
+          condition: string
+          created_at: string | null
+          created_by: string | null
+          effective_from: string
+          icd_codes: string[]
+          id: string
+          instrument_number: string
+          source_file_name: string | null
+          standard: string
+          updated_at: string | null
+        }
+        Insert: {
+          condition: string
+          created_at?: string | null
+          created_by?: string | null
+          effective_from: string
+          icd_codes?: string[]
+          id?: string
+          instrument_number: string
+          source_file_name?: string | null
+          standard: string
+          updated_at?: string | null
+        }
+        Update: {
+          condition?: string
+          created_at?: string | null
+          created_by?: string | null
+          effective_from?: string
+          icd_codes?: string[]
+          id?: string
+          instrument_number?: string
+          source_file_name?: string | null
+          standard?: string
           updated_at?: string | null
         }
         Relationships: []
@@ -439,6 +1098,17 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      embedding_index_status: {
+        Args: {
+          _workspace_id: string
+        }
+        Returns: {
+          chunk_count: number
+          embedding_dimension: number | null
+          embedding_model: string | null
+          file_count: number
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -446,8 +1116,39 @@ export type Database = {
         }
         Returns: boolean
       }
+      hybrid_search_pages: {
+        Args: {
+          _date_from?: string
+          _date_to?: string
+          _document_types?: string[]
+          _embedding_model?: string
+          _file_ids?: string[]
+          _match_count?: number
+          _min_similarity?: number
+          _page_from?: number
+          _page_to?: number
+          _query: string
+          _query_embedding?: string
+          _rrf_k?: number
+          _workspace_id: string
+        }
+        Returns: {
+          char_end: number | null
+          char_start: number | null
+          content: string
+          file_id: string
+          file_name: string
+          keyword_rank: number | null
+          keyword_score: number | null
+          page_number: number
+          score: number
+          similarity: number | null
+          vector_rank: number | null
+        }[]
+      }
       match_documents: {
         Args: {
+          embedding_model?: string
           file_ids?: string[]
           match_count?: number
           match_threshold?: number
@@ -462,6 +1163,120 @@ export type Database = {
           similarity: number
         }[]
       }
+      merge_workspace_diagnoses: {
+        Args: {
+          _source_id: string
+          _target_id: string
+        }
+        Returns: undefined
+      }
+      parse_page_search_query: {
+        Args: {
+          _query: string
+        }
+        Returns: unknown
+      }
+      refresh_workspace_diagnosis_pages: {
+        Args: {
+          _diagnosis_id: string
+        }
+        Returns: undefined
+      }
+      replace_clinical_events: {
+        Args: {
+          _events: Json
+          _workspace_id: string
+        }
+        Returns: undefined
+      }
+      replace_duplicate_groups: {
+        Args: {
+          _groups: Json
+          _workspace_id: string
+        }
+        Returns: undefined
+      }
+      save_sop_instrument: {
+        Args: {
+          _condition: string
+          _effective_from: string
+          _factors: Json
+          _icd_codes: string[]
+          _instrument_number: string
+          _source_file_name?: string
+          _standard: string
+        }
+        Returns: string
+      }
+      search_file_pages: {
+        Args: {
+          _limit?: number
+          _query: string
+          _workspace_id: string
+        }
+        Returns: {
+          file_id: string
+          file_name: string
+          page_id: string
+          page_number: number
+          rank: number
+          snippet: string
+        }[]
+      }
+      search_sop_instruments: {
+        Args: {
+          _as_of?: string
+          _include_superseded?: boolean
+          _match_count?: number
+          _query?: string
+        }
+        Returns: {
+          condition: string
+          effective_from: string
+          factor_count: number
+          icd_codes: string[]
+          id: string
+          instrument_number: string
+          is_current: boolean
+          rank: number
+          standard: string
+        }[]
+      }
+      set_canonical_page: {
+        Args: {
+          _file_id: string
+          _group_id: string
+          _page_number: number
+        }
+        Returns: undefined
+      }
+      set_page_diagnoses: {
+        Args: {
+          _diagnoses: string[]
+          _file_id: string
+          _page_number: number
+        }
+        Returns: undefined
+      }
+      stale_embedding_pages: {
+        Args: {
+          _embedding_model: string
+          _file_id: string
+        }
+        Returns: {
+          page_number: number
+        }[]
+      }
+      take_bates_numbers: {
+        Args: {
+          _count: number
+          _workspace_id: string
+        }
+        Returns: {
+          first_number: number
+          last_number: number
+        }[]
+      }
     }
     Enums: {
       app_role: "admin" | "user"
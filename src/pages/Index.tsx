@@ -10,7 +10,7 @@ import { Loader2 } from "lucide-react";
 const Index = () => {
   const { user, loading } = useAuth();
   const navigate = useNavigate();
-  const [selectedFileData, setSelectedFileData] = useState<{ id: string; path: string; name: string } | null>(null);
+  const [selectedFileData, setSelectedFileData] = useState<{ id: string; path: string; name: string; pageNum?: number } | null>(null);
 
   useEffect(() => {
     if (!loading && !user) {
@@ -18,8 +18,8 @@ const Index = () => {
     }
   }, [user, loading, navigate]);
 
-  const handleFileSelect = (fileId: string, filePath: string, fileName: string) => {
-    setSelectedFileData({ id: fileId, path: filePath, name: fileName });
+  const handleFileSelect = (fileId: string, filePath: string, fileName: string, pageNum?: number) => {
+    setSelectedFileData({ id: fileId, path: filePath, name: fileName, pageNum });
   };
 
   if (loading) {
@@ -0,0 +1,293 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { makePageKey } from "@/utils/pageKeys";
+
+export const ANNOTATION_KINDS = ['highlight', 'text_highlight', 'note', 'redaction'] as const;
+export type AnnotationKind = typeof ANNOTATION_KINDS[number];
+
+export const ANNOTATION_KIND_LABELS: Record<AnnotationKind, string> = {
+  highlight: 'Highlight box',
+  text_highlight: 'Text highlight',
+  note: 'Note',
+  redaction: 'Redaction',
+};
+
+// Fractions (0-1) of the unrotated page, origin at the top left
+export interface AnnotationRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface AnnotationComment {
+  id: string;
+  body: string;
+  authorName: string | null;
+  createdBy: string | null;
+  createdAt: string | null;
+}
+
+export interface PageAnnotation {
+  id: string;
+  fileId: string;
+  pageNum: number;
+  kind: AnnotationKind;
+  rects: AnnotationRect[];
+  quotedText: string | null;
+  diagnosis: string | null;
+  createdBy: string | null;
+  createdAt: string | null;
+  comments: AnnotationComment[];
+}
+
+export type AnnotationDraft = Pick<PageAnnotation, 'fileId' | 'pageNum' | 'kind' | 'rects'> &
+  Partial<Pick<PageAnnotation, 'quotedText' | 'diagnosis'>>;
+
+// Size of a note's pin, as a fraction of the page width
+export const NOTE_SIZE = 0.03;
+
+const isAnnotationKind = (value: string): value is AnnotationKind =>
+  (ANNOTATION_KINDS as readonly string[]).includes(value);
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const parseRects = (value: Json): AnnotationRect[] =>
+  (Array.isArray(value) ? value : []).flatMap(item => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return [];
+    const { x, y, width, height } = item as Record<string, unknown>;
+    if ([x, y, width, height].some(n => typeof n !== 'number' || !Number.isFinite(n))) return [];
+    return [{ x: x as number, y: y as number, width: width as number, height: height as number }];
+  });
+
+const toComment = (row: {
+  id: string;
+  body: string;
+  author_name: string | null;
+  created_by: string | null;
+  created_at: string | null;
+}): AnnotationComment => ({
+  id: row.id,
+  body: row.body,
+  authorName: row.author_name,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+});
+
+const ANNOTATION_COLUMNS =
+  'id, file_id, page_number, kind, rects, quoted_text, diagnosis, created_by, created_at, ' +
+  'annotation_comments(id, body, author_name, created_by, created_at)';
+
+type AnnotationRow = {
+  id: string;
+  file_id: string;
+  page_number: number;
+  kind: string;
+  rects: Json;
+  quoted_text: string | null;
+  diagnosis: string | null;
+  created_by: string | null;
+  created_at: string | null;
+  annotation_comments: Parameters<typeof toComment>[0][] | null;
+};
+
+const toAnnotation = (row: AnnotationRow): PageAnnotation | null => {
+  if (!isAnnotationKind(row.kind)) return null;
+  return {
+    id: row.id,
+    fileId: row.file_id,
+    pageNum: row.page_number,
+    kind: row.kind,
+    rects: parseRects(row.rects),
+    quotedText: row.quoted_text,
+    diagnosis: row.diagnosis,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    comments: (row.annotation_comments || [])
+      .map(toComment)
+      .sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || '')),
+  };
+};
+
+const LOAD_BATCH_SIZE = 1000;
+
+// Annotations of the given files with their comments, keyed by page key in the order they were drawn
+export const loadPageAnnotations = async (fileIds: string[]): Promise<Record<string, PageAnnotation[]> | null> => {
+  const annotations: Record<string, PageAnnotation[]> = {};
+  if (fileIds.length === 0) return annotations;
+
+  try {
+    for (let from = 0; ; from += LOAD_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('page_annotations')
+        .select(ANNOTATION_COLUMNS)
+        .in('file_id', fileIds)
+        .order('created_at')
+        .range(from, from + LOAD_BATCH_SIZE - 1);
+
+      if (error) throw error;
+
+      ((data || []) as unknown as AnnotationRow[]).forEach(row => {
+        const annotation = toAnnotation(row);
+        if (!annotation) return;
+        const key = makePageKey(annotation.fileId, annotation.pageNum);
+        (annotations[key] ||= []).push(annotation);
+      });
+      if (!data || data.length < LOAD_BATCH_SIZE) break;
+    }
+    return annotations;
+  } catch (error) {
+    console.error('Error loading page annotations:', error);
+    return null;
+  }
+};
+
+export const createAnnotation = async (workspaceId: string, draft: AnnotationDraft): Promise<PageAnnotation | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('page_annotations')
+      .insert({
+        workspace_id: workspaceId,
+        file_id: draft.fileId,
+        page_number: draft.pageNum,
+        kind: draft.kind,
+        rects: draft.rects as unknown as Json,
+        quoted_text: draft.quotedText ?? null,
+        diagnosis: draft.diagnosis ?? null,
+      })
+      .select(ANNOTATION_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return toAnnotation(data as unknown as AnnotationRow);
+  } catch (error) {
+    console.error('Error creating annotation:', error);
+    return null;
+  }
+};
+
+export const updateAnnotationDiagnosis = async (id: string, diagnosis: string | null) => {
+  const { error } = await supabase
+    .from('page_annotations')
+    .update({ diagnosis })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error updating annotation:', error);
+    return false;
+  }
+  return true;
+};
+
+export const deleteAnnotation = async (id: string) => {
+  const { error } = await supabase
+    .from('page_annotations')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting annotation:', error);
+    return false;
+  }
+  return true;
+};
+
+export const createAnnotationComment = async (
+  annotationId: string,
+  body: string,
+  authorName: string | null
+): Promise<AnnotationComment | null> => {
+  const { data, error } = await supabase
+    .from('annotation_comments')
+    .insert({ annotation_id: annotationId, body, author_name: authorName })
+    .select('id, body, author_name, created_by, created_at')
+    .single();
+
+  if (error) {
+    console.error('Error adding annotation comment:', error);
+    return null;
+  }
+  return toComment(data);
+};
+
+// Rotation turns the page clockwise, as pdf.js does. The viewer places annotations in the
+// rotated frame and stores them in the unrotated one.
+export const toDisplayRect = (rect: AnnotationRect, rotation: number): AnnotationRect => {
+  const { x, y, width, height } = rect;
+  switch (((rotation % 360) + 360) % 360) {
+    case 90: return { x: 1 - (y + height), y: x, width: height, height: width };
+    case 180: return { x: 1 - (x + width), y: 1 - (y + height), width, height };
+    case 270: return { x: y, y: 1 - (x + width), width: height, height: width };
+    default: return rect;
+  }
+};
+
+export const fromDisplayRect = (rect: AnnotationRect, rotation: number): AnnotationRect => {
+  const { x, y, width, height } = rect;
+  switch (((rotation % 360) + 360) % 360) {
+    case 90: return { x: y, y: 1 - (x + width), width: height, height: width };
+    case 180: return { x: 1 - (x + width), y: 1 - (y + height), width, height };
+    case 270: return { x: 1 - (y + height), y: x, width: height, height: width };
+    default: return rect;
+  }
+};
+
+export const clampRect = (rect: AnnotationRect): AnnotationRect => {
+  const x = clamp(rect.x);
+  const y = clamp(rect.y);
+  return { x, y, width: clamp(rect.x + rect.width) - x, height: clamp(rect.y + rect.height) - y };
+};
+
+// A text selection yields one client rect per text span; spans on the same line are joined so a
+// highlighted sentence is stored as one rect per line
+export const mergeLineRects = (rects: AnnotationRect[]): AnnotationRect[] => {
+  const sorted = rects
+    .filter(r => r.width > 0 && r.height > 0)
+    .sort((a, b) => a.y - b.y || a.x - b.x);
+  const lines: AnnotationRect[] = [];
+
+  for (const rect of sorted) {
+    const line = lines.find(l => {
+      const overlap = Math.min(l.y + l.height, rect.y + rect.height) - Math.max(l.y, rect.y);
+      return overlap > Math.min(l.height, rect.height) / 2;
+    });
+    if (!line) {
+      lines.push({ ...rect });
+      continue;
+    }
+    const right = Math.max(line.x + line.width, rect.x + rect.width);
+    const bottom = Math.max(line.y + line.height, rect.y + rect.height);
+    line.x = Math.min(line.x, rect.x);
+    line.y = Math.min(line.y, rect.y);
+    line.width = right - line.x;
+    line.height = bottom - line.y;
+  }
+  return lines;
+};
+
+// Colours for annotations filed under a diagnosis, chosen from the diagnosis name so the same
+// diagnosis keeps its colour everywhere; annotations without one are yellow
+const DIAGNOSIS_PALETTE: [number, number, number][] = [
+  [59, 130, 246],
+  [16, 185, 129],
+  [236, 72, 153],
+  [249, 115, 22],
+  [139, 92, 246],
+  [20, 184, 166],
+  [239, 68, 68],
+  [132, 204, 22],
+];
+const DEFAULT_COLOR: [number, number, number] = [250, 204, 21];
+const REDACTION_COLOR: [number, number, number] = [0, 0, 0];
+
+export const diagnosisColor = (diagnosis: string | null): [number, number, number] => {
+  if (!diagnosis) return DEFAULT_COLOR;
+  let hash = 0;
+  for (const char of diagnosis.trim().toLowerCase()) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return DIAGNOSIS_PALETTE[Math.abs(hash) % DIAGNOSIS_PALETTE.length];
+};
+
+export const annotationColor = (annotation: Pick<PageAnnotation, 'kind' | 'diagnosis'>) =>
+  annotation.kind === 'redaction' ? REDACTION_COLOR : diagnosisColor(annotation.diagnosis);
+
+export const cssColor = ([r, g, b]: [number, number, number], alpha = 1) => `rgb(${r} ${g} ${b} / ${alpha})`;
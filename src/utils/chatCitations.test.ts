@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { extractCitations, nextSourceIndex, sourceTag, threadSources } from "@/utils/chatCitations";
+import type { ContextPage } from "@/utils/chatThreads";
+
+const page = (ref: string, fileName: string, pageNum = 1): ContextPage => ({ fileId: `${fileName}-id`, fileName, pageNum, ref });
+
+describe("thread-wide source tags", () => {
+  it("numbers a new question's sources after every earlier tag", () => {
+    const messages = [
+      { contextPages: [page("S1", "gp.pdf"), page("S2", "mri.pdf")] },
+      { contextPages: undefined },
+      { contextPages: [page("S3", "xray.pdf")] },
+    ];
+    expect(sourceTag(nextSourceIndex(messages))).toBe("S4");
+  });
+
+  it("resolves tags from earlier questions", () => {
+    const sources = threadSources([
+      { contextPages: [page("S1", "gp.pdf")] },
+      { contextPages: [page("S2", "mri.pdf")] },
+    ]);
+    expect(extractCitations("Tear on MRI [S2] after the GP visit [S1].", sources).map(c => c.fileName))
+      .toEqual(["mri.pdf", "gp.pdf"]);
+  });
+
+  it("resolves a tag repeated by an older thread to the latest question", () => {
+    const sources = threadSources([
+      { contextPages: [page("S1", "gp.pdf")] },
+      { contextPages: [page("S1", "mri.pdf")] },
+    ]);
+    expect(extractCitations("See [S1].", sources)[0]).toMatchObject({ fileName: "mri.pdf", resolved: true });
+  });
+});
@@ -0,0 +1,154 @@
+import type { ChatMessage, ContextPage } from "@/utils/chatThreads";
+
+export interface Citation {
+  // Source tag as written by the model, e.g. "S3", or the file/page reference for [File: ...] markers
+  ref: string;
+  fileId: string | null;
+  fileName: string;
+  pageNum: number | null;
+  excerpt: string | null;
+  // False when the model cited something that was not among the retrieved sources
+  resolved: boolean;
+}
+
+export type CitedSegment =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; citations: Citation[] };
+
+// Matches [S1], [S1, S3] and [S1; S2] as well as [File: name, Page 4]
+const CITATION_PATTERN = /\[(S\d+(?:\s*[,;]\s*S\d+)*)\]|\[File:\s*([^\]]+?),\s*Page\s+(\d+)[^\]]*\]/g;
+
+export const sourceTag = (index: number) => `S${index + 1}`;
+
+// Earlier questions in a thread are resent with their sources, so tags are numbered across the
+// whole thread: a new question's sources start after every tag already handed out
+export const nextSourceIndex = (messages: Pick<ChatMessage, 'contextPages'>[]) =>
+  messages.reduce((count, m) => count + (m.contextPages?.length || 0), 0);
+
+// Sources an answer can cite: those of every question up to it, latest first so a tag repeated
+// by threads saved before tags were numbered across the thread resolves to the latest question
+export const threadSources = (messages: Pick<ChatMessage, 'contextPages'>[]): ContextPage[] =>
+  messages.slice().reverse().flatMap(m => m.contextPages || []);
+
+export const CITATION_INSTRUCTIONS =
+  'Each source above is tagged with a number such as [S1]. Cite the sources that support each statement inline using those tags, ' +
+  'e.g. "the MRI showed a tear [S2]". Only cite tags given in this conversation.\n';
+
+const fromSource = (ref: string, source: ContextPage): Citation => ({
+  ref,
+  fileId: source.fileId,
+  fileName: source.fileName,
+  pageNum: source.pageNum,
+  excerpt: source.excerpt ?? null,
+  resolved: true,
+});
+
+const unresolved = (ref: string, fileName = '', pageNum: number | null = null): Citation => ({
+  ref,
+  fileId: null,
+  fileName,
+  pageNum,
+  excerpt: null,
+  resolved: false,
+});
+
+const citationsFor = (match: RegExpMatchArray, sources: ContextPage[]): Citation[] => {
+  if (match[1]) {
+    return match[1].split(/[,;]/).map(tag => {
+      const ref = tag.trim();
+      const source = sources.find(s => s.ref === ref);
+      return source ? fromSource(ref, source) : unresolved(ref);
+    });
+  }
+
+  const fileName = match[2].trim();
+  const pageNum = Number(match[3]);
+  const ref = `${fileName} p.${pageNum}`;
+  const source = sources.find(s => s.fileName === fileName && s.pageNum === pageNum);
+  return [source ? fromSource(source.ref || ref, source) : unresolved(ref, fileName, pageNum)];
+};
+
+// Splits an answer into text and citation markers, resolving each marker against the sources
+// that were sent with the question
+export const splitCitations = (content: string, sources: ContextPage[]): CitedSegment[] => {
+  const segments: CitedSegment[] = [];
+  let last = 0;
+  for (const match of content.matchAll(CITATION_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) segments.push({ type: 'text', text: content.slice(last, index) });
+    segments.push({ type: 'citation', citations: citationsFor(match, sources) });
+    last = index + match[0].length;
+  }
+  if (last < content.length) segments.push({ type: 'text', text: content.slice(last) });
+  return segments;
+};
+
+// Every distinct citation in an answer, in order of first appearance
+export const extractCitations = (content: string, sources: ContextPage[]): Citation[] => {
+  const seen = new Set<string>();
+  return splitCitations(content, sources)
+    .flatMap(segment => segment.type === 'citation' ? segment.citations : [])
+    .filter(citation => {
+      if (seen.has(citation.ref)) return false;
+      seen.add(citation.ref);
+      return true;
+    });
+};
+
+export const citationLabel = (citation: Citation) =>
+  citation.resolved || citation.pageNum !== null
+    ? `${citation.fileName} p.${citation.pageNum}`
+    : citation.ref;
+
+const normalize = (text: string) => {
+  let out = '';
+  const offsets: number[] = [];
+  let space = true;
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      if (!space) {
+        out += ' ';
+        offsets.push(i);
+      }
+      space = true;
+    } else {
+      out += text[i].toLowerCase();
+      offsets.push(i);
+      space = false;
+    }
+  }
+  return { text: out, offsets };
+};
+
+const PROBE_LENGTH = 60;
+
+// Finds which text items of a page hold the cited excerpt. Only the start and end of the excerpt
+// are matched, so small differences in the middle (hyphenation, OCR noise) don't lose the span.
+// Returns null when the excerpt can't be found in the page's text layer.
+export const findExcerptItems = (items: string[], excerpt: string): number[] | null => {
+  const starts: number[] = [];
+  let joined = '';
+  items.forEach(item => {
+    starts.push(joined.length);
+    joined += `${item} `;
+  });
+
+  const page = normalize(joined);
+  const target = normalize(excerpt).text.trim();
+  if (!target) return null;
+
+  const head = target.slice(0, PROBE_LENGTH);
+  const from = page.text.indexOf(head);
+  if (from < 0) return null;
+
+  const tail = target.slice(-PROBE_LENGTH);
+  const tailAt = page.text.indexOf(tail, from);
+  const to = tailAt >= 0 ? tailAt + tail.length : Math.min(page.text.length, from + target.length);
+
+  const spanStart = page.offsets[from];
+  const spanEnd = page.offsets[to - 1] ?? joined.length;
+  return starts.flatMap((start, i) => {
+    const end = start + items[i].length;
+    return end > spanStart && start <= spanEnd && items[i].trim() ? [i] : [];
+  });
+};
@@ -0,0 +1,81 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface StreamedReply {
+  content: string;
+  provider: string;
+  model: string;
+  // True when the reply was cut short by the abort signal; content holds what arrived before it
+  stopped: boolean;
+}
+
+type StreamEvent =
+  | { type: 'start'; provider: string; model: string }
+  | { type: 'delta'; text: string }
+  | { type: 'done'; content: string }
+  | { type: 'error'; error: string };
+
+const isAbort = (error: unknown) => error instanceof Error && error.name === 'AbortError';
+
+// Sends a chat request to multi-provider-chat in streaming mode and calls onText with the reply so
+// far each time a piece arrives. Aborting the signal closes the connection, which also stops the
+// provider's request upstream.
+export const streamChat = async (
+  body: Record<string, unknown>,
+  { signal, onText }: { signal: AbortSignal; onText: (content: string) => void }
+): Promise<StreamedReply> => {
+  const reply: StreamedReply = { content: '', provider: String(body.provider || ''), model: String(body.model || ''), stopped: false };
+
+  const { data, error } = await supabase.functions.invoke('multi-provider-chat', {
+    body: { ...body, stream: true },
+    signal,
+  });
+  if (signal.aborted) return { ...reply, stopped: true };
+  if (error) throw error;
+
+  // A JSON reply means the function answered in one piece
+  if (!(data instanceof Response)) {
+    onText(data.content);
+    return { content: data.content, provider: data.provider, model: data.model, stopped: false };
+  }
+
+  const reader = data.body!.pipeThrough(new TextDecoderStream()).getReader();
+  const stop = () => reader.cancel().catch(() => undefined);
+  signal.addEventListener('abort', stop);
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+
+      for (const raw of events) {
+        if (!raw.startsWith('data:')) continue;
+        const event = JSON.parse(raw.slice(5).trim()) as StreamEvent;
+        switch (event.type) {
+          case 'start':
+            reply.provider = event.provider;
+            reply.model = event.model;
+            break;
+          case 'delta':
+            reply.content += event.text;
+            onText(reply.content);
+            break;
+          case 'done':
+            reply.content = event.content;
+            break;
+          case 'error':
+            throw new Error(event.error);
+        }
+      }
+    }
+  } catch (error) {
+    if (!signal.aborted && !isAbort(error)) throw error;
+  } finally {
+    signal.removeEventListener('abort', stop);
+  }
+
+  return { ...reply, stopped: signal.aborted };
+};
@@ -0,0 +1,180 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { Citation } from "@/utils/chatCitations";
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export interface ContextPage {
+  fileId: string | null;
+  fileName: string;
+  pageNum: number;
+  // Tag the source was given in the prompt, e.g. "S2", so the answer can cite it
+  ref?: string;
+  // Text of the retrieved chunk, used to highlight the cited span on the page
+  excerpt?: string;
+}
+
+export interface ChatMessage {
+  // Unset until the message has been saved
+  id?: string;
+  role: 'user' | 'assistant';
+  content: string;
+  provider?: string | null;
+  model?: string | null;
+  ragContext?: string | null;
+  contextPages?: ContextPage[];
+  citations?: Citation[];
+  createdAt: string;
+}
+
+const TITLE_LENGTH = 60;
+
+// A new thread is named after its first question until renamed
+export const threadTitleFor = (firstMessage: string) => {
+  const text = firstMessage.replace(/\s+/g, ' ').trim();
+  return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 3)}...` : text || 'New chat';
+};
+
+const toThread = (row: { id: string; title: string; created_at: string | null; updated_at: string | null }): ChatThread => ({
+  id: row.id,
+  title: row.title,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const parseContextPages = (value: Json): ContextPage[] =>
+  (Array.isArray(value) ? value : []).flatMap(item => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return [];
+    const { fileId, fileName, pageNum, ref, excerpt } = item as Record<string, unknown>;
+    if (typeof fileName !== 'string' || typeof pageNum !== 'number') return [];
+    return [{
+      fileId: typeof fileId === 'string' ? fileId : null,
+      fileName,
+      pageNum,
+      ref: typeof ref === 'string' ? ref : undefined,
+      excerpt: typeof excerpt === 'string' ? excerpt : undefined,
+    }];
+  });
+
+const parseCitations = (value: Json): Citation[] =>
+  (Array.isArray(value) ? value : []).flatMap(item => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return [];
+    const citation = item as Record<string, unknown>;
+    if (typeof citation.ref !== 'string') return [];
+    return [{
+      ref: citation.ref,
+      fileId: typeof citation.fileId === 'string' ? citation.fileId : null,
+      fileName: typeof citation.fileName === 'string' ? citation.fileName : '',
+      pageNum: typeof citation.pageNum === 'number' ? citation.pageNum : null,
+      excerpt: typeof citation.excerpt === 'string' ? citation.excerpt : null,
+      resolved: citation.resolved === true,
+    }];
+  });
+
+// Most recently active first
+export const loadChatThreads = async (workspaceId: string): Promise<ChatThread[] | null> => {
+  const { data, error } = await supabase
+    .from('chat_threads')
+    .select('id, title, created_at, updated_at')
+    .eq('workspace_id', workspaceId)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    console.error('Error loading chat threads:', error);
+    return null;
+  }
+  return (data || []).map(toThread);
+};
+
+export const createChatThread = async (workspaceId: string, title: string): Promise<ChatThread | null> => {
+  const { data, error } = await supabase
+    .from('chat_threads')
+    .insert({ workspace_id: workspaceId, title })
+    .select('id, title, created_at, updated_at')
+    .single();
+
+  if (error) {
+    console.error('Error creating chat thread:', error);
+    return null;
+  }
+  return toThread(data);
+};
+
+export const renameChatThread = async (threadId: string, title: string) => {
+  const { error } = await supabase
+    .from('chat_threads')
+    .update({ title })
+    .eq('id', threadId);
+
+  if (error) {
+    console.error('Error renaming chat thread:', error);
+    return false;
+  }
+  return true;
+};
+
+export const deleteChatThread = async (threadId: string) => {
+  const { error } = await supabase
+    .from('chat_threads')
+    .delete()
+    .eq('id', threadId);
+
+  if (error) {
+    console.error('Error deleting chat thread:', error);
+    return false;
+  }
+  return true;
+};
+
+export const loadChatMessages = async (threadId: string): Promise<ChatMessage[] | null> => {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select('id, role, content, provider, model, rag_context, context_pages, citations, created_at')
+    .eq('thread_id', threadId)
+    .order('created_at');
+
+  if (error) {
+    console.error('Error loading chat messages:', error);
+    return null;
+  }
+  return (data || []).map(row => ({
+    id: row.id,
+    role: row.role === 'assistant' ? 'assistant' : 'user',
+    content: row.content,
+    provider: row.provider,
+    model: row.model,
+    ragContext: row.rag_context,
+    contextPages: parseContextPages(row.context_pages),
+    citations: parseCitations(row.citations),
+    createdAt: row.created_at || new Date().toISOString(),
+  }));
+};
+
+export const saveChatMessage = async (threadId: string, message: ChatMessage): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .insert({
+      thread_id: threadId,
+      role: message.role,
+      content: message.content,
+      provider: message.provider ?? null,
+      model: message.model ?? null,
+      rag_context: message.ragContext ?? null,
+      context_pages: (message.contextPages || []) as unknown as Json,
+      citations: (message.citations || []) as unknown as Json,
+      created_at: message.createdAt,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error saving chat message:', error);
+    return null;
+  }
+  return data.id;
+};
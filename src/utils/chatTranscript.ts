@@ -0,0 +1,114 @@
+import { AlignmentType, Document, HeadingLevel, Packer, Paragraph, TextRun } from "docx";
+import jsPDF from "jspdf";
+import { format } from "date-fns";
+import type { ChatMessage } from "@/utils/chatThreads";
+import { citationLabel } from "@/utils/chatCitations";
+
+export interface TranscriptInfo {
+  title: string;
+  workspaceName?: string;
+}
+
+const speakerLabel = (message: ChatMessage) => {
+  if (message.role === 'user') return 'User';
+  const model = [message.provider, message.model].filter(Boolean).join(' / ');
+  return model ? `Assistant (${model})` : 'Assistant';
+};
+
+const timestamp = (value: string) => format(new Date(value), 'yyyy-MM-dd HH:mm');
+
+const contextLine = (message: ChatMessage) => {
+  const pages = message.contextPages || [];
+  if (pages.length === 0) return null;
+  return `Context: ${pages.map(p => `${p.fileName} p.${p.pageNum}`).join('; ')}`;
+};
+
+const citationLine = (message: ChatMessage) => {
+  const citations = message.citations || [];
+  if (citations.length === 0) return null;
+  return `Sources: ${citations
+    .map(c => `[${c.ref}] ${c.resolved ? citationLabel(c) : 'not among the retrieved documents'}`)
+    .join('; ')}`;
+};
+
+const subtitle = (info: TranscriptInfo) =>
+  [info.workspaceName && `Workspace: ${info.workspaceName}`, `Exported ${format(new Date(), 'yyyy-MM-dd HH:mm')}`]
+    .filter(Boolean)
+    .join('  |  ');
+
+export const chatTranscriptDocx = async (info: TranscriptInfo, messages: ChatMessage[]): Promise<Blob> => {
+  const children: Paragraph[] = [
+    new Paragraph({
+      text: info.title,
+      heading: HeadingLevel.HEADING_1,
+      alignment: AlignmentType.CENTER,
+      spacing: { after: 200 },
+    }),
+    new Paragraph({
+      children: [new TextRun({ text: subtitle(info), size: 18, color: '666666' })],
+      alignment: AlignmentType.CENTER,
+      spacing: { after: 400 },
+    }),
+  ];
+
+  messages.forEach(message => {
+    children.push(new Paragraph({
+      children: [
+        new TextRun({ text: speakerLabel(message), bold: true, size: 22 }),
+        new TextRun({ text: `  ${timestamp(message.createdAt)}`, size: 18, color: '666666' }),
+      ],
+      spacing: { before: 240, after: 80 },
+    }));
+    message.content.split('\n').forEach(line => {
+      children.push(new Paragraph({ children: [new TextRun({ text: line, size: 22 })], spacing: { after: 60 } }));
+    });
+    [contextLine(message), citationLine(message)].forEach(line => {
+      if (!line) return;
+      children.push(new Paragraph({
+        children: [new TextRun({ text: line, italics: true, size: 18, color: '666666' })],
+        spacing: { after: 60 },
+      }));
+    });
+  });
+
+  return Packer.toBlob(new Document({ sections: [{ properties: {}, children }] }));
+};
+
+// Text is written as real PDF text rather than a screenshot, so the transcript stays searchable
+export const chatTranscriptPdf = (info: TranscriptInfo, messages: ChatMessage[]): Blob => {
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'pt', format: 'a4' });
+  const margin = 50;
+  const width = pdf.internal.pageSize.getWidth() - margin * 2;
+  const bottom = pdf.internal.pageSize.getHeight() - margin;
+  let y = margin;
+
+  const write = (text: string, size: number, style: 'normal' | 'bold' | 'italic' = 'normal', gray = false) => {
+    pdf.setFont('helvetica', style);
+    pdf.setFontSize(size);
+    pdf.setTextColor(gray ? 100 : 0);
+    const lineHeight = size * 1.35;
+    (pdf.splitTextToSize(text, width) as string[]).forEach(line => {
+      if (y + lineHeight > bottom) {
+        pdf.addPage();
+        y = margin;
+      }
+      pdf.text(line, margin, y + size);
+      y += lineHeight;
+    });
+  };
+
+  write(info.title, 18, 'bold');
+  write(subtitle(info), 9, 'normal', true);
+  y += 12;
+
+  messages.forEach(message => {
+    y += 8;
+    write(`${speakerLabel(message)}  ${timestamp(message.createdAt)}`, 11, 'bold');
+    write(message.content, 10);
+    [contextLine(message), citationLine(message)].forEach(line => {
+      if (line) write(line, 8, 'italic', true);
+    });
+  });
+
+  return pdf.output('blob');
+};
@@ -0,0 +1,366 @@
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { findMentions, normalizePhrase, prepareText } from "@/utils/clinicalMentions";
+import { CURATED_SYNONYMS } from "@/utils/medicalSynonyms";
+import { makePageKey } from "@/utils/pageKeys";
+
+// Pulls dated clinical events out of page text: each date found in a sentence that mentions
+// a presentation, imaging, surgery or diagnosis becomes one event, tagged with the body region
+// the sentence is about and linked back to its page.
+
+export const EVENT_TYPES = ['presentation', 'imaging', 'surgery', 'diagnosis'] as const;
+export type EventType = typeof EVENT_TYPES[number];
+
+export type DatePrecision = 'day' | 'month' | 'year';
+
+export interface ClinicalEvent {
+  id?: string;
+  fileId: string;
+  pageNum: number;
+  // ISO date; month and year precision dates use the first day of the period
+  date: string;
+  precision: DatePrecision;
+  dateText: string;
+  // True when a numeric date could be read either way and was taken as DD/MM
+  ambiguous: boolean;
+  type: EventType;
+  bodyRegion: string | null;
+  snippet: string;
+}
+
+interface FoundDate {
+  start: number;
+  end: number;
+  date: string;
+  precision: DatePrecision;
+  ambiguous: boolean;
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1, feb: 2, february: 2, mar: 3, march: 3, apr: 4, april: 4, may: 5,
+  jun: 6, june: 6, jul: 7, july: 7, aug: 8, august: 8, sep: 9, sept: 9, september: 9,
+  oct: 10, october: 10, nov: 11, november: 11, dec: 12, december: 12,
+};
+
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+
+// Longer forms first so "13 Nov 2025" is not also read as "Nov 2025"
+const DATE_PATTERNS: Array<{ regex: RegExp; parse: (m: RegExpMatchArray) => Omit<FoundDate, 'start' | 'end'> | null }> = [
+  {
+    regex: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g,
+    parse: m => toDate(+m[1], +m[2], +m[3], 'day'),
+  },
+  {
+    regex: /\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})\b/g,
+    parse: m => parseNumericDate(+m[1], +m[2], m[3]),
+  },
+  {
+    regex: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?(?:\\s+of)?[\\s-]+${MONTH}\\.?,?[\\s-]+(\\d{4})\\b`, 'gi'),
+    parse: m => toDate(+m[3], MONTHS[m[2].toLowerCase()], +m[1], 'day'),
+  },
+  {
+    regex: new RegExp(`\\b${MONTH}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'gi'),
+    parse: m => toDate(+m[3], MONTHS[m[1].toLowerCase()], +m[2], 'day'),
+  },
+  {
+    regex: new RegExp(`\\b${MONTH}\\.?,?\\s+(\\d{4})\\b`, 'gi'),
+    parse: m => toDate(+m[2], MONTHS[m[1].toLowerCase()], 1, 'month'),
+  },
+];
+
+const toDate = (year: number, month: number, day: number, precision: DatePrecision, ambiguous = false) => {
+  const maxYear = new Date().getFullYear() + 1;
+  if (!month || year < 1900 || year > maxYear) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Rejects 31/02 and the like, which Date would roll over into the next month
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return { date: date.toISOString().slice(0, 10), precision, ambiguous };
+};
+
+// Australian records write DD/MM/YYYY, so that reading wins unless only MM/DD is a valid date
+const parseNumericDate = (first: number, second: number, yearText: string) => {
+  let year = +yearText;
+  if (yearText.length === 2) {
+    const pivot = new Date().getFullYear() % 100;
+    year += year <= pivot ? 2000 : 1900;
+  }
+  if (second > 12 && first <= 12) return toDate(year, first, second, 'day');
+  return toDate(year, second, first, 'day', first <= 12 && first !== second);
+};
+
+// Every date in the text, earliest first, without overlaps
+export const findDates = (text: string): FoundDate[] => {
+  const found: FoundDate[] = [];
+  DATE_PATTERNS.forEach(({ regex, parse }) => {
+    for (const m of text.matchAll(regex)) {
+      const start = m.index!;
+      const end = start + m[0].length;
+      if (found.some(d => start < d.end && end > d.start)) continue;
+      const parsed = parse(m);
+      if (parsed) found.push({ start, end, ...parsed });
+    }
+  });
+  return found.sort((a, b) => a.start - b.start);
+};
+
+// Dates that label the document or the patient rather than an event
+const NON_EVENT_LABEL = /\b(d\.?\s?o\.?\s?b|date of birth|born|printed(?: on)?|print date|generated|created|expir(?:y|es)|valid (?:until|to))\W{0,4}$/i;
+
+// Checked in this order, so a sentence describing an operation is not filed as a presentation
+const TYPE_KEYWORDS: Array<{ type: EventType; regex: RegExp }> = [
+  {
+    type: 'surgery',
+    regex: /\b(surgery|surgical|operation|operative|operated|post[- ]?op|theatre|arthroscop\w*|\w+ectomy|\w+plasty|\w+otomy|\w+odesis|orif|reconstruct\w*|repair(?:ed)?|replacement|fixation|fusion|decompression|debridement)\b/i,
+  },
+  {
+    type: 'imaging',
+    regex: /\b(x-?rays?|xr|radiograph\w*|mri|mr arthrogram|ct|ultrasound|u\/s|sonograph\w*|bone scan|scan|imaging|dexa|radiolog\w*)\b/i,
+  },
+  {
+    type: 'diagnosis',
+    regex: /\b(diagnos\w*|dx|impression|consistent with|confirmed)\b/i,
+  },
+  {
+    type: 'presentation',
+    regex: /\b(present\w*|attend\w*|complain\w*|c\/o|review(?:ed)?|consult\w*|seen|saw|visit\w*|admitted|admission|emergency|injur\w*|pain|symptom\w*|reports?|reported|physio\w*|gp|examin\w*|appointment)\b/i,
+  },
+];
+
+const classifyEvent = (text: string) => {
+  for (const { type, regex } of TYPE_KEYWORDS) {
+    const match = regex.exec(text);
+    if (match) return { type, index: match.index };
+  }
+  return null;
+};
+
+const titleCase = (phrase: string) => phrase.replace(/\b\w/g, c => c.toUpperCase());
+
+const REGION_TERMS = CURATED_SYNONYMS
+  .filter(e => e.kind === 'region')
+  .flatMap(e => e.terms.map(term => ({ term, label: titleCase(e.terms[0]) })));
+
+const SIDE_TERMS = new Map(CURATED_SYNONYMS
+  .filter(e => e.kind === 'laterality')
+  .flatMap(e => e.terms.map(term => [normalizePhrase(term), titleCase(e.terms[0])] as const)));
+
+// The affirmed body region mentioned closest to the given offset, with its side when written
+const findBodyRegion = (text: string, near: number): string | null => {
+  const prepared = prepareText(text);
+  let best: { label: string; distance: number; start: number } | null = null;
+  for (const { term, label } of REGION_TERMS) {
+    for (const mention of findMentions(prepared, term)) {
+      if (mention.context === 'negated') continue;
+      const distance = Math.abs(mention.start - near);
+      if (!best || distance < best.distance) best = { label, distance, start: mention.start };
+    }
+  }
+  if (!best) return null;
+  const { label, start } = best;
+
+  const before = normalizePhrase(text.slice(Math.max(0, start - 12), start)).split(' ');
+  for (const length of [2, 1]) {
+    const side = SIDE_TERMS.get(before.slice(-length).join(' '));
+    if (side && before.length >= length) return `${side} ${label}`;
+  }
+  return label;
+};
+
+const SENTENCE_END = /[.!?;](?=\s)|\n/g;
+const MAX_CONTEXT = 300;
+
+// Start and end of the sentence around a range, ignoring punctuation inside the range itself
+const sentenceBounds = (text: string, start: number, end: number) => {
+  const windowStart = Math.max(0, start - MAX_CONTEXT);
+  let from = windowStart;
+  for (const m of text.slice(windowStart, start).matchAll(SENTENCE_END)) from = windowStart + m.index! + m[0].length;
+  const after = text.slice(end, end + MAX_CONTEXT);
+  const stop = after.search(/[.!?;](?=\s|$)|\n/);
+  return { from, to: stop < 0 ? end + after.length : end + stop + 1 };
+};
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Events found on one page. A date on a line of its own takes its context from the next sentence.
+export const extractPageEvents = (text: string, fileId: string, pageNum: number): ClinicalEvent[] => {
+  const dates = findDates(text);
+  const events: ClinicalEvent[] = [];
+
+  dates.forEach((found, i) => {
+    if (NON_EVENT_LABEL.test(text.slice(Math.max(0, found.start - 20), found.start))) return;
+
+    const { from, to: sentenceEnd } = sentenceBounds(text, found.start, found.end);
+    let to = sentenceEnd;
+    const ownWords = text.slice(from, to).replace(text.slice(found.start, found.end), '').match(/\p{L}+/gu) || [];
+    if (ownWords.length < 3) {
+      const next = to + text.slice(to).search(/\S|$/);
+      to = sentenceBounds(text, next, next).to;
+    }
+
+    // Where a sentence has several dates, each is described by the words up to the next one
+    const segmentFrom = Math.max(from, dates[i - 1]?.end ?? 0);
+    const segmentTo = Math.min(to, dates[i + 1]?.start ?? text.length);
+    const segment = text.slice(segmentFrom, segmentTo);
+    const sentence = text.slice(from, to);
+    const kind = classifyEvent(segment) || classifyEvent(sentence);
+    if (!kind) return;
+
+    events.push({
+      fileId,
+      pageNum,
+      date: found.date,
+      precision: found.precision,
+      dateText: text.slice(found.start, found.end),
+      ambiguous: found.ambiguous,
+      type: kind.type,
+      bodyRegion: findBodyRegion(segment, found.start - segmentFrom) ?? findBodyRegion(sentence, found.start - from),
+      snippet: collapse(sentence),
+    });
+  });
+
+  // The same date and type repeated on a page (headers, copied lines) is one event
+  const seen = new Set<string>();
+  return events.filter(e => {
+    const key = `${e.date}|${e.type}|${e.bodyRegion}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const sortEvents = (events: ClinicalEvent[]) =>
+  [...events].sort((a, b) => a.date.localeCompare(b.date) || a.fileId.localeCompare(b.fileId) || a.pageNum - b.pageNum);
+
+export const formatEventDate = (event: Pick<ClinicalEvent, 'date' | 'precision'>) =>
+  format(parseISO(event.date), event.precision === 'day' ? 'd MMM yyyy' : event.precision === 'month' ? 'MMM yyyy' : 'yyyy');
+
+export const EVENT_TYPE_LABELS: Record<EventType, string> = {
+  presentation: 'Presentation',
+  imaging: 'Imaging',
+  surgery: 'Surgery',
+  diagnosis: 'Diagnosis',
+};
+
+// Up to six consecutive words of the snippet: what follows the date when there is enough of it,
+// otherwise what leads up to it from the word that identified the event
+export const eventExcerpt = (event: Pick<ClinicalEvent, 'snippet' | 'dateText'>, maxWords = 6) => {
+  const trim = (part: string) => part.replace(/^[\s,:;.)-]+|[\s,:;.(-]+$/g, '');
+  const at = event.snippet.indexOf(event.dateText);
+  let part = at < 0 ? event.snippet : trim(event.snippet.slice(at + event.dateText.length));
+  if (at >= 0 && part.split(' ').length < 3) {
+    part = trim(event.snippet.slice(0, at));
+    part = part.slice(classifyEvent(part)?.index ?? 0);
+  }
+  return part.split(' ').slice(0, maxWords).join(' ').replace(/[,;:.]+$/, '');
+};
+
+// Bullet list in the style the DIA Timeline heading asks for: oldest first, "13 Nov 2025"
+// dates and a short verbatim snippet in italics
+export const formatDiaTimeline = (events: ClinicalEvent[]) =>
+  sortEvents(events)
+    .map(event => {
+      const detail = [EVENT_TYPE_LABELS[event.type], event.bodyRegion].filter(Boolean).join(', ');
+      return `- ${formatEventDate(event)} – ${detail}: *${eventExcerpt(event)}*`;
+    })
+    .join('\n');
+
+// Longest timeline generate-diagnostic-assessment accepts
+export const DIA_TIMELINE_MAX_LENGTH = 50000;
+
+// The timeline sent with an assessment request. A chronology too long for the request keeps its
+// oldest entries and ends with a line saying how many later events were left out.
+export const fitDiaTimeline = (events: ClinicalEvent[], maxLength = DIA_TIMELINE_MAX_LENGTH) => {
+  const text = formatDiaTimeline(events);
+  const lines = text.split('\n');
+  if (text.length <= maxLength) return { text, included: lines.length };
+
+  const omittedNote = (count: number) => `- … ${count} later event${count === 1 ? '' : 's'} left out of this timeline`;
+  let included = lines.length;
+  let length = text.length;
+  do {
+    included--;
+    length -= lines[included].length + 1;
+  } while (included > 0 && length + 1 + omittedNote(lines.length - included).length > maxLength);
+  return { text: [...lines.slice(0, included), omittedNote(lines.length - included)].join('\n'), included };
+};
+
+// Whether an event belongs to a diagnosis: its page is tagged with it, the diagnosis names the
+// event's body region ("Right Knee OA" and a right knee MRI), or the snippet mentions it
+export const eventMatchesDiagnosis = (event: ClinicalEvent, diagnosis: string, taggedPages: Set<string>) => {
+  if (taggedPages.has(makePageKey(event.fileId, event.pageNum))) return true;
+  const name = ` ${normalizePhrase(diagnosis)} `;
+  if (event.bodyRegion) {
+    const [side, ...rest] = normalizePhrase(event.bodyRegion).split(' ');
+    const region = SIDE_TERMS.has(side) ? rest.join(' ') : `${side} ${rest.join(' ')}`.trim();
+    const otherSides = [...SIDE_TERMS.keys()].filter(term => SIDE_TERMS.get(term) !== SIDE_TERMS.get(side));
+    const namesRegion = findMentions(diagnosis, region).length > 0;
+    const namesOtherSide = SIDE_TERMS.has(side) && otherSides.some(term => name.includes(` ${term} `));
+    if (namesRegion && !namesOtherSide) return true;
+  }
+  return findMentions(event.snippet, diagnosis, { fuzzy: true }).some(m => m.context !== 'negated');
+};
+
+const fromRow = (row: Tables<'clinical_events'>): ClinicalEvent => ({
+  id: row.id,
+  fileId: row.file_id,
+  pageNum: row.page_number,
+  date: row.event_date,
+  precision: row.date_precision as DatePrecision,
+  dateText: row.date_text,
+  ambiguous: row.date_ambiguous,
+  type: row.event_type as EventType,
+  bodyRegion: row.body_region,
+  snippet: row.snippet,
+});
+
+// PostgREST caps each response, so large workspaces are read a page of rows at a time
+const LOAD_BATCH_SIZE = 1000;
+
+export const loadClinicalEvents = async (workspaceId: string): Promise<ClinicalEvent[] | null> => {
+  try {
+    const events: ClinicalEvent[] = [];
+    for (let from = 0; ; from += LOAD_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('clinical_events')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .order('event_date')
+        .order('page_number')
+        .order('id')
+        .range(from, from + LOAD_BATCH_SIZE - 1);
+
+      if (error) throw error;
+      events.push(...(data || []).map(fromRow));
+      if (!data || data.length < LOAD_BATCH_SIZE) break;
+    }
+    return events;
+  } catch (error) {
+    console.error('Error loading clinical events:', error);
+    return null;
+  }
+};
+
+// Replaces the workspace's stored chronology with a freshly extracted one. The swap happens in one
+// transaction, so if it fails the previous chronology is kept.
+export const replaceClinicalEvents = async (workspaceId: string, events: ClinicalEvent[]): Promise<boolean> => {
+  try {
+    const rows = events.map(event => ({
+      file_id: event.fileId,
+      page_number: event.pageNum,
+      event_date: event.date,
+      date_precision: event.precision,
+      date_text: event.dateText,
+      date_ambiguous: event.ambiguous,
+      event_type: event.type,
+      body_region: event.bodyRegion,
+      snippet: event.snippet,
+    }));
+    const { error } = await supabase.rpc('replace_clinical_events', { _workspace_id: workspaceId, _events: rows });
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error saving clinical events:', error);
+    return false;
+  }
+};
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import { classifyMatches, findMentions, normalizePhrase, summarizeMentions } from "@/utils/clinicalMentions";
+
+const contextOf = (text: string, phrase: string, options: { fuzzy?: boolean } = {}) =>
+  findMentions(text, phrase, options).map(m => m.context);
+
+describe("findMentions", () => {
+  it("affirms a plain mention", () => {
+    const [mention] = findMentions("Patient has back pain after lifting.", "back pain");
+    expect(mention).toMatchObject({ text: "back pain", context: "affirmed", reason: null, cue: null });
+  });
+
+  describe("negation", () => {
+    it.each([
+      ["No back pain reported.", "No"],
+      ["Denies back pain.", "Denies"],
+      ["No evidence of back pain on examination.", "No evidence of"],
+      ["Negative for back pain.", "Negative for"],
+      ["Back pain has been ruled out.", "ruled out"],
+    ])("negates %j", (text, cue) => {
+      const [mention] = findMentions(text, "back pain");
+      expect(mention).toMatchObject({ context: "negated", reason: "negation", cue });
+    });
+
+    it("negates every item of a list", () => {
+      const text = "Denies chest pain, nausea or vomiting.";
+      expect(contextOf(text, "chest pain")).toEqual(["negated"]);
+      expect(contextOf(text, "nausea")).toEqual(["negated"]);
+      expect(contextOf(text, "vomiting")).toEqual(["negated"]);
+    });
+
+    it("prefers the longest cue", () => {
+      const [mention] = findMentions("There is no evidence of fracture.", "fracture");
+      expect(mention.cue).toBe("no evidence of");
+    });
+
+    it("ignores cues too far from the mention", () => {
+      expect(contextOf("No one was with him when he slipped on the wet stairs and twisted his knee.", "knee"))
+        .toEqual(["affirmed"]);
+    });
+  });
+
+  describe("pseudo-negation", () => {
+    it.each([
+      "No change in back pain since last review.",
+      "No increase in back pain overnight.",
+      "Walks without difficulty despite back pain.",
+    ])("does not negate %j", text => {
+      expect(contextOf(text, "back pain")).toEqual(["affirmed"]);
+    });
+  });
+
+  describe("family history", () => {
+    it.each([
+      ["Mother had breast cancer.", "Mother"],
+      ["Family history of breast cancer.", "Family history"],
+      ["Breast cancer runs in the family.", "runs in the family"],
+    ])("attributes %j to a relative", (text, cue) => {
+      const [mention] = findMentions(text, "breast cancer");
+      expect(mention).toMatchObject({ context: "uncertain", reason: "family", cue });
+    });
+  });
+
+  describe("hypothetical", () => {
+    it.each([
+      ["Return if chest pain recurs.", "Return if"],
+      ["Advised to monitor for chest pain.", "monitor for"],
+      ["At risk of chest pain on exertion.", "At risk of"],
+    ])("marks %j as hypothetical", (text, cue) => {
+      const [mention] = findMentions(text, "chest pain");
+      expect(mention).toMatchObject({ context: "uncertain", reason: "hypothetical", cue });
+    });
+  });
+
+  describe("uncertainty", () => {
+    it.each([
+      ["?fracture of the wrist", "?"],
+      ["? fracture of the wrist", "?"],
+      ["Possible fracture of the wrist.", "Possible"],
+      ["Fracture cannot be excluded.", "cannot be excluded"],
+    ])("marks %j as uncertain", (text, cue) => {
+      const [mention] = findMentions(text, "fracture");
+      expect(mention).toMatchObject({ context: "uncertain", reason: "uncertain", cue });
+    });
+
+    it("does not treat a question mark ending the previous sentence as a query", () => {
+      expect(contextOf("Any trauma? Fracture of the left wrist.", "fracture")).toEqual(["affirmed"]);
+      expect(contextOf("Any trauma?\n\nThe x-ray confirms a fracture of the wrist.", "fracture")).toEqual(["affirmed"]);
+    });
+  });
+
+  describe("clause terminators", () => {
+    it.each([
+      "No fever. Back pain worse on bending.",
+      "No fever; back pain worse on bending.",
+      "No fever but back pain worse on bending.",
+      "No fever, however back pain persists.",
+      "Denies fever!\nBack pain persists.",
+    ])("ends the negation scope in %j", text => {
+      expect(contextOf(text, "back pain")).toEqual(["affirmed"]);
+    });
+
+    it.each([
+      "No fever, has back pain.",
+      "Denies chest pain, reports back pain.",
+      "No fever, she complains of back pain.",
+    ])("ends the negation scope at a comma followed by a new verb in %j", text => {
+      expect(contextOf(text, "back pain")).toEqual(["affirmed"]);
+    });
+
+    it("keeps the first clause negated", () => {
+      expect(contextOf("Denies chest pain, reports back pain.", "chest pain")).toEqual(["negated"]);
+    });
+
+    it("does not carry a cue after the mention across a terminator", () => {
+      expect(contextOf("Back pain present. Fracture excluded.", "back pain")).toEqual(["affirmed"]);
+    });
+  });
+
+  describe("matching", () => {
+    it("does not fuzzy-match short words, so knee does not match knew", () => {
+      expect(findMentions("She knew the diagnosis.", "knee", { fuzzy: true })).toEqual([]);
+      expect(findMentions("Right knee swollen.", "knee", { fuzzy: true })).toHaveLength(1);
+    });
+
+    it("tolerates OCR errors in longer words when fuzzy", () => {
+      expect(findMentions("Right shoulder tendinitis.", "tendinitls")).toEqual([]);
+      expect(findMentions("Right shoulder tendinitis.", "tendinitls", { fuzzy: true })).toHaveLength(1);
+    });
+
+    it("matches plurals and ignores case and punctuation", () => {
+      expect(findMentions("Multiple FRACTURES noted.", "fracture")).toHaveLength(1);
+      expect(findMentions("R) Knee pain", "r knee")).toHaveLength(1);
+    });
+
+    it("reports character offsets of each mention", () => {
+      const text = "Knee pain. No knee swelling.";
+      const mentions = findMentions(text, "knee");
+      expect(mentions.map(m => [m.start, m.end, m.context])).toEqual([[0, 4, "affirmed"], [14, 18, "negated"]]);
+    });
+  });
+});
+
+describe("classifyMatches", () => {
+  it("classifies regex matches, including # shorthand", () => {
+    const text = "?# left wrist. No #NOF.";
+    const matches = Array.from(text.matchAll(/#\s*(?:left wrist|NOF)/g), m => ({ start: m.index!, end: m.index! + m[0].length }));
+    expect(classifyMatches(text, matches).map(m => m.context)).toEqual(["uncertain", "negated"]);
+  });
+});
+
+describe("normalizePhrase", () => {
+  it("lower-cases and drops punctuation", () => {
+    expect(normalizePhrase("R) Knee")).toBe("r knee");
+    expect(normalizePhrase("Patient’s  Shoulder")).toBe("patient shoulder");
+  });
+});
+
+describe("summarizeMentions", () => {
+  it("counts mentions per context with the first cue", () => {
+    const mentions = findMentions("Back pain. No back pain. Possible back pain.", "back pain");
+    expect(summarizeMentions(mentions)).toEqual([
+      { context: "affirmed", count: 1, cue: undefined },
+      { context: "negated", count: 1, cue: "No" },
+      { context: "uncertain", count: 1, cue: "Possible" },
+    ]);
+  });
+});
@@ -0,0 +1,326 @@
+// Finds mentions of a term in clinical text and works out whether the patient actually has it.
+// Context is decided within the clause containing the mention, NegEx style: cue phrases a few
+// words before or after the mention mark it negated ("no evidence of back pain"), about someone
+// else ("mother had breast cancer"), hypothetical ("return if chest pain") or uncertain
+// ("?fracture", "possible tear"). Clauses end at sentence punctuation, at words such as "but", and
+// at a comma followed by a new verb or subject ("no fever, has back pain").
+
+export const MENTION_CONTEXTS = ['affirmed', 'negated', 'uncertain'] as const;
+export type MentionContext = typeof MENTION_CONTEXTS[number];
+
+export type MentionReason = 'negation' | 'family' | 'hypothetical' | 'uncertain';
+
+export interface Mention {
+  start: number;
+  end: number;
+  text: string;
+  context: MentionContext;
+  reason: MentionReason | null;
+  cue: string | null;
+}
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface PreparedText {
+  text: string;
+  tokens: Token[];
+}
+
+type CueKind = MentionReason | 'pseudo';
+
+interface CueList {
+  kind: CueKind;
+  before: string[];
+  after: string[];
+}
+
+// Phrases that contain a negation word without negating anything
+const PSEUDO_NEGATIONS = [
+  'no increase', 'no change', 'no further', 'not only', 'not necessarily', 'no significant change',
+  'not certain if', 'not certain whether', 'gram negative', 'without difficulty', 'no longer',
+];
+
+const CUES: CueList[] = [
+  {
+    kind: 'negation',
+    before: [
+      'no', 'not', 'nil', 'never', 'neither', 'nor', 'without', 'denies', 'denied', 'deny', 'denying',
+      'negative for', 'no evidence of', 'no signs of', 'no sign of', 'no history of', 'no hx of',
+      'absence of', 'absent', 'free of', 'ruled out', 'rules out',
+    ],
+    after: [
+      'ruled out', 'excluded', 'absent', 'not seen', 'not present', 'not detected', 'not demonstrated',
+      'not identified', 'negative',
+    ],
+  },
+  {
+    kind: 'family',
+    before: [
+      'family history', 'family hx', 'fhx', 'fh', 'mother', 'father', 'mum', 'mom', 'dad', 'parent',
+      'parents', 'sister', 'brother', 'sibling', 'siblings', 'grandmother', 'grandfather', 'aunt',
+      'uncle', 'cousin', 'son', 'daughter',
+    ],
+    after: ['in family', 'in the family', 'runs in the family'],
+  },
+  {
+    kind: 'hypothetical',
+    before: [
+      'if', 'should', 'in case of', 'risk of', 'at risk of', 'at risk for', 'to prevent', 'prevention of',
+      'monitor for', 'watch for', 'screening for', 'screen for', 'return if', 'in the event of',
+    ],
+    after: [],
+  },
+  {
+    kind: 'uncertain',
+    before: [
+      'possible', 'possibly', 'probable', 'probably', 'suspected', 'suspect', 'suspicion of', 'query',
+      'may have', 'may be', 'might', 'could be', 'cannot exclude', 'can not exclude', 'rule out', 'r o',
+      'questionable', 'concern for', 'concerning for', 'differential', 'differentials', 'versus', 'vs',
+    ],
+    after: [
+      'cannot be excluded', 'can not be excluded', 'not excluded', 'cannot be ruled out', 'not ruled out',
+      'unlikely', 'suspected', 'queried', 'possible', 'to be excluded', 'to be ruled out',
+    ],
+  },
+];
+
+// Words that end the scope of a cue even without punctuation
+const TERMINATORS = new Set(['but', 'however', 'although', 'though', 'except', 'whereas', 'which', 'aside', 'apart']);
+
+// After a comma these start a new statement, so a cue before the comma doesn't reach past it.
+// Without one, a comma only separates list items ("denies chest pain, nausea or vomiting").
+const CLAUSE_STARTS = new Set([
+  'has', 'have', 'had', 'having', 'is', 'was', 'are', 'were', 'reports', 'reported', 'reporting',
+  'complains', 'complained', 'complaining', 'describes', 'described', 'states', 'stated', 'notes', 'noted',
+  'presents', 'presented', 'endorses', 'endorsed', 'admits', 'admitted', 'shows', 'showed', 'demonstrates',
+  'developed', 'experiences', 'experienced', 'experiencing', 'continues', 'remains', 'now',
+  'he', 'she', 'they', 'patient', 'pt',
+]);
+
+// How far cues reach, in words between the cue and the mention
+const BEFORE_WINDOW = 6;
+const AFTER_WINDOW = 4;
+const FAMILY_WINDOW = 10;
+
+// Fuzzy matching only applies to words of this length; shorter words must match exactly so
+// that "knee" does not match "knew"
+const FUZZY_MIN_LENGTH = 5;
+const FUZZY_THRESHOLD = 0.85;
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/’/g, "'").replace(/'s$/, '');
+
+// Words, plus "#" which clinicians use as shorthand for fracture
+const WORD_PATTERN = /#|[\p{L}\p{N}]+(?:['’]\p{L}+)?/gu;
+
+const toWords = (phrase: string) => Array.from(phrase.matchAll(WORD_PATTERN), m => normalizeWord(m[0]));
+
+// Lower-cased words joined by single spaces, e.g. "R) Knee" -> "r knee"
+export const normalizePhrase = (phrase: string) => toWords(phrase).join(' ');
+
+const parsedCues = CUES.map(({ kind, before, after }) => ({
+  kind,
+  before: before.map(toWords),
+  after: after.map(toWords),
+}));
+const parsedPseudo = PSEUDO_NEGATIONS.map(toWords);
+
+export const prepareText = (text: string): PreparedText => ({
+  text,
+  tokens: Array.from(text.matchAll(WORD_PATTERN), m => ({
+    word: normalizeWord(m[0]),
+    start: m.index!,
+    end: m.index! + m[0].length,
+  })),
+});
+
+const levenshteinDistance = (str1: string, str2: string): number => {
+  const len1 = str1.length;
+  const len2 = str2.length;
+  const matrix: number[][] = [];
+
+  for (let i = 0; i <= len1; i++) {
+    matrix[i] = [i];
+  }
+  for (let j = 0; j <= len2; j++) {
+    matrix[0][j] = j;
+  }
+
+  for (let i = 1; i <= len1; i++) {
+    for (let j = 1; j <= len2; j++) {
+      const cost = str1[i - 1] === str2[j - 1] ? 0 : 1;
+      matrix[i][j] = Math.min(
+        matrix[i - 1][j] + 1,
+        matrix[i][j - 1] + 1,
+        matrix[i - 1][j - 1] + cost
+      );
+    }
+  }
+
+  return matrix[len1][len2];
+};
+
+const isPlural = (a: string, b: string) => a === `${b}s` || a === `${b}es` || b === `${a}s` || b === `${a}es`;
+
+const wordsMatch = (word: string, target: string, fuzzy: boolean) => {
+  if (word === target || isPlural(word, target)) return true;
+  if (!fuzzy || Math.min(word.length, target.length) < FUZZY_MIN_LENGTH) return false;
+  const maxLen = Math.max(word.length, target.length);
+  if (Math.abs(word.length - target.length) > maxLen * (1 - FUZZY_THRESHOLD)) return false;
+  return 1 - levenshteinDistance(word, target) / maxLen >= FUZZY_THRESHOLD;
+};
+
+// Token spans are inclusive: first and last are token indexes
+interface Span {
+  start: number;
+  end: number;
+  first: number;
+  last: number;
+}
+
+// Every run of words matching the phrase word for word
+const findPhraseSpans = (prepared: PreparedText, phrase: string, fuzzy: boolean): Span[] => {
+  const target = toWords(phrase);
+  const { tokens } = prepared;
+  if (target.length === 0) return [];
+
+  const spans: Span[] = [];
+  for (let i = 0; i + target.length <= tokens.length; i++) {
+    if (target.every((word, j) => wordsMatch(tokens[i + j].word, word, fuzzy))) {
+      const last = i + target.length - 1;
+      spans.push({ start: tokens[i].start, end: tokens[last].end, first: i, last });
+      i = last;
+    }
+  }
+  return spans;
+};
+
+// Token span covering a character range, e.g. a regex match
+const spanFromOffsets = (prepared: PreparedText, start: number, end: number): Span | null => {
+  const first = prepared.tokens.findIndex(t => t.end > start);
+  if (first < 0 || prepared.tokens[first].start >= end) return null;
+  let last = first;
+  while (last + 1 < prepared.tokens.length && prepared.tokens[last + 1].start < end) last++;
+  return { start, end, first, last };
+};
+
+const endsClause = (prepared: PreparedText, tokenIndex: number) => {
+  const { text, tokens } = prepared;
+  const next = tokens[tokenIndex + 1];
+  const gap = text.slice(tokens[tokenIndex].end, next?.start ?? text.length);
+  if (/[!?;]|\.(\s|$)|\n\s*\n/.test(gap)) return true;
+  return gap.includes(',') && !!next && CLAUSE_STARTS.has(next.word);
+};
+
+const clauseBounds = (prepared: PreparedText, span: Span) => {
+  const { tokens } = prepared;
+  let first = span.first;
+  while (first > 0 && !endsClause(prepared, first - 1) && !TERMINATORS.has(tokens[first - 1].word)) first--;
+  let last = span.last;
+  while (last + 1 < tokens.length && !endsClause(prepared, last) && !TERMINATORS.has(tokens[last + 1].word)) last++;
+  return { first, last };
+};
+
+const cueAt = (tokens: Token[], index: number, cue: string[]) =>
+  index >= 0 && index + cue.length <= tokens.length && cue.every((word, j) => tokens[index + j].word === word);
+
+interface CueHit {
+  kind: CueKind;
+  first: number;
+  last: number;
+  distance: number;
+}
+
+const findCues = (prepared: PreparedText, span: Span): CueHit[] => {
+  const { tokens } = prepared;
+  const clause = clauseBounds(prepared, span);
+  const hits: CueHit[] = [];
+
+  for (let i = clause.first; i <= clause.last; i++) {
+    if (i >= span.first && i <= span.last) continue;
+    const isBefore = i < span.first;
+
+    for (const { kind, before, after } of parsedCues) {
+      for (const cue of isBefore ? before : after) {
+        if (!cueAt(tokens, i, cue)) continue;
+        const last = i + cue.length - 1;
+        if (isBefore && last >= span.first) continue;
+        if (!isBefore && last > clause.last) continue;
+        const distance = isBefore ? span.first - last - 1 : i - span.last - 1;
+        const window = kind === 'family' ? FAMILY_WINDOW : isBefore ? BEFORE_WINDOW : AFTER_WINDOW;
+        if (distance <= window) hits.push({ kind, first: i, last, distance });
+      }
+    }
+    if (isBefore) {
+      parsedPseudo.forEach(cue => {
+        if (cueAt(tokens, i, cue)) hits.push({ kind: 'pseudo', first: i, last: i + cue.length - 1, distance: 0 });
+      });
+    }
+  }
+
+  // A cue inside a longer one ("no" in "no evidence of", "ruled out" in "not ruled out") gives way to it
+  return hits.filter(hit => !hits.some(other =>
+    other !== hit &&
+    other.first <= hit.first && other.last >= hit.last &&
+    other.last - other.first > hit.last - hit.first
+  ));
+};
+
+const PRECEDENCE: MentionReason[] = ['negation', 'family', 'hypothetical', 'uncertain'];
+
+const classifySpan = (prepared: PreparedText, span: Span): Omit<Mention, 'start' | 'end' | 'text'> => {
+  // "?fracture" is the usual shorthand for a query diagnosis; a "?" straight after a word ends a question instead
+  if (/(?:^|[\s(,;:])\?\s?$/.test(prepared.text.slice(Math.max(0, span.start - 3), span.start))) {
+    return { context: 'uncertain', reason: 'uncertain', cue: '?' };
+  }
+
+  const hits = findCues(prepared, span).filter(hit => hit.kind !== 'pseudo');
+  for (const reason of PRECEDENCE) {
+    const nearest = hits
+      .filter(hit => hit.kind === reason)
+      .sort((a, b) => a.distance - b.distance)[0];
+    if (nearest) {
+      const { tokens, text } = prepared;
+      return {
+        context: reason === 'negation' ? 'negated' : 'uncertain',
+        reason,
+        cue: text.slice(tokens[nearest.first].start, tokens[nearest.last].end),
+      };
+    }
+  }
+  return { context: 'affirmed', reason: null, cue: null };
+};
+
+const toMention = (prepared: PreparedText, span: Span): Mention => ({
+  start: span.start,
+  end: span.end,
+  text: prepared.text.slice(span.start, span.end),
+  ...classifySpan(prepared, span),
+});
+
+// Mentions of a word or phrase. Fuzzy matching tolerates OCR errors in longer words.
+export const findMentions = (text: string | PreparedText, phrase: string, options: { fuzzy?: boolean } = {}): Mention[] => {
+  const prepared = typeof text === 'string' ? prepareText(text) : text;
+  return findPhraseSpans(prepared, phrase, !!options.fuzzy).map(span => toMention(prepared, span));
+};
+
+// Mentions for matches found some other way, such as a regular expression
+export const classifyMatches = (text: string | PreparedText, matches: Array<{ start: number; end: number }>): Mention[] => {
+  const prepared = typeof text === 'string' ? prepareText(text) : text;
+  return matches.flatMap(({ start, end }) => {
+    const span = spanFromOffsets(prepared, start, end);
+    return span ? [toMention(prepared, span)] : [];
+  });
+};
+
+// One entry per context with its mention count and the first cue found, for reporting hits
+export const summarizeMentions = (mentions: Mention[]) =>
+  MENTION_CONTEXTS
+    .map(context => {
+      const inContext = mentions.filter(m => m.context === context);
+      return { context, count: inContext.length, cue: inContext.find(m => m.cue)?.cue || undefined };
+    })
+    .filter(summary => summary.count > 0);
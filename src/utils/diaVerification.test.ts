@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { verifyReport, type SourcePage } from "@/utils/diaVerification";
+
+const pages: SourcePage[] = [
+  { fileId: "gp", fileName: "GP notes.pdf", pageNum: 1, text: "Patient reports constant ringing in both ears since 2015." },
+  { fileId: "gp", fileName: "GP notes.pdf", pageNum: 2, text: "Audiogram shows bilateral high frequency hearing loss." },
+];
+
+const referenceStatus = (report: string) =>
+  verifyReport(report, pages).items.find(item => item.kind === "reference")?.status;
+
+describe("verifyReport references", () => {
+  it("verifies a reference whose quote is on the cited page", () => {
+    expect(referenceStatus('"constant ringing in both ears" [GP notes.pdf, Page 1]')).toBe("verified");
+  });
+
+  it("marks a reference misattributed when its quote is on another page", () => {
+    expect(referenceStatus('"bilateral high frequency hearing loss" [GP notes.pdf, Page 1]')).toBe("misattributed");
+  });
+
+  it("leaves a reference unverified when none of its quotes are found", () => {
+    const result = verifyReport('"intermittent buzzing in the left ear" [GP notes.pdf, Page 1]', pages);
+    expect(result.items.map(item => [item.kind, item.status])).toEqual([
+      ["quote", "not_found"],
+      ["reference", "unverified"],
+    ]);
+    expect(result.counts.verified).toBe(0);
+  });
+
+  it("reports a reference to a missing page as not found", () => {
+    expect(referenceStatus("As noted [GP notes.pdf, Page 9]")).toBe("not_found");
+  });
+});
@@ -0,0 +1,266 @@
+export type VerificationStatus = 'verified' | 'unverified' | 'misattributed' | 'not_found';
+
+export const VERIFICATION_STATUS_LABELS: Record<VerificationStatus, string> = {
+  verified: 'Verified',
+  unverified: 'Unverified',
+  misattributed: 'Misattributed',
+  not_found: 'Not found',
+};
+
+export interface SourcePage {
+  fileId: string | null;
+  fileName: string;
+  pageNum: number;
+  text: string;
+}
+
+export interface PageRef {
+  fileName: string;
+  pageNum: number;
+}
+
+export interface VerificationItem {
+  kind: 'quote' | 'reference';
+  // The snippet without its quote marks, or the reference as written
+  text: string;
+  // Span of the item in the report, so results can be shown where it appears
+  start: number;
+  end: number;
+  status: VerificationStatus;
+  // The page the report attributes the item to, if any
+  cited: PageRef | null;
+  // Pages the snippet actually matched, best first; SOP matches use fileName "SOP"
+  foundOn: PageRef[];
+}
+
+export interface VerificationResult {
+  items: VerificationItem[];
+  counts: Record<VerificationStatus, number>;
+}
+
+// Share of a snippet's words that must appear together on a page for a fuzzy match,
+// which tolerates OCR errors and small transcription slips
+const MATCH_THRESHOLD = 0.8;
+// Shorter snippets have to match exactly, otherwise common words match anywhere
+const MIN_FUZZY_WORDS = 3;
+const MIN_QUOTE_LENGTH = 8;
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[‘’]/g, "'").replace(/[^a-z0-9']+/g, ' ').trim();
+
+const normalizeFileName = (name: string) => normalize(name.replace(/\.pdf$/i, '')).replace(/\s+/g, '');
+
+interface IndexedPage extends SourcePage {
+  normalized: string;
+  words: string[];
+}
+
+// Best share of the snippet's words found within any window of the page the snippet's length
+const fuzzyScore = (snippetWords: string[], pageWords: string[]) => {
+  const n = snippetWords.length;
+  if (n === 0 || pageWords.length === 0) return 0;
+  const wanted = new Map<string, number>();
+  snippetWords.forEach(w => wanted.set(w, (wanted.get(w) || 0) + 1));
+
+  const window = new Map<string, number>();
+  let matched = 0;
+  let best = 0;
+  pageWords.forEach((word, i) => {
+    const count = (window.get(word) || 0) + 1;
+    window.set(word, count);
+    if (count <= (wanted.get(word) || 0)) matched++;
+
+    if (i >= n) {
+      const dropped = pageWords[i - n];
+      const dropCount = window.get(dropped)!;
+      if (dropCount <= (wanted.get(dropped) || 0)) matched--;
+      window.set(dropped, dropCount - 1);
+    }
+    best = Math.max(best, matched);
+  });
+  return best / n;
+};
+
+const matchesPage = (snippet: string, page: IndexedPage) => {
+  if (page.normalized.includes(snippet)) return true;
+  const words = snippet.split(' ');
+  if (words.length < MIN_FUZZY_WORDS) return false;
+  return fuzzyScore(words, page.words) >= MATCH_THRESHOLD;
+};
+
+const lineBounds = (report: string, index: number) => ({
+  start: report.lastIndexOf('\n', index - 1) + 1,
+  end: report.indexOf('\n', index) < 0 ? report.length : report.indexOf('\n', index),
+});
+
+interface Span {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Quoted snippets: "double", “curly” and *italic* or _italic_ text. Bold and bold-italic
+// runs are headings and labels rather than quotes, so they are skipped.
+const QUOTE_PATTERNS = [
+  /"([^"\n]+)"/g,
+  /“([^”\n]+)”/g,
+  /(?<![*\w])\*(?![*\s])([^*\n]+?)\*(?![*\w])/g,
+  /(?<![_\w])_(?![_\s])([^_\n]+?)_(?![_\w])/g,
+];
+
+const findQuotes = (report: string): Span[] => {
+  const spans: Span[] = [];
+  QUOTE_PATTERNS.forEach(pattern => {
+    for (const match of report.matchAll(pattern)) {
+      const text = match[1].replace(/^["'“‘\s]+|["'”’\s.,;:]+$/g, '');
+      if (normalize(text).length < MIN_QUOTE_LENGTH) continue;
+      const start = match.index ?? 0;
+      // Quoted question headings, e.g. ***"1. What is the formal diagnosis..."***, are the template's own words
+      if (report.slice(Math.max(0, start - 2), start) === '**' || /^\s*#/.test(report.slice(lineBounds(report, start).start))) continue;
+      spans.push({ start, end: start + match[0].length, text });
+    }
+  });
+
+  // A snippet written as *"quote"* matches two patterns; keep the outermost
+  spans.sort((a, b) => a.start - b.start || b.end - a.end);
+  return spans.filter((span, i) => !spans.slice(0, i).some(other => span.start < other.end && other.start < span.end));
+};
+
+interface RefSpan extends Span {
+  refs: PageRef[];
+}
+
+const PAGE_REF = /^(?:file:\s*)?(.+?)[\s,:\-–(]+(?:page|pages|pg\.?|p\.?)\s*(\d+)/i;
+
+// Bracketed references such as [Discharge summary.pdf, Page 4] or [a.pdf p.2; b.pdf p.7]
+const findReferences = (report: string): RefSpan[] => {
+  const spans: RefSpan[] = [];
+  for (const match of report.matchAll(/\[([^[\]\n]+)\](?!\()/g)) {
+    const refs = match[1].split(';').flatMap(part => {
+      const ref = PAGE_REF.exec(part.trim());
+      return ref ? [{ fileName: ref[1].trim(), pageNum: Number(ref[2]) }] : [];
+    });
+    if (refs.length === 0) continue;
+    const start = match.index ?? 0;
+    spans.push({ start, end: start + match[0].length, text: match[0], refs });
+  }
+  return spans;
+};
+
+// A quote belongs to the first reference after it on the same line, or failing that the last one before it
+const referenceFor = (report: string, quote: Span, references: RefSpan[]) => {
+  const line = lineBounds(report, quote.start);
+  const onLine = references.filter(r => r.start >= line.start && r.end <= line.end);
+  return onLine.find(r => r.start >= quote.end) || onLine.filter(r => r.end <= quote.start).pop() || null;
+};
+
+// Checks every quoted snippet and bracketed page reference in a generated report against the
+// stored text of the records. A snippet is verified when it appears on the page it is attributed
+// to (or anywhere, if unattributed), misattributed when it only appears on other pages, and not
+// found otherwise. A reference is not found when the file or page doesn't exist, misattributed
+// when none of the snippets attributed to it are on that page but some are elsewhere, and
+// unverified when snippets are attributed to it but none of them are found at all.
+export const verifyReport = (report: string, pages: SourcePage[], sopText = ''): VerificationResult => {
+  const indexed: IndexedPage[] = pages.map(page => {
+    const normalized = normalize(page.text);
+    return { ...page, normalized, words: normalized ? normalized.split(' ') : [] };
+  });
+  const sop = normalize(sopText);
+
+  const findPages = (fileName: string) => {
+    const wanted = normalizeFileName(fileName);
+    if (!wanted) return [];
+    const exact = indexed.filter(p => normalizeFileName(p.fileName) === wanted);
+    return exact.length > 0
+      ? exact
+      : indexed.filter(p => {
+        const name = normalizeFileName(p.fileName);
+        return name.includes(wanted) || wanted.includes(name);
+      });
+  };
+  const resolve = (ref: PageRef) => findPages(ref.fileName).find(p => p.pageNum === ref.pageNum) || null;
+  const toRef = (page: SourcePage): PageRef => ({ fileName: page.fileName, pageNum: page.pageNum });
+
+  const references = findReferences(report);
+  const items: VerificationItem[] = [];
+  // For each reference, whether any attributed quote matched on the cited page / elsewhere
+  const refOutcomes = new Map<RefSpan, { onPage: boolean; elsewhere: boolean }>();
+
+  findQuotes(report)
+    .filter(quote => !references.some(r => quote.start < r.end && r.start < quote.end))
+    .forEach(quote => {
+      const snippet = normalize(quote.text);
+      const reference = referenceFor(report, quote, references);
+      const citedPages = (reference?.refs || []).flatMap(ref => {
+        const page = resolve(ref);
+        return page ? [page] : [];
+      });
+
+      const onCited = citedPages.find(page => matchesPage(snippet, page));
+      const elsewhere = onCited ? [] : indexed.filter(page => !citedPages.includes(page) && matchesPage(snippet, page));
+      const inSop = !onCited && elsewhere.length === 0 && sop.includes(snippet);
+
+      let status: VerificationStatus;
+      if (onCited) status = 'verified';
+      else if (elsewhere.length > 0) status = reference ? 'misattributed' : 'verified';
+      else status = inSop ? 'verified' : 'not_found';
+
+      if (reference) {
+        const outcome = refOutcomes.get(reference) || { onPage: false, elsewhere: false };
+        refOutcomes.set(reference, {
+          onPage: outcome.onPage || !!onCited,
+          elsewhere: outcome.elsewhere || elsewhere.length > 0,
+        });
+      }
+
+      items.push({
+        kind: 'quote',
+        text: quote.text,
+        start: quote.start,
+        end: quote.end,
+        status,
+        cited: reference ? reference.refs[0] : null,
+        foundOn: onCited ? [toRef(onCited)] : inSop ? [{ fileName: 'SOP', pageNum: 0 }] : elsewhere.map(toRef),
+      });
+    });
+
+  references.forEach(reference => {
+    const resolved = reference.refs.map(resolve);
+    const outcome = refOutcomes.get(reference);
+    let status: VerificationStatus;
+    if (resolved.some(page => !page)) status = 'not_found';
+    else if (outcome && !outcome.onPage) status = outcome.elsewhere ? 'misattributed' : 'unverified';
+    else status = 'verified';
+
+    items.push({
+      kind: 'reference',
+      text: reference.text,
+      start: reference.start,
+      end: reference.end,
+      status,
+      cited: reference.refs[0],
+      foundOn: resolved.flatMap(page => (page ? [toRef(page)] : [])),
+    });
+  });
+
+  items.sort((a, b) => a.start - b.start);
+  const counts: Record<VerificationStatus, number> = { verified: 0, unverified: 0, misattributed: 0, not_found: 0 };
+  items.forEach(item => counts[item.status]++);
+  return { items, counts };
+};
+
+const describeRef = (ref: PageRef) => (ref.fileName === 'SOP' ? 'the SOP text' : `${ref.fileName}, page ${ref.pageNum}`);
+
+export const describeVerification = (item: VerificationItem) => {
+  if (item.kind === 'reference') {
+    if (item.status === 'not_found') return 'No such file or page in the records';
+    if (item.status === 'misattributed') return 'The quoted text is not on this page';
+    if (item.status === 'unverified') return 'None of the quoted text was found in the records';
+    return `Found: ${describeRef(item.foundOn[0] || item.cited!)}`;
+  }
+  if (item.status === 'not_found') return 'Quote not found in the records';
+  if (item.status === 'misattributed') {
+    return `Cited to ${describeRef(item.cited!)} but found on ${item.foundOn.slice(0, 3).map(describeRef).join('; ')}`;
+  }
+  return item.foundOn.length > 0 ? `Found on ${describeRef(item.foundOn[0])}` : 'Verified';
+};
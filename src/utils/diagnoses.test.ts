@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { splitDiagnoses, splitStampedDiagnoses } from "@/utils/diagnoses";
+
+describe("splitDiagnoses", () => {
+  it("keeps commas inside names", () => {
+    expect(splitDiagnoses("Fracture, left distal radius; Lumbar strain\nTinnitus"))
+      .toEqual(["Fracture, left distal radius", "Lumbar strain", "Tinnitus"]);
+  });
+});
+
+describe("splitStampedDiagnoses", () => {
+  const known = ["Fracture, left distal radius", "Tinnitus"];
+
+  it("splits comma-joined stamps into names", () => {
+    expect(splitStampedDiagnoses("Lumbar strain, Tinnitus", known)).toEqual(["Lumbar strain", "Tinnitus"]);
+  });
+
+  it("keeps a run of parts that spells a known name together, spelt as known", () => {
+    expect(splitStampedDiagnoses("fracture, left distal radius, Tinnitus", known))
+      .toEqual(["Fracture, left distal radius", "Tinnitus"]);
+  });
+
+  it("splits semicolon stamps as before", () => {
+    expect(splitStampedDiagnoses("Fracture, left distal radius; tinnitus", known))
+      .toEqual(["Fracture, left distal radius", "Tinnitus"]);
+  });
+});
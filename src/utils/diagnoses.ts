@@ -0,0 +1,28 @@
+// Split free text into individual diagnoses. Diagnosis names can contain commas
+// ("Fracture, left distal radius"), so only semicolons and line breaks separate them,
+// which is also how diagnosis stamps on PDFs are written.
+export const splitDiagnoses = (text: string): string[] =>
+  Array.from(new Set(text.split(/[;\n]/).map(d => d.trim()).filter(d => d)));
+
+// Split a diagnosis stamp read back from a PDF. Older stamps joined names with ", ", so commas
+// separate names too, except where a run of comma-separated parts spells a known diagnosis; that
+// run stays one name, spelt as it is known. The migration of saved pages splits the same way.
+export const splitStampedDiagnoses = (text: string, knownNames: string[]): string[] => {
+  const known = new Map(knownNames.map(name => [name.trim().toLowerCase(), name.trim()]));
+  return Array.from(new Set(splitDiagnoses(text).flatMap(part => {
+    const pieces = part.split(',').map(p => p.trim()).filter(p => p);
+    const names: string[] = [];
+    for (let i = 0; i < pieces.length;) {
+      // Longest run of parts from here that is a known name, else the single part
+      let j = pieces.length;
+      while (j > i + 1 && !known.has(pieces.slice(i, j).join(', ').toLowerCase())) j--;
+      const name = pieces.slice(i, j).join(', ');
+      names.push(known.get(name.toLowerCase()) || name);
+      i = j;
+    }
+    return names;
+  })));
+};
+
+export const sameDiagnoses = (a: string[], b: string[]) =>
+  a.length === b.length && a.every(d => b.includes(d));
@@ -0,0 +1,400 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { PageText } from "@/utils/filePages";
+
+// Splits combined records into their logical documents. Each page is scored against cue phrases
+// for every document type, a new document starts where the page numbering restarts, a letter or
+// report heading appears, or the previous page signed off, and every page of a document then takes
+// the type its pages score highest for together. An optional AI pass can replace the heuristics.
+
+export const DOCUMENT_TYPES = ['gp_note', 'imaging_report', 'specialist_letter', 'discharge_summary', 'form', 'other'] as const;
+export type DocumentType = typeof DOCUMENT_TYPES[number];
+
+export type ClassificationSource = 'heuristic' | 'ai' | 'manual';
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  gp_note: 'GP note',
+  imaging_report: 'Imaging report',
+  specialist_letter: 'Specialist letter',
+  discharge_summary: 'Discharge summary',
+  form: 'Form',
+  other: 'Other',
+};
+
+export interface PageClassification {
+  pageNum: number;
+  type: DocumentType;
+  source: ClassificationSource;
+  startsDocument: boolean;
+}
+
+// A run of pages that belong to one logical document
+export interface SubDocument {
+  type: DocumentType;
+  source: ClassificationSource;
+  pages: number[];
+}
+
+interface TypeCues {
+  type: DocumentType;
+  // Headings that name the document; strong evidence near the top of a page
+  titles: RegExp[];
+  cues: RegExp[];
+}
+
+const TYPE_CUES: TypeCues[] = [
+  {
+    type: 'imaging_report',
+    titles: [
+      /\b(radiology|imaging|ultrasound|mri|ct|x-?ray|scan) report\b/i,
+      /\bdiagnostic imaging\b/i,
+      /\bradiology\b/i,
+    ],
+    cues: [
+      /\bfindings\s*:/i,
+      /\b(impression|conclusion)\s*:/i,
+      /\b(clinical (history|indication|notes?)|indication)\s*:/i,
+      /\btechnique\s*:/i,
+      /\b(mri|ct|x-?rays?|xr|ultrasound|u\/s|bone scan|dexa|mammogra\w*)\b/i,
+      /\b(sagittal|axial|coronal|t1|t2|contrast|views?)\b/i,
+      /\b(radiologist|reported by|sonographer)\b/i,
+    ],
+  },
+  {
+    type: 'discharge_summary',
+    titles: [
+      /\bdischarge summary\b/i,
+      /\b(admission|inpatient|separation) summary\b/i,
+    ],
+    cues: [
+      /\bdischarge (date|medications?|plan|diagnos[ie]s|destination)\b/i,
+      /\bdate of (admission|discharge)\b/i,
+      /\badmission date\b/i,
+      /\b(principal diagnosis|hospital course|length of stay|presenting problem)\b/i,
+      /\b(ward|admitting (doctor|unit)|inpatient)\b/i,
+      /\bdischarged\b/i,
+    ],
+  },
+  {
+    type: 'specialist_letter',
+    titles: [
+      /^\W*dear (dr|doctor|colleague|mr|mrs|ms|sir|madam)\b/im,
+      /^\W*re\s*:/im,
+    ],
+    cues: [
+      /\byours (sincerely|faithfully)\b/i,
+      /\b(kind|warm|best) regards\b/i,
+      /\bthank you for (referring|your referral|asking me)\b/i,
+      /\b(consultant|specialist|fracs|fracp|franzcr|frcs|frcp)\b/i,
+      /\b(i reviewed|i saw|i had the pleasure|reviewed in (my|the) (rooms|clinic))\b/i,
+      /\bcc\s*:/i,
+    ],
+  },
+  {
+    type: 'gp_note',
+    titles: [
+      /\b(progress|consultation|clinical) notes?\b/i,
+      /\b(medical centre|general practi(ce|tioner)|family practice)\b/i,
+    ],
+    cues: [
+      /\b(history|hx|examination|o\/e|plan|assessment|mx)\s*:/i,
+      /\bconsult(ation)? (date|with|type)\b/i,
+      /\breason for (visit|contact|consultation|encounter)\b/i,
+      /\b(repeat )?scripts?\b/i,
+      /\b(medication|prescription) (review|issued|list)\b/i,
+      /\bgp\b/i,
+    ],
+  },
+  {
+    type: 'form',
+    titles: [
+      /\b(claim|application|consent|referral|registration|request) form\b/i,
+      /\bquestionnaire\b/i,
+    ],
+    cues: [
+      /[☐☑☒□■]/,
+      /\[\s?[x✓]?\s?\]/i,
+      /_{5,}/,
+      /\bplease (tick|complete|circle|print|sign)\b/i,
+      /\b(signature|signed|date signed)\s*:/i,
+      /\b(for office use|office use only|declaration)\b/i,
+    ],
+  },
+];
+
+// Characters at the top of a page treated as its heading
+const HEADER_LENGTH = 400;
+// Characters at the bottom of a page checked for sign-offs
+const FOOTER_LENGTH = 300;
+
+const TITLE_IN_HEADER = 6;
+const TITLE_ELSEWHERE = 2;
+const CUE_IN_HEADER = 2;
+const CUE_ELSEWHERE = 1;
+
+// Pages below this score carry too little signal to decide a type on their own
+const MIN_SCORE = 3;
+
+const PAGE_MARKER = /\bpage\s+(\d+)\s*(?:of|\/)\s*(\d+)\b/i;
+const CONTINUED = /\b(continued|cont'd|contd)\b/i;
+const SIGN_OFF = /\b(yours (sincerely|faithfully)|(kind|warm|best) regards|electronically signed|reported by|dictated by|end of report)\b/i;
+
+type Scores = Record<DocumentType, number>;
+
+const emptyScores = (): Scores => ({
+  gp_note: 0, imaging_report: 0, specialist_letter: 0, discharge_summary: 0, form: 0, other: 0,
+});
+
+interface PageSignals {
+  pageNum: number;
+  scores: Scores;
+  // Types whose headings appear at the top of the page
+  headingTypes: Set<DocumentType>;
+  marker: { page: number; of: number } | null;
+  continued: boolean;
+  signsOff: boolean;
+}
+
+const readSignals = ({ pageNum, text }: PageText): PageSignals => {
+  const header = text.slice(0, HEADER_LENGTH);
+  const footer = text.slice(-FOOTER_LENGTH);
+  const scores = emptyScores();
+  const headingTypes = new Set<DocumentType>();
+
+  for (const { type, titles, cues } of TYPE_CUES) {
+    for (const title of titles) {
+      if (title.test(header)) {
+        scores[type] += TITLE_IN_HEADER;
+        headingTypes.add(type);
+      } else if (title.test(text)) {
+        scores[type] += TITLE_ELSEWHERE;
+      }
+    }
+    for (const cue of cues) {
+      if (cue.test(header)) scores[type] += CUE_IN_HEADER;
+      else if (cue.test(text)) scores[type] += CUE_ELSEWHERE;
+    }
+  }
+
+  // Page markers usually sit in the header or footer
+  const markerMatch = header.match(PAGE_MARKER) || footer.match(PAGE_MARKER);
+  const marker = markerMatch ? { page: Number(markerMatch[1]), of: Number(markerMatch[2]) } : null;
+
+  return {
+    pageNum,
+    scores,
+    headingTypes,
+    marker,
+    continued: CONTINUED.test(header),
+    signsOff: SIGN_OFF.test(footer) || (!!marker && marker.page === marker.of && marker.of > 0),
+  };
+};
+
+const bestType = (scores: Scores): DocumentType | null => {
+  let best: DocumentType | null = null;
+  for (const type of DOCUMENT_TYPES) {
+    if (scores[type] >= MIN_SCORE && (!best || scores[type] > scores[best])) best = type;
+  }
+  return best;
+};
+
+const startsNewDocument = (page: PageSignals, previous: PageSignals | undefined) => {
+  if (!previous) return true;
+  if (page.marker && page.marker.page > 1) return false;
+  if (page.continued) return false;
+  if (page.marker?.page === 1) return true;
+
+  // A heading repeated at the top of consecutive pages is a running letterhead, not a new document
+  const newHeading = [...page.headingTypes].some(type => !previous.headingTypes.has(type));
+  if (newHeading) return true;
+  if (previous.signsOff) return true;
+
+  const type = bestType(page.scores);
+  const previousType = bestType(previous.scores);
+  return !!type && !!previousType && type !== previousType;
+};
+
+// Every page of a document takes the type its pages score highest for together
+const typeDocuments = (pages: Array<{ pageNum: number; startsDocument: boolean; scores: Scores }>) => {
+  const types = new Map<number, DocumentType>();
+  let start = 0;
+  while (start < pages.length) {
+    let end = start + 1;
+    while (end < pages.length && !pages[end].startsDocument) end++;
+
+    const totals = emptyScores();
+    pages.slice(start, end).forEach(page => {
+      DOCUMENT_TYPES.forEach(type => { totals[type] += page.scores[type]; });
+    });
+    const type = bestType(totals) || 'other';
+    pages.slice(start, end).forEach(page => types.set(page.pageNum, type));
+    start = end;
+  }
+  return types;
+};
+
+// Heuristic types and document boundaries for a file's pages
+export const classifyPages = (pageTexts: PageText[]): PageClassification[] => {
+  const signals = [...pageTexts].sort((a, b) => a.pageNum - b.pageNum).map(readSignals);
+  const pages = signals.map((page, index) => ({
+    pageNum: page.pageNum,
+    scores: page.scores,
+    startsDocument: startsNewDocument(page, signals[index - 1]),
+  }));
+  const types = typeDocuments(pages);
+
+  return pages.map(({ pageNum, startsDocument }) => ({
+    pageNum,
+    type: types.get(pageNum) || 'other',
+    source: 'heuristic',
+    startsDocument,
+  }));
+};
+
+// Consecutive pages grouped into documents, starting a new one at each boundary
+export const subDocuments = (classifications: PageClassification[]): SubDocument[] => {
+  const documents: SubDocument[] = [];
+  [...classifications].sort((a, b) => a.pageNum - b.pageNum).forEach((page, index) => {
+    const current = documents[documents.length - 1];
+    if (index === 0 || page.startsDocument || !current) {
+      documents.push({ type: page.type, source: page.source, pages: [page.pageNum] });
+    } else {
+      current.pages.push(page.pageNum);
+    }
+  });
+  return documents;
+};
+
+// Pages of a sub-document flattened back to per-page classifications
+export const fromSubDocuments = (documents: SubDocument[]): PageClassification[] =>
+  documents.flatMap(document => document.pages.map((pageNum, index) => ({
+    pageNum,
+    type: document.type,
+    source: document.source,
+    startsDocument: index === 0,
+  })));
+
+// The AI may disagree with itself across a document's pages; the most common type wins
+export const normalizeDocumentTypes = (classifications: PageClassification[]): PageClassification[] => {
+  const pageTypes = new Map(classifications.map(c => [c.pageNum, c.type]));
+  return fromSubDocuments(subDocuments(classifications).map(document => {
+    const counts = new Map<DocumentType, number>();
+    document.pages.forEach(pageNum => {
+      const type = pageTypes.get(pageNum) || document.type;
+      counts.set(type, (counts.get(type) || 0) + 1);
+    });
+    const type = [...counts].sort((a, b) => b[1] - a[1])[0]?.[0] || document.type;
+    return { ...document, type };
+  }));
+};
+
+export const pageRangeLabel = (pages: number[]) =>
+  pages.length === 1 ? `p.${pages[0]}` : `pp.${pages[0]}-${pages[pages.length - 1]}`;
+
+// File name for a document split out of a combined PDF, e.g. "Records - Imaging report (pp.4-6).pdf"
+export const subDocumentFileName = (fileName: string, document: SubDocument) =>
+  `${fileName.replace(/\.pdf$/i, '')} - ${DOCUMENT_TYPE_LABELS[document.type]} (${pageRangeLabel(document.pages)}).pdf`;
+
+const isDocumentType = (value: string | null): value is DocumentType =>
+  !!value && (DOCUMENT_TYPES as readonly string[]).includes(value);
+
+// PostgREST caps each response, so large workspaces are read a page of rows at a time
+const LOAD_BATCH_SIZE = 1000;
+
+// Stored classifications for the given files, keyed by file id; unclassified pages are left out
+export const loadPageClassifications = async (fileIds: string[]): Promise<Map<string, PageClassification[]>> => {
+  const result = new Map<string, PageClassification[]>();
+  if (fileIds.length === 0) return result;
+
+  try {
+    for (let from = 0; ; from += LOAD_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('file_pages')
+        .select('file_id, page_number, document_type, document_type_source, starts_document')
+        .in('file_id', fileIds)
+        .not('document_type', 'is', null)
+        .order('file_id')
+        .order('page_number')
+        .range(from, from + LOAD_BATCH_SIZE - 1);
+
+      if (error) throw error;
+
+      (data || []).forEach(row => {
+        if (!isDocumentType(row.document_type)) return;
+        const pages = result.get(row.file_id) || [];
+        pages.push({
+          pageNum: row.page_number,
+          type: row.document_type,
+          source: (row.document_type_source as ClassificationSource | null) || 'heuristic',
+          startsDocument: row.starts_document,
+        });
+        result.set(row.file_id, pages);
+      });
+      if (!data || data.length < LOAD_BATCH_SIZE) break;
+    }
+  } catch (error) {
+    console.error('Error loading document types:', error);
+  }
+
+  return result;
+};
+
+export const savePageClassifications = async (fileId: string, classifications: PageClassification[]): Promise<boolean> => {
+  try {
+    const rows = classifications.map(c => ({
+      file_id: fileId,
+      page_number: c.pageNum,
+      document_type: c.type,
+      document_type_source: c.source,
+      starts_document: c.startsDocument,
+    }));
+
+    const { error } = await supabase
+      .from('file_pages')
+      .upsert(rows, { onConflict: 'file_id,page_number' });
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error saving document types:', error);
+    return false;
+  }
+};
+
+const AI_BATCH_SIZE = 40;
+
+// Classifies pages with the classify-document-pages function, a batch at a time. Pages the
+// model skipped keep their heuristic classification.
+export const classifyPagesWithAi = async (
+  fileName: string,
+  pageTexts: PageText[],
+  onProgress?: (done: number, total: number) => void
+): Promise<PageClassification[]> => {
+  const sorted = [...pageTexts].sort((a, b) => a.pageNum - b.pageNum);
+  const fallback = new Map(classifyPages(sorted).map(c => [c.pageNum, c]));
+  const classified: PageClassification[] = [];
+
+  for (let i = 0; i < sorted.length; i += AI_BATCH_SIZE) {
+    const batch = sorted.slice(i, i + AI_BATCH_SIZE);
+    const { data, error } = await supabase.functions.invoke('classify-document-pages', {
+      body: {
+        fileName,
+        pages: batch,
+        previousType: classified[classified.length - 1]?.type,
+      },
+    });
+    if (error) throw error;
+
+    const results = new Map<number, { type: string; startsDocument: boolean }>(
+      (data?.pages || []).map((page: { pageNum: number; type: string; startsDocument: boolean }) => [page.pageNum, page])
+    );
+    batch.forEach(({ pageNum }) => {
+      const result = results.get(pageNum);
+      classified.push(result && isDocumentType(result.type)
+        ? { pageNum, type: result.type, source: 'ai', startsDocument: result.startsDocument || classified.length === 0 }
+        : fallback.get(pageNum)!);
+    });
+    onProgress?.(Math.min(i + AI_BATCH_SIZE, sorted.length), sorted.length);
+  }
+
+  return normalizeDocumentTypes(classified);
+};
@@ -0,0 +1,399 @@
+import * as pdfjsLib from "pdfjs-dist";
+import { supabase } from "@/integrations/supabase/client";
+import { normalizePhrase } from "@/utils/clinicalMentions";
+import { loadPageTexts } from "@/utils/filePages";
+import { makePageKey } from "@/utils/pageKeys";
+import { downloadPdfFromStorage } from "@/utils/supabaseStorage";
+
+// Finds pages that appear more than once across a workspace's files. Pages with enough text
+// are compared by word shingles (MinHash with LSH banding, so only likely pairs are checked);
+// every page also gets a 64-bit difference hash of its rendered image, which catches copies
+// whose text is missing or too garbled by OCR to compare.
+
+export const DUPLICATE_MATCHES = ['exact', 'text', 'image'] as const;
+export type DuplicateMatch = typeof DUPLICATE_MATCHES[number];
+
+export interface DuplicatePage {
+  fileId: string;
+  pageNum: number;
+  canonical: boolean;
+}
+
+export interface DuplicateGroup {
+  id?: string;
+  // The weakest link in the group: 'exact' only when every copy has identical text
+  match: DuplicateMatch;
+  similarity: number;
+  pages: DuplicatePage[];
+}
+
+export interface PageFingerprint {
+  fileId: string;
+  pageNum: number;
+  textHash: number | null;
+  shingles: Set<number> | null;
+  minhash: Uint32Array | null;
+  // 16 hex digits, or null for blank pages
+  imageHash: string | null;
+}
+
+// Pages with fewer words than this are compared by image only
+const MIN_WORDS = 20;
+const SHINGLE_SIZE = 3;
+const MINHASH_SIZE = 64;
+const LSH_BANDS = 16;
+const TEXT_THRESHOLD = 0.7;
+// Image matches are confirmed by text when both pages have some, so letters on the same
+// letterhead are not grouped
+const IMAGE_TEXT_THRESHOLD = 0.6;
+// Bits that may differ between two image hashes; the hash is split into this many + 1 chunks
+// for bucketing, so any pair within the distance shares at least one chunk
+const IMAGE_DISTANCE = 3;
+
+const fnv1a = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Cheap 32-bit mixer used to derive the MinHash permutations from one shingle hash
+const mix = (value: number, seed: number) => {
+  let h = Math.imul(value ^ seed, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+};
+
+const SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => fnv1a(`seed-${i}`));
+
+export const fingerprintText = (text: string) => {
+  const normalized = normalizePhrase(text);
+  const words = normalized ? normalized.split(' ') : [];
+  if (words.length < MIN_WORDS) return { textHash: null, shingles: null, minhash: null };
+
+  const shingles = new Set<number>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    shingles.add(fnv1a(words.slice(i, i + SHINGLE_SIZE).join(' ')));
+  }
+  const minhash = new Uint32Array(MINHASH_SIZE).fill(0xffffffff);
+  shingles.forEach(shingle => {
+    SEEDS.forEach((seed, i) => {
+      const h = mix(shingle, seed);
+      if (h < minhash[i]) minhash[i] = h;
+    });
+  });
+  return { textHash: fnv1a(normalized), shingles, minhash };
+};
+
+const jaccard = (a: Set<number>, b: Set<number>) => {
+  let shared = 0;
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  small.forEach(value => { if (large.has(value)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+const popcount = (value: number) => {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+};
+
+export const imageHashDistance = (a: string, b: string) =>
+  popcount(parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16)) +
+  popcount(parseInt(a.slice(8), 16) ^ parseInt(b.slice(8), 16));
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+// Difference hash: shrink the page to 9x8 greyscale and record whether each pixel is brighter
+// than its right-hand neighbour
+export const pageImageHash = async (page: pdfjsLib.PDFPageProxy): Promise<string | null> => {
+  const base = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: 72 / Math.max(base.width, base.height) });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas not available');
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: context, viewport, canvas }).promise;
+
+  const small = document.createElement('canvas');
+  small.width = HASH_WIDTH;
+  small.height = HASH_HEIGHT;
+  const smallContext = small.getContext('2d', { willReadFrequently: true });
+  if (!smallContext) throw new Error('Canvas not available');
+  smallContext.drawImage(canvas, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const { data } = smallContext.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+  canvas.width = 0;
+  canvas.height = 0;
+
+  const grey = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+  let bits = '';
+  let spread = 0;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const diff = grey(x, y) - grey(x + 1, y);
+      bits += diff > 0 ? '1' : '0';
+      spread = Math.max(spread, Math.abs(diff));
+    }
+  }
+  // A blank or nearly blank page hashes the same as every other one
+  if (spread < 4) return null;
+  return [0, 16, 32, 48].map(i => parseInt(bits.slice(i, i + 16), 2).toString(16).padStart(4, '0')).join('');
+};
+
+class UnionFind {
+  private parent = new Map<number, number>();
+
+  find(i: number): number {
+    const p = this.parent.get(i) ?? i;
+    if (p === i) return i;
+    const root = this.find(p);
+    this.parent.set(i, root);
+    return root;
+  }
+
+  union(a: number, b: number) {
+    const ra = this.find(a);
+    const rb = this.find(b);
+    if (ra !== rb) this.parent.set(rb, ra);
+  }
+}
+
+interface Edge {
+  a: number;
+  b: number;
+  match: DuplicateMatch;
+  similarity: number;
+}
+
+const candidatePairs = (keys: Array<string[]>) => {
+  const buckets = new Map<string, number[]>();
+  keys.forEach((pageKeys, i) => pageKeys.forEach(key => {
+    const bucket = buckets.get(key) || [];
+    bucket.push(i);
+    buckets.set(key, bucket);
+  }));
+  const pairs = new Set<string>();
+  buckets.forEach(bucket => {
+    for (let x = 0; x < bucket.length; x++) {
+      for (let y = x + 1; y < bucket.length; y++) pairs.add(`${bucket[x]}:${bucket[y]}`);
+    }
+  });
+  return Array.from(pairs, pair => pair.split(':').map(Number) as [number, number]);
+};
+
+// Groups of two or more pages. Fingerprints should be in the order canonical pages are preferred
+// (e.g. oldest file first); a page in keepCanonical stays canonical if it is still in a group.
+export const findDuplicateGroups = (fingerprints: PageFingerprint[], keepCanonical = new Set<string>()): DuplicateGroup[] => {
+  const edges: Edge[] = [];
+  const textSimilarity = (a: PageFingerprint, b: PageFingerprint) =>
+    a.shingles && b.shingles ? jaccard(a.shingles, b.shingles) : null;
+
+  const rowsPerBand = MINHASH_SIZE / LSH_BANDS;
+  const textKeys = fingerprints.map(f => f.minhash
+    ? Array.from({ length: LSH_BANDS }, (_, band) =>
+        `t${band}:${Array.from(f.minhash!.slice(band * rowsPerBand, (band + 1) * rowsPerBand)).join(',')}`)
+    : []);
+  candidatePairs(textKeys).forEach(([a, b]) => {
+    const fa = fingerprints[a];
+    const fb = fingerprints[b];
+    if (fa.textHash === fb.textHash) {
+      edges.push({ a, b, match: 'exact', similarity: 1 });
+      return;
+    }
+    const similarity = textSimilarity(fa, fb) ?? 0;
+    if (similarity >= TEXT_THRESHOLD) edges.push({ a, b, match: 'text', similarity });
+  });
+
+  const chunkSize = 16 / (IMAGE_DISTANCE + 1);
+  const imageKeys = fingerprints.map(f => f.imageHash
+    ? Array.from({ length: IMAGE_DISTANCE + 1 }, (_, i) => `i${i}:${f.imageHash!.slice(i * chunkSize, (i + 1) * chunkSize)}`)
+    : []);
+  const textLinked = new Set(edges.map(e => `${e.a}:${e.b}`));
+  candidatePairs(imageKeys).forEach(([a, b]) => {
+    if (textLinked.has(`${a}:${b}`)) return;
+    const fa = fingerprints[a];
+    const fb = fingerprints[b];
+    const distance = imageHashDistance(fa.imageHash!, fb.imageHash!);
+    if (distance > IMAGE_DISTANCE) return;
+    const text = textSimilarity(fa, fb);
+    if (text !== null && text < IMAGE_TEXT_THRESHOLD) return;
+    edges.push({ a, b, match: 'image', similarity: 1 - distance / 64 });
+  });
+
+  const sets = new UnionFind();
+  edges.forEach(e => sets.union(e.a, e.b));
+  const members = new Map<number, number[]>();
+  const groupEdges = new Map<number, Edge[]>();
+  edges.forEach(e => {
+    const root = sets.find(e.a);
+    groupEdges.set(root, [...(groupEdges.get(root) || []), e]);
+  });
+  fingerprints.forEach((_, i) => {
+    const root = sets.find(i);
+    if (groupEdges.has(root)) members.set(root, [...(members.get(root) || []), i]);
+  });
+
+  const strength: Record<DuplicateMatch, number> = { exact: 2, text: 1, image: 0 };
+  return Array.from(members, ([root, indexes]) => {
+    const links = groupEdges.get(root)!;
+    const weakest = links.reduce((min, e) => strength[e.match] < strength[min.match] ? e : min, links[0]);
+    const kept = indexes.find(i => keepCanonical.has(makePageKey(fingerprints[i].fileId, fingerprints[i].pageNum)));
+    const canonical = kept ?? Math.min(...indexes);
+    return {
+      match: weakest.match,
+      similarity: Math.min(...links.map(e => e.similarity)),
+      pages: indexes.map(i => ({
+        fileId: fingerprints[i].fileId,
+        pageNum: fingerprints[i].pageNum,
+        canonical: i === canonical,
+      })),
+    };
+  });
+};
+
+export interface DetectionProgress {
+  fileName: string;
+  current: number;
+  total: number;
+}
+
+// Fingerprints every page of the given files, in file order. Text comes from the stored page
+// text; images are rendered from the stored PDFs.
+export const fingerprintWorkspaceFiles = async (
+  files: Array<{ id: string; file_name: string; file_path: string }>,
+  onProgress?: (progress: DetectionProgress) => void
+): Promise<PageFingerprint[]> => {
+  const pageTexts = await loadPageTexts(files.map(f => f.id));
+  const fingerprints: PageFingerprint[] = [];
+
+  for (const [index, file] of files.entries()) {
+    onProgress?.({ fileName: file.file_name, current: index, total: files.length });
+    const texts = new Map((pageTexts.get(file.id) || []).map(p => [p.pageNum, p.text]));
+
+    const blob = await downloadPdfFromStorage(file.file_path);
+    if (!blob) {
+      console.error(`Could not download ${file.file_name} for duplicate detection`);
+      continue;
+    }
+    const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(await blob.arrayBuffer()) }).promise;
+    try {
+      for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+        const page = await pdf.getPage(pageNum);
+        let imageHash: string | null = null;
+        try {
+          imageHash = await pageImageHash(page);
+        } catch (error) {
+          console.error(`Error hashing ${file.file_name} page ${pageNum}:`, error);
+        } finally {
+          page.cleanup();
+        }
+        fingerprints.push({ fileId: file.id, pageNum, imageHash, ...fingerprintText(texts.get(pageNum) || '') });
+      }
+    } finally {
+      pdf.destroy();
+    }
+  }
+
+  onProgress?.({ fileName: '', current: files.length, total: files.length });
+  return fingerprints;
+};
+
+// One page per duplicate group: the canonical page when it is among the given pages, otherwise
+// the first one. Pages outside any group are kept as they are.
+export const collapseDuplicates = <T extends { fileId: string; pageNum: number }>(pages: T[], groups: DuplicateGroup[]): T[] => {
+  const groupOf = new Map<string, DuplicateGroup>();
+  groups.forEach(group => group.pages.forEach(p => groupOf.set(makePageKey(p.fileId, p.pageNum), group)));
+  const present = new Set(pages.map(p => makePageKey(p.fileId, p.pageNum)));
+  const used = new Set<DuplicateGroup>();
+
+  return pages.filter(page => {
+    const group = groupOf.get(makePageKey(page.fileId, page.pageNum));
+    if (!group) return true;
+    const canonical = group.pages.find(p => p.canonical);
+    const canonicalPresent = !!canonical && present.has(makePageKey(canonical.fileId, canonical.pageNum));
+    if (canonicalPresent) return canonical.fileId === page.fileId && canonical.pageNum === page.pageNum;
+    if (used.has(group)) return false;
+    used.add(group);
+    return true;
+  });
+};
+
+// PostgREST caps each response, so large workspaces are read a page of rows at a time
+const LOAD_BATCH_SIZE = 1000;
+
+export const loadDuplicateGroups = async (workspaceId: string): Promise<DuplicateGroup[] | null> => {
+  try {
+    const groups: DuplicateGroup[] = [];
+    for (let from = 0; ; from += LOAD_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('duplicate_page_groups')
+        .select('id, match_type, similarity, duplicate_group_pages(file_id, page_number, is_canonical)')
+        .eq('workspace_id', workspaceId)
+        .order('created_at')
+        .order('id')
+        .range(from, from + LOAD_BATCH_SIZE - 1);
+
+      if (error) throw error;
+      groups.push(...(data || []).map(row => ({
+        id: row.id,
+        match: row.match_type as DuplicateMatch,
+        similarity: row.similarity,
+        pages: row.duplicate_group_pages
+          .map(p => ({ fileId: p.file_id, pageNum: p.page_number, canonical: p.is_canonical }))
+          .sort((a, b) => Number(b.canonical) - Number(a.canonical)),
+      })));
+      if (!data || data.length < LOAD_BATCH_SIZE) break;
+    }
+    // Deleting a file can leave a group with a single page
+    return groups.filter(group => group.pages.length > 1);
+  } catch (error) {
+    console.error('Error loading duplicate pages:', error);
+    return null;
+  }
+};
+
+// Replaces the workspace's groups in one transaction, so if it fails the previous groups are kept
+export const replaceDuplicateGroups = async (workspaceId: string, groups: DuplicateGroup[]): Promise<boolean> => {
+  try {
+    const { error } = await supabase.rpc('replace_duplicate_groups', {
+      _workspace_id: workspaceId,
+      _groups: groups.map(group => ({
+        match_type: group.match,
+        similarity: group.similarity,
+        pages: group.pages.map(page => ({ file_id: page.fileId, page_number: page.pageNum, is_canonical: page.canonical })),
+      })),
+    });
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error saving duplicate pages:', error);
+    return false;
+  }
+};
+
+// Moves the group's canonical page in one transaction, so a failed save keeps the old choice
+export const saveCanonicalPage = async (groupId: string, fileId: string, pageNum: number): Promise<boolean> => {
+  try {
+    const { error } = await supabase.rpc('set_canonical_page', {
+      _group_id: groupId,
+      _file_id: fileId,
+      _page_number: pageNum,
+    });
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error choosing canonical page:', error);
+    return false;
+  }
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from "vitest";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import * as pdfjsLib from "pdfjs-dist";
+import { buildEvidenceBundle, createPageExporter, type PageRasterizer } from "@/utils/evidenceBundle";
+import type { PageAnnotation } from "@/utils/annotations";
+import { makePageKey } from "@/utils/pageKeys";
+
+// The browser build of pdfjs needs DOM globals that Node lacks
+vi.mock("pdfjs-dist", () => import("pdfjs-dist/legacy/build/pdf.mjs"));
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+// 1×1 grey JPEG standing in for the canvas render, which needs a DOM
+const BLANK_JPEG = Uint8Array.from(atob(
+  "/9j/4AAQSkZJRgABAQEASABIAAD/2wBDAP//////////////////////////////////////////////////////////////////////////////////////wgALCAABAAEBAREA/8QAFBABAAAAAAAAAAAAAAAAAAAAAP/aAAgBAQABPxA="
+), c => c.charCodeAt(0));
+
+const FILE_ID = "file-1";
+
+const sourceFile = async (pageTexts: string[]) => {
+  const doc = await PDFDocument.create();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  pageTexts.forEach(text => doc.addPage([300, 300]).drawText(text, { x: 20, y: 150, size: 14, font }));
+  return new File([await doc.save()], "records.pdf", { type: "application/pdf" });
+};
+
+const redaction = (pageNum: number): PageAnnotation => ({
+  id: `redaction-${pageNum}`,
+  fileId: FILE_ID,
+  pageNum,
+  kind: "redaction",
+  rects: [{ x: 0, y: 0, width: 1, height: 1 }],
+  quotedText: null,
+  diagnosis: null,
+  createdBy: null,
+  createdAt: null,
+  comments: [],
+});
+
+const pageTexts = async (bytes: Uint8Array) => {
+  const doc = await pdfjsLib.getDocument({ data: bytes.slice(), standardFontDataUrl: "node_modules/pdfjs-dist/standard_fonts/" }).promise;
+  const texts: string[] = [];
+  for (let pageNum = 1; pageNum <= doc.numPages; pageNum++) {
+    const content = await (await doc.getPage(pageNum)).getTextContent();
+    texts.push(content.items.map(item => ("str" in item ? item.str : "")).join(" "));
+  }
+  await doc.destroy();
+  return texts;
+};
+
+describe("createPageExporter", () => {
+  it("drops the text of a redacted page and keeps the rest", async () => {
+    const file = await sourceFile(["Patient SECRET NAME", "Knee swelling"]);
+    const rasterize = vi.fn<PageRasterizer>(async () => BLANK_JPEG.buffer);
+    const pdfDoc = await PDFDocument.create();
+    const exporter = createPageExporter(pdfDoc, {
+      redactions: { [makePageKey(FILE_ID, 1)]: [redaction(1)] },
+      rasterize,
+    });
+
+    await exporter.addPage(file, FILE_ID, 1);
+    await exporter.addPage(file, FILE_ID, 2);
+    await exporter.close();
+
+    const [redacted, plain] = await pageTexts(await pdfDoc.save());
+    expect(redacted).not.toContain("SECRET");
+    expect(plain).toContain("Knee swelling");
+    expect(rasterize).toHaveBeenCalledTimes(1);
+    expect(rasterize.mock.calls[0][1]).toEqual([redaction(1)]);
+  });
+
+  it("burns in redactions passed with the annotations", async () => {
+    const file = await sourceFile(["Patient SECRET NAME"]);
+    const pdfDoc = await PDFDocument.create();
+    const exporter = createPageExporter(pdfDoc, {
+      annotations: { [makePageKey(FILE_ID, 1)]: [redaction(1)] },
+      rasterize: async () => BLANK_JPEG.buffer,
+    });
+
+    await exporter.addPage(file, FILE_ID, 1);
+    await exporter.close();
+
+    expect(await pageTexts(await pdfDoc.save())).toEqual([""]);
+  });
+});
+
+describe("buildEvidenceBundle", () => {
+  it("leaves no redacted text in the bundle", async () => {
+    const file = await sourceFile(["Patient SECRET NAME", "Knee swelling"]);
+    const { bytes } = await buildEvidenceBundle([{
+      title: "Orthopaedics",
+      pages: [1, 2].map(pageNum => ({ file, fileId: FILE_ID, fileName: "records.pdf", pageNum })),
+    }], {
+      redactions: { [makePageKey(FILE_ID, 1)]: [redaction(1)] },
+      rasterize: async () => BLANK_JPEG.buffer,
+    });
+
+    const text = (await pageTexts(bytes)).join("\n");
+    expect(text).not.toContain("SECRET");
+    expect(text).toContain("Knee swelling");
+  });
+});
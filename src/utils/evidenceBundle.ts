@@ -0,0 +1,498 @@
+import { PDFDocument, PDFFont, PDFHexString, PDFName, PDFPage, PDFRef, StandardFonts, degrees, rgb } from "pdf-lib";
+import * as pdfjsLib from "pdfjs-dist";
+import { annotationColor, type AnnotationRect, type PageAnnotation } from "@/utils/annotations";
+import { makePageKey } from "@/utils/pageKeys";
+
+export interface BundlePage {
+  file: File;
+  fileId: string;
+  fileName: string;
+  pageNum: number;
+  diagnoses?: string[];
+}
+
+export interface BundleSection {
+  title: string;
+  pages: BundlePage[];
+}
+
+export const STAMP_POSITIONS = ['bottom-right', 'bottom-center', 'bottom-left', 'top-right', 'top-left'] as const;
+export type StampPosition = typeof STAMP_POSITIONS[number];
+
+// Bates-style references: every evidence page gets prefix + a zero-padded sequence number
+export interface BatesStampOptions {
+  prefix: string;
+  startNumber: number;
+  position: StampPosition;
+  digits?: number;
+}
+
+export interface StampedPage {
+  stamp: string;
+  bundlePage: number;
+  section: string;
+  fileId: string;
+  fileName: string;
+  pageNum: number;
+  diagnoses: string[];
+}
+
+export interface EvidenceBundle {
+  bytes: Uint8Array;
+  // One entry per stamped page, empty when the bundle was not stamped
+  stamps: StampedPage[];
+  // The number the next stamped bundle should start from to keep references unique
+  nextNumber: number;
+}
+
+interface AddedSection {
+  title: string;
+  cover: PDFPage;
+  pages: { source: BundlePage; page: PDFPage; stamp?: string }[];
+}
+
+interface TocLine {
+  text: string;
+  target: PDFPage;
+  indent: number;
+  bold: boolean;
+}
+
+const A4: [number, number] = [595, 842];
+const TOC_TOP = 770;
+const TOC_BOTTOM = 60;
+const TOC_LINE_HEIGHT = 16;
+const TOC_TITLE_LINES = 3;
+
+// The standard fonts only encode WinAnsi (Latin-1 plus typographic punctuation), and drawText
+// throws on anything else
+const winAnsi = (text: string) => text.replace(/[^\x20-\x7E\xA0-\xFF\u2013\u2014\u2018\u2019\u201C\u201D\u2022\u2026\u20AC]/g, '?');
+
+const fitText = (text: string, font: PDFFont, size: number, maxWidth: number) => {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && font.widthOfTextAtSize(`${text.slice(0, end)}...`, size) > maxWidth) end--;
+  return `${text.slice(0, end)}...`;
+};
+
+export const formatBatesNumber = (prefix: string, value: number, digits = 6) =>
+  `${prefix}${String(value).padStart(digits, '0')}`;
+
+// Labels are placed in on-screen coordinates (origin at the visual bottom left) and mapped back to
+// unrotated page space, so they land on the intended edge and read left to right whatever the
+// page's /Rotate. place() gets the visual page size and the text width and returns the baseline start.
+const drawLabel = (
+  page: PDFPage,
+  text: string,
+  font: PDFFont,
+  size: number,
+  place: (visualWidth: number, visualHeight: number, textWidth: number) => { x: number; y: number }
+) => {
+  const margin = 14;
+  const padding = 2;
+  const box = page.getCropBox();
+  const angle = ((page.getRotation().angle % 360) + 360) % 360;
+  const sideways = angle === 90 || angle === 270;
+  const visualWidth = sideways ? box.height : box.width;
+  const visualHeight = sideways ? box.width : box.height;
+
+  const line = fitText(winAnsi(text), font, size, visualWidth - 2 * margin);
+  const textWidth = font.widthOfTextAtSize(line, size);
+
+  const toPage = (vx: number, vy: number) => {
+    switch (angle) {
+      case 90: return { x: box.x + box.width - vy, y: box.y + vx };
+      case 180: return { x: box.x + box.width - vx, y: box.y + box.height - vy };
+      case 270: return { x: box.x + vy, y: box.y + box.height - vx };
+      default: return { x: box.x + vx, y: box.y + vy };
+    }
+  };
+
+  const visual = place(visualWidth, visualHeight, textWidth);
+  const background = toPage(visual.x - padding, visual.y - padding);
+  const origin = toPage(visual.x, visual.y);
+
+  page.drawRectangle({
+    ...background,
+    width: textWidth + 2 * padding,
+    height: size + 2 * padding,
+    rotate: degrees(angle),
+    color: rgb(1, 1, 1),
+    opacity: 0.85,
+  });
+  page.drawText(line, { ...origin, size, font, color: rgb(0.2, 0.2, 0.2), rotate: degrees(angle) });
+};
+
+const LABEL_MARGIN = 14;
+
+const drawFooter = (page: PDFPage, text: string, font: PDFFont) =>
+  drawLabel(page, text, font, 8, () => ({ x: LABEL_MARGIN, y: LABEL_MARGIN }));
+
+const drawStamp = (page: PDFPage, stamp: string, position: StampPosition, font: PDFFont) =>
+  drawLabel(page, stamp, font, 10, (width, height, textWidth) => {
+    const top = height - LABEL_MARGIN - 10;
+    switch (position) {
+      case 'bottom-center': return { x: (width - textWidth) / 2, y: LABEL_MARGIN + 14 };
+      // The source footer already sits in the bottom left corner, so stack above it
+      case 'bottom-left': return { x: LABEL_MARGIN, y: LABEL_MARGIN + 14 };
+      case 'top-right': return { x: width - LABEL_MARGIN - textWidth, y: top };
+      case 'top-left': return { x: LABEL_MARGIN, y: top };
+      default: return { x: width - LABEL_MARGIN - textWidth, y: LABEL_MARGIN };
+    }
+  });
+
+const drawCover = (pdfDoc: PDFDocument, title: string, font: PDFFont) => {
+  const cover = pdfDoc.addPage(A4);
+  const text = fitText(winAnsi(title), font, 36, A4[0] - 60);
+  const textWidth = font.widthOfTextAtSize(text, 36);
+  cover.drawText(text, { x: (A4[0] - textWidth) / 2, y: 421, size: 36, font, color: rgb(0, 0, 0) });
+  return cover;
+};
+
+const linkTo = (pdfDoc: PDFDocument, page: PDFPage, rect: [number, number, number, number], target: PDFPage) => {
+  const annot = pdfDoc.context.register(pdfDoc.context.obj({
+    Type: 'Annot',
+    Subtype: 'Link',
+    Rect: rect,
+    Border: [0, 0, 0],
+    Dest: [target.ref, 'Fit'],
+  }));
+  page.node.addAnnot(annot);
+};
+
+// Lays the lines out over as many A4 pages as they need, inserted at the front of the document.
+// Must run after the content pages exist so every line can link to its target.
+const insertTableOfContents = (pdfDoc: PDFDocument, lines: TocLine[], font: PDFFont, boldFont: PDFFont) => {
+  const linesPerPage = Math.floor((TOC_TOP - TOC_BOTTOM) / TOC_LINE_HEIGHT);
+  const pageCount = Math.max(1, Math.ceil((lines.length + TOC_TITLE_LINES) / linesPerPage));
+  const tocPages = Array.from({ length: pageCount }, (_, i) => pdfDoc.insertPage(i, A4));
+  const pageIndices = new Map(pdfDoc.getPages().map((page, index) => [page.ref, index]));
+
+  tocPages[0].drawText('Table of Contents', { x: 50, y: TOC_TOP, size: 20, font: boldFont, color: rgb(0, 0, 0) });
+
+  lines.forEach((line, i) => {
+    const slot = i + TOC_TITLE_LINES;
+    const page = tocPages[Math.floor(slot / linesPerPage)];
+    const y = TOC_TOP - (slot % linesPerPage) * TOC_LINE_HEIGHT;
+    const lineFont = line.bold ? boldFont : font;
+    const size = line.bold ? 11 : 10;
+    const x = 50 + line.indent * 16;
+
+    const pageLabel = String((pageIndices.get(line.target.ref) ?? 0) + 1);
+    const labelWidth = font.widthOfTextAtSize(pageLabel, size);
+    const text = fitText(winAnsi(line.text), lineFont, size, A4[0] - 50 - x - labelWidth - 20);
+
+    page.drawText(text, { x, y, size, font: lineFont, color: rgb(0, 0, 0) });
+    page.drawText(pageLabel, { x: A4[0] - 50 - labelWidth, y, size, font, color: rgb(0, 0, 0) });
+    linkTo(pdfDoc, page, [x, y - 3, A4[0] - 50, y + size], line.target);
+  });
+};
+
+interface OutlineItem {
+  title: string;
+  target: PDFPage;
+  children?: OutlineItem[];
+}
+
+// pdf-lib has no outline API, so the /Outlines tree is written as plain dictionaries.
+// Every item is left open, so a level's visible count includes all of its descendants.
+const writeOutlineLevel = (pdfDoc: PDFDocument, items: OutlineItem[], parent: PDFRef) => {
+  const { context } = pdfDoc;
+  const refs = items.map(() => context.nextRef());
+  let visible = 0;
+
+  items.forEach((item, i) => {
+    const entry = context.obj({
+      Title: PDFHexString.fromText(item.title),
+      Parent: parent,
+      Dest: [item.target.ref, 'Fit'],
+    });
+    if (i > 0) entry.set(PDFName.of('Prev'), refs[i - 1]);
+    if (i < items.length - 1) entry.set(PDFName.of('Next'), refs[i + 1]);
+
+    if (item.children && item.children.length > 0) {
+      const children = writeOutlineLevel(pdfDoc, item.children, refs[i]);
+      entry.set(PDFName.of('First'), children.refs[0]);
+      entry.set(PDFName.of('Last'), children.refs[children.refs.length - 1]);
+      entry.set(PDFName.of('Count'), context.obj(children.visible));
+      visible += children.visible;
+    }
+
+    context.assign(refs[i], entry);
+    visible++;
+  });
+
+  return { refs, visible };
+};
+
+const addOutline = (pdfDoc: PDFDocument, items: OutlineItem[]) => {
+  if (items.length === 0) return;
+  const rootRef = pdfDoc.context.nextRef();
+  const { refs, visible } = writeOutlineLevel(pdfDoc, items, rootRef);
+  pdfDoc.context.assign(rootRef, pdfDoc.context.obj({
+    Type: 'Outlines',
+    First: refs[0],
+    Last: refs[refs.length - 1],
+    Count: visible,
+  }));
+  pdfDoc.catalog.set(PDFName.of('Outlines'), rootRef);
+  pdfDoc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+};
+
+// Annotation rects are fractions of the unrotated page measured from the top left; PDF space
+// starts at the bottom left of the crop box
+const toPdfRect = (page: PDFPage, rect: AnnotationRect) => {
+  const box = page.getCropBox();
+  return {
+    x: box.x + rect.x * box.width,
+    y: box.y + box.height - (rect.y + rect.height) * box.height,
+    width: rect.width * box.width,
+    height: rect.height * box.height,
+  };
+};
+
+const REDACTION_SCALE = 2;
+
+// Renders a page with its redaction boxes filled in and returns the result as JPEG bytes
+export type PageRasterizer = (page: pdfjsLib.PDFPageProxy, redactions: PageAnnotation[]) => Promise<ArrayBuffer>;
+
+const rasterizeWithCanvas: PageRasterizer = async (sourcePage, redactions) => {
+  const viewport = sourcePage.getViewport({ scale: REDACTION_SCALE, rotation: 0 });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+
+  await sourcePage.render({ canvasContext: context, viewport, canvas }).promise;
+  context.fillStyle = '#000';
+  redactions.flatMap(r => r.rects).forEach(rect => {
+    context.fillRect(rect.x * canvas.width, rect.y * canvas.height, rect.width * canvas.width, rect.height * canvas.height);
+  });
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+  canvas.width = 0;
+  canvas.height = 0;
+  if (!blob) throw new Error('Failed to render redacted page');
+  return blob.arrayBuffer();
+};
+
+// Redaction boxes drawn over a copied page would leave the text beneath them in the file, so a
+// redacted page is rendered to an image with the boxes burned in and that image replaces the
+// page. The page keeps its size and rotation but loses its text layer.
+const addRedactedPage = async (
+  pdfDoc: PDFDocument,
+  source: pdfjsLib.PDFDocumentProxy,
+  pageNum: number,
+  redactions: PageAnnotation[],
+  rasterize: PageRasterizer
+) => {
+  const sourcePage = await source.getPage(pageNum);
+  const box = sourcePage.getViewport({ scale: 1, rotation: 0 });
+  const image = await pdfDoc.embedJpg(await rasterize(sourcePage, redactions));
+
+  const page = pdfDoc.addPage([box.width, box.height]);
+  page.drawImage(image, { x: 0, y: 0, width: box.width, height: box.height });
+  page.setRotation(degrees(sourcePage.rotate));
+  return page;
+};
+
+// Highlights are drawn into the page so they print; notes and comments become PDF sticky notes
+// that open in any reader
+const drawAnnotations = (pdfDoc: PDFDocument, page: PDFPage, annotations: PageAnnotation[]) => {
+  annotations.forEach(annotation => {
+    const [r, g, b] = annotationColor(annotation).map(c => c / 255);
+    if (annotation.kind === 'highlight' || annotation.kind === 'text_highlight') {
+      annotation.rects.forEach(rect => {
+        page.drawRectangle({ ...toPdfRect(page, rect), color: rgb(r, g, b), opacity: 0.35 });
+      });
+    }
+
+    if (annotation.comments.length === 0 || annotation.rects.length === 0) return;
+    const anchor = toPdfRect(page, annotation.rects[0]);
+    const top = anchor.y + anchor.height;
+    const contents = annotation.comments
+      .map(c => `${c.authorName || 'Unknown'}${c.createdAt ? ` (${new Date(c.createdAt).toLocaleString()})` : ''}: ${c.body}`)
+      .join('\n\n');
+    const note = pdfDoc.context.register(pdfDoc.context.obj({
+      Type: 'Annot',
+      Subtype: 'Text',
+      Rect: [anchor.x, top - 18, anchor.x + 18, top],
+      Contents: PDFHexString.fromText(contents),
+      T: PDFHexString.fromText(annotation.comments[0].authorName || 'Unknown'),
+      ...(annotation.diagnosis ? { Subj: PDFHexString.fromText(annotation.diagnosis) } : {}),
+      Name: 'Comment',
+      C: [r, g, b],
+      F: 4,
+    }));
+    page.node.addAnnot(note);
+  });
+};
+
+export interface PageExportOptions {
+  // Keyed by page key. Always burned in, whatever else is exported.
+  redactions?: Record<string, PageAnnotation[]>;
+  // Highlights and notes to add on top; redactions among them are burned in too
+  annotations?: Record<string, PageAnnotation[]>;
+  // Only replaced where there is no DOM canvas
+  rasterize?: PageRasterizer;
+}
+
+// Adds workspace pages to an export. Every PDF export goes through this rather than calling
+// copyPages itself, so a page with redactions can't go out with its text exposed. Pages without
+// redactions are copied with copyPages, keeping their text layer and vector content.
+// close() releases the documents parsed for rendering.
+export const createPageExporter = (pdfDoc: PDFDocument, options: PageExportOptions = {}) => {
+  const { redactions: redactionsByPage, annotations, rasterize = rasterizeWithCanvas } = options;
+
+  // Each source file is parsed once however many pages come from it
+  const sources = new Map<File, Promise<PDFDocument>>();
+  const loadSource = (file: File) => {
+    let source = sources.get(file);
+    if (!source) {
+      source = file.arrayBuffer().then(buffer => PDFDocument.load(buffer));
+      sources.set(file, source);
+    }
+    return source;
+  };
+  const renderSources = new Map<File, Promise<pdfjsLib.PDFDocumentProxy>>();
+  const loadRenderSource = (file: File) => {
+    let source = renderSources.get(file);
+    if (!source) {
+      source = file.arrayBuffer().then(buffer => pdfjsLib.getDocument({ data: new Uint8Array(buffer) }).promise);
+      renderSources.set(file, source);
+    }
+    return source;
+  };
+
+  const addPage = async (file: File, fileId: string, pageNum: number) => {
+    const pageKey = makePageKey(fileId, pageNum);
+    const pageAnnotations = annotations?.[pageKey] || [];
+    const redactions = [...(redactionsByPage?.[pageKey] || []), ...pageAnnotations]
+      .filter((a, i, all) => a.kind === 'redaction' && all.findIndex(other => other.id === a.id) === i);
+
+    let page: PDFPage;
+    if (redactions.length > 0) {
+      page = await addRedactedPage(pdfDoc, await loadRenderSource(file), pageNum, redactions, rasterize);
+    } else {
+      const [copiedPage] = await pdfDoc.copyPages(await loadSource(file), [pageNum - 1]);
+      page = pdfDoc.addPage(copiedPage);
+    }
+    drawAnnotations(pdfDoc, page, pageAnnotations.filter(a => a.kind !== 'redaction'));
+    return page;
+  };
+
+  const close = async () => {
+    await Promise.all(Array.from(renderSources.values()).map(source => source.then(doc => doc.destroy(), () => undefined)));
+  };
+
+  return { addPage, close };
+};
+
+// Build a bundle of original pages: a linked table of contents, then a cover page per section
+// followed by its pages, added through createPageExporter. Each page gets a footer naming its
+// source file and original page, and the outline has a bookmark per section with one child per
+// page. Pages that cannot be copied are logged and left out. With a stamp, every evidence page is
+// numbered in order from stamp.startNumber.
+export const buildEvidenceBundle = async (
+  sections: BundleSection[],
+  options: PageExportOptions & { stamp?: BatesStampOptions } = {}
+): Promise<EvidenceBundle> => {
+  const { stamp, ...exportOptions } = options;
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const exporter = createPageExporter(pdfDoc, exportOptions);
+
+  const added: AddedSection[] = [];
+  let nextNumber = stamp?.startNumber ?? 1;
+
+  for (const section of sections) {
+    const cover = drawCover(pdfDoc, section.title, boldFont);
+    const pages: AddedSection['pages'] = [];
+
+    for (const source of section.pages) {
+      try {
+        const page = await exporter.addPage(source.file, source.fileId, source.pageNum);
+        drawFooter(page, `Source: ${source.fileName}, page ${source.pageNum}`, font);
+
+        let pageStamp: string | undefined;
+        if (stamp) {
+          pageStamp = formatBatesNumber(stamp.prefix, nextNumber++, stamp.digits);
+          drawStamp(page, pageStamp, stamp.position, boldFont);
+        }
+        pages.push({ source, page, stamp: pageStamp });
+      } catch (error) {
+        console.error(`Failed to add page ${source.pageNum} of ${source.fileName}:`, error);
+      }
+    }
+
+    added.push({ title: section.title, cover, pages });
+  }
+
+  const pageLabel = (source: BundlePage, pageStamp?: string) =>
+    `${pageStamp ? `${pageStamp}  ` : ''}${source.fileName}, page ${source.pageNum}`;
+
+  const tocLines: TocLine[] = added.flatMap(section => [
+    { text: section.title, target: section.cover, indent: 0, bold: true },
+    ...section.pages.map(({ source, page, stamp: pageStamp }) => ({
+      text: pageLabel(source, pageStamp),
+      target: page,
+      indent: 1,
+      bold: false,
+    })),
+  ]);
+  insertTableOfContents(pdfDoc, tocLines, font, boldFont);
+
+  addOutline(pdfDoc, added.map(section => ({
+    title: section.title,
+    target: section.cover,
+    children: section.pages.map(({ source, page, stamp: pageStamp }) => ({
+      title: pageLabel(source, pageStamp),
+      target: page,
+    })),
+  })));
+
+  // Bundle page numbers are only final once the table of contents has been inserted
+  const pageIndices = new Map(pdfDoc.getPages().map((page, index) => [page.ref, index]));
+  const stamps: StampedPage[] = added.flatMap(section =>
+    section.pages
+      .filter(({ stamp: pageStamp }) => pageStamp)
+      .map(({ source, page, stamp: pageStamp }) => ({
+        stamp: pageStamp!,
+        bundlePage: (pageIndices.get(page.ref) ?? 0) + 1,
+        section: section.title,
+        fileId: source.fileId,
+        fileName: source.fileName,
+        pageNum: source.pageNum,
+        diagnoses: source.diagnoses || [],
+      }))
+  );
+
+  await exporter.close();
+  return { bytes: await pdfDoc.save(), stamps, nextNumber };
+};
+
+// Quote cells that need it, and defuse text Excel would otherwise run as a formula
+const csvCell = (value: string | number) => {
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Index of stamped pages for the recipient, one row per page across all bundles of an export.
+// CSV opens directly in Excel; the BOM keeps non-ASCII file names intact there.
+export const bundleIndexCsv = (bundles: { fileName: string; stamps: StampedPage[] }[]) => {
+  const header = ['Reference', 'Bundle', 'Bundle Page', 'Section', 'Workspace File ID', 'Source File', 'Original Page', 'Diagnoses'];
+  const rows = bundles.flatMap(bundle => bundle.stamps.map(entry => [
+    entry.stamp,
+    bundle.fileName,
+    entry.bundlePage,
+    entry.section,
+    entry.fileId,
+    entry.fileName,
+    entry.pageNum,
+    entry.diagnoses.join('; '),
+  ]));
+  return '\uFEFF' + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
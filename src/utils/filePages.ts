@@ -0,0 +1,90 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface PageText {
+  pageNum: number;
+  text: string;
+}
+
+// Persist OCR output for every page of a workspace file and record the page count it was taken from
+export const savePageTexts = async (fileId: string, pageTexts: PageText[]): Promise<boolean> => {
+  try {
+    const rows = pageTexts.map(({ pageNum, text }) => ({
+      file_id: fileId,
+      page_number: pageNum,
+      extracted_text: text,
+      ocr_completed: true,
+      text_source: 'browser'
+    }));
+
+    const { error: pagesError } = await supabase
+      .from('file_pages')
+      .upsert(rows, { onConflict: 'file_id,page_number' });
+
+    if (pagesError) {
+      console.error('Error saving page text:', pagesError);
+      return false;
+    }
+
+    const { error: fileError } = await supabase
+      .from('workspace_files')
+      .update({ ocr_completed: true, page_count: pageTexts.length })
+      .eq('id', fileId);
+
+    if (fileError) {
+      console.error('Error updating OCR status:', fileError);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error persisting OCR text:', error);
+    return false;
+  }
+};
+
+// PostgREST caps each response, so large workspaces are read a page of rows at a time
+const LOAD_BATCH_SIZE = 1000;
+
+// Load stored page text for the given files, keyed by file id
+export const loadPageTexts = async (fileIds: string[]): Promise<Map<string, PageText[]>> => {
+  const result = new Map<string, PageText[]>();
+  if (fileIds.length === 0) return result;
+
+  try {
+    for (let from = 0; ; from += LOAD_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('file_pages')
+        .select('file_id, page_number, extracted_text')
+        .in('file_id', fileIds)
+        .order('file_id')
+        .order('page_number')
+        .range(from, from + LOAD_BATCH_SIZE - 1);
+
+      if (error) throw error;
+
+      (data || []).forEach(row => {
+        if (row.extracted_text === null) return;
+        const pages = result.get(row.file_id) || [];
+        pages.push({ pageNum: row.page_number, text: row.extracted_text });
+        result.set(row.file_id, pages);
+      });
+      if (!data || data.length < LOAD_BATCH_SIZE) break;
+    }
+  } catch (error) {
+    console.error('Error loading stored page text:', error);
+  }
+
+  return result;
+};
+
+// Stored text is only reusable when every page of the current file has it and the
+// page count still matches the count recorded at scan time
+export const hasCompletePageTexts = (pages: PageText[] | undefined, pageCount: number, storedPageCount: number | null) => {
+  if (!pages || pages.length === 0) return false;
+  if (storedPageCount !== null && storedPageCount !== pageCount) return false;
+  const covered = new Set(pages.map(p => p.pageNum));
+  for (let pageNum = 1; pageNum <= pageCount; pageNum++) {
+    if (!covered.has(pageNum)) return false;
+  }
+  return true;
+};
@@ -0,0 +1,126 @@
+import { normalizePhrase } from "@/utils/clinicalMentions";
+
+export const SYNONYM_KINDS = ['abbreviation', 'condition', 'region', 'laterality'] as const;
+export type SynonymKind = typeof SYNONYM_KINDS[number];
+
+// A set of interchangeable terms; the first one is the preferred form
+export interface SynonymEntry {
+  id: string;
+  kind: SynonymKind;
+  terms: string[];
+}
+
+export interface ExpandedTerm {
+  term: string;
+  variants: string[];
+}
+
+const entry = (id: string, kind: SynonymKind, terms: string[]): SynonymEntry => ({ id, kind, terms });
+
+// Curated starting set, based on how terms appear in GP, physio, imaging and surgical notes.
+// Short abbreviations that are also common words (AS, AT, MS) are left out on purpose.
+export const CURATED_SYNONYMS: SynonymEntry[] = [
+  entry('laterality-right', 'laterality', ['right', 'r', 'rt']),
+  entry('laterality-left', 'laterality', ['left', 'l', 'lt']),
+  entry('laterality-bilateral', 'laterality', ['bilateral', 'bilat', 'b l', 'both']),
+
+  entry('region-cervical', 'region', ['cervical spine', 'c spine', 'cervical']),
+  entry('region-thoracic', 'region', ['thoracic spine', 't spine', 'thoracic', 'mid back']),
+  entry('region-lumbar', 'region', ['lumbar spine', 'l spine', 'lumbar', 'lower back', 'low back']),
+  entry('region-lumbosacral', 'region', ['lumbosacral spine', 'ls spine', 'lumbosacral']),
+  entry('region-shoulder', 'region', ['shoulder', 'glenohumeral joint', 'ghj']),
+  entry('region-ac-joint', 'region', ['acromioclavicular joint', 'ac joint', 'acj']),
+  entry('region-hip', 'region', ['hip', 'hip joint']),
+  entry('region-knee', 'region', ['knee', 'knee joint', 'tibiofemoral joint']),
+  entry('region-ankle', 'region', ['ankle', 'ankle joint', 'talocrural joint']),
+  entry('region-shin', 'region', ['shin', 'tibia', 'anterior tibia']),
+  entry('region-wrist', 'region', ['wrist', 'radiocarpal joint']),
+
+  entry('abbr-oa', 'abbreviation', ['osteoarthritis', 'oa', 'osteoarthrosis', 'degenerative joint disease', 'djd']),
+  entry('abbr-lbp', 'abbreviation', ['low back pain', 'lbp', 'lumbago', 'lower back pain']),
+  entry('abbr-fracture', 'abbreviation', ['fracture', '#', 'fx', 'fractured']),
+  entry('abbr-nof', 'abbreviation', ['fractured neck of femur', '# nof', 'nof fracture', 'hip fracture']),
+  entry('abbr-thr', 'abbreviation', ['total hip replacement', 'thr', 'total hip arthroplasty', 'tha']),
+  entry('abbr-tkr', 'abbreviation', ['total knee replacement', 'tkr', 'total knee arthroplasty', 'tka']),
+  entry('abbr-aclr', 'abbreviation', ['anterior cruciate ligament reconstruction', 'aclr', 'acl reconstruction']),
+  entry('abbr-acl', 'abbreviation', ['anterior cruciate ligament', 'acl']),
+  entry('abbr-pcl', 'abbreviation', ['posterior cruciate ligament', 'pcl']),
+  entry('abbr-mcl', 'abbreviation', ['medial collateral ligament', 'mcl']),
+  entry('abbr-ddd', 'abbreviation', ['degenerative disc disease', 'ddd']),
+  entry('abbr-cts', 'abbreviation', ['carpal tunnel syndrome', 'cts']),
+  entry('abbr-itbs', 'abbreviation', ['iliotibial band syndrome', 'itbs', 'itb syndrome', 'itb friction syndrome']),
+  entry('abbr-gtps', 'abbreviation', ['greater trochanteric pain syndrome', 'gtps', 'trochanteric bursitis']),
+  entry('abbr-pfps', 'abbreviation', ['patellofemoral pain syndrome', 'pfps', 'patellofemoral syndrome']),
+  entry('abbr-mtss', 'abbreviation', ['medial tibial stress syndrome', 'mtss', 'shin splints']),
+  entry('abbr-ptsd', 'abbreviation', ['post traumatic stress disorder', 'ptsd', 'posttraumatic stress disorder']),
+  entry('abbr-rom', 'abbreviation', ['range of motion', 'rom', 'range of movement']),
+  entry('abbr-mri', 'abbreviation', ['magnetic resonance imaging', 'mri']),
+
+  entry('condition-tendinopathy', 'condition', ['tendinopathy', 'tendinitis', 'tendonitis', 'tendinosis']),
+  entry('condition-disc-prolapse', 'condition', ['disc prolapse', 'disc herniation', 'herniated disc', 'slipped disc', 'disc protrusion']),
+  entry('condition-labral-tear', 'condition', ['labral tear', 'torn labrum', 'labrum tear']),
+  entry('condition-sprain', 'condition', ['sprain', 'sprained', 'ligament sprain']),
+  entry('condition-strain', 'condition', ['strain', 'strained', 'muscle strain']),
+  entry('condition-chondromalacia', 'condition', ['chondromalacia patella', 'chondromalacia patellae', 'runner\'s knee']),
+  entry('condition-tennis-elbow', 'condition', ['lateral epicondylitis', 'tennis elbow', 'lateral epicondylalgia']),
+  entry('condition-golfers-elbow', 'condition', ['medial epicondylitis', 'golfer\'s elbow']),
+  entry('condition-ganglion', 'condition', ['ganglion', 'ganglion cyst']),
+];
+
+// Expansions beyond this are dropped so one term cannot turn into hundreds of searches
+const MAX_VARIANTS = 40;
+
+// "#" means fracture only when written against a body part, as in "#NOF" or "# wrist"; on its own
+// it is usually a number sign. It is searched for with each region after it instead of alone.
+const ATTACHED_TERMS = new Set(['#']);
+const ATTACHED_EXTRA_TARGETS = ['nof'];
+
+// Returns the phrase followed by every equivalent form from the dictionary. A leading side
+// ("R) knee", "left hip") is expanded separately and combined with the rest of the phrase.
+export const createExpander = (entries: SynonymEntry[]) => {
+  const sets = new Map<string, string[]>();
+  const sides = new Map<string, string[]>();
+  const regions = new Set(ATTACHED_EXTRA_TARGETS);
+  entries.forEach(({ kind, terms }) => {
+    const normalized = terms.map(normalizePhrase).filter(Boolean);
+    if (kind === 'region') normalized.forEach(term => regions.add(term));
+    normalized.forEach(term => {
+      const target = kind === 'laterality' ? sides : sets;
+      target.set(term, [...new Set([...(target.get(term) || []), ...normalized])]);
+    });
+  });
+
+  const endsAttached = (phrase: string) => ATTACHED_TERMS.has(phrase.split(' ').pop()!);
+
+  const expandPhrase = (phrase: string): string[] => {
+    const variants = [phrase, ...(sets.get(phrase) || [])];
+    const words = phrase.split(' ');
+    // Try the longest leading side first so "b l knee" is not read as "b" + "l knee"
+    for (let i = Math.min(2, words.length - 1); i >= 1; i--) {
+      const side = sides.get(words.slice(0, i).join(' '));
+      if (!side) continue;
+      const rest = words.slice(i).join(' ');
+      const restVariants = [rest, ...(sets.get(rest) || [])];
+      side.forEach(s => restVariants.forEach(r => variants.push(`${s} ${r}`)));
+      break;
+    }
+    // Dangling attached terms ("#", "left #") are dropped; the region forms go last so the cap
+    // trims them before any ordinary synonym
+    const attached = variants
+      .filter(variant => ATTACHED_TERMS.has(variant))
+      .flatMap(variant => [...regions].map(region => `${variant} ${region}`));
+    return [...new Set([...variants.filter(v => !endsAttached(v)), ...attached])].slice(0, MAX_VARIANTS);
+  };
+
+  return (term: string): ExpandedTerm => {
+    const phrase = normalizePhrase(term);
+    if (!phrase) return { term, variants: [term] };
+    const variants = expandPhrase(phrase);
+    // A bare "#" typed as the term is searched in its attached forms only
+    if (endsAttached(phrase) && variants.length > 0) return { term, variants };
+    // Keep the term exactly as typed first so matches on it report no variant
+    return { term, variants: [term, ...variants.filter(v => v !== phrase)] };
+  };
+};
+
+export type TermExpander = ReturnType<typeof createExpander>;
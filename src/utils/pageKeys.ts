@@ -0,0 +1,17 @@
+// Pages are referenced as "<fileId>-<pageNum>", where fileId is the workspace_files id.
+// Keys survive removing or reordering PDFs, unlike keys built from array positions.
+export const makePageKey = (fileId: string, pageNum: number) => `${fileId}-${pageNum}`;
+
+// File ids contain dashes, so the page number is whatever follows the last one
+export const parsePageKey = (key: string) => {
+  const separator = key.lastIndexOf('-');
+  return {
+    fileId: key.slice(0, separator),
+    pageNum: Number(key.slice(separator + 1)),
+  };
+};
+
+// Files opened without a workspace have no database row; their name stands in for the id
+export const localFileId = (fileName: string) => `local:${fileName}`;
+
+export const isLocalFileId = (fileId: string) => fileId.startsWith('local:');
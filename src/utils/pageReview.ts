@@ -0,0 +1,164 @@
+import { supabase } from "@/integrations/supabase/client";
+import { makePageKey } from "@/utils/pageKeys";
+
+export const REVIEW_STATUSES = ['unreviewed', 'relevant', 'irrelevant', 'second_opinion'] as const;
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  unreviewed: 'Unreviewed',
+  relevant: 'Relevant',
+  irrelevant: 'Irrelevant',
+  second_opinion: 'Second opinion',
+};
+
+export const REVIEW_STATUS_COLORS: Record<ReviewStatus, string> = {
+  unreviewed: 'bg-muted-foreground/30',
+  relevant: 'bg-green-500',
+  irrelevant: 'bg-slate-400',
+  second_opinion: 'bg-amber-500',
+};
+
+export interface PageReview {
+  status: ReviewStatus;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+}
+
+export interface ReviewProgress {
+  total: number;
+  reviewed: number;
+  counts: Record<ReviewStatus, number>;
+}
+
+export interface PageRef {
+  fileId: string;
+  pageNum: number;
+}
+
+const isReviewStatus = (value: string): value is ReviewStatus =>
+  (REVIEW_STATUSES as readonly string[]).includes(value);
+
+// PostgREST caps each response, so large workspaces are read a page of rows at a time
+const LOAD_BATCH_SIZE = 1000;
+
+// Reviewed pages of the given files keyed by page key; unreviewed pages are left out
+export const loadPageReviews = async (fileIds: string[]): Promise<Record<string, PageReview> | null> => {
+  const reviews: Record<string, PageReview> = {};
+  if (fileIds.length === 0) return reviews;
+
+  try {
+    for (let from = 0; ; from += LOAD_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('file_pages')
+        .select('file_id, page_number, review_status, reviewed_by, reviewed_at')
+        .in('file_id', fileIds)
+        .neq('review_status', 'unreviewed')
+        .order('file_id')
+        .order('page_number')
+        .range(from, from + LOAD_BATCH_SIZE - 1);
+
+      if (error) throw error;
+
+      (data || []).forEach(row => {
+        if (!isReviewStatus(row.review_status)) return;
+        reviews[makePageKey(row.file_id, row.page_number)] = {
+          status: row.review_status,
+          reviewedBy: row.reviewed_by,
+          reviewedAt: row.reviewed_at,
+        };
+      });
+      if (!data || data.length < LOAD_BATCH_SIZE) break;
+    }
+    return reviews;
+  } catch (error) {
+    console.error('Error loading page reviews:', error);
+    return null;
+  }
+};
+
+const SAVE_BATCH_SIZE = 500;
+
+// Records the status for every page given, by the signed-in reviewer. Pages reset to
+// unreviewed keep no reviewer.
+export const savePageReviews = async (
+  pages: PageRef[],
+  status: ReviewStatus,
+  userId: string
+): Promise<PageReview | null> => {
+  const review: PageReview = status === 'unreviewed'
+    ? { status, reviewedBy: null, reviewedAt: null }
+    : { status, reviewedBy: userId, reviewedAt: new Date().toISOString() };
+
+  try {
+    const rows = pages.map(({ fileId, pageNum }) => ({
+      file_id: fileId,
+      page_number: pageNum,
+      review_status: review.status,
+      reviewed_by: review.reviewedBy,
+      reviewed_at: review.reviewedAt,
+    }));
+    for (let i = 0; i < rows.length; i += SAVE_BATCH_SIZE) {
+      const { error } = await supabase
+        .from('file_pages')
+        .upsert(rows.slice(i, i + SAVE_BATCH_SIZE), { onConflict: 'file_id,page_number' });
+      if (error) throw error;
+    }
+    return review;
+  } catch (error) {
+    console.error('Error saving page reviews:', error);
+    return null;
+  }
+};
+
+export const emptyReviewProgress = (total = 0): ReviewProgress => ({
+  total,
+  reviewed: 0,
+  counts: { unreviewed: total, relevant: 0, irrelevant: 0, second_opinion: 0 },
+});
+
+// Review counts for one file; pages beyond the known page count are ignored
+export const fileReviewProgress = (
+  file: { id: string; page_count: number | null },
+  reviews: Record<string, PageReview>
+): ReviewProgress => {
+  const progress = emptyReviewProgress(file.page_count || 0);
+  for (let pageNum = 1; pageNum <= progress.total; pageNum++) {
+    const status = reviews[makePageKey(file.id, pageNum)]?.status;
+    if (!status || status === 'unreviewed') continue;
+    progress.counts[status]++;
+    progress.counts.unreviewed--;
+    progress.reviewed++;
+  }
+  return progress;
+};
+
+export const combineReviewProgress = (items: ReviewProgress[]): ReviewProgress =>
+  items.reduce((sum, item) => ({
+    total: sum.total + item.total,
+    reviewed: sum.reviewed + item.reviewed,
+    counts: Object.fromEntries(
+      REVIEW_STATUSES.map(status => [status, sum.counts[status] + item.counts[status]])
+    ) as Record<ReviewStatus, number>,
+  }), emptyReviewProgress());
+
+// First unreviewed page after the given one, going through the files in order and wrapping
+// around to the start. Null when every page has been reviewed.
+export const findNextUnreviewed = (
+  files: Array<{ id: string; page_count: number | null }>,
+  reviews: Record<string, PageReview>,
+  after?: PageRef
+): PageRef | null => {
+  const pages = files.flatMap(file =>
+    Array.from({ length: file.page_count || 0 }, (_, i) => ({ fileId: file.id, pageNum: i + 1 }))
+  );
+  const start = after
+    ? pages.findIndex(p => p.fileId === after.fileId && p.pageNum === after.pageNum) + 1
+    : 0;
+
+  for (let i = 0; i < pages.length; i++) {
+    const page = pages[(start + i) % pages.length];
+    const status = reviews[makePageKey(page.fileId, page.pageNum)]?.status;
+    if (!status || status === 'unreviewed') return page;
+  }
+  return null;
+};
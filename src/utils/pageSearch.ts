@@ -0,0 +1,56 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface PageSearchHit {
+  pageId: string;
+  fileId: string;
+  fileName: string;
+  pageNum: number;
+  rank: number;
+  snippet: string;
+}
+
+// Query the full-text index over stored page text. Supports "quoted phrases", OR,
+// -exclusions and prefix* terms. Returns null when the search itself failed.
+export const searchPages = async (workspaceId: string, query: string, limit = 200): Promise<PageSearchHit[] | null> => {
+  if (!query.trim()) return [];
+
+  const { data, error } = await supabase.rpc('search_file_pages', {
+    _workspace_id: workspaceId,
+    _query: query,
+    _limit: limit
+  });
+
+  if (error) {
+    console.error('Error searching page index:', error);
+    return null;
+  }
+
+  return (data || []).map(row => ({
+    pageId: row.page_id,
+    fileId: row.file_id,
+    fileName: row.file_name,
+    pageNum: row.page_number,
+    rank: row.rank,
+    snippet: row.snippet
+  }));
+};
+
+// Combine a list of search terms into a single query matching any of them;
+// multi-word terms are searched as phrases
+export const anyTermQuery = (terms: string[]) =>
+  terms
+    .map(term => term.replace(/"/g, '').trim())
+    .filter(term => term)
+    .map(term => (/\s/.test(term) ? `"${term}"` : term))
+    .join(' OR ');
+
+// Snippets come back with matches wrapped in <mark> tags; split them into plain segments
+// so the text can be rendered without injecting HTML
+export const splitSnippet = (snippet: string): Array<{ text: string; highlighted: boolean }> =>
+  snippet
+    .split(/(<mark>.*?<\/mark>)/g)
+    .filter(part => part)
+    .map(part => {
+      const match = part.match(/^<mark>(.*)<\/mark>$/);
+      return match ? { text: match[1], highlighted: true } : { text: part, highlighted: false };
+    });
@@ -0,0 +1,271 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import {
+  MENTION_CONTEXTS,
+  classifyMatches,
+  findMentions,
+  prepareText,
+  type Mention,
+  type MentionContext,
+  type PreparedText,
+} from "@/utils/clinicalMentions";
+
+export const MATCH_MODES = ['exact', 'fuzzy', 'regex'] as const;
+export type MatchMode = typeof MATCH_MODES[number];
+
+// A search term with its own match mode; synonyms are matched the same way as the term
+export interface CategoryTerm {
+  term: string;
+  mode: MatchMode;
+  synonyms: string[];
+}
+
+// ownerId is null for shared categories, which only admins can change
+export interface SearchCategory {
+  id: number;
+  label: string;
+  group: string;
+  sortOrder: number;
+  terms: CategoryTerm[];
+  exclusions: string[];
+  ownerId: string | null;
+}
+
+export type SearchCategoryInput = Omit<SearchCategory, 'id'> & { id?: number };
+
+// Shown when the categories cannot be loaded
+const FALLBACK_GROUPS: Array<{ group: string; labels: string[] }> = [
+  {
+    group: 'Body Regions',
+    labels: [
+      'Lumbar', 'Thoracic', 'Right Hip', 'Left Hip', 'Right Knee', 'Left Knee', 'Shins', 'Right Ankle', 'Left Ankle',
+      'Right Foot', 'Left Foot', 'Cervical', 'Right Shoulder', 'Left Shoulder', 'Right Elbow', 'Left Elbow',
+      'Right Wrist', 'Left Wrist', 'Right Hand', 'Left Hand',
+    ],
+  },
+  {
+    group: 'Conditions',
+    labels: [
+      'Strain and Sprain', 'Osteoarthritis', 'Labral Tear', 'Fracture', 'Tendinopathy', 'Iliotibial Band Syndrome',
+      'Trochanteric Bursitis', 'Chondromalacia Patella', 'Gluteal Tendinopathy', 'Epicondylitis', 'Ganglion',
+    ],
+  },
+];
+
+export const FALLBACK_CATEGORIES: SearchCategory[] = FALLBACK_GROUPS.flatMap(({ group, labels }, groupIndex) =>
+  labels.map((label, i) => ({
+    id: groupIndex * 100 + i + 1,
+    label,
+    group,
+    sortOrder: i + 1,
+    terms: [],
+    exclusions: [],
+    ownerId: null,
+  }))
+);
+
+const termSchema = z.object({
+  term: z.string().trim().min(1).max(200),
+  mode: z.enum(MATCH_MODES).default('exact'),
+  synonyms: z.array(z.string().trim().min(1).max(200)).max(50).default([]),
+});
+
+// Invalid entries in a stored term list are dropped rather than discarding the whole category
+const parseTerms = (value: Json): CategoryTerm[] =>
+  Array.isArray(value)
+    ? value.flatMap(entry => {
+        const parsed = termSchema.safeParse(entry);
+        return parsed.success ? [parsed.data as CategoryTerm] : [];
+      })
+    : [];
+
+const fromRow = (row: Tables<'search_categories'>): SearchCategory => ({
+  id: row.id,
+  label: row.label,
+  group: row.group_name,
+  sortOrder: row.sort_order,
+  terms: parseTerms(row.terms),
+  exclusions: row.exclusions || [],
+  ownerId: row.owner_id,
+});
+
+const toRow = (category: SearchCategoryInput) => ({
+  label: category.label.trim(),
+  group_name: category.group.trim() || 'Other',
+  sort_order: category.sortOrder,
+  terms: category.terms as unknown as Json,
+  exclusions: category.exclusions,
+  owner_id: category.ownerId,
+});
+
+// Shared categories plus the signed-in user's own, ordered by group and position
+export const loadSearchCategories = async (): Promise<SearchCategory[] | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('search_categories')
+      .select('*')
+      .order('group_name')
+      .order('sort_order')
+      .order('id');
+
+    if (error) throw error;
+    return (data || []).map(fromRow);
+  } catch (error) {
+    console.error('Error loading search categories:', error);
+    return null;
+  }
+};
+
+export const saveSearchCategory = async (category: SearchCategoryInput): Promise<SearchCategory | null> => {
+  try {
+    const query = category.id !== undefined
+      ? supabase.from('search_categories').update(toRow(category)).eq('id', category.id)
+      : supabase.from('search_categories').insert(toRow(category));
+
+    const { data, error } = await query.select().single();
+    if (error) throw error;
+    return fromRow(data);
+  } catch (error) {
+    console.error('Error saving search category:', error);
+    return null;
+  }
+};
+
+export const deleteSearchCategory = async (id: number): Promise<boolean> => {
+  const { error } = await supabase.from('search_categories').delete().eq('id', id);
+  if (error) {
+    console.error('Error deleting search category:', error);
+    return false;
+  }
+  return true;
+};
+
+export const saveCategoryOrder = async (changes: Array<{ id: number; sortOrder: number }>): Promise<boolean> => {
+  const results = await Promise.all(changes.map(({ id, sortOrder }) =>
+    supabase.from('search_categories').update({ sort_order: sortOrder }).eq('id', id)
+  ));
+  const failed = results.find(result => result.error);
+  if (failed) {
+    console.error('Error reordering search categories:', failed.error);
+    return false;
+  }
+  return true;
+};
+
+// Categories grouped in display order; groups keep the order in which they first appear
+export const groupCategories = <T extends SearchCategory>(categories: T[]) => {
+  const groups = new Map<string, T[]>();
+  [...categories]
+    .sort((a, b) => a.group.localeCompare(b.group) || a.sortOrder - b.sortOrder || a.id - b.id)
+    .forEach(category => {
+      const group = groups.get(category.group) || [];
+      group.push(category);
+      groups.set(category.group, group);
+    });
+  return Array.from(groups, ([group, items]) => ({ group, categories: items }));
+};
+
+// Terms that can go into the plain keyword search; regexes cannot
+export const categoryKeywords = (category: SearchCategory) =>
+  category.terms.filter(t => t.mode !== 'regex').flatMap(t => [t.term, ...t.synonyms]);
+
+export const describeTerms = (category: SearchCategory) => {
+  const terms = category.terms.map(t => {
+    const synonyms = t.synonyms.length > 0 ? ` (${t.synonyms.join(', ')})` : '';
+    return t.mode === 'regex' ? `/${t.term}/` : t.mode === 'fuzzy' ? `~${t.term}${synonyms}` : `${t.term}${synonyms}`;
+  });
+  const exclusions = category.exclusions.map(e => `-${e}`);
+  return [...terms, ...exclusions].join(', ');
+};
+
+// Returns the error message for an invalid pattern, or null when it compiles
+export const regexError = (pattern: string) => {
+  try {
+    new RegExp(pattern, 'iu');
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid pattern';
+  }
+};
+
+type Matcher = (prepared: PreparedText) => Mention[];
+
+const termMatcher = (phrase: string, mode: MatchMode): Matcher | null => {
+  if (mode === 'regex') {
+    if (regexError(phrase)) return null;
+    const regex = new RegExp(phrase, 'giu');
+    return prepared => classifyMatches(prepared, Array.from(prepared.text.matchAll(regex))
+      .filter(m => m[0].length > 0)
+      .map(m => ({ start: m.index!, end: m.index! + m[0].length })));
+  }
+  return prepared => findMentions(prepared, phrase, { fuzzy: mode === 'fuzzy' });
+};
+
+// Build a page test for a category: a page matches when a term or synonym is mentioned in one of
+// the given contexts (by default any) and no exclusion term appears on it. Plain terms are also
+// matched in every form expand returns, e.g. dictionary abbreviations. Invalid regexes never match.
+export const compileCategory = (
+  category: SearchCategory,
+  contexts: readonly MentionContext[] = MENTION_CONTEXTS,
+  expand: (phrase: string) => string[] = phrase => [phrase]
+) => {
+  const matchers = category.terms.flatMap(t =>
+    [t.term, ...t.synonyms]
+      .flatMap(phrase => t.mode === 'regex' ? [phrase] : expand(phrase))
+      .map(phrase => termMatcher(phrase, t.mode))
+      .filter((m): m is Matcher => m !== null)
+  );
+  const exclusions = category.exclusions.filter(e => e.trim());
+
+  return (text: string) => {
+    if (matchers.length === 0) return false;
+    const prepared = prepareText(text);
+    const mentioned = matchers.some(matches => matches(prepared).some(m => contexts.includes(m.context)));
+    if (!mentioned) return false;
+    return !exclusions.some(excluded => findMentions(prepared, excluded).length > 0);
+  };
+};
+
+// Exchange format for sharing category libraries between clinics
+const CATEGORY_EXPORT_VERSION = 1;
+
+const importedCategorySchema = z.object({
+  label: z.string().trim().min(1).max(200),
+  group: z.string().trim().min(1).max(100).default('Imported'),
+  terms: z.array(termSchema).max(500).default([]),
+  exclusions: z.array(z.string().trim().min(1).max(200)).max(200).default([]),
+});
+
+const importFileSchema = z.object({
+  version: z.number().int().max(CATEGORY_EXPORT_VERSION),
+  categories: z.array(importedCategorySchema).max(1000),
+});
+
+export type ImportedCategory = z.infer<typeof importedCategorySchema>;
+
+export const exportCategories = (categories: SearchCategory[]) =>
+  JSON.stringify({
+    version: CATEGORY_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    categories: groupCategories(categories).flatMap(({ categories: items }) =>
+      items.map(({ label, group, terms, exclusions }) => ({ label, group, terms, exclusions }))
+    ),
+  }, null, 2);
+
+// Throws with a readable message when the file is not a category export
+export const parseCategoryImport = (text: string): ImportedCategory[] => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const parsed = importFileSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Not a search category export: ${issue.path.join('.') || 'file'} ${issue.message}`);
+  }
+  return parsed.data.categories as ImportedCategory[];
+};
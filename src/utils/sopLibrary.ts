@@ -0,0 +1,232 @@
+import { supabase } from "@/integrations/supabase/client";
+import { format, isValid, parse } from "date-fns";
+import * as pdfjsLib from "pdfjs-dist";
+
+export const SOP_STANDARDS = ['rh', 'bop'] as const;
+export type SopStandard = typeof SOP_STANDARDS[number];
+
+export const SOP_STANDARD_LABELS: Record<SopStandard, string> = {
+  rh: 'Reasonable Hypothesis',
+  bop: 'Balance of Probabilities',
+};
+
+export type SopFactorKind = 'onset' | 'worsening';
+
+export interface SopFactor {
+  // Numbered as in the instrument, e.g. "9(12)"
+  number: string;
+  kind: SopFactorKind;
+  text: string;
+}
+
+export interface ParsedSop {
+  condition: string;
+  standard: SopStandard;
+  instrumentNumber: string;
+  // yyyy-MM-dd, empty when the commencement date couldn't be read
+  effectiveFrom: string;
+  icdCodes: string[];
+  factors: SopFactor[];
+}
+
+export interface SopInstrument {
+  id: string;
+  condition: string;
+  standard: SopStandard;
+  instrumentNumber: string;
+  effectiveFrom: string;
+  icdCodes: string[];
+  factorCount: number;
+  // False when a newer instrument for the same condition and standard has taken effect
+  isCurrent: boolean;
+}
+
+export interface SopWithFactors extends SopInstrument {
+  factors: SopFactor[];
+}
+
+const toStandard = (value: string): SopStandard => (value === 'bop' ? 'bop' : 'rh');
+
+const squash = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const parseDate = (value: string) => {
+  const date = parse(squash(value), 'd MMMM yyyy', new Date());
+  return isValid(date) ? format(date, 'yyyy-MM-dd') : '';
+};
+
+// Factors start at "(1)" etc.; sub-paragraphs such as "(a)" stay part of their factor's text.
+// Cross-references like "factor 9(1)" have no space before the bracket, so they don't match.
+const FACTOR_START = /(?<=^|[\s;:])\((\d{1,3})\)\s+/g;
+
+const parseFactors = (text: string): SopFactor[] => {
+  // The factors section is headed e.g. "9 Factors" and ends at "10 Relationship to service"
+  const heading = /(?:^|\s)(\d{1,2})\s+Factors\s+(?=The factor)/i.exec(text);
+  if (!heading) return [];
+  const section = heading[1];
+  const rest = text.slice(heading.index + heading[0].length);
+  const end = rest.search(/\s\d{1,2}\s+(?:Relationship to service|Factors referring to)/i);
+  const body = end >= 0 ? rest.slice(0, end) : rest;
+
+  // Factors are numbered consecutively, so a stray "(3)" inside factor 7 isn't taken as a new factor
+  let expected = 1;
+  const starts = Array.from(body.matchAll(FACTOR_START)).filter(match => {
+    if (Number(match[1]) !== expected) return false;
+    expected++;
+    return true;
+  });
+  return starts.flatMap((match, i) => {
+    const from = (match.index ?? 0) + match[0].length;
+    const to = i + 1 < starts.length ? starts[i + 1].index ?? body.length : body.length;
+    const factorText = squash(body.slice(from, to)).replace(/\s*(?:;\s*(?:or|and)?|\.)\s*$/i, '');
+    if (!factorText) return [];
+    return [{
+      number: `${section}(${match[1]})`,
+      kind: /clinical worsening/i.test(factorText) ? 'worsening' as const : 'onset' as const,
+      text: factorText,
+    }];
+  });
+};
+
+// Ranges such as "M15 to M19" are kept as "M15-M19"
+const parseIcdCodes = (text: string) =>
+  Array.from(new Set(
+    text
+      .replace(/([A-Z]\d{2}(?:\.\d{1,2})?)\s*(?:to|-|–)\s*([A-Z]\d{2}(?:\.\d{1,2})?)/g, '$1-$2')
+      .match(/[A-Z]\d{2}(?:\.\d{1,2})?(?:-[A-Z]\d{2}(?:\.\d{1,2})?)?/g) || []
+  ));
+
+// Reads the fields of an RMA Statement of Principles from its text. Anything that can't be read
+// is left empty for the person importing it to fill in.
+export const parseSopText = (rawText: string): ParsedSop => {
+  const text = squash(rawText);
+  const title = /Statement of Principles concerning\s+(.+?)\s*\((Reasonable Hypothesis|Balance of Probabilities)\)/i.exec(text);
+  const instrument = /\(No\.\s*(\d+)\s+of\s+(\d{4})\)/i.exec(text);
+  const commencement = /commences? on\s+(?:the\s+)?(\d{1,2}\s+[A-Za-z]+\s+\d{4})/i.exec(text);
+  const icdSection = /ICD-10-AM codes?:?\s*(.{0,200}?)(?:,?\s+in applying|\.\s|$)/i.exec(text);
+
+  return {
+    condition: title ? squash(title[1]).toLowerCase() : '',
+    standard: title && /balance/i.test(title[2]) ? 'bop' : 'rh',
+    instrumentNumber: instrument ? `No. ${instrument[1]} of ${instrument[2]}` : '',
+    effectiveFrom: commencement ? parseDate(commencement[1]) : '',
+    icdCodes: icdSection ? parseIcdCodes(icdSection[1]) : [],
+    factors: parseFactors(text),
+  };
+};
+
+export const extractPdfText = async (file: File) => {
+  const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  let text = '';
+  for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+    const page = await pdf.getPage(pageNum);
+    const content = await page.getTextContent();
+    text += content.items.map(item => ('str' in item ? item.str : '')).join(' ') + '\n';
+  }
+  return text;
+};
+
+export const searchSopInstruments = async (
+  query: string,
+  { includeSuperseded = false, matchCount = 20 }: { includeSuperseded?: boolean; matchCount?: number } = {}
+): Promise<SopInstrument[] | null> => {
+  const { data, error } = await supabase.rpc('search_sop_instruments', {
+    _query: query,
+    _include_superseded: includeSuperseded,
+    _match_count: matchCount,
+  });
+
+  if (error) {
+    console.error('Error searching SOP library:', error);
+    return null;
+  }
+  return (data || []).map(row => ({
+    id: row.id,
+    condition: row.condition,
+    standard: toStandard(row.standard),
+    instrumentNumber: row.instrument_number,
+    effectiveFrom: row.effective_from,
+    icdCodes: row.icd_codes,
+    factorCount: row.factor_count,
+    isCurrent: row.is_current,
+  }));
+};
+
+export const loadSopFactors = async (instrumentIds: string[]): Promise<Map<string, SopFactor[]> | null> => {
+  const result = new Map<string, SopFactor[]>();
+  if (instrumentIds.length === 0) return result;
+
+  const { data, error } = await supabase
+    .from('sop_factors')
+    .select('instrument_id, factor_number, kind, text')
+    .in('instrument_id', instrumentIds)
+    .order('position');
+
+  if (error) {
+    console.error('Error loading SOP factors:', error);
+    return null;
+  }
+  (data || []).forEach(row => {
+    const factors = result.get(row.instrument_id) || [];
+    factors.push({ number: row.factor_number, kind: row.kind === 'worsening' ? 'worsening' : 'onset', text: row.text });
+    result.set(row.instrument_id, factors);
+  });
+  return result;
+};
+
+export const withFactors = async (instruments: SopInstrument[]): Promise<SopWithFactors[] | null> => {
+  const factors = await loadSopFactors(instruments.map(i => i.id));
+  if (!factors) return null;
+  return instruments.map(instrument => ({ ...instrument, factors: factors.get(instrument.id) || [] }));
+};
+
+// The instruments currently in effect for the condition that best matches a diagnosis, one per
+// standard. The search ranks an exact condition or ICD code match first, so matches[0] is the
+// condition the diagnosis names rather than the best word overlap.
+export const pickSopsForDiagnosis = async (diagnosis: string): Promise<SopInstrument[] | null> => {
+  const matches = await searchSopInstruments(diagnosis, { matchCount: 10 });
+  if (!matches || matches.length === 0) return matches;
+  const condition = matches[0].condition.toLowerCase();
+  return SOP_STANDARDS.flatMap(standard =>
+    matches.filter(m => m.condition.toLowerCase() === condition && m.standard === standard).slice(0, 1)
+  );
+};
+
+// Saves the instrument and its factors in one transaction, so an instrument is never left without its factors
+export const saveSopInstrument = async (sop: ParsedSop, sourceFileName?: string): Promise<string | null> => {
+  const { data, error } = await supabase.rpc('save_sop_instrument', {
+    _condition: sop.condition,
+    _standard: sop.standard,
+    _instrument_number: sop.instrumentNumber,
+    _effective_from: sop.effectiveFrom,
+    _icd_codes: sop.icdCodes,
+    _factors: sop.factors.map((factor, position) => ({
+      factor_number: factor.number,
+      kind: factor.kind,
+      text: factor.text,
+      position,
+    })),
+    _source_file_name: sourceFileName,
+  });
+
+  if (error) {
+    console.error('Error saving SOP instrument:', error);
+    return null;
+  }
+  return data;
+};
+
+export const deleteSopInstrument = async (instrumentId: string) => {
+  const { error } = await supabase
+    .from('sop_instruments')
+    .delete()
+    .eq('id', instrumentId);
+
+  if (error) {
+    console.error('Error deleting SOP instrument:', error);
+    return false;
+  }
+  return true;
+};
+
+export const sopTitle = (sop: Pick<SopInstrument, 'condition' | 'standard' | 'instrumentNumber'>) =>
+  `${sop.condition} (${SOP_STANDARD_LABELS[sop.standard]}) (${sop.instrumentNumber})`;
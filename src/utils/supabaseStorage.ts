@@ -47,6 +47,14 @@ export const uploadPdfToStorage = async (
       return null;
     }
 
+    // Start server-side text extraction and OCR; progress is tracked in ingestion_jobs
+    const { error: ingestError } = await supabase.functions.invoke('ingest-file', {
+      body: { fileId: data.id }
+    });
+    if (ingestError) {
+      console.error('Error starting ingestion:', ingestError);
+    }
+
     toast.success(`${fileName} saved to workspace`);
     return filePath;
   } catch (error) {
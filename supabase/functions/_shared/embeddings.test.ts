@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { EMBEDDING_DIMENSION, getEmbeddingProvider } from "./embeddings.ts";
+
+let env: Record<string, string> = {};
+
+beforeEach(() => {
+  env = {};
+  vi.stubGlobal("Deno", { env: { get: (name: string) => env[name] } });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// Answers an /embeddings request with one vector per input, listed in reverse order
+const mockEmbeddingsApi = (dimension = EMBEDDING_DIMENSION) => {
+  const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+    const { input } = JSON.parse(init.body as string);
+    const data = input.map((_: string, index: number) => ({ index, embedding: new Array(dimension).fill(index) })).reverse();
+    return new Response(JSON.stringify({ data }));
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+};
+
+describe("getEmbeddingProvider", () => {
+  it("uses the Lovable gateway with the default model", async () => {
+    env = { LOVABLE_API_KEY: "lovable-key" };
+    const fetchMock = mockEmbeddingsApi();
+    const provider = getEmbeddingProvider();
+
+    expect(provider).toMatchObject({ name: "lovable", model: "text-embedding-3-small", dimension: EMBEDDING_DIMENSION });
+    await provider.embed(["knee"]);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://ai.gateway.lovable.dev/v1/embeddings");
+    expect(JSON.parse(init.body as string)).toMatchObject({ model: "text-embedding-3-small", dimensions: EMBEDDING_DIMENSION });
+  });
+
+  it("sends the configured model to an OpenAI-compatible endpoint", async () => {
+    env = {
+      EMBEDDING_PROVIDER: "openai",
+      EMBEDDING_MODEL: "custom-embed",
+      EMBEDDING_API_URL: "https://embeddings.example/v1/",
+      EMBEDDING_API_KEY: "embed-key",
+    };
+    const fetchMock = mockEmbeddingsApi();
+    const provider = getEmbeddingProvider();
+
+    expect(provider).toMatchObject({ name: "openai", model: "custom-embed" });
+    await provider.embed(["knee"]);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://embeddings.example/v1/embeddings");
+    expect(init.headers).toMatchObject({ Authorization: "Bearer embed-key" });
+    // Only the text-embedding-3 family accepts a target dimension
+    expect(JSON.parse(init.body as string)).not.toHaveProperty("dimensions");
+  });
+
+  it("falls back to OPENAI_API_KEY for the openai provider", () => {
+    env = { EMBEDDING_PROVIDER: "openai", OPENAI_API_KEY: "openai-key" };
+    expect(getEmbeddingProvider().name).toBe("openai");
+  });
+
+  it("puts vectors back in input order", async () => {
+    env = { LOVABLE_API_KEY: "lovable-key" };
+    mockEmbeddingsApi();
+    const vectors = await getEmbeddingProvider().embed(["a", "b", "c"]);
+    expect(vectors.map(v => v[0])).toEqual([0, 1, 2]);
+  });
+
+  it("rejects vectors of the wrong dimension", async () => {
+    env = { LOVABLE_API_KEY: "lovable-key" };
+    mockEmbeddingsApi(768);
+    await expect(getEmbeddingProvider().embed(["knee"])).rejects.toThrow(/768 dimensions/);
+  });
+
+  it("embeds offline and deterministically with the local provider", async () => {
+    env = { EMBEDDING_PROVIDER: "local" };
+    const provider = getEmbeddingProvider();
+    const [knee, kneeAgain, shoulder] = await provider.embed(["Right knee pain", "Right knee pain", "Left shoulder"]);
+
+    expect(provider.model).toBe("local-hash-v1");
+    expect(knee).toHaveLength(EMBEDDING_DIMENSION);
+    expect(knee).toEqual(kneeAgain);
+    expect(knee).not.toEqual(shoulder);
+    expect(Math.hypot(...knee)).toBeCloseTo(1);
+  });
+
+  it("throws when the provider's key is missing or the provider is unknown", () => {
+    expect(() => getEmbeddingProvider()).toThrow("LOVABLE_API_KEY is not configured");
+    env = { EMBEDDING_PROVIDER: "openai" };
+    expect(() => getEmbeddingProvider()).toThrow("EMBEDDING_API_KEY or OPENAI_API_KEY is not configured");
+    env = { EMBEDDING_PROVIDER: "cohere" };
+    expect(() => getEmbeddingProvider()).toThrow("Unknown EMBEDDING_PROVIDER: cohere");
+  });
+});
@@ -0,0 +1,130 @@
+// An embedding provider turns text into vectors for document_embeddings.
+// Select the provider with the EMBEDDING_PROVIDER env var:
+//   "lovable" (default) - Lovable AI gateway, LOVABLE_API_KEY
+//   "openai"            - any OpenAI-compatible /embeddings endpoint: EMBEDDING_API_URL
+//                         (default https://api.openai.com/v1), EMBEDDING_API_KEY or OPENAI_API_KEY
+//   "local"             - deterministic hashing embeddings, no network; for development and tests
+// EMBEDDING_MODEL overrides the model name. Every row records the model and dimension it was
+// built with, so vectors from different models are never compared with each other.
+export interface EmbeddingProvider {
+  name: string;
+  model: string;
+  dimension: number;
+  embed: (inputs: string[]) => Promise<number[][]>;
+}
+
+// document_embeddings.embedding is vector(1536), so every provider must produce this many dimensions
+export const EMBEDDING_DIMENSION = 1536;
+
+const DEFAULT_MODEL = "text-embedding-3-small";
+
+const checkDimensions = (vectors: number[][], model: string) => {
+  const wrong = vectors.find(vector => vector.length !== EMBEDDING_DIMENSION);
+  if (wrong) {
+    throw new Error(`Model ${model} returned ${wrong.length} dimensions, expected ${EMBEDDING_DIMENSION}`);
+  }
+  return vectors;
+};
+
+const openAiCompatibleProvider = (name: string, baseUrl: string, apiKey: string, model: string): EmbeddingProvider => ({
+  name,
+  model,
+  dimension: EMBEDDING_DIMENSION,
+  embed: async (inputs) => {
+    if (inputs.length === 0) return [];
+
+    const response = await fetch(`${baseUrl.replace(/\/$/, "")}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model,
+        input: inputs,
+        // Only the text-embedding-3 family accepts a target dimension
+        ...(model.startsWith("text-embedding-3") ? { dimensions: EMBEDDING_DIMENSION } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Embedding API error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+
+    // Results carry the index of their input and are not guaranteed to be in order
+    const vectors: number[][] = new Array(inputs.length);
+    data.data.forEach((item: { index: number; embedding: number[] }) => {
+      vectors[item.index] = item.embedding;
+    });
+    return checkDimensions(vectors, model);
+  },
+});
+
+// 32-bit FNV-1a
+const hash = (value: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Feature hashing of words and character trigrams into a normalised vector. Texts that share
+// vocabulary end up close together, which is enough to exercise retrieval end to end offline.
+const localEmbedding = (text: string): number[] => {
+  const vector = new Array(EMBEDDING_DIMENSION).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+  const addFeature = (feature: string, weight: number) => {
+    const h = hash(feature);
+    vector[h % EMBEDDING_DIMENSION] += (h & 0x80000000) ? -weight : weight;
+  };
+
+  words.forEach(word => {
+    addFeature(`w:${word}`, 1);
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(`t:${padded.slice(i, i + 3)}`, 0.5);
+    }
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+};
+
+const localProvider: EmbeddingProvider = {
+  name: "local",
+  model: "local-hash-v1",
+  dimension: EMBEDDING_DIMENSION,
+  embed: async (inputs) => inputs.map(localEmbedding),
+};
+
+export const getEmbeddingProvider = (): EmbeddingProvider => {
+  const provider = Deno.env.get("EMBEDDING_PROVIDER") || "lovable";
+  const model = Deno.env.get("EMBEDDING_MODEL") || DEFAULT_MODEL;
+
+  if (provider === "local") return localProvider;
+
+  if (provider === "lovable") {
+    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
+    if (!LOVABLE_API_KEY) {
+      throw new Error("LOVABLE_API_KEY is not configured");
+    }
+    return openAiCompatibleProvider("lovable", "https://ai.gateway.lovable.dev/v1", LOVABLE_API_KEY, model);
+  }
+
+  if (provider === "openai") {
+    const apiKey = Deno.env.get("EMBEDDING_API_KEY") || Deno.env.get("OPENAI_API_KEY");
+    if (!apiKey) {
+      throw new Error("EMBEDDING_API_KEY or OPENAI_API_KEY is not configured");
+    }
+    const baseUrl = Deno.env.get("EMBEDDING_API_URL") || "https://api.openai.com/v1";
+    return openAiCompatibleProvider("openai", baseUrl, apiKey, model);
+  }
+
+  throw new Error(`Unknown EMBEDDING_PROVIDER: ${provider}`);
+};
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LlmError, complete, imagePart, parseJsonContent, resolveProvider, stream, type LlmRequest } from "./llm.ts";
+
+let env: Record<string, string> = {};
+
+beforeEach(() => {
+  env = {};
+  vi.stubGlobal("Deno", { env: { get: (name: string) => env[name] } });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const request = (overrides: Partial<LlmRequest> = {}): LlmRequest => ({
+  provider: "mock",
+  messages: [
+    { role: "user", content: "Earlier question" },
+    { role: "assistant", content: "Earlier answer" },
+    { role: "user", content: [{ type: "text", text: "Summarise the knee MRI" }, imagePart("data:image/png;base64,AAAA")] },
+  ],
+  ...overrides,
+});
+
+describe("resolveProvider", () => {
+  it("prefers the request, then LLM_PROVIDER, then the function's default", () => {
+    expect(resolveProvider("claude", "lovable")).toBe("claude");
+    expect(resolveProvider(undefined, "lovable")).toBe("lovable");
+    env = { LLM_PROVIDER: "gemini" };
+    expect(resolveProvider(undefined, "lovable")).toBe("gemini");
+    env = { LLM_PROVIDER: "unknown" };
+    expect(resolveProvider(undefined, "lovable")).toBe("lovable");
+  });
+
+  it("forces the mock when LLM_MOCK is set", () => {
+    env = { LLM_MOCK: "true", LLM_PROVIDER: "gemini" };
+    expect(resolveProvider("claude", "lovable")).toBe("mock");
+  });
+});
+
+describe("mock provider", () => {
+  it("echoes the last user message without any network", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+
+    expect(await complete(request())).toEqual({
+      content: "[mock] Summarise the knee MRI (+1 image)",
+      provider: "mock",
+      model: "mock",
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("answers JSON requests with an empty object", async () => {
+    const { content } = await complete(request({ json: true }));
+    expect(parseJsonContent(content)).toEqual({});
+  });
+
+  it("returns LLM_MOCK_RESPONSE when it is set", async () => {
+    env = { LLM_MOCK_RESPONSE: '{"diagnoses":["Tinnitus"]}' };
+    const { content } = await complete(request({ json: true }));
+    expect(parseJsonContent(content)).toEqual({ diagnoses: ["Tinnitus"] });
+  });
+
+  it("streams the same reply word by word", async () => {
+    const pieces: string[] = [];
+    for await (const piece of stream(request())) pieces.push(piece);
+
+    expect(pieces.length).toBeGreaterThan(1);
+    expect(pieces.join("")).toBe((await complete(request())).content);
+  });
+});
+
+describe("cancellation", () => {
+  it("does not call the provider once the signal has aborted", async () => {
+    env = { GOOGLE_API_KEY: "key" };
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(stream(request({ provider: "gemini", signal: controller.signal })).next()).rejects.toThrow();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("stops waiting out a retry when the signal aborts before the first piece", async () => {
+    env = { GOOGLE_API_KEY: "key" };
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const controller = new AbortController();
+    const fetchMock = vi.fn(async () => {
+      setTimeout(() => controller.abort(), 0);
+      return new Response("busy", { status: 503, headers: { "retry-after": "10" } });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const started = Date.now();
+    await expect(stream(request({ provider: "gemini", signal: controller.signal })).next()).rejects.toThrow();
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops a stream part way when the signal aborts", async () => {
+    const controller = new AbortController();
+    const pieces = stream(request({ signal: controller.signal }));
+
+    expect((await pieces.next()).done).toBe(false);
+    controller.abort();
+    await expect(pieces.next()).rejects.toThrow();
+  });
+});
+
+describe("parseJsonContent", () => {
+  it("parses plain JSON", () => {
+    expect(parseJsonContent('{"a":1}')).toEqual({ a: 1 });
+  });
+
+  it("parses JSON in a code fence", () => {
+    expect(parseJsonContent('Here you go:\n```json\n{"a": [1, 2]}\n```\nDone.')).toEqual({ a: [1, 2] });
+  });
+
+  it("parses JSON wrapped in prose", () => {
+    expect(parseJsonContent('The result is {"a": {"b": true}} as requested.')).toEqual({ a: { b: true } });
+  });
+
+  it("throws an LlmError with status 500 when there is no JSON", () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    let error: unknown;
+    try {
+      parseJsonContent("I could not find a diagnosis.");
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(LlmError);
+    expect(error).toMatchObject({ status: 500, message: "Failed to parse AI response" });
+  });
+});
@@ -0,0 +1,426 @@
+// Provider-independent chat completions for every AI edge function.
+// complete() builds the provider-specific request (including image parts and JSON mode),
+// retries transient failures and maps provider errors to LlmError with an HTTP status that
+// functions pass straight back to the client (429 rate limited, 402 out of credits).
+// stream() is the incremental variant: it yields the reply text as the provider produces it.
+// Set LLM_MOCK=true to answer every request with the offline mock provider; LLM_PROVIDER sets
+// the provider used when a request does not choose one.
+export const LLM_PROVIDERS = ['lovable', 'claude', 'gemini', 'grok', 'perplexity', 'openai', 'mock'] as const;
+export type LlmProvider = typeof LLM_PROVIDERS[number];
+
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mediaType: string; data: string }; // base64 without the data URL prefix
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ContentPart[];
+}
+
+export interface LlmRequest {
+  provider: LlmProvider;
+  model?: string;
+  system?: string;
+  messages: LlmMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  // Ask for a JSON object; parse the reply with parseJsonContent
+  json?: boolean;
+  // Aborts the upstream request, e.g. when the client stops a streamed reply
+  signal?: AbortSignal;
+}
+
+export interface LlmResponse {
+  content: string;
+  provider: LlmProvider;
+  model: string;
+}
+
+export class LlmError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'LlmError';
+    this.status = status;
+  }
+}
+
+export const DEFAULT_MODELS: Record<LlmProvider, string> = {
+  lovable: 'google/gemini-2.5-flash',
+  claude: 'claude-sonnet-4-20250514',
+  gemini: 'gemini-2.0-flash-exp',
+  grok: 'grok-2-latest',
+  perplexity: 'llama-3.1-sonar-small-128k-online',
+  openai: 'gpt-5-2025-08-07',
+  mock: 'mock',
+};
+
+const PROVIDER_LABELS: Record<LlmProvider, string> = {
+  lovable: 'Lovable AI',
+  claude: 'Claude',
+  gemini: 'Gemini',
+  grok: 'Grok',
+  perplexity: 'Perplexity',
+  openai: 'OpenAI',
+  mock: 'Mock',
+};
+
+const API_KEYS: Record<Exclude<LlmProvider, 'mock'>, string> = {
+  lovable: 'LOVABLE_API_KEY',
+  claude: 'ANTHROPIC_API_KEY',
+  gemini: 'GOOGLE_API_KEY',
+  grok: 'XAI_API_KEY',
+  perplexity: 'PERPLEXITY_API_KEY',
+  openai: 'OPENAI_API_KEY',
+};
+
+// Pick the provider for a request: the mock when forced, then the caller's choice, the
+// LLM_PROVIDER env var and finally the function's own default
+export const resolveProvider = (requested: LlmProvider | undefined, fallback: LlmProvider): LlmProvider => {
+  if (Deno.env.get('LLM_MOCK') === 'true') return 'mock';
+  if (requested) return requested;
+  const configured = Deno.env.get('LLM_PROVIDER') as LlmProvider | undefined;
+  return configured && LLM_PROVIDERS.includes(configured) ? configured : fallback;
+};
+
+// Accepts a data URL or bare base64; anything that is not declared as PNG is sent as JPEG
+export const imagePart = (image: string): ContentPart => ({
+  type: 'image',
+  mediaType: image.startsWith('data:image/png') ? 'image/png' : 'image/jpeg',
+  data: image.split(',')[1] || image,
+});
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504, 529]);
+const MAX_ATTEMPTS = 3;
+
+// Rejects as soon as the signal aborts, so a caller that has gone away doesn't sit out a backoff
+const delay = (ms: number, signal?: AbortSignal | null) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const mapError = (provider: LlmProvider, status: number, errorText: string) => {
+  const label = PROVIDER_LABELS[provider];
+  if (status === 429) return new LlmError('Rate limits exceeded, please try again later.', 429);
+  if (status === 402) return new LlmError('AI credits exhausted. Please add credits to your workspace.', 402);
+  if (status === 401 || status === 403) {
+    return new LlmError(`Invalid API key for ${label}. Please check ${API_KEYS[provider as keyof typeof API_KEYS]} in settings.`, 401);
+  }
+  return new LlmError(`${label} API error: ${status}${errorText ? ` - ${errorText.substring(0, 500)}` : ''}`, 500);
+};
+
+const fetchWithRetry = async (provider: LlmProvider, url: string, init: RequestInit): Promise<Response> => {
+  const label = PROVIDER_LABELS[provider];
+
+  for (let attempt = 1; ; attempt++) {
+    init.signal?.throwIfAborted();
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      if (init.signal?.aborted) throw error;
+      if (attempt >= MAX_ATTEMPTS) {
+        throw new LlmError(`${label} request failed: ${error instanceof Error ? error.message : 'network error'}`, 500);
+      }
+      await delay(500 * 2 ** (attempt - 1), init.signal);
+      continue;
+    }
+
+    if (response.ok) return response;
+
+    if (!RETRYABLE_STATUSES.has(response.status) || attempt >= MAX_ATTEMPTS) {
+      const errorText = await response.text();
+      console.error(`${label} error:`, response.status, errorText);
+      throw mapError(provider, response.status, errorText);
+    }
+
+    await response.body?.cancel();
+    const retryAfter = Number(response.headers.get('retry-after'));
+    const wait = retryAfter > 0 ? Math.min(retryAfter * 1000, 10000) : 500 * 2 ** (attempt - 1) + Math.random() * 250;
+    console.warn(`${label} returned ${response.status}, retrying in ${Math.round(wait)}ms (attempt ${attempt}/${MAX_ATTEMPTS})`);
+    await delay(wait, init.signal);
+  }
+};
+
+const getApiKey = (provider: Exclude<LlmProvider, 'mock'>) => {
+  const key = Deno.env.get(API_KEYS[provider]);
+  if (!key) throw new LlmError(`${API_KEYS[provider]} is not configured`, 500);
+  return key;
+};
+
+const toParts = (content: string | ContentPart[]): ContentPart[] =>
+  typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+
+const textOf = (content: string | ContentPart[]) =>
+  toParts(content).filter(part => part.type === 'text').map(part => (part as { text: string }).text).join('\n');
+
+// System text can arrive either as request.system or as leading system messages
+const splitSystem = (request: LlmRequest) => {
+  const systemTexts = request.system ? [request.system] : [];
+  const messages = request.messages.filter(message => {
+    if (message.role !== 'system') return true;
+    systemTexts.push(textOf(message.content));
+    return false;
+  });
+  return { system: systemTexts.join('\n\n'), messages };
+};
+
+const OPENAI_COMPATIBLE_URLS: Partial<Record<LlmProvider, string>> = {
+  lovable: 'https://ai.gateway.lovable.dev/v1/chat/completions',
+  grok: 'https://api.x.ai/v1/chat/completions',
+  perplexity: 'https://api.perplexity.ai/chat/completions',
+  openai: 'https://api.openai.com/v1/chat/completions',
+};
+
+const openAiCompatibleRequest = (request: LlmRequest, model: string, stream: boolean) => {
+  const provider = request.provider as Exclude<LlmProvider, 'mock'>;
+  const { system, messages } = splitSystem(request);
+
+  const body: Record<string, unknown> = {
+    model,
+    messages: [
+      ...(system ? [{ role: 'system', content: system }] : []),
+      ...messages.map(message => ({
+        role: message.role,
+        content: typeof message.content === 'string'
+          ? message.content
+          : message.content.map(part => part.type === 'text'
+            ? { type: 'text', text: part.text }
+            : { type: 'image_url', image_url: { url: `data:${part.mediaType};base64,${part.data}` } }),
+      })),
+    ],
+  };
+
+  // OpenAI reasoning models take max_completion_tokens and only the default temperature
+  if (provider === 'openai') {
+    if (request.maxTokens) body.max_completion_tokens = request.maxTokens;
+  } else {
+    if (request.maxTokens) body.max_tokens = request.maxTokens;
+    if (request.temperature !== undefined) body.temperature = request.temperature;
+  }
+  // Perplexity has no JSON object mode; the prompt and parseJsonContent cover it
+  if (request.json && provider !== 'perplexity') body.response_format = { type: 'json_object' };
+  if (stream) body.stream = true;
+
+  return fetchWithRetry(provider, OPENAI_COMPATIBLE_URLS[provider]!, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${getApiKey(provider)}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+    signal: request.signal,
+  });
+};
+
+const completeOpenAiCompatible = async (request: LlmRequest, model: string): Promise<string> => {
+  const response = await openAiCompatibleRequest(request, model, false);
+  const data = await response.json();
+  return data.choices?.[0]?.message?.content || '';
+};
+
+const claudeRequest = (request: LlmRequest, model: string, stream: boolean) => {
+  const { system, messages } = splitSystem(request);
+
+  return fetchWithRetry('claude', 'https://api.anthropic.com/v1/messages', {
+    method: 'POST',
+    headers: {
+      'x-api-key': getApiKey('claude'),
+      'anthropic-version': '2023-06-01',
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model,
+      max_tokens: request.maxTokens || 4096,
+      ...(stream ? { stream: true } : {}),
+      ...(system ? { system } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      messages: messages.map(message => ({
+        role: message.role === 'assistant' ? 'assistant' : 'user',
+        content: typeof message.content === 'string'
+          ? message.content
+          : message.content.map(part => part.type === 'text'
+            ? { type: 'text', text: part.text }
+            : { type: 'image', source: { type: 'base64', media_type: part.mediaType, data: part.data } }),
+      })),
+    }),
+    signal: request.signal,
+  });
+};
+
+const completeClaude = async (request: LlmRequest, model: string): Promise<string> => {
+  const response = await claudeRequest(request, model, false);
+  const data = await response.json();
+  return (data.content || [])
+    .filter((block: { type: string }) => block.type === 'text')
+    .map((block: { text: string }) => block.text)
+    .join('');
+};
+
+const geminiRequest = (request: LlmRequest, model: string, stream: boolean) => {
+  const { system, messages } = splitSystem(request);
+
+  const generationConfig: Record<string, unknown> = {};
+  if (request.maxTokens) generationConfig.maxOutputTokens = request.maxTokens;
+  if (request.temperature !== undefined) generationConfig.temperature = request.temperature;
+  if (request.json) generationConfig.responseMimeType = 'application/json';
+
+  const method = stream ? 'streamGenerateContent?alt=sse&' : 'generateContent?';
+  return fetchWithRetry(
+    'gemini',
+    `https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}key=${getApiKey('gemini')}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...(system ? { system_instruction: { parts: [{ text: system }] } } : {}),
+        contents: messages.map(message => ({
+          role: message.role === 'assistant' ? 'model' : 'user',
+          parts: toParts(message.content).map(part => part.type === 'text'
+            ? { text: part.text }
+            : { inlineData: { mimeType: part.mediaType, data: part.data } }),
+        })),
+        generationConfig,
+      }),
+      signal: request.signal,
+    }
+  );
+};
+
+const geminiText = (data: { candidates?: { content?: { parts?: { text?: string }[] } }[] }) =>
+  (data.candidates?.[0]?.content?.parts || []).map(part => part.text || '').join('');
+
+const completeGemini = async (request: LlmRequest, model: string): Promise<string> => {
+  const response = await geminiRequest(request, model, false);
+  return geminiText(await response.json());
+};
+
+// Offline provider for local runs and tests: no network and the same reply for the same request.
+// LLM_MOCK_RESPONSE sets the reply; otherwise JSON requests get "{}" and others an echo of the last user message.
+const completeMock = (request: LlmRequest): string => {
+  const configured = Deno.env.get('LLM_MOCK_RESPONSE');
+  if (configured !== undefined) return configured;
+  if (request.json) return '{}';
+
+  const lastUser = [...request.messages].reverse().find(message => message.role === 'user');
+  const images = lastUser ? toParts(lastUser.content).filter(part => part.type === 'image').length : 0;
+  return `[mock] ${lastUser ? textOf(lastUser.content).substring(0, 200) : ''}${images ? ` (+${images} image${images !== 1 ? 's' : ''})` : ''}`;
+};
+
+export const complete = async (request: LlmRequest): Promise<LlmResponse> => {
+  const model = request.model || DEFAULT_MODELS[request.provider];
+
+  let content: string;
+  switch (request.provider) {
+    case 'claude':
+      content = await completeClaude(request, model);
+      break;
+    case 'gemini':
+      content = await completeGemini(request, model);
+      break;
+    case 'mock':
+      content = completeMock(request);
+      break;
+    default:
+      content = await completeOpenAiCompatible(request, model);
+  }
+
+  return { content, provider: request.provider, model };
+};
+
+// Data payloads of a server-sent event stream, one per event
+async function* sseData(response: Response): AsyncGenerator<string> {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() || '';
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trimStart())
+          .join('\n');
+        if (data) yield data;
+      }
+    }
+  } finally {
+    // Also stops the upstream download when the consumer gives up early
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+// Incremental complete(): yields the reply text piece by piece as the provider's stream events
+// arrive. Errors before the first piece (bad key, rate limit) are thrown like complete()'s.
+// request.signal is honoured from the start, including while waiting for the first piece.
+export async function* stream(request: LlmRequest): AsyncGenerator<string> {
+  const model = request.model || DEFAULT_MODELS[request.provider];
+  request.signal?.throwIfAborted();
+  switch (request.provider) {
+    case 'claude':
+      for await (const data of sseData(await claudeRequest(request, model, true))) {
+        const event = JSON.parse(data);
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) yield event.delta.text;
+        if (event.type === 'error') throw new LlmError(`Claude API error: ${event.error?.message || 'stream failed'}`, 500);
+      }
+      return;
+    case 'gemini':
+      for await (const data of sseData(await geminiRequest(request, model, true))) {
+        const text = geminiText(JSON.parse(data));
+        if (text) yield text;
+      }
+      return;
+    case 'mock': {
+      // Word by word, so streaming clients can be exercised offline
+      for (const word of completeMock(request).match(/\S+\s*/g) || []) {
+        request.signal?.throwIfAborted();
+        yield word;
+      }
+      return;
+    }
+    default:
+      for await (const data of sseData(await openAiCompatibleRequest(request, model, true))) {
+        if (data === '[DONE]') return;
+        const text = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+  }
+}
+
+// Models sometimes wrap JSON in prose or code fences even in JSON mode
+export const parseJsonContent = <T = unknown>(content: string): T => {
+  try {
+    return JSON.parse(content);
+  } catch {
+    const fenced = content.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
+    const candidate = fenced ? fenced[1] : content.match(/\{[\s\S]*\}/)?.[0];
+    if (candidate) {
+      try {
+        return JSON.parse(candidate);
+      } catch {
+        // Fall through to the error below
+      }
+    }
+    console.error('Failed to parse AI response:', content);
+    throw new LlmError('Failed to parse AI response', 500);
+  }
+};
+
+export const llmErrorResponse = (error: LlmError, headers: Record<string, string>) =>
+  new Response(
+    JSON.stringify({ error: error.message }),
+    { status: error.status, headers: { ...headers, 'Content-Type': 'application/json' } }
+  );
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { complete, LLM_PROVIDERS, LlmError, llmErrorResponse, parseJsonContent, resolveProvider } from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -9,7 +10,8 @@ const corsHeaders = {
 const requestSchema = z.object({
   query: z.string().min(1).max(500),
   pdfContent: z.array(z.any()).max(100),
-  model: z.string().max(50).default('gemini')
+  model: z.string().max(50).default('gemini'),
+  provider: z.enum(LLM_PROVIDERS).optional()
 });
 
 serve(async (req) => {
@@ -19,7 +21,7 @@ serve(async (req) => {
 
   try {
     const rawBody = await req.json();
-    const { query, pdfContent, model } = requestSchema.parse(rawBody);
+    const { query, pdfContent, model, provider: requestedProvider } = requestSchema.parse(rawBody);
 
     const pdfContext = pdfContent.map((doc: any) => 
       `Document: ${doc.fileName}\n${doc.pages.map((p: any) => 
@@ -35,94 +37,17 @@ serve(async (req) => {
 
     const userPrompt = `Query: ${query}\n\n=== PDF CONTENT ===\n${pdfContext}`;
 
-    let response;
-    
-    if (model === "claude") {
-      const ANTHROPIC_API_KEY = Deno.env.get("ANTHROPIC_API_KEY");
-      if (!ANTHROPIC_API_KEY) {
-        return new Response(
-          JSON.stringify({ error: "ANTHROPIC_API_KEY not configured" }),
-          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-
-      console.log("Calling Claude API for PDF analysis");
-
-      response = await fetch("https://api.anthropic.com/v1/messages", {
-        method: "POST",
-        headers: {
-          "x-api-key": ANTHROPIC_API_KEY,
-          "anthropic-version": "2023-06-01",
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "claude-sonnet-4-20250514",
-          max_tokens: 2048,
-          system: systemPrompt,
-          messages: [{ role: "user", content: userPrompt }],
-        }),
-      });
-    } else {
-      const GOOGLE_API_KEY = Deno.env.get("GOOGLE_API_KEY");
-      if (!GOOGLE_API_KEY) {
-        return new Response(
-          JSON.stringify({ error: "GOOGLE_API_KEY not configured" }),
-          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-
-      console.log("Calling Gemini API for PDF analysis");
-
-      response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${GOOGLE_API_KEY}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            contents: [{
-              role: "user",
-              parts: [{ text: `${systemPrompt}\n\n${userPrompt}` }]
-            }],
-            generationConfig: {
-              responseMimeType: "application/json"
-            }
-          }),
-        }
-      );
-    }
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("AI Gateway error:", response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again later." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "AI credits exhausted. Please add credits to your workspace." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-
-      return new Response(
-        JSON.stringify({ error: "AI analysis failed" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+    // Legacy "model" values pick between Claude and Gemini; "provider" selects any configured provider
+    const provider = resolveProvider(requestedProvider, model === "claude" ? "claude" : "gemini");
+    console.log(`Calling ${provider} for PDF analysis`);
 
-    const aiResponse = await response.json();
-    let aiContent;
-    
-    if (model === "claude") {
-      aiContent = aiResponse.content[0].text;
-    } else {
-      aiContent = aiResponse.candidates[0].content.parts[0].text;
-    }
+    const { content: aiContent } = await complete({
+      provider,
+      system: systemPrompt,
+      messages: [{ role: "user", content: userPrompt }],
+      maxTokens: 2048,
+      json: true,
+    });
 
     if (!aiContent) {
       return new Response(
@@ -131,31 +56,8 @@ serve(async (req) => {
       );
     }
 
-    let analysisResult;
-    try {
-      analysisResult = JSON.parse(aiContent);
-      console.log("Parsed analysis result:", JSON.stringify(analysisResult));
-    } catch (e) {
-      console.error("Failed to parse AI response:", aiContent);
-      console.error("Parse error:", e);
-      
-      const jsonMatch = aiContent.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        try {
-          analysisResult = JSON.parse(jsonMatch[0]);
-        } catch (e2) {
-          return new Response(
-            JSON.stringify({ error: "Failed to parse AI response", rawResponse: aiContent }),
-            { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-      } else {
-        return new Response(
-          JSON.stringify({ error: "No valid JSON in AI response", rawResponse: aiContent }),
-          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-    }
+    const analysisResult = parseJsonContent(aiContent);
+    console.log("Parsed analysis result:", JSON.stringify(analysisResult));
 
     return new Response(
       JSON.stringify(analysisResult),
@@ -171,6 +73,10 @@ serve(async (req) => {
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
+
+    if (error instanceof LlmError) {
+      return llmErrorResponse(error, corsHeaders);
+    }
     
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
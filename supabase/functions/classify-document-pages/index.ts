@@ -0,0 +1,112 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { complete, LLM_PROVIDERS, LlmError, llmErrorResponse, parseJsonContent, resolveProvider } from "../_shared/llm.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DOCUMENT_TYPES = ['gp_note', 'imaging_report', 'specialist_letter', 'discharge_summary', 'form', 'other'] as const;
+
+// Only the top of each page is sent; headers and openings carry most of the signal
+const PAGE_TEXT_LIMIT = 1500;
+
+const requestSchema = z.object({
+  fileName: z.string().max(255),
+  pages: z.array(z.object({
+    pageNum: z.number().int().positive(),
+    text: z.string().max(50000),
+  })).min(1).max(50),
+  // Type of the page just before this batch, so a document running across batches is not split
+  previousType: z.enum(DOCUMENT_TYPES).optional(),
+  provider: z.enum(LLM_PROVIDERS).optional()
+});
+
+interface ClassifiedPage {
+  pageNum: number;
+  type: string;
+  startsDocument: boolean;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const rawBody = await req.json();
+    const { fileName, pages, previousType, provider } = requestSchema.parse(rawBody);
+
+    console.log(`Classifying ${pages.length} pages of ${fileName}`);
+
+    const systemPrompt = `You classify pages of combined medical records. One PDF often concatenates several documents: GP notes, radiology reports, specialist letters, discharge summaries and forms. For every page, decide its document type and whether a new document starts on that page.
+
+Document types:
+- gp_note: general practice consultation notes, progress notes, medication lists from a GP record
+- imaging_report: X-ray, CT, MRI, ultrasound, bone scan or other radiology reports
+- specialist_letter: letters from specialists or allied health, usually addressed to another doctor
+- discharge_summary: hospital discharge summaries and admission summaries
+- form: claim forms, questionnaires, consent forms, referral forms and other fill-in templates
+- other: anything else
+
+Return ONLY JSON in this exact format:
+{"pages": [{"pageNum": 1, "type": "imaging_report", "startsDocument": true}]}
+
+A continuation page of the same document has startsDocument false and the same type as the page before it.`;
+
+    const pageList = pages
+      .map(({ pageNum, text }) => `--- Page ${pageNum} ---\n${text.trim().slice(0, PAGE_TEXT_LIMIT) || '(no text)'}`)
+      .join('\n\n');
+
+    const userPrompt = `File: ${fileName}
+${previousType ? `The page before page ${pages[0].pageNum} was classified as ${previousType}.\n` : ''}
+${pageList}`;
+
+    const { content } = await complete({
+      provider: resolveProvider(provider, 'lovable'),
+      system: systemPrompt,
+      messages: [{ role: 'user', content: userPrompt }],
+      maxTokens: 4096,
+      temperature: 0,
+      json: true,
+    });
+
+    const parsed = parseJsonContent<{ pages?: ClassifiedPage[] }>(content);
+    const requested = new Set(pages.map(p => p.pageNum));
+
+    // Drop pages the model invented and coerce unknown types to "other"
+    const classified = (parsed.pages || [])
+      .filter(page => requested.has(page.pageNum))
+      .map(page => ({
+        pageNum: page.pageNum,
+        type: (DOCUMENT_TYPES as readonly string[]).includes(page.type) ? page.type : 'other',
+        startsDocument: !!page.startsDocument,
+      }));
+
+    console.log(`Classified ${classified.length} of ${pages.length} pages`);
+
+    return new Response(
+      JSON.stringify({ pages: classified }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in classify-document-pages:', error);
+
+    if (error instanceof z.ZodError) {
+      return new Response(
+        JSON.stringify({ error: "Invalid input", details: error.errors }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (error instanceof LlmError) {
+      return llmErrorResponse(error, corsHeaders);
+    }
+
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { PDFDocument, rgb, StandardFonts } from "https://esm.sh/pdf-lib@1.17.1";
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { complete, LLM_PROVIDERS, LlmError, llmErrorResponse, parseJsonContent, resolveProvider } from "../_shared/llm.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,9 +10,18 @@ const corsHeaders = {
 
 const requestSchema = z.object({
   diagnosis: z.string().min(1).max(500),
-  pdfContent: z.string().max(200000)
+  pdfContent: z.string().max(200000),
+  provider: z.enum(LLM_PROVIDERS).optional()
 });
 
+interface DiagnosisFormData {
+  medicalDiagnosis?: string;
+  basisForDiagnosis?: string;
+  relatedConditions?: string;
+  dateOfOnset?: string;
+  firstConsultation?: string;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -19,15 +29,7 @@ serve(async (req) => {
 
   try {
     const rawBody = await req.json();
-    const { diagnosis, pdfContent } = requestSchema.parse(rawBody);
-
-    const ANTHROPIC_API_KEY = Deno.env.get('ANTHROPIC_API_KEY');
-    if (!ANTHROPIC_API_KEY) {
-      return new Response(
-        JSON.stringify({ error: 'ANTHROPIC_API_KEY not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    const { diagnosis, pdfContent, provider } = requestSchema.parse(rawBody);
 
     console.log('Generating diagnosis form for:', diagnosis);
 
@@ -51,51 +53,17 @@ ${pdfContent}
 
 Analyze these medical records and extract information for a DVA Diagnosis Form.`;
 
-    const aiResponse = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'x-api-key': ANTHROPIC_API_KEY,
-        'anthropic-version': '2023-06-01',
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 2048,
-        messages: [
-          { 
-            role: 'user', 
-            content: `${systemPrompt}\n\n${userPrompt}` 
-          }
-        ],
-      }),
+    const { content: aiContent } = await complete({
+      provider: resolveProvider(provider, 'claude'),
+      system: systemPrompt,
+      messages: [{ role: 'user', content: userPrompt }],
+      maxTokens: 2048,
+      json: true,
     });
-
-    if (!aiResponse.ok) {
-      const errorText = await aiResponse.text();
-      console.error('Claude API error:', aiResponse.status, errorText);
-      return new Response(
-        JSON.stringify({ error: 'AI service error' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const aiData = await aiResponse.json();
-    const aiContent = aiData.content?.[0]?.text || '';
     
-    console.log('Claude response:', aiContent);
-
-    let formData;
-    try {
-      const jsonMatch = aiContent.match(/```json\s*(\{[\s\S]*?\})\s*```/) || 
-                       aiContent.match(/(\{[\s\S]*\})/);
-      formData = JSON.parse(jsonMatch ? jsonMatch[1] : aiContent);
-    } catch (e) {
-      console.error('Failed to parse Claude response:', e);
-      return new Response(
-        JSON.stringify({ error: 'Failed to parse AI response' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
+    console.log('AI response:', aiContent);
+
+    const formData = parseJsonContent<DiagnosisFormData>(aiContent);
 
     const pdfDoc = await PDFDocument.create();
     const page = pdfDoc.addPage([595, 842]);
@@ -182,6 +150,10 @@ Analyze these medical records and extract information for a DVA Diagnosis Form.`
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
+
+    if (error instanceof LlmError) {
+      return llmErrorResponse(error, corsHeaders);
+    }
     
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
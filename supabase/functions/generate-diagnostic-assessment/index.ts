@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { complete, imagePart, LLM_PROVIDERS, LlmError, llmErrorResponse, resolveProvider, type ContentPart } from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,16 +8,35 @@ const corsHeaders = {
 };
 
 const contentSchema = z.object({
+  fileId: z.string().max(500),
+  fileName: z.string().max(500),
   pageNumber: z.number().int().positive(),
   text: z.string().max(50000).optional(),
   image: z.string().max(10 * 1024 * 1024).optional()
 });
 
+const sopSchema = z.object({
+  condition: z.string().max(500),
+  standard: z.enum(['rh', 'bop']),
+  instrumentNumber: z.string().max(100),
+  effectiveFrom: z.string().max(20),
+  icdCodes: z.array(z.string().max(20)).max(50),
+  factors: z.array(z.object({
+    number: z.string().max(20),
+    kind: z.enum(['onset', 'worsening']),
+    text: z.string().max(5000)
+  })).max(200)
+});
+
 const requestSchema = z.object({
   instructions: z.string().min(1).max(5000),
   selectedContent: z.array(contentSchema).min(1).max(50),
   sopContent: z.string().max(100000).optional(),
-  model: z.string().max(50).default('gemini')
+  // Instruments picked from the SOP library, sent with their numbered factors
+  sops: z.array(sopSchema).max(10).optional(),
+  timeline: z.string().max(50000).optional(),
+  model: z.string().max(50).default('gemini'),
+  provider: z.enum(LLM_PROVIDERS).optional()
 });
 
 serve(async (req) => {
@@ -26,19 +46,16 @@ serve(async (req) => {
 
   try {
     const rawBody = await req.json();
-    const { instructions, selectedContent, sopContent, model } = requestSchema.parse(rawBody);
+    const { instructions, selectedContent, sopContent, sops, timeline, model, provider: requestedProvider } = requestSchema.parse(rawBody);
 
     console.log(`Received ${selectedContent.length} pages`);
     console.log(`Pages with images: ${selectedContent.filter((p: any) => p.image).length}`);
     console.log(`Pages with text: ${selectedContent.filter((p: any) => p.text && p.text.trim()).length}`);
 
-    // Build context from selected pages with images
-    const contentParts: any[] = [];
-    
     // Add text context (but emphasize that images are the primary source)
     let textContext = "Selected PDF Pages:\n\n";
     selectedContent.forEach((page: any, index: number) => {
-      textContext += `Page ${index + 1}: ${page.fileName} (Original Page ${page.pageNum})\n`;
+      textContext += `Page ${index + 1}: ${page.fileName} (Original Page ${page.pageNumber})\n`;
       if (page.text && page.text.trim()) {
         textContext += `Extracted text: ${page.text.substring(0, 500)}${page.text.length > 500 ? '...' : ''}\n`;
       } else {
@@ -47,12 +64,39 @@ serve(async (req) => {
       textContext += `\n`;
     });
 
+    if (sops && sops.length > 0) {
+      textContext += "\n\n=== STATEMENTS OF PRINCIPLES (from the SOP library) ===\n";
+      textContext += "Use these instruments for the SOP codes and factor analysis. Quote factors verbatim and cite them by their factor number.\n";
+      sops.forEach((sop) => {
+        const standard = sop.standard === 'rh' ? 'Reasonable Hypothesis' : 'Balance of Probabilities';
+        textContext += `\nStatement of Principles concerning ${sop.condition} (${standard}) (${sop.instrumentNumber}), in effect from ${sop.effectiveFrom}\n`;
+        if (sop.icdCodes.length > 0) textContext += `ICD-10-AM codes: ${sop.icdCodes.join(', ')}\n`;
+        const onset = sop.factors.filter((factor) => factor.kind === 'onset');
+        const worsening = sop.factors.filter((factor) => factor.kind === 'worsening');
+        if (onset.length > 0) {
+          textContext += "Onset factors:\n";
+          onset.forEach((factor) => { textContext += `  ${factor.number} ${factor.text}\n`; });
+        }
+        if (worsening.length > 0) {
+          textContext += "Clinical worsening factors:\n";
+          worsening.forEach((factor) => { textContext += `  ${factor.number} ${factor.text}\n`; });
+        }
+      });
+    }
+
     // Add SOP content if provided
     if (sopContent) {
       textContext += "\n\n=== UPLOADED SOP DOCUMENTS (from rma.gov.au) ===\n";
       textContext += sopContent;
     }
 
+    // Dated events extracted from every page of the workspace, not just the selected ones
+    if (timeline) {
+      textContext += "\n\n=== CLINICAL CHRONOLOGY (use for the Timeline heading) ===\n";
+      textContext += "Each line is a dated event found in the records, oldest first, with a verbatim snippet in italics. Keep only events relevant to the condition, keep the snippets verbatim and expand each entry as the Timeline instructions ask.\n";
+      textContext += timeline;
+    }
+
     const systemPrompt = `You are a medical diagnostic assessment specialist. Your task is to analyze the provided PDF page images and create a comprehensive diagnostic assessment based on the specific instructions given.
 
 CRITICAL: You have been provided with HIGH-RESOLUTION images of the selected PDF pages. These images are your PRIMARY source of information. Read and analyze ALL text, tables, and information visible in these images carefully.
@@ -70,177 +114,36 @@ ${textContext}
 
 IMPORTANT: ${selectedContent.length} page image(s) are attached below. These contain the complete medical records you need to analyze. Please examine each image carefully and extract all relevant medical information to complete the diagnostic assessment as per the DIA instructions above.`;
 
-    let response;
-
-    if (model === "claude") {
-      const ANTHROPIC_API_KEY = Deno.env.get("ANTHROPIC_API_KEY");
-      if (!ANTHROPIC_API_KEY) {
-        throw new Error("ANTHROPIC_API_KEY is not configured");
-      }
-
-      console.log("Calling Claude API for diagnostic assessment");
-
-      // Build content array with text and images for Claude
-      const claudeContent: any[] = [
-        { type: "text", text: `${systemPrompt}\n\n${userPrompt}` }
-      ];
-
-      // Add images from selected pages
-      selectedContent.forEach((page: any, index: number) => {
-        if (page.image) {
-          // Add a text label before each image
-          claudeContent.push({
-            type: "text",
-            text: `\n=== IMAGE ${index + 1}: ${page.fileName} - Page ${page.pageNum} ===`
-          });
-          
-          // Claude expects base64 image data without the data URL prefix
-          const base64Data = page.image.split(',')[1] || page.image;
-          const mediaType = page.image.startsWith('data:image/png') ? 'image/png' : 'image/jpeg';
-          
-          claudeContent.push({
-            type: "image",
-            source: {
-              type: "base64",
-              media_type: mediaType,
-              data: base64Data
-            }
-          });
-        } else {
-          console.warn(`Page ${index + 1} (${page.fileName} p${page.pageNum}) has no image`);
-        }
-      });
-
-      response = await fetch("https://api.anthropic.com/v1/messages", {
-        method: "POST",
-        headers: {
-          "x-api-key": ANTHROPIC_API_KEY,
-          "anthropic-version": "2023-06-01",
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "claude-sonnet-4-20250514",
-          max_tokens: 8000,
-          messages: [
-            {
-              role: "user",
-              content: claudeContent
-            }
-          ],
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("Claude API error:", response.status, errorText);
-        console.error("Request details - Images:", selectedContent.filter((p: any) => p.image).length);
-        console.error("Request details - Content parts:", claudeContent.length);
-        
-        if (response.status === 429) {
-          return new Response(
-            JSON.stringify({ error: "Rate limits exceeded, please try again later." }),
-            { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-        if (response.status === 402) {
-          return new Response(
-            JSON.stringify({ error: "Payment required, please add funds." }),
-            { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-        if (response.status === 401) {
-          return new Response(
-            JSON.stringify({ error: "Invalid API key. Please check your ANTHROPIC_API_KEY in settings." }),
-            { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-        throw new Error(`Claude API error: ${response.status} - ${errorText}`);
-      }
-
-      const data = await response.json();
-      const assessment = data.content[0].text;
-
-      return new Response(
-        JSON.stringify({ assessment }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    } else {
-      // Use Gemini (default)
-      const GOOGLE_API_KEY = Deno.env.get("GOOGLE_API_KEY");
-      if (!GOOGLE_API_KEY) {
-        throw new Error("GOOGLE_API_KEY is not configured");
-      }
-
-      console.log("Calling Gemini API for diagnostic assessment");
+    const provider = resolveProvider(requestedProvider, model === "claude" ? "claude" : "gemini");
+    console.log(`Calling ${provider} for diagnostic assessment`);
 
-      // Build content parts with text and images for Gemini
-      const geminiParts: any[] = [
-        { text: systemPrompt },
-        { text: userPrompt }
-      ];
-
-      // Add images from selected pages with labels
-      selectedContent.forEach((page: any, index: number) => {
-        if (page.image) {
-          // Add a text label before each image
-          geminiParts.push({
-            text: `\n=== IMAGE ${index + 1}: ${page.fileName} - Page ${page.pageNum} ===`
-          });
-          
-          // Gemini expects inline data with base64
-          const base64Data = page.image.split(',')[1] || page.image;
-          const mimeType = page.image.startsWith('data:image/png') ? 'image/png' : 'image/jpeg';
-          
-          geminiParts.push({
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Data
-            }
-          });
-        } else {
-          console.warn(`Page ${index + 1} (${page.fileName} p${page.pageNum}) has no image`);
-        }
-      });
-
-      response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${GOOGLE_API_KEY}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            contents: [
-              {
-                parts: geminiParts,
-              },
-            ],
-            generationConfig: {
-              maxOutputTokens: 8000,
-              temperature: 0.7,
-            },
-          }),
-        }
-      );
+    const userContent: ContentPart[] = [{ type: "text", text: userPrompt }];
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("Gemini API error:", response.status, errorText);
-        if (response.status === 429) {
-          return new Response(
-            JSON.stringify({ error: "Rate limits exceeded, please try again later." }),
-            { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-        throw new Error(`Gemini API error: ${response.status}`);
+    // Label each image so the model can tell the pages apart
+    selectedContent.forEach((page: any, index: number) => {
+      if (page.image) {
+        userContent.push({
+          type: "text",
+          text: `\n=== IMAGE ${index + 1}: ${page.fileName} - Page ${page.pageNumber} ===`
+        });
+        userContent.push(imagePart(page.image));
+      } else {
+        console.warn(`Page ${index + 1} (${page.fileName} p${page.pageNumber}) has no image`);
       }
+    });
 
-      const data = await response.json();
-      const assessment = data.candidates[0].content.parts[0].text;
+    const { content: assessment } = await complete({
+      provider,
+      system: systemPrompt,
+      messages: [{ role: "user", content: userContent }],
+      maxTokens: 8000,
+      temperature: provider === "gemini" ? 0.7 : undefined,
+    });
 
-      return new Response(
-        JSON.stringify({ assessment }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+    return new Response(
+      JSON.stringify({ assessment }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
   } catch (error) {
     console.error("Error in generate-diagnostic-assessment:", error);
     
@@ -250,6 +153,10 @@ IMPORTANT: ${selectedContent.length} page image(s) are attached below. These con
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
+
+    if (error instanceof LlmError) {
+      return llmErrorResponse(error, corsHeaders);
+    }
     
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
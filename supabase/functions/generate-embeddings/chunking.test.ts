@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { chunkText } from "./chunking.ts";
+
+const TEXT = "First sentence here. Second sentence is a bit longer! Third one?\nFourth line without stop\nFifth.";
+
+describe("chunkText", () => {
+  it("packs whole sentences into chunks no longer than the limit", () => {
+    const chunks = chunkText(TEXT, 50, 0);
+    expect(chunks.map(c => c.content)).toEqual([
+      "First sentence here.",
+      "Second sentence is a bit longer! Third one?",
+      "Fourth line without stop\nFifth.",
+    ]);
+    chunks.forEach(chunk => expect(chunk.content.length).toBeLessThanOrEqual(50));
+  });
+
+  it("reports where each chunk sits in the page text", () => {
+    chunkText(TEXT, 50, 25).forEach(chunk => {
+      expect(TEXT.slice(chunk.start, chunk.end)).toBe(chunk.content);
+    });
+  });
+
+  it("repeats the previous chunk's trailing sentences within the overlap", () => {
+    const chunks = chunkText(TEXT, 50, 25);
+    expect(chunks[2].content.startsWith("Third one?")).toBe(true);
+    expect(chunks[1].content.endsWith("Third one?")).toBe(true);
+  });
+
+  it("breaks long sentences at whitespace and only cuts words longer than a chunk", () => {
+    const chunks = chunkText(`a a a ${"x".repeat(25)}`, 10, 0);
+    expect(chunks.map(c => c.content)).toEqual(["a a a", "xxxxxxxxxx", "xxxxxxxxxx", "xxxxx"]);
+  });
+
+  it("returns nothing for blank text", () => {
+    expect(chunkText(" \n\n ", 50, 10)).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+// A chunk of page text together with its position in the page, so search hits can be
+// highlighted in the source page. start is inclusive and end exclusive.
+export interface TextChunk {
+  content: string;
+  start: number;
+  end: number;
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+// Sentence ends are terminal punctuation (optionally followed by closing quotes or brackets)
+// before whitespace, or a line break
+const SENTENCE_BOUNDARY = /[.!?]+["')\]]*\s+|\n\s*/g;
+
+const splitSentences = (text: string): Span[] => {
+  const spans: Span[] = [];
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  SENTENCE_BOUNDARY.lastIndex = 0;
+  while ((match = SENTENCE_BOUNDARY.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+    if (text.slice(start, end).trim()) spans.push({ start, end });
+    start = end;
+  }
+  if (text.slice(start).trim()) spans.push({ start, end: text.length });
+
+  return spans;
+};
+
+// Sentences longer than a chunk are broken at the last whitespace that fits, and only cut
+// mid-word when a single word is longer than the chunk
+const splitLongSpan = (text: string, span: Span, maxChars: number): Span[] => {
+  const pieces: Span[] = [];
+  let start = span.start;
+
+  while (span.end - start > maxChars) {
+    const window = text.slice(start, start + maxChars);
+    const lastSpace = window.search(/\s\S*$/);
+    const end = lastSpace > 0 ? start + lastSpace + 1 : start + maxChars;
+    pieces.push({ start, end });
+    start = end;
+  }
+  pieces.push({ start, end: span.end });
+
+  return pieces;
+};
+
+const trimSpan = (text: string, span: Span): TextChunk => {
+  const raw = text.slice(span.start, span.end);
+  const leading = raw.length - raw.trimStart().length;
+  const content = raw.trim();
+  return { content, start: span.start + leading, end: span.start + leading + content.length };
+};
+
+// Pack whole sentences into chunks of at most maxChars. Each chunk after the first repeats
+// the trailing sentences of the previous one, up to overlapChars, so context that straddles
+// a boundary is embedded with both neighbours.
+export const chunkText = (text: string, maxChars: number, overlapChars: number): TextChunk[] => {
+  const units = splitSentences(text).flatMap(span => splitLongSpan(text, span, maxChars));
+  const chunks: TextChunk[] = [];
+
+  let first = 0;
+  while (first < units.length) {
+    const start = units[first].start;
+    let last = first;
+    while (last + 1 < units.length && units[last + 1].end - start <= maxChars) last++;
+
+    chunks.push(trimSpan(text, { start, end: units[last].end }));
+    if (last + 1 >= units.length) break;
+
+    // Step back over sentences that fit in the overlap, always moving forward at least one unit,
+    // then give up overlap that would leave no room for the next new sentence
+    let next = last + 1;
+    while (next - 1 > first && units[last].end - units[next - 1].start <= overlapChars) next--;
+    while (next <= last && units[last + 1].end - units[next].start > maxChars) next++;
+    first = next;
+  }
+
+  return chunks.filter(chunk => chunk.content);
+};
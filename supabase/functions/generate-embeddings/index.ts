@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { chunkText } from "./chunking.ts";
+import { getEmbeddingProvider, type EmbeddingProvider } from "../_shared/embeddings.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,10 +11,87 @@ const corsHeaders = {
 
 const requestSchema = z.object({
   fileId: z.string().uuid(),
-  content: z.string().max(100000),
-  pageNumber: z.number().int().positive()
+  content: z.string().max(100000).optional(),
+  pageNumber: z.number().int().positive().optional(),
+  // Re-embed the stored text of every page of the file that is missing embeddings or was embedded with another model
+  rebuild: z.boolean().default(false),
+  maxPages: z.number().int().min(1).max(200).default(50),
+  chunkSize: z.number().int().min(200).max(4000).default(1000),
+  chunkOverlap: z.number().int().min(0).max(1000).default(150)
+}).refine(body => body.chunkOverlap < body.chunkSize / 2, {
+  message: "chunkOverlap must be less than half of chunkSize"
+}).refine(body => body.rebuild || (body.content !== undefined && body.pageNumber !== undefined), {
+  message: "content and pageNumber are required unless rebuilding"
 });
 
+// Chunks sent to the embeddings API per request
+const EMBEDDING_BATCH_SIZE = 64;
+
+// Chunk one page, embed the chunks in batches and upsert them. Returns how many chunks were stored.
+const embedPage = async (
+  supabase: SupabaseClient,
+  provider: EmbeddingProvider,
+  fileId: string,
+  pageNumber: number,
+  content: string,
+  chunkSize: number,
+  chunkOverlap: number
+) => {
+  const chunks = chunkText(content, chunkSize, chunkOverlap);
+
+  console.log(`Generating ${provider.model} embeddings for ${chunks.length} chunks from file ${fileId}, page ${pageNumber}`);
+
+  let chunksEmbedded = 0;
+
+  for (let batchStart = 0; batchStart < chunks.length; batchStart += EMBEDDING_BATCH_SIZE) {
+    const batch = chunks.slice(batchStart, batchStart + EMBEDDING_BATCH_SIZE);
+
+    try {
+      const embeddings = await provider.embed(batch.map(chunk => chunk.content));
+
+      const rows = batch.map((chunk, i) => ({
+        file_id: fileId,
+        page_number: pageNumber,
+        chunk_index: batchStart + i,
+        content: chunk.content,
+        char_start: chunk.start,
+        char_end: chunk.end,
+        embedding: embeddings[i],
+        embedding_model: provider.model,
+        embedding_dimension: provider.dimension,
+      }));
+
+      // Keyed on file, page and chunk so re-running a page replaces its chunks instead of duplicating them
+      const { error: upsertError } = await supabase
+        .from('document_embeddings')
+        .upsert(rows, { onConflict: 'file_id,page_number,chunk_index' });
+
+      if (upsertError) {
+        console.error(`Error storing embeddings for chunks ${batchStart}-${batchStart + batch.length - 1}:`, upsertError);
+        continue;
+      }
+
+      chunksEmbedded += rows.length;
+    } catch (batchError) {
+      console.error(`Error processing chunks ${batchStart}-${batchStart + batch.length - 1}:`, batchError);
+    }
+  }
+
+  // A shorter re-run leaves chunks from the previous run beyond the new last index
+  const { error: cleanupError } = await supabase
+    .from('document_embeddings')
+    .delete()
+    .eq('file_id', fileId)
+    .eq('page_number', pageNumber)
+    .gte('chunk_index', chunks.length);
+
+  if (cleanupError) {
+    console.error('Error removing stale chunks:', cleanupError);
+  }
+
+  return { chunksProcessed: chunks.length, chunksEmbedded };
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -20,86 +99,70 @@ serve(async (req) => {
 
   try {
     const rawBody = await req.json();
-    const { fileId, content, pageNumber } = requestSchema.parse(rawBody);
+    const { fileId, content, pageNumber, rebuild, maxPages, chunkSize, chunkOverlap } = requestSchema.parse(rawBody);
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
     const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
     const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
 
-    if (!LOVABLE_API_KEY || !SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
       throw new Error("Missing environment variables");
     }
 
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const provider = getEmbeddingProvider();
+
+    if (!rebuild) {
+      const result = await embedPage(supabase, provider, fileId, pageNumber!, content!, chunkSize, chunkOverlap);
+
+      console.log(`Stored ${result.chunksEmbedded}/${result.chunksProcessed} embeddings for file ${fileId}, page ${pageNumber}`);
 
-    const chunkSize = 1000;
-    const chunks: string[] = [];
-    
-    for (let i = 0; i < content.length; i += chunkSize) {
-      chunks.push(content.slice(i, i + chunkSize));
+      return new Response(
+        JSON.stringify({ success: result.chunksEmbedded === result.chunksProcessed, ...result, model: provider.model }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    console.log(`Generating embeddings for ${chunks.length} chunks from file ${fileId}, page ${pageNumber}`);
-
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      
-      try {
-        const embeddingResponse = await fetch("https://ai.gateway.lovable.dev/v1/embeddings", {
-          method: "POST",
-          headers: {
-            "Authorization": `Bearer ${LOVABLE_API_KEY}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: "text-embedding-3-small",
-            input: chunk,
-          }),
-        });
-
-        if (!embeddingResponse.ok) {
-          const errorText = await embeddingResponse.text();
-          console.error(`Embedding API error for chunk ${i}:`, embeddingResponse.status, errorText);
-          continue;
-        }
-
-        const embeddingData = await embeddingResponse.json();
-        const embedding = embeddingData.data[0].embedding;
-
-        const { error: insertError } = await supabase
-          .from('document_embeddings')
-          .insert({
-            file_id: fileId,
-            page_number: pageNumber,
-            chunk_index: i,
-            content: chunk,
-            embedding: embedding,
-          });
-
-        if (insertError) {
-          console.error(`Error inserting embedding for chunk ${i}:`, insertError);
-        }
-      } catch (chunkError) {
-        console.error(`Error processing chunk ${i}:`, chunkError);
+    // Rebuild runs a bounded number of pages per call; callers repeat until remainingPages is 0
+    const { data: stalePages, error: staleError } = await supabase.rpc('stale_embedding_pages', {
+      _file_id: fileId,
+      _embedding_model: provider.model,
+    });
+    if (staleError) throw staleError;
+
+    const pagesToRebuild = (stalePages || []).slice(0, maxPages).map((p: { page_number: number }) => p.page_number);
+    let pagesRebuilt = 0;
+
+    if (pagesToRebuild.length > 0) {
+      const { data: pages, error: pagesError } = await supabase
+        .from('file_pages')
+        .select('page_number, extracted_text')
+        .eq('file_id', fileId)
+        .in('page_number', pagesToRebuild);
+      if (pagesError) throw pagesError;
+
+      for (const page of pages || []) {
+        const result = await embedPage(supabase, provider, fileId, page.page_number, (page.extracted_text || '').substring(0, 100000), chunkSize, chunkOverlap);
+        if (result.chunksEmbedded === result.chunksProcessed) pagesRebuilt++;
       }
     }
 
-    console.log(`Successfully generated and stored embeddings for file ${fileId}, page ${pageNumber}`);
+    const remainingPages = (stalePages || []).length - pagesRebuilt;
+    console.log(`Rebuilt ${pagesRebuilt} pages of file ${fileId} with ${provider.model}, ${remainingPages} remaining`);
 
     return new Response(
-      JSON.stringify({ success: true, chunksProcessed: chunks.length }),
+      JSON.stringify({ success: true, pagesRebuilt, remainingPages, model: provider.model }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
     console.error('Error in generate-embeddings:', error);
-    
+
     if (error instanceof z.ZodError) {
       return new Response(
         JSON.stringify({ error: "Invalid input", details: error.errors }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
-    
+
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
       { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -0,0 +1,108 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { getEmbeddingProvider } from "../_shared/embeddings.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const isoDate = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const requestSchema = z.object({
+  query: z.string().min(1).max(500),
+  workspaceId: z.string().uuid(),
+  // Restricts the search to some of the workspace's files; leave out to search all of them
+  fileIds: z.array(z.string().uuid()).max(500).optional(),
+  pageFrom: z.number().int().positive().optional(),
+  pageTo: z.number().int().positive().optional(),
+  // ISO dates or timestamps, compared against when files were added to the workspace
+  dateFrom: z.string().regex(isoDate).optional(),
+  dateTo: z.string().regex(isoDate).optional(),
+  // Only pages classified as one of these document types
+  documentTypes: z.array(z.enum(['gp_note', 'imaging_report', 'specialist_letter', 'discharge_summary', 'form', 'other'])).max(6).optional(),
+  limit: z.number().int().positive().max(100).default(10),
+  minSimilarity: z.number().min(0).max(1).default(0.2)
+}).refine(body => !body.pageFrom || !body.pageTo || body.pageFrom <= body.pageTo, {
+  message: "pageFrom must not be after pageTo"
+});
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const rawBody = await req.json();
+    const { query, workspaceId, fileIds, pageFrom, pageTo, dateFrom, dateTo, documentTypes, limit, minSimilarity } = requestSchema.parse(rawBody);
+
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+
+    if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+      throw new Error("Missing environment variables");
+    }
+
+    // Search as the caller so workspace RLS decides which files are visible
+    const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: req.headers.get('Authorization') || '' } }
+    });
+
+    console.log(`Performing hybrid search for query: "${query}"`);
+
+    // Keyword ranking still works without an embedding, so a failed embedding call degrades the search instead of failing it
+    let queryEmbedding: number[] | null = null;
+    let embeddingModel: string | null = null;
+    try {
+      const provider = getEmbeddingProvider();
+      [queryEmbedding] = await provider.embed([query]);
+      embeddingModel = provider.model;
+    } catch (embeddingError) {
+      console.error('Query embedding failed, falling back to keyword ranking only:', embeddingError);
+    }
+
+    const { data: hits, error: searchError } = await supabase.rpc('hybrid_search_pages', {
+      _workspace_id: workspaceId,
+      _query: query,
+      _query_embedding: queryEmbedding,
+      _file_ids: fileIds && fileIds.length > 0 ? fileIds : null,
+      _page_from: pageFrom ?? null,
+      _page_to: pageTo ?? null,
+      _date_from: dateFrom ?? null,
+      // A plain end date includes that whole day
+      _date_to: dateTo ? (dateTo.length === 10 ? `${dateTo}T23:59:59.999Z` : dateTo) : null,
+      _match_count: limit,
+      _min_similarity: minSimilarity,
+      // Only compare against chunks embedded with the same model as the query
+      _embedding_model: embeddingModel,
+      _document_types: documentTypes && documentTypes.length > 0 ? documentTypes : null,
+    });
+
+    if (searchError) {
+      console.error('Search error:', searchError);
+      throw searchError;
+    }
+
+    console.log(`Found ${hits?.length || 0} relevant pages${queryEmbedding ? '' : ' (keyword ranking only)'}`);
+
+    return new Response(
+      JSON.stringify({ hits: hits || [], vectorSearch: queryEmbedding !== null }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in hybrid-search:', error);
+
+    if (error instanceof z.ZodError) {
+      return new Response(
+        JSON.stringify({ error: "Invalid input", details: error.errors }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,263 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { PDFDocument } from "https://esm.sh/pdf-lib@1.17.1";
+import { getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { getOcrEngine, extractSinglePage } from "./ocr.ts";
+import { claimJob, type IngestionJob } from "./jobs.ts";
+
+declare const EdgeRuntime: { waitUntil: (promise: Promise<unknown>) => void };
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const requestSchema = z.object({
+  fileId: z.string().uuid().optional(),
+  jobId: z.string().uuid().optional(),
+  pagesPerRun: z.number().int().min(1).max(100).default(20)
+}).refine(body => body.fileId || body.jobId, { message: "fileId or jobId is required" });
+
+// Pages whose text layer is shorter than this are treated as scanned images and sent to OCR
+const MIN_TEXT_LAYER_LENGTH = 25;
+
+// A running job that has not reported progress for this long is assumed dead and can be resumed
+const STALE_JOB_MS = 2 * 60 * 1000;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const rawBody = await req.json();
+    const { fileId, jobId, pagesPerRun } = requestSchema.parse(rawBody);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Continuation requests come from this function itself and carry the service role key
+    const authHeader = req.headers.get('Authorization') || '';
+    const isContinuation = authHeader === `Bearer ${supabaseServiceKey}`;
+
+    // Resolve the job, creating one for files uploaded before ingestion jobs existed
+    let jobQuery = supabase.from('ingestion_jobs').select('*');
+    jobQuery = jobId ? jobQuery.eq('id', jobId) : jobQuery.eq('file_id', fileId);
+    const { data: jobs, error: jobError } = await jobQuery.order('created_at', { ascending: false }).limit(1);
+    if (jobError) throw jobError;
+
+    let job = jobs?.[0];
+    const targetFileId = job?.file_id || fileId;
+
+    const { data: file, error: fileError } = await supabase
+      .from('workspace_files')
+      .select('id, workspace_id, file_path, file_name')
+      .eq('id', targetFileId)
+      .single();
+    if (fileError || !file) throw new Error('File not found');
+
+    // Other callers must be able to see the file through RLS
+    if (!isContinuation) {
+      const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+        global: { headers: { Authorization: authHeader } }
+      });
+      const { data: visible } = await userClient
+        .from('workspace_files')
+        .select('id')
+        .eq('id', file.id)
+        .maybeSingle();
+      if (!visible) {
+        return new Response(
+          JSON.stringify({ error: 'Not authorized for this file' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    if (!job) {
+      const { data: created, error: createError } = await supabase
+        .from('ingestion_jobs')
+        .insert({ file_id: file.id, workspace_id: file.workspace_id })
+        .select()
+        .single();
+      if (createError) throw createError;
+      job = created;
+    }
+
+    if (job.status === 'completed') {
+      return new Response(
+        JSON.stringify({ job }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const isActive = job.status === 'running' &&
+      Date.now() - new Date(job.updated_at).getTime() < STALE_JOB_MS;
+    if (isActive && !isContinuation) {
+      return new Response(
+        JSON.stringify({ job }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const ocrEngine = getOcrEngine();
+    const claimed = await claimJob(supabase, job, ocrEngine.name);
+    if (!claimed) {
+      const { data: current } = await supabase
+        .from('ingestion_jobs')
+        .select('*')
+        .eq('id', job.id)
+        .maybeSingle();
+      return new Response(
+        JSON.stringify({ job: current ?? job }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Respond straight away; pages are processed in the background and progress is polled from ingestion_jobs
+    EdgeRuntime.waitUntil(processBatch(supabase, claimed, file, pagesPerRun, supabaseUrl, supabaseServiceKey));
+
+    return new Response(
+      JSON.stringify({ job: claimed }),
+      { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in ingest-file:', error);
+
+    if (error instanceof z.ZodError) {
+      return new Response(
+        JSON.stringify({ error: "Invalid input", details: error.errors }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
+
+async function processBatch(
+  supabase: SupabaseClient,
+  job: IngestionJob,
+  file: { id: string; file_path: string; file_name: string },
+  pagesPerRun: number,
+  supabaseUrl: string,
+  supabaseServiceKey: string
+) {
+  try {
+    const ocrEngine = getOcrEngine();
+
+    const { data: blob, error: downloadError } = await supabase.storage
+      .from('pdf-files')
+      .download(file.file_path);
+    if (downloadError) throw downloadError;
+
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const pdf = await getDocumentProxy(bytes.slice());
+    const totalPages = pdf.numPages;
+    let sourceDoc: PDFDocument | null = null;
+
+    let nextPage = job.next_page;
+    let processedPages = job.processed_pages;
+    let ocrPages = job.ocr_pages;
+    const lastPage = Math.min(totalPages, nextPage + pagesPerRun - 1);
+
+    console.log(`Ingesting ${file.file_name} pages ${nextPage}-${lastPage} of ${totalPages} (job ${job.id})`);
+
+    for (let pageNum = nextPage; pageNum <= lastPage; pageNum++) {
+      const page = await pdf.getPage(pageNum);
+      const textContent = await page.getTextContent();
+      let text = textContent.items.map((item) => ('str' in item ? item.str : '')).join(' ').trim();
+      let textSource = 'text_layer';
+
+      if (text.length < MIN_TEXT_LAYER_LENGTH) {
+        sourceDoc = sourceDoc || await PDFDocument.load(bytes, { ignoreEncryption: true });
+        const pagePdf = await extractSinglePage(sourceDoc, pageNum);
+        const ocrText = await ocrEngine.recognize(pagePdf, pageNum);
+        text = `${text} ${ocrText}`.trim();
+        textSource = 'ocr';
+        ocrPages++;
+      }
+
+      const { error: pageError } = await supabase
+        .from('file_pages')
+        .upsert({
+          file_id: file.id,
+          page_number: pageNum,
+          extracted_text: text,
+          ocr_completed: true,
+          text_source: textSource
+        }, { onConflict: 'file_id,page_number' });
+      if (pageError) throw pageError;
+
+      if (text) {
+        // Embeddings are upserted per chunk, so resuming an interrupted run never duplicates them
+        const embedResponse = await fetch(`${supabaseUrl}/functions/v1/generate-embeddings`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${supabaseServiceKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ fileId: file.id, content: text.substring(0, 100000), pageNumber: pageNum }),
+        });
+        if (!embedResponse.ok) {
+          console.error(`Embedding failed for page ${pageNum}:`, await embedResponse.text());
+        }
+      }
+
+      nextPage = pageNum + 1;
+      processedPages++;
+
+      // Record progress after every page so a crash resumes from the next unprocessed page
+      const { error: progressError } = await supabase
+        .from('ingestion_jobs')
+        .update({
+          next_page: nextPage,
+          processed_pages: processedPages,
+          ocr_pages: ocrPages,
+          total_pages: totalPages
+        })
+        .eq('id', job.id);
+      if (progressError) throw progressError;
+    }
+
+    if (nextPage > totalPages) {
+      await supabase
+        .from('workspace_files')
+        .update({ ocr_completed: true, page_count: totalPages })
+        .eq('id', file.id);
+
+      await supabase
+        .from('ingestion_jobs')
+        .update({ status: 'completed', completed_at: new Date().toISOString() })
+        .eq('id', job.id);
+
+      console.log(`Ingestion complete for ${file.file_name}: ${totalPages} pages, ${ocrPages} OCR`);
+      return;
+    }
+
+    // Hand the remaining pages to a fresh invocation to stay within the edge function time limit
+    const continueResponse = await fetch(`${supabaseUrl}/functions/v1/ingest-file`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${supabaseServiceKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ jobId: job.id, pagesPerRun }),
+    });
+    if (!continueResponse.ok) {
+      throw new Error(`Failed to continue ingestion: ${await continueResponse.text()}`);
+    }
+  } catch (error) {
+    console.error(`Ingestion failed for job ${job.id}:`, error);
+    await supabase
+      .from('ingestion_jobs')
+      .update({ status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' })
+      .eq('id', job.id);
+  }
+}
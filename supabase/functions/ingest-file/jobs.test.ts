@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { claimJob, type IngestionJob } from "./jobs.ts";
+
+// Just enough of the ingestion_jobs table for an update filtered with eq(). Each update applies
+// atomically and bumps updated_at, as the set_updated_at trigger does.
+const fakeJobsTable = (rows: IngestionJob[]) => {
+  let clock = 0;
+  const client = {
+    from: () => ({
+      update: (values: Partial<IngestionJob>) => {
+        const filters: [keyof IngestionJob, unknown][] = [];
+        const query = {
+          eq: (column: keyof IngestionJob, value: unknown) => {
+            filters.push([column, value]);
+            return query;
+          },
+          select: () => query,
+          maybeSingle: async () => {
+            await Promise.resolve();
+            const row = rows.find(r => filters.every(([column, value]) => r[column] === value));
+            if (!row) return { data: null, error: null };
+            Object.assign(row, values, { updated_at: `2025-01-01T00:00:0${++clock}Z` });
+            return { data: { ...row }, error: null };
+          },
+        };
+        return query;
+      },
+    }),
+  };
+  return client as unknown as SupabaseClient;
+};
+
+const staleJob = (): IngestionJob => ({
+  id: "job-1",
+  status: "running",
+  updated_at: "2024-12-31T23:00:00Z",
+  next_page: 4,
+  processed_pages: 3,
+  ocr_pages: 1,
+});
+
+describe("claimJob", () => {
+  it("lets only one of two concurrent callers claim a job", async () => {
+    const row = staleJob();
+    const supabase = fakeJobsTable([row]);
+    // Both callers read the job before either claims it
+    const seenByFirst = { ...row };
+    const seenBySecond = { ...row };
+
+    const results = await Promise.all([
+      claimJob(supabase, seenByFirst, "stub"),
+      claimJob(supabase, seenBySecond, "stub"),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(results[0]).toMatchObject({ id: "job-1", status: "running", ocr_engine: "stub", next_page: 4 });
+    expect(results[1]).toBeNull();
+  });
+
+  it("claims a job that hasn't changed since it was read", async () => {
+    const row = { ...staleJob(), status: "failed" };
+    const claimed = await claimJob(fakeJobsTable([row]), { ...row }, "google-vision");
+    expect(claimed).toMatchObject({ status: "running", error: null });
+  });
+
+  it("does not claim a job whose status changed since it was read", async () => {
+    const row = { ...staleJob(), status: "completed" };
+    expect(await claimJob(fakeJobsTable([row]), { ...row, status: "failed" }, "stub")).toBeNull();
+    expect(row.status).toBe("completed");
+  });
+});
@@ -0,0 +1,30 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+export interface IngestionJob {
+  id: string;
+  status: string;
+  updated_at: string | null;
+  next_page: number;
+  processed_pages: number;
+  ocr_pages: number;
+}
+
+// Claim the job only if nobody has touched it since it was read. Every update bumps updated_at,
+// so two callers resuming the same job can't both start processing it. Returns the claimed job,
+// or null when another caller got there first.
+export const claimJob = async (
+  supabase: SupabaseClient,
+  job: Pick<IngestionJob, 'id' | 'status' | 'updated_at'>,
+  ocrEngine: string
+): Promise<IngestionJob | null> => {
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .update({ status: 'running', error: null, ocr_engine: ocrEngine })
+    .eq('id', job.id)
+    .eq('status', job.status)
+    .eq('updated_at', job.updated_at)
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+};
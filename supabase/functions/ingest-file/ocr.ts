@@ -0,0 +1,72 @@
+import { PDFDocument } from "https://esm.sh/pdf-lib@1.17.1";
+
+// An OCR engine receives a single-page PDF and returns the recognised text.
+// Select the engine with the OCR_ENGINE env var ("google-vision" by default, "stub" for tests).
+export interface OcrEngine {
+  name: string;
+  recognize: (pagePdf: Uint8Array, pageNumber: number) => Promise<string>;
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+const googleVisionEngine = (apiKey: string): OcrEngine => ({
+  name: "google-vision",
+  recognize: async (pagePdf) => {
+    const response = await fetch(`https://vision.googleapis.com/v1/files:annotate?key=${apiKey}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        requests: [{
+          inputConfig: { content: toBase64(pagePdf), mimeType: "application/pdf" },
+          features: [{ type: "DOCUMENT_TEXT_DETECTION" }],
+          pages: [1],
+        }],
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Vision API error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    return data.responses?.[0]?.responses?.[0]?.fullTextAnnotation?.text || "";
+  },
+});
+
+// Deterministic engine for local runs and tests: no network, same output for the same page
+const stubEngine: OcrEngine = {
+  name: "stub",
+  recognize: async (pagePdf, pageNumber) => `[stub OCR] page ${pageNumber} (${pagePdf.length} bytes)`,
+};
+
+export const getOcrEngine = (): OcrEngine => {
+  const engine = Deno.env.get("OCR_ENGINE") || "google-vision";
+
+  if (engine === "stub") return stubEngine;
+
+  if (engine === "google-vision") {
+    const GOOGLE_API_KEY = Deno.env.get("GOOGLE_API_KEY");
+    if (!GOOGLE_API_KEY) {
+      throw new Error("GOOGLE_API_KEY is not configured");
+    }
+    return googleVisionEngine(GOOGLE_API_KEY);
+  }
+
+  throw new Error(`Unknown OCR_ENGINE: ${engine}`);
+};
+
+// Copy one page into its own document so OCR requests stay small for large service records
+export const extractSinglePage = async (source: PDFDocument, pageNumber: number): Promise<Uint8Array> => {
+  const single = await PDFDocument.create();
+  const [copied] = await single.copyPages(source, [pageNumber - 1]);
+  single.addPage(copied);
+  return await single.save();
+};
@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { complete, DEFAULT_MODELS, LLM_PROVIDERS, LlmError, llmErrorResponse, resolveProvider, stream, type LlmProvider, type LlmRequest } from "../_shared/llm.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,15 +14,102 @@ const messageSchema = z.object({
 });
 
 const requestSchema = z.object({
-  provider: z.enum(['lovable', 'claude', 'gemini', 'grok', 'perplexity', 'openai']),
+  provider: z.enum(LLM_PROVIDERS),
   messages: z.array(messageSchema).min(1).max(50),
   model: z.string().max(50).optional(),
   workspaceFiles: z.array(z.object({
     file_name: z.string(),
     page_count: z.number().optional()
-  })).max(100).optional()
+  })).max(100).optional(),
+  // Reply as server-sent events instead of one JSON object
+  stream: z.boolean().optional()
 });
 
+// Reply length caps for providers that need one; the others use their own default
+const PROVIDER_MAX_TOKENS: Partial<Record<LlmProvider, number>> = {
+  claude: 4096,
+  perplexity: 1000,
+  openai: 4096,
+};
+
+// The workspace file list goes into the system prompt for every provider
+const buildSystemPrompt = (workspaceFiles: { file_name: string; page_count?: number }[]) => {
+  let workspaceContext = '';
+  if (workspaceFiles.length > 0) {
+    workspaceContext = '\n\n--- Workspace Files Loaded ---\n';
+    workspaceContext += `ALL ${workspaceFiles.length} files in this workspace are ALREADY LOADED and accessible:\n`;
+    workspaceFiles.forEach((file, idx) => {
+      workspaceContext += `${idx + 1}. ${file.file_name}${file.page_count ? ` (${file.page_count} pages)` : ''}\n`;
+    });
+    workspaceContext += '\nIMPORTANT: Do NOT ask which files to look at. All files are already accessible through RAG search.\n';
+    workspaceContext += '--- End Workspace Files ---\n\n';
+  }
+
+  return 'You are a medical AI assistant with FULL ACCESS to all patient medical documents in this workspace.' + workspaceContext +
+    'When medical document context is provided (marked as "RAG Context" or "Direct Context"), use it to answer questions accurately. ' +
+    'All workspace files are already loaded and searchable - NEVER ask the user which files to look at. ' +
+    'Answer questions directly using the document context provided. ' +
+    'When context sources are tagged [S1], [S2], ..., cite the tags that support each statement inline and never invent a tag. ' +
+    'If specific context is not provided but the user asks about documents, you can still reference the files listed above.';
+};
+
+// Streamed replies use one event format whatever the provider: every event is a "data:" line
+// holding JSON with a type of
+//   start - { provider, model } before any text
+//   delta - { text } the next piece of the reply
+//   done  - { content } the whole reply, once finished
+//   error - { error } the provider failed part way; the text so far is incomplete
+// Failures before the first piece of text are returned as normal JSON errors with their status.
+const streamResponse = async (request: LlmRequest, provider: LlmProvider) => {
+  // Linked before the provider is called, so a client that leaves while waiting for the first
+  // piece stops the provider as well
+  const upstream = new AbortController();
+  if (request.signal?.aborted) upstream.abort(request.signal.reason);
+  request.signal?.addEventListener('abort', () => upstream.abort(request.signal!.reason), { once: true });
+  const pieces = stream({ ...request, signal: upstream.signal });
+  // Waiting for the first piece lets auth and rate-limit errors keep their HTTP status
+  const first = await pieces.next();
+
+  const encoder = new TextEncoder();
+  const event = (data: Record<string, unknown>) => encoder.encode(`data: ${JSON.stringify(data)}\n\n`);
+  let content = '';
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(event({ type: 'start', provider, model: request.model || DEFAULT_MODELS[provider] }));
+      if (!first.done) {
+        content += first.value;
+        controller.enqueue(event({ type: 'delta', text: first.value }));
+      }
+    },
+    async pull(controller) {
+      try {
+        const next = first.done ? first : await pieces.next();
+        if (next.done) {
+          controller.enqueue(event({ type: 'done', content }));
+          controller.close();
+          return;
+        }
+        content += next.value;
+        controller.enqueue(event({ type: 'delta', text: next.value }));
+      } catch (error) {
+        console.error('Chat stream error:', error);
+        controller.enqueue(event({ type: 'error', error: error instanceof Error ? error.message : 'Stream failed' }));
+        controller.close();
+      }
+    },
+    // The client stopped reading (Stop button or closed page), so stop the provider too
+    cancel() {
+      console.log('Chat stream cancelled by client');
+      upstream.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  });
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -29,36 +117,27 @@ serve(async (req) => {
 
   try {
     const rawBody = await req.json();
-    const { provider, messages, model: rawModel, workspaceFiles = [] } = requestSchema.parse(rawBody);
-    const model = rawModel || 'default';
-    console.log(`Processing ${provider} chat request with model: ${model}`);
+    const { provider: requestedProvider, messages, model, workspaceFiles = [], stream: streamed } = requestSchema.parse(rawBody);
+    const provider = resolveProvider(requestedProvider, requestedProvider);
+    console.log(`Processing ${provider} chat request with model: ${model || 'default'}`);
     console.log(`Workspace files available: ${workspaceFiles.length}`);
 
-    let response;
-    
-    switch (provider) {
-      case 'lovable':
-        response = await handleLovableAI(messages, model, workspaceFiles);
-        break;
-      case 'claude':
-        response = await handleClaude(messages, model, workspaceFiles);
-        break;
-      case 'gemini':
-        response = await handleGemini(messages, model, workspaceFiles);
-        break;
-      case 'grok':
-        response = await handleGrok(messages, model, workspaceFiles);
-        break;
-      case 'perplexity':
-        response = await handlePerplexity(messages, model, workspaceFiles);
-        break;
-      case 'openai':
-        response = await handleOpenAI(messages, model, workspaceFiles);
-        break;
-      default:
-        throw new Error(`Unknown provider: ${provider}`);
+    const request: LlmRequest = {
+      provider,
+      model,
+      system: buildSystemPrompt(workspaceFiles),
+      messages,
+      maxTokens: PROVIDER_MAX_TOKENS[provider],
+      temperature: provider === 'perplexity' ? 0.2 : undefined,
+      signal: req.signal,
+    };
+
+    if (streamed) {
+      return await streamResponse(request, provider);
     }
 
+    const response = await complete(request);
+
     return new Response(JSON.stringify(response), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
@@ -71,6 +150,10 @@ serve(async (req) => {
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
+
+    if (error instanceof LlmError) {
+      return llmErrorResponse(error, corsHeaders);
+    }
     
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     return new Response(
@@ -79,339 +162,3 @@ serve(async (req) => {
     );
   }
 });
-
-async function handleLovableAI(messages: any[], model: string, workspaceFiles: any[]) {
-  const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-  if (!LOVABLE_API_KEY) throw new Error('LOVABLE_API_KEY not configured');
-
-  // Build workspace files context
-  let workspaceContext = '';
-  if (workspaceFiles.length > 0) {
-    workspaceContext = '\n\n--- Workspace Files Loaded ---\n';
-    workspaceContext += `ALL ${workspaceFiles.length} files in this workspace are ALREADY LOADED and accessible:\n`;
-    workspaceFiles.forEach((file: any, idx: number) => {
-      workspaceContext += `${idx + 1}. ${file.file_name}${file.page_count ? ` (${file.page_count} pages)` : ''}\n`;
-    });
-    workspaceContext += '\nIMPORTANT: Do NOT ask which files to look at. All files are already accessible through RAG search.\n';
-    workspaceContext += '--- End Workspace Files ---\n\n';
-  }
-
-  // Add system message about medical document access if not present
-  const hasSystemMessage = messages.length > 0 && messages[0].role === 'system';
-  const systemMessage = {
-    role: 'system',
-    content: 'You are a medical AI assistant with FULL ACCESS to all patient medical documents in this workspace.' + workspaceContext + 
-             'When medical document context is provided (marked as "RAG Context" or "Direct Context"), use it to answer questions accurately. ' +
-             'All workspace files are already loaded and searchable - NEVER ask the user which files to look at. ' +
-             'Answer questions directly using the document context provided. ' +
-             'If specific context is not provided but the user asks about documents, you can still reference the files listed above.'
-  };
-  
-  const messagesWithSystem = hasSystemMessage ? messages : [systemMessage, ...messages];
-
-  const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: model || 'google/gemini-2.5-flash',
-      messages: messagesWithSystem,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Lovable AI error:', response.status, errorText);
-    throw new Error(`Lovable AI error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  return {
-    content: data.choices[0].message.content,
-    provider: 'lovable',
-    model: model || 'google/gemini-2.5-flash',
-  };
-}
-
-async function handleClaude(messages: any[], model: string, workspaceFiles: any[]) {
-  const ANTHROPIC_API_KEY = Deno.env.get('ANTHROPIC_API_KEY');
-  if (!ANTHROPIC_API_KEY) throw new Error('ANTHROPIC_API_KEY not configured');
-
-  // Build workspace files context and prepend to first user message
-  let workspaceContext = '';
-  if (workspaceFiles.length > 0) {
-    workspaceContext = '--- Workspace Files Loaded ---\n';
-    workspaceContext += `ALL ${workspaceFiles.length} files in this workspace are ALREADY LOADED:\n`;
-    workspaceFiles.forEach((file: any, idx: number) => {
-      workspaceContext += `${idx + 1}. ${file.file_name}${file.page_count ? ` (${file.page_count} pages)` : ''}\n`;
-    });
-    workspaceContext += '\nIMPORTANT: Do NOT ask which files to look at. All files are already accessible.\n';
-    workspaceContext += '--- End Workspace Files ---\n\n';
-  }
-
-  // Prepend workspace context to first user message
-  const modifiedMessages = messages.map((m, idx) => {
-    if (idx === 0 && m.role === 'user' && workspaceContext) {
-      return {
-        ...m,
-        content: workspaceContext + m.content
-      };
-    }
-    return m;
-  });
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'x-api-key': ANTHROPIC_API_KEY,
-      'anthropic-version': '2023-06-01',
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: model || 'claude-sonnet-4-20250514',
-      max_tokens: 4096,
-      system: 'You are a medical AI assistant with FULL ACCESS to all patient medical documents in this workspace. All files are already loaded and searchable - NEVER ask which files to look at. Answer questions directly using the document context provided.',
-      messages: modifiedMessages.map(m => ({
-        role: m.role === 'user' ? 'user' : 'assistant',
-        content: m.content,
-      })),
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Claude error:', response.status, errorText);
-    throw new Error(`Claude API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  return {
-    content: data.content[0].text,
-    provider: 'claude',
-    model: model || 'claude-sonnet-4-20250514',
-  };
-}
-
-async function handleGemini(messages: any[], model: string, workspaceFiles: any[]) {
-  const GOOGLE_API_KEY = Deno.env.get('GOOGLE_API_KEY');
-  if (!GOOGLE_API_KEY) throw new Error('GOOGLE_API_KEY not configured');
-
-  // Build workspace files context
-  let workspaceContext = '';
-  if (workspaceFiles.length > 0) {
-    workspaceContext = '--- Workspace Files Loaded ---\n';
-    workspaceContext += `ALL ${workspaceFiles.length} files are ALREADY LOADED:\n`;
-    workspaceFiles.forEach((file: any, idx: number) => {
-      workspaceContext += `${idx + 1}. ${file.file_name}${file.page_count ? ` (${file.page_count} pages)` : ''}\n`;
-    });
-    workspaceContext += '\nIMPORTANT: Do NOT ask which files to look at. All files are accessible.\n';
-    workspaceContext += '--- End Workspace Files ---\n\n';
-  }
-
-  // Prepend workspace context to first user message
-  const modifiedMessages = messages.map((m, idx) => {
-    if (idx === 0 && m.role === 'user' && workspaceContext) {
-      return {
-        ...m,
-        content: workspaceContext + m.content
-      };
-    }
-    return m;
-  });
-
-  const modelName = model || 'gemini-2.0-flash-exp';
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:generateContent?key=${GOOGLE_API_KEY}`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        system_instruction: {
-          parts: [{ text: 'You are a medical AI assistant with FULL ACCESS to all patient medical documents in this workspace. All files are already loaded - NEVER ask which files to look at. Answer questions directly.' }]
-        },
-        contents: modifiedMessages.map(m => ({
-          role: m.role === 'user' ? 'user' : 'model',
-          parts: [{ text: m.content }],
-        })),
-      }),
-    }
-  );
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Gemini error:', response.status, errorText);
-    throw new Error(`Gemini API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  return {
-    content: data.candidates[0].content.parts[0].text,
-    provider: 'gemini',
-    model: modelName,
-  };
-}
-
-async function handleGrok(messages: any[], model: string, workspaceFiles: any[]) {
-  const XAI_API_KEY = Deno.env.get('XAI_API_KEY');
-  if (!XAI_API_KEY) throw new Error('XAI_API_KEY not configured');
-
-  // Build workspace files context
-  let workspaceContext = '';
-  if (workspaceFiles.length > 0) {
-    workspaceContext = '--- Workspace Files Loaded ---\n';
-    workspaceContext += `ALL ${workspaceFiles.length} files are ALREADY LOADED:\n`;
-    workspaceFiles.forEach((file: any, idx: number) => {
-      workspaceContext += `${idx + 1}. ${file.file_name}${file.page_count ? ` (${file.page_count} pages)` : ''}\n`;
-    });
-    workspaceContext += '\nIMPORTANT: Do NOT ask which files to look at. All files are accessible.\n';
-    workspaceContext += '--- End Workspace Files ---\n\n';
-  }
-
-  // Prepend workspace context to first user message
-  const modifiedMessages = messages.map((m, idx) => {
-    if (idx === 0 && m.role === 'user' && workspaceContext) {
-      return {
-        ...m,
-        content: workspaceContext + m.content
-      };
-    }
-    return m;
-  });
-
-  const response = await fetch('https://api.x.ai/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${XAI_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: model || 'grok-2-latest',
-      messages: modifiedMessages,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Grok error:', response.status, errorText);
-    throw new Error(`Grok API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  return {
-    content: data.choices[0].message.content,
-    provider: 'grok',
-    model: model || 'grok-2-latest',
-  };
-}
-
-async function handlePerplexity(messages: any[], model: string, workspaceFiles: any[]) {
-  const PERPLEXITY_API_KEY = Deno.env.get('PERPLEXITY_API_KEY');
-  if (!PERPLEXITY_API_KEY) throw new Error('PERPLEXITY_API_KEY not configured');
-
-  // Build workspace files context
-  let workspaceContext = '';
-  if (workspaceFiles.length > 0) {
-    workspaceContext = '--- Workspace Files Loaded ---\n';
-    workspaceContext += `ALL ${workspaceFiles.length} files are ALREADY LOADED:\n`;
-    workspaceFiles.forEach((file: any, idx: number) => {
-      workspaceContext += `${idx + 1}. ${file.file_name}${file.page_count ? ` (${file.page_count} pages)` : ''}\n`;
-    });
-    workspaceContext += '\nIMPORTANT: Do NOT ask which files to look at. All files are accessible.\n';
-    workspaceContext += '--- End Workspace Files ---\n\n';
-  }
-
-  // Prepend workspace context to first user message
-  const modifiedMessages = messages.map((m, idx) => {
-    if (idx === 0 && m.role === 'user' && workspaceContext) {
-      return {
-        ...m,
-        content: workspaceContext + m.content
-      };
-    }
-    return m;
-  });
-
-  const response = await fetch('https://api.perplexity.ai/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${PERPLEXITY_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: model || 'llama-3.1-sonar-small-128k-online',
-      messages: modifiedMessages,
-      temperature: 0.2,
-      top_p: 0.9,
-      max_tokens: 1000,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Perplexity error:', response.status, errorText);
-    throw new Error(`Perplexity API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  return {
-    content: data.choices[0].message.content,
-    provider: 'perplexity',
-    model: model || 'llama-3.1-sonar-small-128k-online',
-  };
-}
-
-async function handleOpenAI(messages: any[], model: string, workspaceFiles: any[]) {
-  const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
-  if (!OPENAI_API_KEY) throw new Error('OPENAI_API_KEY not configured');
-
-  // Build workspace files context
-  let workspaceContext = '';
-  if (workspaceFiles.length > 0) {
-    workspaceContext = '--- Workspace Files Loaded ---\n';
-    workspaceContext += `ALL ${workspaceFiles.length} files are ALREADY LOADED:\n`;
-    workspaceFiles.forEach((file: any, idx: number) => {
-      workspaceContext += `${idx + 1}. ${file.file_name}${file.page_count ? ` (${file.page_count} pages)` : ''}\n`;
-    });
-    workspaceContext += '\nIMPORTANT: Do NOT ask which files to look at. All files are accessible.\n';
-    workspaceContext += '--- End Workspace Files ---\n\n';
-  }
-
-  // Prepend workspace context to first user message
-  const modifiedMessages = messages.map((m, idx) => {
-    if (idx === 0 && m.role === 'user' && workspaceContext) {
-      return {
-        ...m,
-        content: workspaceContext + m.content
-      };
-    }
-    return m;
-  });
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${OPENAI_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: model || 'gpt-5-2025-08-07',
-      messages: modifiedMessages,
-      max_completion_tokens: 4096,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('OpenAI error:', response.status, errorText);
-    throw new Error(`OpenAI API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  return {
-    content: data.choices[0].message.content,
-    provider: 'openai',
-    model: model || 'gpt-5-2025-08-07',
-  };
-}
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { complete, LLM_PROVIDERS, LlmError, llmErrorResponse, resolveProvider } from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -13,7 +14,8 @@ const messageSchema = z.object({
 
 const requestSchema = z.object({
   messages: z.array(messageSchema).min(1).max(50),
-  model: z.enum(['claude', 'gemini']).default('gemini')
+  model: z.enum(['claude', 'gemini']).default('gemini'),
+  provider: z.enum(LLM_PROVIDERS).optional()
 });
 
 serve(async (req) => {
@@ -23,11 +25,9 @@ serve(async (req) => {
 
   try {
     const rawBody = await req.json();
-    const { messages, model } = requestSchema.parse(rawBody);
+    const { messages, model, provider: requestedProvider } = requestSchema.parse(rawBody);
     
-    const systemMessage = {
-      role: "system",
-      content: `You are a helpful AI assistant that helps users search through PDF documents. 
+    const systemPrompt = `You are a helpful AI assistant that helps users search through PDF documents. 
 Your role is to:
 1. Understand what the user wants to find in their PDF
 2. Suggest relevant keywords to search for (comma-separated)
@@ -41,98 +41,19 @@ For date-based queries:
 - Suggest related temporal terms (e.g., "annual", "quarterly", "monthly")
 - Combine dates with the user's topic (e.g., if they ask for "2023 reports", suggest: 2023, report, annual, yearly)
 
-Be conversational and helpful. Ask clarifying questions if needed.`
-    };
+Be conversational and helpful. Ask clarifying questions if needed.`;
 
-    let response;
-    
-    if (model === "claude") {
-      const ANTHROPIC_API_KEY = Deno.env.get("ANTHROPIC_API_KEY");
-      if (!ANTHROPIC_API_KEY) {
-        throw new Error("ANTHROPIC_API_KEY is not configured");
-      }
-
-      console.log("Calling Claude API with", messages.length, "messages");
-
-      response = await fetch("https://api.anthropic.com/v1/messages", {
-        method: "POST",
-        headers: {
-          "x-api-key": ANTHROPIC_API_KEY,
-          "anthropic-version": "2023-06-01",
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "claude-sonnet-4-20250514",
-          max_tokens: 1024,
-          system: systemMessage.content,
-          messages: messages,
-        }),
-      });
-    } else {
-      const GOOGLE_API_KEY = Deno.env.get("GOOGLE_API_KEY");
-      if (!GOOGLE_API_KEY) {
-        throw new Error("GOOGLE_API_KEY is not configured");
-      }
-
-      console.log("Calling Gemini API with", messages.length, "messages");
-
-      const geminiMessages = [systemMessage, ...messages].map(msg => ({
-        role: msg.role === "assistant" ? "model" : "user",
-        parts: [{ text: msg.content }]
-      }));
-
-      response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${GOOGLE_API_KEY}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            contents: geminiMessages,
-          }),
-        }
-      );
-    }
+    const provider = resolveProvider(requestedProvider, model);
+    console.log(`Calling ${provider} with`, messages.length, "messages");
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limits exceeded, please try again later." }),
-          {
-            status: 429,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "Payment required, please add credits to your workspace." }),
-          {
-            status: 402,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          }
-        );
-      }
-      const errorText = await response.text();
-      console.error("AI API error:", response.status, errorText);
-      return new Response(
-        JSON.stringify({ error: "AI API error" }),
-        {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        }
-      );
-    }
-
-    const data = await response.json();
+    const { content: messageContent } = await complete({
+      provider,
+      system: systemPrompt,
+      messages,
+      maxTokens: 1024,
+    });
     console.log("AI response received");
 
-    let messageContent;
-    if (model === "claude") {
-      messageContent = data.content[0].text;
-    } else {
-      messageContent = data.candidates[0].content.parts[0].text;
-    }
-
     return new Response(
       JSON.stringify({ message: messageContent }),
       {
@@ -148,6 +69,10 @@ Be conversational and helpful. Ask clarifying questions if needed.`
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
+
+    if (error instanceof LlmError) {
+      return llmErrorResponse(error, corsHeaders);
+    }
     
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
 import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
+import { complete, imagePart, LLM_PROVIDERS, LlmError, llmErrorResponse, resolveProvider, type ContentPart } from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,11 +13,31 @@ const requestSchema = z.object({
   pageText: z.string().max(50000).optional(),
   fileName: z.string().max(255),
   pageNum: z.number().int().positive(),
-  model: z.string().max(50).default('gemini-2.5-flash')
+  model: z.string().max(50).default('gemini-2.5-flash'),
+  provider: z.enum(LLM_PROVIDERS).optional()
 }).refine(data => data.pageImage || data.pageText, {
   message: "Either pageImage or pageText must be provided"
 });
 
+// The model is asked for a JSON array of names. Diagnosis names may contain commas, so anything
+// that isn't valid JSON is split on semicolons and line breaks only.
+const parseDiagnoses = (content: string): string[] => {
+  const text = content.trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+  let names: unknown;
+  try {
+    names = JSON.parse(text);
+  } catch {
+    names = text.split(/[;\n]/);
+  }
+  const list = Array.isArray(names) ? names : [names];
+  return Array.from(new Set(
+    list
+      .filter((name): name is string => typeof name === 'string')
+      .map(name => name.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim())
+      .filter(name => name)
+  ));
+};
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -24,7 +45,7 @@ serve(async (req) => {
 
   try {
     const rawBody = await req.json();
-    const { pageImage, pageText, fileName, pageNum, model } = requestSchema.parse(rawBody);
+    const { pageImage, pageText, fileName, pageNum, model, provider: requestedProvider } = requestSchema.parse(rawBody);
 
     console.log(`Analyzing page ${pageNum} from ${fileName} using model: ${model}`);
 
@@ -48,170 +69,55 @@ serve(async (req) => {
       console.error("Error fetching reference docs:", err);
     }
 
-    let diagnosis: string;
-
-    if (model === "claude") {
-      // Use Claude API directly
-      const ANTHROPIC_API_KEY = Deno.env.get("ANTHROPIC_API_KEY");
-      if (!ANTHROPIC_API_KEY) {
-        throw new Error("ANTHROPIC_API_KEY is not configured");
-      }
-
-      // Build user message content
-      const userContent: any[] = [];
-      
-      if (pageText && pageText.trim()) {
-        userContent.push({
-          type: "text",
-          text: `Analyze this medical document from ${fileName}, page ${pageNum}:\n\n${pageText}\n\nProvide ONLY a comma-separated list of diagnoses using this EXACT format: "Side Joint - Diagnosis" (e.g., "Right Ankle - Sprain", "Left Knee - Osteoarthritis"). NEVER use "Bilateral" - if both sides are affected, list each side separately (e.g., "Right Knee - Arthritis, Left Knee - Arthritis"). Use descriptive medical condition names, NO ICD codes. Maximum 3-5 diagnoses. No explanations, just diagnosis names in the specified format. IMPORTANT: If the document is illegible, unclear, or does not contain sufficient diagnostic information, return ONLY the word "Nil" with no explanation.${referenceContext}`
-        });
-      } else {
-        userContent.push({
-          type: "text",
-          text: `Analyze this medical document image from ${fileName}, page ${pageNum} and suggest relevant diagnoses. Return ONLY a comma-separated list using format: "Side Joint - Diagnosis" (e.g., "Right Shoulder - Tendinopathy"). NEVER use "Bilateral" - list each side separately. NO ICD codes. Maximum 3-5 diagnoses. IMPORTANT: If the document is illegible, unclear, or does not contain sufficient diagnostic information, return ONLY the word "Nil" with no explanation.${referenceContext}`
-        });
-      }
-
-      if (pageImage) {
-        const base64Data = pageImage.split(',')[1] || pageImage;
-        const mediaType = pageImage.startsWith('data:image/png') ? 'image/png' : 'image/jpeg';
-        
-        userContent.push({
-          type: "image",
-          source: {
-            type: "base64",
-            media_type: mediaType,
-            data: base64Data
-          }
-        });
-      }
-
-      const response = await fetch("https://api.anthropic.com/v1/messages", {
-        method: "POST",
-        headers: {
-          "x-api-key": ANTHROPIC_API_KEY,
-          "anthropic-version": "2023-06-01",
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "claude-sonnet-4-20250514",
-          max_tokens: 500,
-          messages: [
-            {
-              role: "user",
-              content: userContent
-            }
-          ]
-        }),
+    // Map model names to full Lovable AI model identifiers
+    const modelMap: Record<string, string> = {
+      "gemini-2.5-pro": "google/gemini-2.5-pro",
+      "gemini-2.5-flash": "google/gemini-2.5-flash",
+      "gemini-2.5-flash-lite": "google/gemini-2.5-flash-lite",
+      "gpt-5": "openai/gpt-5",
+      "gpt-5-mini": "openai/gpt-5-mini",
+      "gpt-5-nano": "openai/gpt-5-nano",
+    };
+
+    // "claude" goes to Anthropic directly and every other legacy model name through the Lovable AI Gateway
+    const provider = resolveProvider(requestedProvider, model === "claude" ? "claude" : "lovable");
+
+    const userContent: ContentPart[] = [];
+
+    if (pageText && pageText.trim()) {
+      userContent.push({
+        type: "text",
+        text: `Analyze this medical document from ${fileName}, page ${pageNum}:\n\n${pageText}`
       });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("Claude API error:", response.status, errorText);
-        throw new Error(`Claude API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      diagnosis = data.content[0].text.trim();
     } else {
-      // Use Lovable AI Gateway for all other models
-      const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-      if (!LOVABLE_API_KEY) {
-        throw new Error("LOVABLE_API_KEY is not configured");
-      }
-
-      // Map model names to full Lovable AI model identifiers
-      const modelMap: Record<string, string> = {
-        "gemini-2.5-pro": "google/gemini-2.5-pro",
-        "gemini-2.5-flash": "google/gemini-2.5-flash",
-        "gemini-2.5-flash-lite": "google/gemini-2.5-flash-lite",
-        "gpt-5": "openai/gpt-5",
-        "gpt-5-mini": "openai/gpt-5-mini",
-        "gpt-5-nano": "openai/gpt-5-nano",
-      };
-
-      const lovableModel = modelMap[model] || "google/gemini-2.5-flash";
-
-      const messages: any[] = [
-        {
-          role: "system",
-          content: `You are a medical diagnosis assistant. Analyze the provided medical document page and suggest relevant diagnoses. Return ONLY a comma-separated list of diagnoses using this EXACT format: 'Side Joint - Diagnosis' (e.g., 'Right Ankle - Sprain', 'Left Knee - Osteoarthritis'). NEVER use 'Bilateral' - if both sides are affected, list each side separately. Use PLAIN LANGUAGE - do NOT use ICD-9 or ICD-10 codes. Use descriptive medical condition names. Keep it concise - maximum 3-5 diagnoses. No explanations, just diagnosis names in the specified format. CRITICAL: If the document is illegible, unclear, or does not contain sufficient diagnostic information, return ONLY the word "Nil" with no explanation whatsoever.${referenceContext}`
-        }
-      ];
-
-      const userContent: any[] = [];
-      
-      if (pageText && pageText.trim()) {
-        userContent.push({
-          type: "text",
-          text: `Analyze this medical document from ${fileName}, page ${pageNum}:\n\n${pageText}`
-        });
-      } else {
-        userContent.push({
-          type: "text",
-          text: `Analyze this medical document image from ${fileName}, page ${pageNum} and suggest relevant diagnoses:`
-        });
-      }
-
-      if (pageImage) {
-        const base64Data = pageImage.split(',')[1] || pageImage;
-        const mediaType = pageImage.startsWith('data:image/png') ? 'image/png' : 'image/jpeg';
-        
-        userContent.push({
-          type: "image_url",
-          image_url: {
-            url: `data:${mediaType};base64,${base64Data}`
-          }
-        });
-      }
-
-      messages.push({
-        role: "user",
-        content: userContent
+      userContent.push({
+        type: "text",
+        text: `Analyze this medical document image from ${fileName}, page ${pageNum} and suggest relevant diagnoses:`
       });
+    }
 
-      const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${LOVABLE_API_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: lovableModel,
-          messages,
-          max_tokens: 500,
-          temperature: 0.3,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("AI Gateway error:", response.status, errorText);
-        
-        if (response.status === 429) {
-          return new Response(
-            JSON.stringify({ error: "Rate limits exceeded, please try again later." }),
-            { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-        if (response.status === 402) {
-          return new Response(
-            JSON.stringify({ error: "Payment required, please add funds to your Lovable AI workspace." }),
-            { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-        throw new Error(`AI Gateway error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      diagnosis = data.choices[0].message.content.trim();
+    if (pageImage) {
+      userContent.push(imagePart(pageImage));
     }
 
+    const { content } = await complete({
+      provider,
+      model: provider === "lovable" ? modelMap[model] || "google/gemini-2.5-flash" : undefined,
+      system: `You are a medical diagnosis assistant. Analyze the provided medical document page and suggest relevant diagnoses. Return ONLY a JSON array of strings, one diagnosis per element, using this EXACT format: 'Side Joint - Diagnosis' (e.g., ["Right Ankle - Sprain", "Left Knee - Osteoarthritis"]). NEVER use 'Bilateral' - if both sides are affected, list each side separately. Use PLAIN LANGUAGE - do NOT use ICD-9 or ICD-10 codes. Use descriptive medical condition names. Keep it concise - maximum 3-5 diagnoses. No explanations or markdown, just the JSON array. CRITICAL: If the document is illegible, unclear, or does not contain sufficient diagnostic information, return ONLY an empty array [] with no explanation whatsoever.${referenceContext}`,
+      messages: [{ role: "user", content: userContent }],
+      maxTokens: 500,
+      temperature: 0.3,
+    });
 
-    console.log("AI suggested diagnosis:", diagnosis);
+    // Pages without a diagnosis are tagged "Nil" so they show as reviewed
+    const parsed = parseDiagnoses(content);
+    const diagnoses = parsed.length > 0 ? parsed : ["Nil"];
+    const diagnosis = diagnoses.join("; ");
+
+    console.log("AI suggested diagnoses:", diagnoses);
 
     return new Response(
-      JSON.stringify({ diagnosis }),
+      JSON.stringify({ diagnoses, diagnosis }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
@@ -223,6 +129,10 @@ serve(async (req) => {
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
+
+    if (error instanceof LlmError) {
+      return llmErrorResponse(error, corsHeaders);
+    }
     
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
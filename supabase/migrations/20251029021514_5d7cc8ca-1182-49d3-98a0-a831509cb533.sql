@@ -0,0 +1,60 @@
+-- Create ingestion_jobs table for server-side OCR and embedding of workspace files
+CREATE TABLE public.ingestion_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id UUID REFERENCES public.workspace_files(id) ON DELETE CASCADE NOT NULL,
+  workspace_id UUID REFERENCES public.patient_workspaces(id) ON DELETE CASCADE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  total_pages INTEGER,
+  next_page INTEGER NOT NULL DEFAULT 1,
+  processed_pages INTEGER NOT NULL DEFAULT 0,
+  ocr_pages INTEGER NOT NULL DEFAULT 0,
+  ocr_engine TEXT,
+  error TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+ALTER TABLE public.ingestion_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_ingestion_jobs_file_id ON public.ingestion_jobs(file_id);
+CREATE INDEX idx_ingestion_jobs_workspace_status ON public.ingestion_jobs(workspace_id, status);
+
+-- Job rows are written by the ingest-file edge function with the service role;
+-- owners can only read progress
+CREATE POLICY "Users can view ingestion jobs in their workspaces"
+  ON public.ingestion_jobs FOR SELECT
+  USING (
+    workspace_id IN (
+      SELECT id FROM patient_workspaces WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE TRIGGER set_updated_at
+  BEFORE UPDATE ON public.ingestion_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Queue an ingestion job whenever a file lands in a workspace
+CREATE OR REPLACE FUNCTION public.queue_ingestion_job()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.ingestion_jobs (file_id, workspace_id, created_by)
+  VALUES (NEW.id, NEW.workspace_id, NEW.uploaded_by);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_ingestion_on_file_insert
+  AFTER INSERT ON public.workspace_files
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_ingestion_job();
+
+-- Record whether page text came from the PDF text layer, server OCR or an in-browser scan
+ALTER TABLE public.file_pages
+  ADD COLUMN text_source TEXT CHECK (text_source IN ('text_layer', 'ocr', 'browser'));
@@ -0,0 +1,74 @@
+-- Create ai_scan_jobs and ai_scan_job_pages for the persistent AI auto-scan queue
+CREATE TABLE public.ai_scan_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID REFERENCES public.patient_workspaces(id) ON DELETE CASCADE NOT NULL,
+  model TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'paused', 'failed', 'done')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE public.ai_scan_job_pages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID REFERENCES public.ai_scan_jobs(id) ON DELETE CASCADE NOT NULL,
+  file_id UUID REFERENCES public.workspace_files(id) ON DELETE CASCADE NOT NULL,
+  page_number INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'paused', 'failed', 'done')),
+  diagnosis TEXT,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  UNIQUE (job_id, file_id, page_number)
+);
+
+ALTER TABLE public.ai_scan_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_scan_job_pages ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_ai_scan_jobs_workspace_id ON public.ai_scan_jobs(workspace_id);
+CREATE INDEX idx_ai_scan_job_pages_job_status ON public.ai_scan_job_pages(job_id, status);
+
+CREATE POLICY "Users can view their scan jobs"
+  ON public.ai_scan_jobs FOR SELECT
+  USING (created_by = auth.uid());
+
+CREATE POLICY "Users can create scan jobs in their workspaces"
+  ON public.ai_scan_jobs FOR INSERT
+  WITH CHECK (
+    created_by = auth.uid() AND
+    workspace_id IN (
+      SELECT id FROM patient_workspaces WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their scan jobs"
+  ON public.ai_scan_jobs FOR UPDATE
+  USING (created_by = auth.uid());
+
+CREATE POLICY "Users can delete their scan jobs"
+  ON public.ai_scan_jobs FOR DELETE
+  USING (created_by = auth.uid());
+
+CREATE POLICY "Users can view pages of their scan jobs"
+  ON public.ai_scan_job_pages FOR SELECT
+  USING (
+    job_id IN (SELECT id FROM ai_scan_jobs WHERE created_by = auth.uid())
+  );
+
+CREATE POLICY "Users can add pages to their scan jobs"
+  ON public.ai_scan_job_pages FOR INSERT
+  WITH CHECK (
+    job_id IN (SELECT id FROM ai_scan_jobs WHERE created_by = auth.uid())
+  );
+
+CREATE POLICY "Users can update pages of their scan jobs"
+  ON public.ai_scan_job_pages FOR UPDATE
+  USING (
+    job_id IN (SELECT id FROM ai_scan_jobs WHERE created_by = auth.uid())
+  );
+
+CREATE TRIGGER set_updated_at
+  BEFORE UPDATE ON public.ai_scan_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
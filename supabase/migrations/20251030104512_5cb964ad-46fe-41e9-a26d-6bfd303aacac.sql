@@ -0,0 +1,318 @@
+-- Link pages to diagnoses many-to-many instead of storing comma-joined diagnosis strings.
+-- workspace_diagnoses is the diagnosis entity; its pages/page_count columns are derived from the links.
+CREATE TABLE public.file_page_diagnoses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  page_id UUID REFERENCES public.file_pages(id) ON DELETE CASCADE NOT NULL,
+  diagnosis_id UUID REFERENCES public.workspace_diagnoses(id) ON DELETE CASCADE NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (page_id, diagnosis_id)
+);
+
+ALTER TABLE public.file_page_diagnoses ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_file_page_diagnoses_diagnosis_id ON public.file_page_diagnoses(diagnosis_id);
+
+CREATE POLICY "Users can view diagnosis links in their workspaces"
+  ON public.file_page_diagnoses FOR SELECT
+  USING (
+    diagnosis_id IN (
+      SELECT wd.id FROM workspace_diagnoses wd
+      JOIN patient_workspaces pw ON pw.id = wd.workspace_id
+      WHERE pw.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can link pages to diagnoses in their workspaces"
+  ON public.file_page_diagnoses FOR INSERT
+  WITH CHECK (
+    diagnosis_id IN (
+      SELECT wd.id FROM workspace_diagnoses wd
+      JOIN patient_workspaces pw ON pw.id = wd.workspace_id
+      WHERE pw.created_by = auth.uid()
+    ) AND
+    page_id IN (
+      SELECT fp.id FROM file_pages fp
+      JOIN workspace_files wf ON wf.id = fp.file_id
+      JOIN patient_workspaces pw ON pw.id = wf.workspace_id
+      WHERE pw.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can unlink pages from diagnoses in their workspaces"
+  ON public.file_page_diagnoses FOR DELETE
+  USING (
+    diagnosis_id IN (
+      SELECT wd.id FROM workspace_diagnoses wd
+      JOIN patient_workspaces pw ON pw.id = wd.workspace_id
+      WHERE pw.created_by = auth.uid()
+    )
+  );
+
+-- Rebuild the pages JSON of one diagnosis from its links
+CREATE OR REPLACE FUNCTION public.refresh_workspace_diagnosis_pages(_diagnosis_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE workspace_diagnoses wd
+  SET pages = COALESCE(linked.pages, '[]'::jsonb),
+      page_count = linked.page_count
+  FROM (
+    SELECT
+      jsonb_agg(
+        jsonb_build_object(
+          'fileId', wf.id,
+          'fileName', wf.file_name,
+          'pageNum', fp.page_number,
+          'key', wf.id::text || '-' || fp.page_number
+        )
+        ORDER BY wf.created_at DESC, fp.page_number
+      ) AS pages,
+      COUNT(*)::integer AS page_count
+    FROM file_page_diagnoses l
+    JOIN file_pages fp ON fp.id = l.page_id
+    JOIN workspace_files wf ON wf.id = fp.file_id
+    WHERE l.diagnosis_id = _diagnosis_id
+  ) linked
+  WHERE wd.id = _diagnosis_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_workspace_diagnosis_pages()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_workspace_diagnosis_pages(OLD.diagnosis_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.refresh_workspace_diagnosis_pages(NEW.diagnosis_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_workspace_diagnosis_pages
+  AFTER INSERT OR DELETE ON public.file_page_diagnoses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_workspace_diagnosis_pages();
+
+-- Migrate existing data. Pages saved their diagnoses joined with ", " and the tracker kept one
+-- row per name, so legacy text is split on commas as well as semicolons and line breaks. Names
+-- such as "Fracture, left distal radius" contain commas, so a run of comma-separated parts that
+-- spells a tracker name in the workspace stays one diagnosis, spelt as the tracker has it.
+CREATE FUNCTION pg_temp.split_legacy_diagnoses(_text TEXT, _known TEXT[])
+RETURNS SETOF TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _part TEXT;
+  _pieces TEXT[];
+  _name TEXT;
+  _match TEXT;
+  _i INTEGER;
+  _j INTEGER;
+BEGIN
+  FOREACH _part IN ARRAY regexp_split_to_array(_text, E'[;\\n]') LOOP
+    SELECT COALESCE(array_agg(btrim(piece) ORDER BY ord), '{}')
+    INTO _pieces
+    FROM unnest(string_to_array(_part, ',')) WITH ORDINALITY AS t(piece, ord)
+    WHERE btrim(piece) <> '';
+
+    _i := 1;
+    WHILE _i <= COALESCE(array_length(_pieces, 1), 0) LOOP
+      -- Longest run of parts from here that is a tracker name, else the single part
+      _j := array_length(_pieces, 1);
+      LOOP
+        _name := array_to_string(_pieces[_i:_j], ', ');
+        SELECT btrim(k) INTO _match FROM unnest(_known) AS k WHERE lower(btrim(k)) = lower(_name) LIMIT 1;
+        EXIT WHEN _match IS NOT NULL OR _j = _i;
+        _j := _j - 1;
+      END LOOP;
+      RETURN NEXT COALESCE(_match, _name);
+      _i := _j + 1;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+CREATE TEMP TABLE legacy_page_diagnoses (
+  workspace_id UUID,
+  created_by UUID,
+  page_id UUID,
+  diagnosis_name TEXT
+);
+
+INSERT INTO legacy_page_diagnoses
+SELECT wf.workspace_id, pd.created_by, pd.page_id, name
+FROM page_diagnoses pd
+JOIN file_pages fp ON fp.id = pd.page_id
+JOIN workspace_files wf ON wf.id = fp.file_id
+CROSS JOIN LATERAL pg_temp.split_legacy_diagnoses(
+  pd.diagnosis_text,
+  ARRAY(SELECT wd.diagnosis_name FROM workspace_diagnoses wd WHERE wd.workspace_id = wf.workspace_id)
+) AS name;
+
+-- Legacy tracker keys are "fileIndex-pageNum", where fileIndex is the position of the file
+-- in the workspace file list (newest first)
+CREATE TEMP TABLE legacy_tracker_pages AS
+WITH ordered_files AS (
+  SELECT id, workspace_id, row_number() OVER (PARTITION BY workspace_id ORDER BY created_at DESC) - 1 AS file_index
+  FROM workspace_files
+),
+tracker_pages AS (
+  SELECT
+    wd.workspace_id,
+    wd.created_by,
+    wd.diagnosis_name,
+    split_part(p->>'key', '-', 1)::integer AS file_index,
+    split_part(p->>'key', '-', 2)::integer AS page_number
+  FROM workspace_diagnoses wd
+  CROSS JOIN LATERAL jsonb_array_elements(wd.pages) AS p
+  WHERE p->>'key' ~ '^\d+-\d+$'
+)
+SELECT tp.workspace_id, tp.created_by, tp.diagnosis_name, f.id AS file_id, tp.page_number
+FROM tracker_pages tp
+JOIN ordered_files f ON f.workspace_id = tp.workspace_id AND f.file_index = tp.file_index
+WHERE tp.page_number > 0;
+
+INSERT INTO file_pages (file_id, page_number)
+SELECT DISTINCT file_id, page_number FROM legacy_tracker_pages
+ON CONFLICT (file_id, page_number) DO NOTHING;
+
+INSERT INTO legacy_page_diagnoses
+SELECT t.workspace_id, t.created_by, fp.id, name
+FROM legacy_tracker_pages t
+JOIN file_pages fp ON fp.file_id = t.file_id AND fp.page_number = t.page_number
+CROSS JOIN LATERAL pg_temp.split_legacy_diagnoses(
+  t.diagnosis_name,
+  ARRAY(SELECT wd.diagnosis_name FROM workspace_diagnoses wd WHERE wd.workspace_id = t.workspace_id)
+) AS name;
+
+-- One diagnosis per name per user in a workspace
+UPDATE workspace_diagnoses SET diagnosis_name = btrim(diagnosis_name) WHERE diagnosis_name <> btrim(diagnosis_name);
+
+DELETE FROM workspace_diagnoses a
+USING workspace_diagnoses b
+WHERE a.workspace_id = b.workspace_id
+  AND a.created_by IS NOT DISTINCT FROM b.created_by
+  AND a.diagnosis_name = b.diagnosis_name
+  AND (a.created_at, a.id) > (b.created_at, b.id);
+
+-- NULLS NOT DISTINCT so diagnoses whose creator was deleted can't be duplicated either
+CREATE UNIQUE INDEX idx_workspace_diagnoses_name
+  ON public.workspace_diagnoses(workspace_id, created_by, diagnosis_name) NULLS NOT DISTINCT;
+
+INSERT INTO workspace_diagnoses (workspace_id, diagnosis_name, created_by)
+SELECT DISTINCT l.workspace_id, l.diagnosis_name, l.created_by
+FROM legacy_page_diagnoses l
+WHERE NOT EXISTS (
+  SELECT 1 FROM workspace_diagnoses wd
+  WHERE wd.workspace_id = l.workspace_id
+    AND wd.created_by IS NOT DISTINCT FROM l.created_by
+    AND wd.diagnosis_name = l.diagnosis_name
+);
+
+INSERT INTO file_page_diagnoses (page_id, diagnosis_id, created_by)
+SELECT DISTINCT l.page_id, wd.id, l.created_by
+FROM legacy_page_diagnoses l
+JOIN workspace_diagnoses wd
+  ON wd.workspace_id = l.workspace_id
+  AND wd.created_by IS NOT DISTINCT FROM l.created_by
+  AND wd.diagnosis_name = l.diagnosis_name
+ON CONFLICT (page_id, diagnosis_id) DO NOTHING;
+
+-- Untagged diagnoses are not tracked. Multi-name tracker entries are now represented by their
+-- parts, which leaves them without links of their own.
+DELETE FROM workspace_diagnoses wd
+WHERE NOT EXISTS (SELECT 1 FROM file_page_diagnoses l WHERE l.diagnosis_id = wd.id);
+
+DROP TABLE legacy_tracker_pages;
+DROP TABLE legacy_page_diagnoses;
+
+COMMENT ON TABLE public.page_diagnoses IS 'Legacy free-text page diagnoses, superseded by file_page_diagnoses';
+
+-- Replace the diagnoses tagged on one page with the given names, creating diagnoses as needed
+CREATE OR REPLACE FUNCTION public.set_page_diagnoses(_file_id UUID, _page_number INTEGER, _diagnoses TEXT[])
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _workspace_id UUID;
+  _page_id UUID;
+  _names TEXT[];
+  _unlinked UUID[];
+BEGIN
+  SELECT workspace_id INTO _workspace_id FROM workspace_files WHERE id = _file_id;
+  IF _workspace_id IS NULL THEN
+    RAISE EXCEPTION 'File not found';
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT btrim(name)), '{}')
+  INTO _names
+  FROM unnest(_diagnoses) AS name
+  WHERE btrim(name) <> '';
+
+  INSERT INTO file_pages (file_id, page_number)
+  VALUES (_file_id, _page_number)
+  ON CONFLICT (file_id, page_number) DO NOTHING;
+
+  SELECT id INTO _page_id FROM file_pages WHERE file_id = _file_id AND page_number = _page_number;
+
+  INSERT INTO workspace_diagnoses (workspace_id, diagnosis_name, created_by)
+  SELECT _workspace_id, name, auth.uid() FROM unnest(_names) AS name
+  ON CONFLICT (workspace_id, created_by, diagnosis_name) DO NOTHING;
+
+  WITH removed AS (
+    DELETE FROM file_page_diagnoses l
+    USING workspace_diagnoses wd
+    WHERE l.page_id = _page_id
+      AND wd.id = l.diagnosis_id
+      AND NOT (wd.diagnosis_name = ANY(_names))
+    RETURNING l.diagnosis_id
+  )
+  SELECT array_agg(diagnosis_id) INTO _unlinked FROM removed;
+
+  INSERT INTO file_page_diagnoses (page_id, diagnosis_id)
+  SELECT _page_id, wd.id
+  FROM workspace_diagnoses wd
+  WHERE wd.workspace_id = _workspace_id
+    AND wd.created_by = auth.uid()
+    AND wd.diagnosis_name = ANY(_names)
+  ON CONFLICT (page_id, diagnosis_id) DO NOTHING;
+
+  DELETE FROM workspace_diagnoses wd
+  WHERE wd.id = ANY(COALESCE(_unlinked, '{}'))
+    AND NOT EXISTS (SELECT 1 FROM file_page_diagnoses l WHERE l.diagnosis_id = wd.id);
+END;
+$$;
+
+-- Move every page of one diagnosis onto another and remove the source
+CREATE OR REPLACE FUNCTION public.merge_workspace_diagnoses(_source_id UUID, _target_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM workspace_diagnoses s
+    JOIN workspace_diagnoses t ON t.workspace_id = s.workspace_id
+    WHERE s.id = _source_id AND t.id = _target_id AND s.id <> t.id
+  ) THEN
+    RAISE EXCEPTION 'Diagnoses must be different and belong to the same workspace';
+  END IF;
+
+  INSERT INTO file_page_diagnoses (page_id, diagnosis_id)
+  SELECT page_id, _target_id FROM file_page_diagnoses WHERE diagnosis_id = _source_id
+  ON CONFLICT (page_id, diagnosis_id) DO NOTHING;
+
+  DELETE FROM workspace_diagnoses WHERE id = _source_id;
+END;
+$$;
@@ -0,0 +1,83 @@
+-- Full-text index over extracted page text (text layer and OCR alike)
+ALTER TABLE public.file_pages
+  ADD COLUMN search_vector TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('english', COALESCE(extracted_text, ''))) STORED;
+
+CREATE INDEX idx_file_pages_search_vector ON public.file_pages USING GIN (search_vector);
+
+-- Turn a web-style query into a tsquery. websearch_to_tsquery handles "quoted phrases",
+-- OR and -exclusions; words ending in * are additionally matched as prefixes.
+CREATE OR REPLACE FUNCTION public.parse_page_search_query(_query TEXT)
+RETURNS TSQUERY
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _text TEXT;
+  _prefix TEXT;
+  _lexeme TEXT;
+BEGIN
+  _text := websearch_to_tsquery('english', regexp_replace(_query, '(\w)\*', '\1', 'g'))::text;
+
+  FOR _prefix IN SELECT (regexp_matches(_query, '(\w+)\*', 'g'))[1] LOOP
+    SELECT lexeme INTO _lexeme FROM unnest(to_tsvector('english', _prefix)) LIMIT 1;
+    IF _lexeme IS NOT NULL THEN
+      _text := regexp_replace(_text, '''' || _lexeme || '''(?!:)', '''' || _lexeme || ''':*', 'g');
+    END IF;
+  END LOOP;
+
+  RETURN _text::tsquery;
+END;
+$$;
+
+-- Ranked page hits in a workspace with highlighted snippets. Runs as the caller, so
+-- file_pages and workspace_files RLS still apply.
+CREATE OR REPLACE FUNCTION public.search_file_pages(_workspace_id UUID, _query TEXT, _limit INTEGER DEFAULT 200)
+RETURNS TABLE (
+  page_id UUID,
+  file_id UUID,
+  file_name TEXT,
+  page_number INTEGER,
+  rank REAL,
+  snippet TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _tsquery TSQUERY := public.parse_page_search_query(_query);
+BEGIN
+  IF numnode(_tsquery) = 0 THEN
+    RETURN;
+  END IF;
+
+  -- Rank first and only build headlines for the pages that are returned
+  RETURN QUERY
+  WITH hits AS (
+    SELECT fp.id, wf.id AS wf_id, wf.file_name AS wf_name, fp.page_number AS page_num,
+      fp.extracted_text, ts_rank_cd(fp.search_vector, _tsquery) AS hit_rank, wf.created_at AS file_created_at
+    FROM file_pages fp
+    JOIN workspace_files wf ON wf.id = fp.file_id
+    WHERE wf.workspace_id = _workspace_id
+      AND fp.search_vector @@ _tsquery
+    ORDER BY hit_rank DESC, wf.created_at DESC, fp.page_number
+    LIMIT LEAST(GREATEST(_limit, 1), 1000)
+  )
+  SELECT
+    h.id,
+    h.wf_id,
+    h.wf_name,
+    h.page_num,
+    h.hit_rank,
+    ts_headline(
+      'english',
+      h.extracted_text,
+      _tsquery,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'
+    )
+  FROM hits h
+  ORDER BY h.hit_rank DESC, h.file_created_at DESC, h.page_num;
+END;
+$$;
@@ -0,0 +1,126 @@
+-- Record where each chunk sits in its page text and make chunks unique per file, page and
+-- chunk index so generate-embeddings can upsert instead of appending duplicates
+ALTER TABLE public.document_embeddings
+  ADD COLUMN char_start INTEGER,
+  ADD COLUMN char_end INTEGER;
+
+DELETE FROM public.document_embeddings a
+USING public.document_embeddings b
+WHERE a.file_id = b.file_id
+  AND a.page_number = b.page_number
+  AND a.chunk_index = b.chunk_index
+  AND (a.created_at, a.id) < (b.created_at, b.id);
+
+ALTER TABLE public.document_embeddings
+  ADD CONSTRAINT document_embeddings_file_page_chunk_key UNIQUE (file_id, page_number, chunk_index);
+
+-- Return the offsets of the best matching chunk so the viewer can highlight it
+DROP FUNCTION IF EXISTS public.hybrid_search_pages(UUID, TEXT, vector, UUID[], INTEGER, INTEGER, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, FLOAT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.hybrid_search_pages(
+  _workspace_id UUID,
+  _query TEXT,
+  _query_embedding vector(1536) DEFAULT NULL,
+  _file_ids UUID[] DEFAULT NULL,
+  _page_from INTEGER DEFAULT NULL,
+  _page_to INTEGER DEFAULT NULL,
+  _date_from TIMESTAMPTZ DEFAULT NULL,
+  _date_to TIMESTAMPTZ DEFAULT NULL,
+  _match_count INTEGER DEFAULT 10,
+  _min_similarity FLOAT DEFAULT 0.2,
+  _rrf_k INTEGER DEFAULT 60
+)
+RETURNS TABLE (
+  file_id UUID,
+  file_name TEXT,
+  page_number INTEGER,
+  score FLOAT,
+  vector_rank INTEGER,
+  keyword_rank INTEGER,
+  similarity FLOAT,
+  keyword_score REAL,
+  content TEXT,
+  char_start INTEGER,
+  char_end INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _candidates INTEGER := LEAST(GREATEST(_match_count, 1) * 5, 250);
+  -- Natural-language questions rarely contain every term of a matching page, so any term may match
+  _tsquery TSQUERY := replace(plainto_tsquery('english', COALESCE(_query, ''))::text, '&', '|')::tsquery;
+BEGIN
+  RETURN QUERY
+  WITH files AS (
+    -- Date filters apply to when the document was added to the workspace
+    SELECT wf.id, wf.file_name AS name
+    FROM workspace_files wf
+    WHERE wf.workspace_id = _workspace_id
+      AND (_file_ids IS NULL OR wf.id = ANY(_file_ids))
+      AND (_date_from IS NULL OR wf.created_at >= _date_from)
+      AND (_date_to IS NULL OR wf.created_at <= _date_to)
+  ),
+  chunk_hits AS (
+    SELECT de.file_id AS f_id, de.page_number AS p_num, de.content AS chunk,
+      de.char_start AS c_start, de.char_end AS c_end,
+      1 - (de.embedding <=> _query_embedding) AS sim
+    FROM document_embeddings de
+    JOIN files f ON f.id = de.file_id
+    WHERE _query_embedding IS NOT NULL
+      AND de.embedding IS NOT NULL
+      AND (_page_from IS NULL OR de.page_number >= _page_from)
+      AND (_page_to IS NULL OR de.page_number <= _page_to)
+      AND 1 - (de.embedding <=> _query_embedding) >= _min_similarity
+    ORDER BY de.embedding <=> _query_embedding
+    LIMIT _candidates * 3
+  ),
+  -- A page is as similar as its best chunk
+  vector_pages AS (
+    SELECT DISTINCT ON (ch.f_id, ch.p_num) ch.f_id, ch.p_num, ch.chunk, ch.c_start, ch.c_end, ch.sim
+    FROM chunk_hits ch
+    ORDER BY ch.f_id, ch.p_num, ch.sim DESC
+  ),
+  vector_ranked AS (
+    SELECT vp.f_id, vp.p_num, vp.chunk, vp.c_start, vp.c_end, vp.sim,
+      row_number() OVER (ORDER BY vp.sim DESC)::integer AS rnk
+    FROM vector_pages vp
+    ORDER BY vp.sim DESC
+    LIMIT _candidates
+  ),
+  keyword_ranked AS (
+    SELECT fp.file_id AS f_id, fp.page_number AS p_num, fp.extracted_text AS page_text,
+      ts_rank_cd(fp.search_vector, _tsquery) AS kscore,
+      row_number() OVER (ORDER BY ts_rank_cd(fp.search_vector, _tsquery) DESC, fp.page_number)::integer AS rnk
+    FROM file_pages fp
+    JOIN files f ON f.id = fp.file_id
+    WHERE numnode(_tsquery) > 0
+      AND fp.search_vector @@ _tsquery
+      AND (_page_from IS NULL OR fp.page_number >= _page_from)
+      AND (_page_to IS NULL OR fp.page_number <= _page_to)
+    ORDER BY kscore DESC, fp.page_number
+    LIMIT _candidates
+  ),
+  fused AS (
+    SELECT
+      COALESCE(v.f_id, k.f_id) AS f_id,
+      COALESCE(v.p_num, k.p_num) AS p_num,
+      COALESCE(1.0 / (_rrf_k + v.rnk), 0) + COALESCE(1.0 / (_rrf_k + k.rnk), 0) AS rrf,
+      v.rnk AS v_rnk,
+      k.rnk AS k_rnk,
+      v.sim,
+      k.kscore,
+      COALESCE(v.chunk, left(k.page_text, 2000)) AS body,
+      v.c_start,
+      v.c_end
+    FROM vector_ranked v
+    FULL OUTER JOIN keyword_ranked k ON k.f_id = v.f_id AND k.p_num = v.p_num
+  )
+  SELECT fu.f_id, f.name, fu.p_num, fu.rrf::float, fu.v_rnk, fu.k_rnk, fu.sim::float, fu.kscore, fu.body, fu.c_start, fu.c_end
+  FROM fused fu
+  JOIN files f ON f.id = fu.f_id
+  ORDER BY fu.rrf DESC, fu.sim DESC NULLS LAST, fu.p_num
+  LIMIT GREATEST(_match_count, 1);
+END;
+$$;
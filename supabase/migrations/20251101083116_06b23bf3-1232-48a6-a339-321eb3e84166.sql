@@ -0,0 +1,216 @@
+-- Record which model produced each embedding. Vectors from different models are not
+-- comparable, so searches only use rows built with the query's model and stale pages can be re-embedded.
+ALTER TABLE public.document_embeddings
+  ADD COLUMN embedding_model TEXT,
+  ADD COLUMN embedding_dimension INTEGER;
+
+-- Everything embedded so far came from the Lovable gateway's default model
+UPDATE public.document_embeddings
+SET embedding_model = 'text-embedding-3-small',
+    embedding_dimension = 1536
+WHERE embedding IS NOT NULL;
+
+CREATE INDEX idx_document_embeddings_file_model ON public.document_embeddings(file_id, embedding_model);
+
+-- Models in use across a workspace; more than one row means the index is mixed
+CREATE OR REPLACE FUNCTION public.embedding_index_status(_workspace_id UUID)
+RETURNS TABLE (
+  embedding_model TEXT,
+  embedding_dimension INTEGER,
+  file_count INTEGER,
+  chunk_count INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT de.embedding_model, de.embedding_dimension,
+    COUNT(DISTINCT de.file_id)::integer, COUNT(*)::integer
+  FROM document_embeddings de
+  JOIN workspace_files wf ON wf.id = de.file_id
+  WHERE wf.workspace_id = _workspace_id
+  GROUP BY de.embedding_model, de.embedding_dimension
+  ORDER BY COUNT(*) DESC;
+END;
+$$;
+
+-- Pages of a file with stored text whose embeddings are missing or were built with another model
+CREATE OR REPLACE FUNCTION public.stale_embedding_pages(_file_id UUID, _embedding_model TEXT)
+RETURNS TABLE (page_number INTEGER)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT fp.page_number
+  FROM file_pages fp
+  WHERE fp.file_id = _file_id
+    AND btrim(COALESCE(fp.extracted_text, '')) <> ''
+    AND (
+      NOT EXISTS (
+        SELECT 1 FROM document_embeddings de
+        WHERE de.file_id = fp.file_id AND de.page_number = fp.page_number
+      )
+      OR EXISTS (
+        SELECT 1 FROM document_embeddings de
+        WHERE de.file_id = fp.file_id AND de.page_number = fp.page_number
+          AND de.embedding_model IS DISTINCT FROM _embedding_model
+      )
+    )
+  ORDER BY fp.page_number;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS match_documents(vector, float, int, uuid[]);
+
+CREATE OR REPLACE FUNCTION match_documents(
+  query_embedding vector(1536),
+  match_threshold float DEFAULT 0.5,
+  match_count int DEFAULT 5,
+  file_ids uuid[] DEFAULT NULL,
+  embedding_model text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  file_id uuid,
+  page_number int,
+  chunk_index int,
+  content text,
+  similarity float
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    document_embeddings.id,
+    document_embeddings.file_id,
+    document_embeddings.page_number,
+    document_embeddings.chunk_index,
+    document_embeddings.content,
+    1 - (document_embeddings.embedding <=> query_embedding) as similarity
+  FROM document_embeddings
+  WHERE 1 - (document_embeddings.embedding <=> query_embedding) > match_threshold
+    AND (file_ids IS NULL OR document_embeddings.file_id = ANY(file_ids))
+    AND (match_documents.embedding_model IS NULL OR document_embeddings.embedding_model = match_documents.embedding_model)
+  ORDER BY document_embeddings.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.hybrid_search_pages(UUID, TEXT, vector, UUID[], INTEGER, INTEGER, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, FLOAT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.hybrid_search_pages(
+  _workspace_id UUID,
+  _query TEXT,
+  _query_embedding vector(1536) DEFAULT NULL,
+  _file_ids UUID[] DEFAULT NULL,
+  _page_from INTEGER DEFAULT NULL,
+  _page_to INTEGER DEFAULT NULL,
+  _date_from TIMESTAMPTZ DEFAULT NULL,
+  _date_to TIMESTAMPTZ DEFAULT NULL,
+  _match_count INTEGER DEFAULT 10,
+  _min_similarity FLOAT DEFAULT 0.2,
+  _rrf_k INTEGER DEFAULT 60,
+  _embedding_model TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  file_id UUID,
+  file_name TEXT,
+  page_number INTEGER,
+  score FLOAT,
+  vector_rank INTEGER,
+  keyword_rank INTEGER,
+  similarity FLOAT,
+  keyword_score REAL,
+  content TEXT,
+  char_start INTEGER,
+  char_end INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _candidates INTEGER := LEAST(GREATEST(_match_count, 1) * 5, 250);
+  -- Natural-language questions rarely contain every term of a matching page, so any term may match
+  _tsquery TSQUERY := replace(plainto_tsquery('english', COALESCE(_query, ''))::text, '&', '|')::tsquery;
+BEGIN
+  RETURN QUERY
+  WITH files AS (
+    -- Date filters apply to when the document was added to the workspace
+    SELECT wf.id, wf.file_name AS name
+    FROM workspace_files wf
+    WHERE wf.workspace_id = _workspace_id
+      AND (_file_ids IS NULL OR wf.id = ANY(_file_ids))
+      AND (_date_from IS NULL OR wf.created_at >= _date_from)
+      AND (_date_to IS NULL OR wf.created_at <= _date_to)
+  ),
+  chunk_hits AS (
+    SELECT de.file_id AS f_id, de.page_number AS p_num, de.content AS chunk,
+      de.char_start AS c_start, de.char_end AS c_end,
+      1 - (de.embedding <=> _query_embedding) AS sim
+    FROM document_embeddings de
+    JOIN files f ON f.id = de.file_id
+    WHERE _query_embedding IS NOT NULL
+      AND de.embedding IS NOT NULL
+      AND (_page_from IS NULL OR de.page_number >= _page_from)
+      AND (_page_to IS NULL OR de.page_number <= _page_to)
+      AND (_embedding_model IS NULL OR de.embedding_model = _embedding_model)
+      AND 1 - (de.embedding <=> _query_embedding) >= _min_similarity
+    ORDER BY de.embedding <=> _query_embedding
+    LIMIT _candidates * 3
+  ),
+  -- A page is as similar as its best chunk
+  vector_pages AS (
+    SELECT DISTINCT ON (ch.f_id, ch.p_num) ch.f_id, ch.p_num, ch.chunk, ch.c_start, ch.c_end, ch.sim
+    FROM chunk_hits ch
+    ORDER BY ch.f_id, ch.p_num, ch.sim DESC
+  ),
+  vector_ranked AS (
+    SELECT vp.f_id, vp.p_num, vp.chunk, vp.c_start, vp.c_end, vp.sim,
+      row_number() OVER (ORDER BY vp.sim DESC)::integer AS rnk
+    FROM vector_pages vp
+    ORDER BY vp.sim DESC
+    LIMIT _candidates
+  ),
+  keyword_ranked AS (
+    SELECT fp.file_id AS f_id, fp.page_number AS p_num, fp.extracted_text AS page_text,
+      ts_rank_cd(fp.search_vector, _tsquery) AS kscore,
+      row_number() OVER (ORDER BY ts_rank_cd(fp.search_vector, _tsquery) DESC, fp.page_number)::integer AS rnk
+    FROM file_pages fp
+    JOIN files f ON f.id = fp.file_id
+    WHERE numnode(_tsquery) > 0
+      AND fp.search_vector @@ _tsquery
+      AND (_page_from IS NULL OR fp.page_number >= _page_from)
+      AND (_page_to IS NULL OR fp.page_number <= _page_to)
+    ORDER BY kscore DESC, fp.page_number
+    LIMIT _candidates
+  ),
+  fused AS (
+    SELECT
+      COALESCE(v.f_id, k.f_id) AS f_id,
+      COALESCE(v.p_num, k.p_num) AS p_num,
+      COALESCE(1.0 / (_rrf_k + v.rnk), 0) + COALESCE(1.0 / (_rrf_k + k.rnk), 0) AS rrf,
+      v.rnk AS v_rnk,
+      k.rnk AS k_rnk,
+      v.sim,
+      k.kscore,
+      COALESCE(v.chunk, left(k.page_text, 2000)) AS body,
+      v.c_start,
+      v.c_end
+    FROM vector_ranked v
+    FULL OUTER JOIN keyword_ranked k ON k.f_id = v.f_id AND k.p_num = v.p_num
+  )
+  SELECT fu.f_id, f.name, fu.p_num, fu.rrf::float, fu.v_rnk, fu.k_rnk, fu.sim::float, fu.kscore, fu.body, fu.c_start, fu.c_end
+  FROM fused fu
+  JOIN files f ON f.id = fu.f_id
+  ORDER BY fu.rrf DESC, fu.sim DESC NULLS LAST, fu.p_num
+  LIMIT GREATEST(_match_count, 1);
+END;
+$$;
@@ -0,0 +1,70 @@
+-- Editable search categories. Each category belongs to a group (e.g. "Body Regions"), has an
+-- explicit display order, a list of terms with their own match mode and synonyms, and exclusion
+-- terms that drop a page from the results. Categories without an owner are shared with everyone
+-- and managed by admins; the rest are private to the user who created them.
+ALTER TABLE public.search_categories
+  ADD COLUMN group_name TEXT NOT NULL DEFAULT 'Body Regions',
+  ADD COLUMN sort_order INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN match_terms JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN exclusions TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+
+-- The original ids 21-31 were the condition categories, the rest body regions
+UPDATE public.search_categories
+SET group_name = CASE WHEN id BETWEEN 21 AND 31 THEN 'Conditions' ELSE 'Body Regions' END,
+    sort_order = id;
+
+-- Comma-separated terms become structured entries; the old search matched them fuzzily
+UPDATE public.search_categories sc
+SET match_terms = COALESCE((
+  SELECT jsonb_agg(jsonb_build_object('term', t.term, 'mode', 'fuzzy', 'synonyms', '[]'::jsonb) ORDER BY t.ord)
+  FROM (
+    SELECT btrim(raw) AS term, ord
+    FROM unnest(string_to_array(sc.terms, ',')) WITH ORDINALITY AS parts(raw, ord)
+  ) t
+  WHERE t.term <> ''
+), '[]'::jsonb);
+
+ALTER TABLE public.search_categories DROP COLUMN terms;
+ALTER TABLE public.search_categories RENAME COLUMN match_terms TO terms;
+
+ALTER TABLE public.search_categories
+  ADD CONSTRAINT search_categories_terms_is_array CHECK (jsonb_typeof(terms) = 'array');
+
+-- New categories get their ids from a sequence that continues after the seeded ones
+ALTER TABLE public.search_categories ALTER COLUMN id ADD GENERATED BY DEFAULT AS IDENTITY;
+SELECT setval(
+  pg_get_serial_sequence('public.search_categories', 'id'),
+  COALESCE((SELECT MAX(id) FROM public.search_categories), 0) + 1,
+  false
+);
+
+CREATE INDEX idx_search_categories_owner ON public.search_categories(owner_id, group_name, sort_order);
+
+-- Replace the open policies with owner/admin ones
+DROP POLICY IF EXISTS "Anyone can view search categories" ON public.search_categories;
+DROP POLICY IF EXISTS "Anyone can update search category terms" ON public.search_categories;
+
+CREATE POLICY "Users can view shared and own search categories"
+ON public.search_categories
+FOR SELECT
+USING (owner_id IS NULL OR owner_id = auth.uid());
+
+CREATE POLICY "Users can create own or, as admin, shared search categories"
+ON public.search_categories
+FOR INSERT
+TO authenticated
+WITH CHECK (owner_id = auth.uid() OR (owner_id IS NULL AND public.has_role(auth.uid(), 'admin')));
+
+CREATE POLICY "Users can update own or, as admin, shared search categories"
+ON public.search_categories
+FOR UPDATE
+TO authenticated
+USING (owner_id = auth.uid() OR (owner_id IS NULL AND public.has_role(auth.uid(), 'admin')))
+WITH CHECK (owner_id = auth.uid() OR (owner_id IS NULL AND public.has_role(auth.uid(), 'admin')));
+
+CREATE POLICY "Users can delete own or, as admin, shared search categories"
+ON public.search_categories
+FOR DELETE
+TO authenticated
+USING (owner_id = auth.uid() OR (owner_id IS NULL AND public.has_role(auth.uid(), 'admin')));
@@ -0,0 +1,47 @@
+-- Clinical chronology: dated events extracted from a workspace's page text. Each event points
+-- back to the page it came from and keeps the sentence it was found in. The set is rebuilt from
+-- the page text on demand, so rows for a workspace are replaced wholesale rather than edited.
+CREATE TABLE public.clinical_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID REFERENCES public.patient_workspaces(id) ON DELETE CASCADE NOT NULL,
+  file_id UUID REFERENCES public.workspace_files(id) ON DELETE CASCADE NOT NULL,
+  page_number INTEGER NOT NULL,
+  event_date DATE NOT NULL,
+  date_precision TEXT NOT NULL DEFAULT 'day' CHECK (date_precision IN ('day', 'month', 'year')),
+  date_text TEXT NOT NULL,
+  date_ambiguous BOOLEAN NOT NULL DEFAULT false,
+  event_type TEXT NOT NULL CHECK (event_type IN ('presentation', 'imaging', 'surgery', 'diagnosis')),
+  body_region TEXT,
+  snippet TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.clinical_events ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_clinical_events_workspace_date ON public.clinical_events(workspace_id, event_date);
+CREATE INDEX idx_clinical_events_file_page ON public.clinical_events(file_id, page_number);
+
+CREATE POLICY "Users can view events in their workspaces"
+  ON public.clinical_events FOR SELECT
+  USING (
+    workspace_id IN (
+      SELECT id FROM patient_workspaces WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can add events to their workspaces"
+  ON public.clinical_events FOR INSERT
+  WITH CHECK (
+    workspace_id IN (
+      SELECT id FROM patient_workspaces WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete events in their workspaces"
+  ON public.clinical_events FOR DELETE
+  USING (
+    workspace_id IN (
+      SELECT id FROM patient_workspaces WHERE created_by = auth.uid()
+    )
+  );
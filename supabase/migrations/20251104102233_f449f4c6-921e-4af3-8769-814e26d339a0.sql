@@ -0,0 +1,82 @@
+-- Duplicate page groups: pages across a workspace's files that carry the same content, found by
+-- comparing text shingles and perceptual image hashes. One page per group is the canonical copy;
+-- exports and AI scans can skip the others. Groups are rebuilt on demand, replacing the old set.
+CREATE TABLE public.duplicate_page_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID REFERENCES public.patient_workspaces(id) ON DELETE CASCADE NOT NULL,
+  match_type TEXT NOT NULL CHECK (match_type IN ('exact', 'text', 'image')),
+  similarity REAL NOT NULL CHECK (similarity >= 0 AND similarity <= 1),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE public.duplicate_group_pages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID REFERENCES public.duplicate_page_groups(id) ON DELETE CASCADE NOT NULL,
+  file_id UUID REFERENCES public.workspace_files(id) ON DELETE CASCADE NOT NULL,
+  page_number INTEGER NOT NULL,
+  is_canonical BOOLEAN NOT NULL DEFAULT false,
+  UNIQUE (group_id, file_id, page_number)
+);
+
+ALTER TABLE public.duplicate_page_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.duplicate_group_pages ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_duplicate_page_groups_workspace_id ON public.duplicate_page_groups(workspace_id);
+CREATE INDEX idx_duplicate_group_pages_group_id ON public.duplicate_group_pages(group_id);
+-- At most one canonical page per group
+CREATE UNIQUE INDEX idx_duplicate_group_pages_canonical ON public.duplicate_group_pages(group_id) WHERE is_canonical;
+
+CREATE POLICY "Users can view duplicate groups in their workspaces"
+  ON public.duplicate_page_groups FOR SELECT
+  USING (
+    workspace_id IN (
+      SELECT id FROM patient_workspaces WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create duplicate groups in their workspaces"
+  ON public.duplicate_page_groups FOR INSERT
+  WITH CHECK (
+    workspace_id IN (
+      SELECT id FROM patient_workspaces WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete duplicate groups in their workspaces"
+  ON public.duplicate_page_groups FOR DELETE
+  USING (
+    workspace_id IN (
+      SELECT id FROM patient_workspaces WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view pages of their duplicate groups"
+  ON public.duplicate_group_pages FOR SELECT
+  USING (
+    group_id IN (
+      SELECT g.id FROM duplicate_page_groups g
+      JOIN patient_workspaces w ON w.id = g.workspace_id
+      WHERE w.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can add pages to their duplicate groups"
+  ON public.duplicate_group_pages FOR INSERT
+  WITH CHECK (
+    group_id IN (
+      SELECT g.id FROM duplicate_page_groups g
+      JOIN patient_workspaces w ON w.id = g.workspace_id
+      WHERE w.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can choose the canonical page of their duplicate groups"
+  ON public.duplicate_group_pages FOR UPDATE
+  USING (
+    group_id IN (
+      SELECT g.id FROM duplicate_page_groups g
+      JOIN patient_workspaces w ON w.id = g.workspace_id
+      WHERE w.created_by = auth.uid()
+    )
+  );
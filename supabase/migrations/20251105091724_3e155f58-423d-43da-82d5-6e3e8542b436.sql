@@ -0,0 +1,132 @@
+-- Document type of each page, so combined PDFs (GP notes, radiology reports, letters, discharge
+-- summaries and forms in one file) can be viewed as separate documents, split, and searched by type.
+-- A NULL type means the page has not been classified yet.
+ALTER TABLE public.file_pages
+  ADD COLUMN document_type TEXT CHECK (document_type IN (
+    'gp_note', 'imaging_report', 'specialist_letter', 'discharge_summary', 'form', 'other'
+  )),
+  ADD COLUMN document_type_source TEXT CHECK (document_type_source IN ('heuristic', 'ai', 'manual')),
+  -- True when a new logical document begins on this page
+  ADD COLUMN starts_document BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX idx_file_pages_document_type ON public.file_pages(file_id, document_type);
+
+-- Hybrid search can be limited to pages of the given document types
+DROP FUNCTION IF EXISTS public.hybrid_search_pages(UUID, TEXT, vector, UUID[], INTEGER, INTEGER, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, FLOAT, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION public.hybrid_search_pages(
+  _workspace_id UUID,
+  _query TEXT,
+  _query_embedding vector(1536) DEFAULT NULL,
+  _file_ids UUID[] DEFAULT NULL,
+  _page_from INTEGER DEFAULT NULL,
+  _page_to INTEGER DEFAULT NULL,
+  _date_from TIMESTAMPTZ DEFAULT NULL,
+  _date_to TIMESTAMPTZ DEFAULT NULL,
+  _match_count INTEGER DEFAULT 10,
+  _min_similarity FLOAT DEFAULT 0.2,
+  _rrf_k INTEGER DEFAULT 60,
+  _embedding_model TEXT DEFAULT NULL,
+  _document_types TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  file_id UUID,
+  file_name TEXT,
+  page_number INTEGER,
+  score FLOAT,
+  vector_rank INTEGER,
+  keyword_rank INTEGER,
+  similarity FLOAT,
+  keyword_score REAL,
+  content TEXT,
+  char_start INTEGER,
+  char_end INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _candidates INTEGER := LEAST(GREATEST(_match_count, 1) * 5, 250);
+  -- Natural-language questions rarely contain every term of a matching page, so any term may match
+  _tsquery TSQUERY := replace(plainto_tsquery('english', COALESCE(_query, ''))::text, '&', '|')::tsquery;
+BEGIN
+  RETURN QUERY
+  WITH files AS (
+    -- Date filters apply to when the document was added to the workspace
+    SELECT wf.id, wf.file_name AS name
+    FROM workspace_files wf
+    WHERE wf.workspace_id = _workspace_id
+      AND (_file_ids IS NULL OR wf.id = ANY(_file_ids))
+      AND (_date_from IS NULL OR wf.created_at >= _date_from)
+      AND (_date_to IS NULL OR wf.created_at <= _date_to)
+  ),
+  chunk_hits AS (
+    SELECT de.file_id AS f_id, de.page_number AS p_num, de.content AS chunk,
+      de.char_start AS c_start, de.char_end AS c_end,
+      1 - (de.embedding <=> _query_embedding) AS sim
+    FROM document_embeddings de
+    JOIN files f ON f.id = de.file_id
+    WHERE _query_embedding IS NOT NULL
+      AND de.embedding IS NOT NULL
+      AND (_page_from IS NULL OR de.page_number >= _page_from)
+      AND (_page_to IS NULL OR de.page_number <= _page_to)
+      AND (_embedding_model IS NULL OR de.embedding_model = _embedding_model)
+      AND (_document_types IS NULL OR EXISTS (
+        SELECT 1 FROM file_pages dp
+        WHERE dp.file_id = de.file_id AND dp.page_number = de.page_number
+          AND dp.document_type = ANY(_document_types)
+      ))
+      AND 1 - (de.embedding <=> _query_embedding) >= _min_similarity
+    ORDER BY de.embedding <=> _query_embedding
+    LIMIT _candidates * 3
+  ),
+  -- A page is as similar as its best chunk
+  vector_pages AS (
+    SELECT DISTINCT ON (ch.f_id, ch.p_num) ch.f_id, ch.p_num, ch.chunk, ch.c_start, ch.c_end, ch.sim
+    FROM chunk_hits ch
+    ORDER BY ch.f_id, ch.p_num, ch.sim DESC
+  ),
+  vector_ranked AS (
+    SELECT vp.f_id, vp.p_num, vp.chunk, vp.c_start, vp.c_end, vp.sim,
+      row_number() OVER (ORDER BY vp.sim DESC)::integer AS rnk
+    FROM vector_pages vp
+    ORDER BY vp.sim DESC
+    LIMIT _candidates
+  ),
+  keyword_ranked AS (
+    SELECT fp.file_id AS f_id, fp.page_number AS p_num, fp.extracted_text AS page_text,
+      ts_rank_cd(fp.search_vector, _tsquery) AS kscore,
+      row_number() OVER (ORDER BY ts_rank_cd(fp.search_vector, _tsquery) DESC, fp.page_number)::integer AS rnk
+    FROM file_pages fp
+    JOIN files f ON f.id = fp.file_id
+    WHERE numnode(_tsquery) > 0
+      AND fp.search_vector @@ _tsquery
+      AND (_page_from IS NULL OR fp.page_number >= _page_from)
+      AND (_page_to IS NULL OR fp.page_number <= _page_to)
+      AND (_document_types IS NULL OR fp.document_type = ANY(_document_types))
+    ORDER BY kscore DESC, fp.page_number
+    LIMIT _candidates
+  ),
+  fused AS (
+    SELECT
+      COALESCE(v.f_id, k.f_id) AS f_id,
+      COALESCE(v.p_num, k.p_num) AS p_num,
+      COALESCE(1.0 / (_rrf_k + v.rnk), 0) + COALESCE(1.0 / (_rrf_k + k.rnk), 0) AS rrf,
+      v.rnk AS v_rnk,
+      k.rnk AS k_rnk,
+      v.sim,
+      k.kscore,
+      COALESCE(v.chunk, left(k.page_text, 2000)) AS body,
+      v.c_start,
+      v.c_end
+    FROM vector_ranked v
+    FULL OUTER JOIN keyword_ranked k ON k.f_id = v.f_id AND k.p_num = v.p_num
+  )
+  SELECT fu.f_id, f.name, fu.p_num, fu.rrf::float, fu.v_rnk, fu.k_rnk, fu.sim::float, fu.kscore, fu.body, fu.c_start, fu.c_end
+  FROM fused fu
+  JOIN files f ON f.id = fu.f_id
+  ORDER BY fu.rrf DESC, fu.sim DESC NULLS LAST, fu.p_num
+  LIMIT GREATEST(_match_count, 1);
+END;
+$$;
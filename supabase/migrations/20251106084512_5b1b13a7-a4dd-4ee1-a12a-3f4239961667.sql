@@ -0,0 +1,10 @@
+-- Review state of each page, so reviewers can see which pages of a large record they have
+-- actually looked at. Pages start unreviewed; the reviewer and time are recorded on every change.
+ALTER TABLE public.file_pages
+  ADD COLUMN review_status TEXT NOT NULL DEFAULT 'unreviewed' CHECK (review_status IN (
+    'unreviewed', 'relevant', 'irrelevant', 'second_opinion'
+  )),
+  ADD COLUMN reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN reviewed_at TIMESTAMPTZ;
+
+CREATE INDEX idx_file_pages_review_status ON public.file_pages(file_id, review_status);
@@ -0,0 +1,97 @@
+-- Page annotations: highlight boxes, highlighted text ranges, sticky notes and redaction boxes drawn
+-- over a page in the viewer. Rects are stored as fractions (0-1) of the unrotated page, origin at
+-- the top left, so they line up at any zoom or rotation and can be drawn into exported PDFs.
+-- The diagnosis an annotation belongs to decides its colour.
+CREATE TABLE public.page_annotations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID REFERENCES public.patient_workspaces(id) ON DELETE CASCADE NOT NULL,
+  file_id UUID REFERENCES public.workspace_files(id) ON DELETE CASCADE NOT NULL,
+  page_number INTEGER NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('highlight', 'text_highlight', 'note', 'redaction')),
+  rects JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- The selected text of a text highlight
+  quoted_text TEXT,
+  diagnosis TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Comment thread of an annotation; a note's text is its first comment. The author's name is kept
+-- with the comment so it still reads correctly after the account is gone.
+CREATE TABLE public.annotation_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  annotation_id UUID REFERENCES public.page_annotations(id) ON DELETE CASCADE NOT NULL,
+  body TEXT NOT NULL,
+  author_name TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.page_annotations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.annotation_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_page_annotations_file_page ON public.page_annotations(file_id, page_number);
+CREATE INDEX idx_page_annotations_workspace_id ON public.page_annotations(workspace_id);
+CREATE INDEX idx_annotation_comments_annotation_id ON public.annotation_comments(annotation_id);
+
+CREATE POLICY "Users can view annotations in their workspaces"
+  ON public.page_annotations FOR SELECT
+  USING (
+    workspace_id IN (
+      SELECT id FROM patient_workspaces WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can add annotations to their workspaces"
+  ON public.page_annotations FOR INSERT
+  WITH CHECK (
+    workspace_id IN (
+      SELECT id FROM patient_workspaces WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update annotations in their workspaces"
+  ON public.page_annotations FOR UPDATE
+  USING (
+    workspace_id IN (
+      SELECT id FROM patient_workspaces WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete annotations in their workspaces"
+  ON public.page_annotations FOR DELETE
+  USING (
+    workspace_id IN (
+      SELECT id FROM patient_workspaces WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view comments on their annotations"
+  ON public.annotation_comments FOR SELECT
+  USING (
+    annotation_id IN (
+      SELECT a.id FROM page_annotations a
+      JOIN patient_workspaces w ON w.id = a.workspace_id
+      WHERE w.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can comment on their annotations"
+  ON public.annotation_comments FOR INSERT
+  WITH CHECK (
+    annotation_id IN (
+      SELECT a.id FROM page_annotations a
+      JOIN patient_workspaces w ON w.id = a.workspace_id
+      WHERE w.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete their own comments"
+  ON public.annotation_comments FOR DELETE
+  USING (created_by = auth.uid());
+
+CREATE TRIGGER set_updated_at
+  BEFORE UPDATE ON public.page_annotations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
@@ -0,0 +1,103 @@
+-- AI chat threads: conversations about a workspace's records, kept so they survive a reload or a
+-- workspace switch and can be resumed or exported for the claim file. Each message records the
+-- provider and model that answered it and the document context that was retrieved for it.
+CREATE TABLE public.chat_threads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID REFERENCES public.patient_workspaces(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE public.chat_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  thread_id UUID REFERENCES public.chat_threads(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  provider TEXT,
+  model TEXT,
+  -- Retrieved context sent with a user message, and the pages it came from
+  rag_context TEXT,
+  context_pages JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.chat_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_chat_threads_workspace_updated ON public.chat_threads(workspace_id, updated_at DESC);
+CREATE INDEX idx_chat_messages_thread_created ON public.chat_messages(thread_id, created_at);
+
+CREATE POLICY "Users can view chat threads in their workspaces"
+  ON public.chat_threads FOR SELECT
+  USING (
+    workspace_id IN (
+      SELECT id FROM patient_workspaces WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create chat threads in their workspaces"
+  ON public.chat_threads FOR INSERT
+  WITH CHECK (
+    workspace_id IN (
+      SELECT id FROM patient_workspaces WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update chat threads in their workspaces"
+  ON public.chat_threads FOR UPDATE
+  USING (
+    workspace_id IN (
+      SELECT id FROM patient_workspaces WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete chat threads in their workspaces"
+  ON public.chat_threads FOR DELETE
+  USING (
+    workspace_id IN (
+      SELECT id FROM patient_workspaces WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view messages of their chat threads"
+  ON public.chat_messages FOR SELECT
+  USING (
+    thread_id IN (
+      SELECT t.id FROM chat_threads t
+      JOIN patient_workspaces w ON w.id = t.workspace_id
+      WHERE w.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can add messages to their chat threads"
+  ON public.chat_messages FOR INSERT
+  WITH CHECK (
+    thread_id IN (
+      SELECT t.id FROM chat_threads t
+      JOIN patient_workspaces w ON w.id = t.workspace_id
+      WHERE w.created_by = auth.uid()
+    )
+  );
+
+CREATE TRIGGER set_updated_at
+  BEFORE UPDATE ON public.chat_threads
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- A new message moves its thread to the top of the thread list
+CREATE OR REPLACE FUNCTION public.touch_chat_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.chat_threads SET updated_at = NOW() WHERE id = NEW.thread_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_chat_thread
+  AFTER INSERT ON public.chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_chat_thread();
@@ -0,0 +1,4 @@
+-- Source citations parsed from an assistant answer: the source tag the model wrote, the file, page
+-- and character span of the chunk it resolved to, and whether it matched a retrieved source at all
+ALTER TABLE public.chat_messages
+  ADD COLUMN citations JSONB NOT NULL DEFAULT '[]'::jsonb;
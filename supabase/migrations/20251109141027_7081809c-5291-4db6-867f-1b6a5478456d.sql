@@ -0,0 +1,153 @@
+-- Statement of Principles library. Each RMA instrument covers one condition under one standard of
+-- proof (Reasonable Hypothesis or Balance of Probabilities) and is parsed into its ICD codes and
+-- individually numbered factors. Instruments are versioned by effective date: a newer instrument
+-- for the same condition and standard supersedes the older one from the day it takes effect.
+CREATE TABLE public.sop_instruments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  condition TEXT NOT NULL,
+  standard TEXT NOT NULL CHECK (standard IN ('rh', 'bop')),
+  -- As cited by the RMA, e.g. "No. 62 of 2014"
+  instrument_number TEXT NOT NULL,
+  effective_from DATE NOT NULL,
+  icd_codes TEXT[] NOT NULL DEFAULT '{}',
+  source_file_name TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (standard, instrument_number)
+);
+
+CREATE TABLE public.sop_factors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  instrument_id UUID REFERENCES public.sop_instruments(id) ON DELETE CASCADE NOT NULL,
+  -- Numbered as in the instrument, e.g. "9(12)"
+  factor_number TEXT NOT NULL,
+  -- Whether the factor applies to the onset of the condition or to its clinical worsening
+  kind TEXT NOT NULL CHECK (kind IN ('onset', 'worsening')),
+  text TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  UNIQUE (instrument_id, factor_number)
+);
+
+ALTER TABLE public.sop_instruments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sop_factors ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_sop_instruments_condition_version
+  ON public.sop_instruments(lower(condition), standard, effective_from DESC);
+CREATE INDEX idx_sop_instruments_condition_search
+  ON public.sop_instruments USING GIN (to_tsvector('english', condition));
+CREATE INDEX idx_sop_factors_instrument ON public.sop_factors(instrument_id, position);
+
+-- The library is shared by every workspace; only admins maintain it
+CREATE POLICY "Authenticated users can view SOP instruments"
+ON public.sop_instruments
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can insert SOP instruments"
+ON public.sop_instruments
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update SOP instruments"
+ON public.sop_instruments
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete SOP instruments"
+ON public.sop_instruments
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Authenticated users can view SOP factors"
+ON public.sop_factors
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can insert SOP factors"
+ON public.sop_factors
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete SOP factors"
+ON public.sop_factors
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER set_updated_at
+BEFORE UPDATE ON public.sop_instruments
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- Finds instruments by condition name or ICD code, best match first. Only the version in effect
+-- on _as_of is returned for each condition and standard unless superseded versions are asked for;
+-- instruments that take effect after _as_of are never returned.
+CREATE OR REPLACE FUNCTION public.search_sop_instruments(
+  _query TEXT DEFAULT NULL,
+  _as_of DATE DEFAULT CURRENT_DATE,
+  _include_superseded BOOLEAN DEFAULT false,
+  _match_count INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  condition TEXT,
+  standard TEXT,
+  instrument_number TEXT,
+  effective_from DATE,
+  icd_codes TEXT[],
+  factor_count INTEGER,
+  is_current BOOLEAN,
+  rank REAL
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _terms TEXT := btrim(COALESCE(_query, ''));
+  -- Diagnoses are phrased loosely ("Right knee - osteoarthritis"), so any term may match
+  _tsquery TSQUERY := CASE
+    WHEN btrim(COALESCE(_query, '')) = '' THEN NULL
+    ELSE replace(plainto_tsquery('english', _query)::text, '&', '|')::tsquery
+  END;
+BEGIN
+  RETURN QUERY
+  WITH versions AS (
+    SELECT si.*,
+      row_number() OVER (PARTITION BY lower(si.condition), si.standard ORDER BY si.effective_from DESC) AS version_rank
+    FROM sop_instruments si
+    WHERE si.effective_from <= _as_of
+  ),
+  matches AS (
+    SELECT v.*,
+      (CASE WHEN _tsquery IS NULL THEN 0 ELSE ts_rank(to_tsvector('english', v.condition), _tsquery) END
+        + CASE WHEN _terms <> '' AND v.condition ILIKE '%' || _terms || '%' THEN 1 ELSE 0 END
+        + CASE WHEN _terms <> '' AND EXISTS (
+            SELECT 1 FROM unnest(v.icd_codes) code WHERE code ILIKE _terms || '%'
+          ) THEN 1 ELSE 0 END)::real AS score
+    FROM versions v
+    WHERE (_include_superseded OR v.version_rank = 1)
+      AND (
+        _terms = ''
+        OR (_tsquery IS NOT NULL AND to_tsvector('english', v.condition) @@ _tsquery)
+        OR v.condition ILIKE '%' || _terms || '%'
+        OR EXISTS (SELECT 1 FROM unnest(v.icd_codes) code WHERE code ILIKE _terms || '%')
+      )
+  )
+  SELECT m.id, m.condition, m.standard, m.instrument_number, m.effective_from, m.icd_codes,
+    (SELECT COUNT(*)::integer FROM sop_factors sf WHERE sf.instrument_id = m.id),
+    m.version_rank = 1,
+    m.score
+  FROM matches m
+  ORDER BY m.score DESC, m.condition, m.standard, m.effective_from DESC
+  LIMIT GREATEST(_match_count, 1);
+END;
+$$;
@@ -0,0 +1,30 @@
+-- Replace a workspace's clinical chronology in one transaction, so a failed save leaves the
+-- previous events in place instead of an empty or half-written chronology
+CREATE OR REPLACE FUNCTION public.replace_clinical_events(_workspace_id UUID, _events JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM clinical_events WHERE workspace_id = _workspace_id;
+
+  INSERT INTO clinical_events (
+    workspace_id, file_id, page_number, event_date, date_precision, date_text,
+    date_ambiguous, event_type, body_region, snippet
+  )
+  SELECT
+    _workspace_id, e.file_id, e.page_number, e.event_date, e.date_precision, e.date_text,
+    e.date_ambiguous, e.event_type, e.body_region, e.snippet
+  FROM jsonb_to_recordset(COALESCE(_events, '[]'::jsonb)) AS e(
+    file_id UUID,
+    page_number INTEGER,
+    event_date DATE,
+    date_precision TEXT,
+    date_text TEXT,
+    date_ambiguous BOOLEAN,
+    event_type TEXT,
+    body_region TEXT,
+    snippet TEXT
+  );
+END;
+$$;
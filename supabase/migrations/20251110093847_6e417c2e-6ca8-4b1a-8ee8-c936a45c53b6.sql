@@ -0,0 +1,29 @@
+-- Replace a workspace's duplicate page groups in one transaction, so a failed save keeps the
+-- previous groups and canonical choices instead of leaving the workspace partly grouped
+CREATE OR REPLACE FUNCTION public.replace_duplicate_groups(_workspace_id UUID, _groups JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _group JSONB;
+  _group_id UUID;
+BEGIN
+  DELETE FROM duplicate_page_groups WHERE workspace_id = _workspace_id;
+
+  FOR _group IN SELECT value FROM jsonb_array_elements(COALESCE(_groups, '[]'::jsonb))
+  LOOP
+    INSERT INTO duplicate_page_groups (workspace_id, match_type, similarity)
+    VALUES (_workspace_id, _group->>'match_type', (_group->>'similarity')::real)
+    RETURNING id INTO _group_id;
+
+    INSERT INTO duplicate_group_pages (group_id, file_id, page_number, is_canonical)
+    SELECT _group_id, p.file_id, p.page_number, COALESCE(p.is_canonical, false)
+    FROM jsonb_to_recordset(COALESCE(_group->'pages', '[]'::jsonb)) AS p(
+      file_id UUID,
+      page_number INTEGER,
+      is_canonical BOOLEAN
+    );
+  END LOOP;
+END;
+$$;
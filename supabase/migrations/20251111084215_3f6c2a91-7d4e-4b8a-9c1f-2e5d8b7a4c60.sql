@@ -0,0 +1,116 @@
+-- Rank SOP matches by how the query names the condition before the text score: an exact condition
+-- name first, then an ICD code written in the query, then a condition named within the query
+-- ("Right knee osteoarthritis" names "osteoarthritis"), longest first. Only then does the OR'd
+-- text rank decide, so a loosely related condition can no longer win on word overlap or on its
+-- place in the alphabet.
+CREATE OR REPLACE FUNCTION public.search_sop_instruments(
+  _query TEXT DEFAULT NULL,
+  _as_of DATE DEFAULT CURRENT_DATE,
+  _include_superseded BOOLEAN DEFAULT false,
+  _match_count INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  condition TEXT,
+  standard TEXT,
+  instrument_number TEXT,
+  effective_from DATE,
+  icd_codes TEXT[],
+  factor_count INTEGER,
+  is_current BOOLEAN,
+  rank REAL
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _terms TEXT := btrim(COALESCE(_query, ''));
+  -- Words of the query as ICD codes are written, e.g. "M17.1"
+  _codes TEXT[] := regexp_split_to_array(upper(btrim(COALESCE(_query, ''))), '[^A-Z0-9.]+');
+  -- Diagnoses are phrased loosely ("Right knee - osteoarthritis"), so any term may match
+  _tsquery TSQUERY := CASE
+    WHEN btrim(COALESCE(_query, '')) = '' THEN NULL
+    ELSE replace(plainto_tsquery('english', _query)::text, '&', '|')::tsquery
+  END;
+BEGIN
+  RETURN QUERY
+  WITH versions AS (
+    SELECT si.*,
+      row_number() OVER (PARTITION BY lower(si.condition), si.standard ORDER BY si.effective_from DESC) AS version_rank
+    FROM sop_instruments si
+    WHERE si.effective_from <= _as_of
+  ),
+  tiered AS (
+    SELECT v.*,
+      CASE
+        WHEN _terms <> '' AND lower(v.condition) = lower(_terms) THEN 3
+        WHEN EXISTS (SELECT 1 FROM unnest(v.icd_codes) code WHERE upper(code) = ANY(_codes) AND code <> '') THEN 2
+        WHEN _terms <> '' AND v.condition <> '' AND strpos(lower(_terms), lower(v.condition)) > 0 THEN 1
+        ELSE 0
+      END AS match_tier
+    FROM versions v
+    WHERE _include_superseded OR v.version_rank = 1
+  ),
+  matches AS (
+    SELECT t.*,
+      (CASE WHEN _tsquery IS NULL THEN 0 ELSE ts_rank(to_tsvector('english', t.condition), _tsquery) END
+        + CASE WHEN _terms <> '' AND t.condition ILIKE '%' || _terms || '%' THEN 1 ELSE 0 END
+        + CASE WHEN _terms <> '' AND EXISTS (
+            SELECT 1 FROM unnest(t.icd_codes) code WHERE code ILIKE _terms || '%'
+          ) THEN 1 ELSE 0 END)::real AS score
+    FROM tiered t
+    WHERE _terms = ''
+      OR t.match_tier > 0
+      OR (_tsquery IS NOT NULL AND to_tsvector('english', t.condition) @@ _tsquery)
+      OR t.condition ILIKE '%' || _terms || '%'
+      OR EXISTS (SELECT 1 FROM unnest(t.icd_codes) code WHERE code ILIKE _terms || '%')
+  )
+  SELECT m.id, m.condition, m.standard, m.instrument_number, m.effective_from, m.icd_codes,
+    (SELECT COUNT(*)::integer FROM sop_factors sf WHERE sf.instrument_id = m.id),
+    m.version_rank = 1,
+    m.score
+  FROM matches m
+  ORDER BY
+    m.match_tier DESC,
+    CASE WHEN m.match_tier = 1 THEN length(m.condition) ELSE 0 END DESC,
+    m.score DESC,
+    m.condition, m.standard, m.effective_from DESC
+  LIMIT GREATEST(_match_count, 1);
+END;
+$$;
+
+-- Save an instrument with its factors in one transaction, so a failure can't leave an instrument
+-- without its factors. Runs as the caller, so only admins can add to the library.
+CREATE OR REPLACE FUNCTION public.save_sop_instrument(
+  _condition TEXT,
+  _standard TEXT,
+  _instrument_number TEXT,
+  _effective_from DATE,
+  _icd_codes TEXT[],
+  _factors JSONB,
+  _source_file_name TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _instrument_id UUID;
+BEGIN
+  INSERT INTO sop_instruments (condition, standard, instrument_number, effective_from, icd_codes, source_file_name)
+  VALUES (btrim(_condition), _standard, btrim(_instrument_number), _effective_from, COALESCE(_icd_codes, '{}'), _source_file_name)
+  RETURNING id INTO _instrument_id;
+
+  INSERT INTO sop_factors (instrument_id, factor_number, kind, text, position)
+  SELECT _instrument_id, f.factor_number, f.kind, f.text, f.position
+  FROM jsonb_to_recordset(COALESCE(_factors, '[]'::jsonb)) AS f(
+    factor_number TEXT,
+    kind TEXT,
+    text TEXT,
+    position INTEGER
+  );
+
+  RETURN _instrument_id;
+END;
+$$;
@@ -0,0 +1,65 @@
+-- Bates numbering per workspace. The next number lives here rather than in the browser so two
+-- tabs or two users exporting from the same workspace never stamp the same reference.
+CREATE TABLE public.bates_counters (
+  workspace_id UUID NOT NULL PRIMARY KEY REFERENCES public.patient_workspaces(id) ON DELETE CASCADE,
+  next_number INTEGER NOT NULL DEFAULT 1 CHECK (next_number > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.bates_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view bates counters in their workspaces"
+  ON public.bates_counters FOR SELECT
+  USING (
+    workspace_id IN (
+      SELECT id FROM patient_workspaces WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create bates counters in their workspaces"
+  ON public.bates_counters FOR INSERT
+  WITH CHECK (
+    workspace_id IN (
+      SELECT id FROM patient_workspaces WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update bates counters in their workspaces"
+  ON public.bates_counters FOR UPDATE
+  USING (
+    workspace_id IN (
+      SELECT id FROM patient_workspaces WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE TRIGGER set_updated_at
+  BEFORE UPDATE ON public.bates_counters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Reserve _count consecutive numbers and move the counter past them. The upsert locks the
+-- workspace's row, so concurrent exports get disjoint ranges.
+CREATE OR REPLACE FUNCTION public.take_bates_numbers(_workspace_id UUID, _count INTEGER)
+RETURNS TABLE (first_number INTEGER, last_number INTEGER)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _next INTEGER;
+BEGIN
+  IF _count IS NULL OR _count < 1 THEN
+    RAISE EXCEPTION 'Cannot take % Bates numbers', _count;
+  END IF;
+
+  INSERT INTO bates_counters AS c (workspace_id, next_number)
+  VALUES (_workspace_id, 1 + _count)
+  ON CONFLICT (workspace_id) DO UPDATE
+    SET next_number = c.next_number + _count
+  RETURNING c.next_number INTO _next;
+
+  first_number := _next - _count;
+  last_number := _next - 1;
+  RETURN NEXT;
+END;
+$$;
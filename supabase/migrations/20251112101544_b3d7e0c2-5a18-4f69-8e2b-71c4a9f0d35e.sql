@@ -0,0 +1,22 @@
+-- Move a group's canonical page in one transaction. The unique index on canonical pages is
+-- checked row by row, so the old choice is cleared before the new one is set; if the new page
+-- is not in the group nothing changes.
+CREATE OR REPLACE FUNCTION public.set_canonical_page(_group_id UUID, _file_id UUID, _page_number INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE duplicate_group_pages
+  SET is_canonical = false
+  WHERE group_id = _group_id AND is_canonical;
+
+  UPDATE duplicate_group_pages
+  SET is_canonical = true
+  WHERE group_id = _group_id AND file_id = _file_id AND page_number = _page_number;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Page % of file % is not in duplicate group %', _page_number, _file_id, _group_id;
+  END IF;
+END;
+$$;